@@ -0,0 +1,133 @@
+// Stand-in auth server for local portal development.
+// Implements the same /api/auth endpoints the portal expects from the backend:
+//   POST /api/auth/login    { email, password }  -> { accessToken, refreshToken, expiresIn, user }
+//   POST /api/auth/refresh  { refreshToken }     -> { accessToken, refreshToken, expiresIn, user }
+//   POST /api/auth/logout   { refreshToken }     -> 204
+//   GET  /api/auth/me       (Bearer token)       -> { user }
+//
+// Usage: npm run dev:auth, then start the portal with VITE_AUTH_BASE_URL=http://localhost:5002
+// Tokens are kept in memory and vanish when the process exits. Never deploy this.
+
+import http from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.AUTH_PORT || 5002);
+const ACCESS_TTL_SECONDS = Number(process.env.AUTH_ACCESS_TTL || 15 * 60);
+const REFRESH_TTL_SECONDS = Number(process.env.AUTH_REFRESH_TTL || 7 * 24 * 60 * 60);
+
+// Development accounts, one per portal role (see src/services/permissions.ts).
+// Override the admin login with DEV_AUTH_EMAIL / DEV_AUTH_PASSWORD.
+const DEV_PASSWORD = process.env.DEV_AUTH_PASSWORD || 'godlykids';
+const USERS = [
+    { id: 'dev-admin', email: process.env.DEV_AUTH_EMAIL || 'admin@gk.com', name: 'Dev Admin', roles: ['admin'] },
+    { id: 'dev-editor', email: 'editor@gk.com', name: 'Dev Editor', roles: ['editor'] },
+    { id: 'dev-reviewer', email: 'reviewer@gk.com', name: 'Dev Reviewer', roles: ['reviewer'] },
+    { id: 'dev-approver', email: 'approver@gk.com', name: 'Dev Approver', roles: ['approver'] },
+    { id: 'dev-radio', email: 'radio@gk.com', name: 'Dev Radio Producer', roles: ['radio-producer'] },
+    { id: 'dev-analyst', email: 'analyst@gk.com', name: 'Dev Analyst', roles: ['analyst'] },
+    { id: 'dev-viewer', email: 'viewer@gk.com', name: 'Dev Viewer', roles: ['viewer'] },
+].map((user) => ({ ...user, password: DEV_PASSWORD }));
+
+const accessTokens = new Map(); // token -> { userId, expiresAt }
+const refreshTokens = new Map(); // token -> { userId, expiresAt }
+
+const publicUser = ({ password: _password, ...user }) => user;
+
+const issueTokens = (user) => {
+    const now = Date.now();
+    const accessToken = randomBytes(24).toString('hex');
+    const refreshToken = randomBytes(32).toString('hex');
+    accessTokens.set(accessToken, { userId: user.id, expiresAt: now + ACCESS_TTL_SECONDS * 1000 });
+    refreshTokens.set(refreshToken, { userId: user.id, expiresAt: now + REFRESH_TTL_SECONDS * 1000 });
+    return { accessToken, refreshToken, expiresIn: ACCESS_TTL_SECONDS, user: publicUser(user) };
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readJson = (req) =>
+    new Promise((resolve) => {
+        let raw = '';
+        req.on('data', (chunk) => { raw += chunk; });
+        req.on('end', () => {
+            try {
+                resolve(raw ? JSON.parse(raw) : {});
+            } catch {
+                resolve({});
+            }
+        });
+    });
+
+const findValid = (store, token) => {
+    const entry = token && store.get(token);
+    if (!entry) return null;
+    if (entry.expiresAt < Date.now()) {
+        store.delete(token);
+        return null;
+    }
+    return USERS.find((u) => u.id === entry.userId) || null;
+};
+
+const server = http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+
+    if (req.method === 'POST' && pathname === '/api/auth/login') {
+        const { email, password } = await readJson(req);
+        const user = USERS.find((u) => u.email.toLowerCase() === String(email || '').toLowerCase());
+        if (!user || user.password !== password) {
+            send(res, 401, { message: 'Invalid email or password' });
+            return;
+        }
+        send(res, 200, issueTokens(user));
+        return;
+    }
+
+    if (req.method === 'POST' && pathname === '/api/auth/refresh') {
+        const { refreshToken } = await readJson(req);
+        const user = findValid(refreshTokens, refreshToken);
+        if (!user) {
+            send(res, 401, { message: 'Refresh token expired or revoked' });
+            return;
+        }
+        // Rotate: a refresh token is single-use
+        refreshTokens.delete(refreshToken);
+        send(res, 200, issueTokens(user));
+        return;
+    }
+
+    if (req.method === 'POST' && pathname === '/api/auth/logout') {
+        const { refreshToken } = await readJson(req);
+        refreshTokens.delete(refreshToken);
+        send(res, 204);
+        return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/auth/me') {
+        const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+        const user = findValid(accessTokens, token);
+        if (!user) {
+            send(res, 401, { message: 'Not authenticated' });
+            return;
+        }
+        send(res, 200, { user: publicUser(user) });
+        return;
+    }
+
+    send(res, 404, { message: `No stand-in route for ${req.method} ${pathname}` });
+});
+
+server.listen(PORT, () => {
+    console.log(`🔐 Dev auth server listening on http://localhost:${PORT}`);
+    USERS.forEach((user) => console.log(`   ${user.roles.join(', ').padEnd(15)} ${user.email} / ${user.password}`));
+});
@@ -1,4 +1,4 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { Route, RouterProvider, createBrowserRouter, createRoutesFromElements } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import ProtectedRoute from './components/ProtectedRoute';
 import Layout from './components/Layout';
@@ -14,6 +14,7 @@ import BookSeriesForm from './pages/BookSeriesForm';
 import BookReader from './pages/BookReader';
 import PageEditor from './pages/PageEditor';
 import Categories from './pages/Categories';
+import Fonts from './pages/Fonts';
 import Voices from './pages/Voices';
 import Games from './pages/Games';
 import Lessons from './pages/Lessons';
@@ -30,54 +31,64 @@ import RadioHosts from './pages/RadioHosts';
 import RadioLibrary from './pages/RadioLibrary';
 import RadioShowBuilder from './pages/RadioShowBuilder';
 import RadioPreviewPage from './pages/RadioPreviewPage';
+import Trash from './pages/Trash';
+import ReviewQueue from './pages/ReviewQueue';
+
+// Data router so pages can use navigation blocking (see components/UnsavedChangesGuard)
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <>
+      {/* Public Route */}
+      <Route path="/login" element={<Login />} />
+    
+      {/* Protected Routes */}
+      <Route path="/" element={
+        <ProtectedRoute>
+          <Layout />
+        </ProtectedRoute>
+      }>
+        <Route index element={<ProtectedRoute section="dashboard"><Dashboard /></ProtectedRoute>} />
+        <Route path="books" element={<ProtectedRoute section="content"><Books /></ProtectedRoute>} />
+        <Route path="books/new" element={<ProtectedRoute section="content"><BookForm /></ProtectedRoute>} />
+        <Route path="books/edit/:bookId" element={<ProtectedRoute section="content"><BookEdit /></ProtectedRoute>} />
+        <Route path="books/read/:bookId" element={<ProtectedRoute section="content"><BookReader /></ProtectedRoute>} />
+        <Route path="pages/new/:bookId" element={<ProtectedRoute section="content"><PageEditor /></ProtectedRoute>} />
+        <Route path="playlists" element={<ProtectedRoute section="content"><Playlists /></ProtectedRoute>} />
+        <Route path="playlists/new" element={<ProtectedRoute section="content"><PlaylistForm /></ProtectedRoute>} />
+        <Route path="playlists/edit/:id" element={<ProtectedRoute section="content"><PlaylistForm /></ProtectedRoute>} />
+        <Route path="book-series" element={<ProtectedRoute section="content"><BookSeries /></ProtectedRoute>} />
+        <Route path="book-series/new" element={<ProtectedRoute section="content"><BookSeriesForm /></ProtectedRoute>} />
+        <Route path="book-series/:id" element={<ProtectedRoute section="content"><BookSeriesForm /></ProtectedRoute>} />
+        <Route path="categories" element={<ProtectedRoute section="content"><Categories /></ProtectedRoute>} />
+        <Route path="fonts" element={<ProtectedRoute section="content"><Fonts /></ProtectedRoute>} />
+        <Route path="review-queue" element={<ProtectedRoute section="content"><ReviewQueue /></ProtectedRoute>} />
+        <Route path="trash" element={<ProtectedRoute section="content"><Trash /></ProtectedRoute>} />
+        <Route path="voices" element={<ProtectedRoute section="voices"><Voices /></ProtectedRoute>} />
+        <Route path="games" element={<ProtectedRoute section="games"><Games /></ProtectedRoute>} />
+        <Route path="lessons" element={<ProtectedRoute section="content"><Lessons /></ProtectedRoute>} />
+        <Route path="lessons/new" element={<ProtectedRoute section="content"><LessonForm /></ProtectedRoute>} />
+        <Route path="lessons/edit/:id" element={<ProtectedRoute section="content"><LessonForm /></ProtectedRoute>} />
+        <Route path="lessons/calendar" element={<ProtectedRoute section="content"><LessonCalendarPage /></ProtectedRoute>} />
+        <Route path="notifications" element={<ProtectedRoute section="notifications"><Notifications /></ProtectedRoute>} />
+        <Route path="music" element={<ProtectedRoute section="music"><MusicManagement /></ProtectedRoute>} />
+        <Route path="featured" element={<ProtectedRoute section="content"><FeaturedContent /></ProtectedRoute>} />
+        <Route path="new-user-welcome" element={<ProtectedRoute section="content"><NewUserWelcome /></ProtectedRoute>} />
+        <Route path="analytics" element={<ProtectedRoute section="analytics"><AnalyticsDashboard /></ProtectedRoute>} />
+        <Route path="onboarding-analytics" element={<ProtectedRoute section="analytics"><OnboardingAnalytics /></ProtectedRoute>} />
+        <Route path="radio" element={<ProtectedRoute section="radio"><Radio /></ProtectedRoute>} />
+        <Route path="radio/hosts" element={<ProtectedRoute section="radio"><RadioHosts /></ProtectedRoute>} />
+        <Route path="radio/library" element={<ProtectedRoute section="radio"><RadioLibrary /></ProtectedRoute>} />
+        <Route path="radio/show-builder" element={<ProtectedRoute section="radio"><RadioShowBuilder /></ProtectedRoute>} />
+        <Route path="radio/preview" element={<ProtectedRoute section="radio"><RadioPreviewPage /></ProtectedRoute>} />
+      </Route>
+    </>
+  )
+);
 
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <Routes>
-          {/* Public Route */}
-          <Route path="/login" element={<Login />} />
-          
-          {/* Protected Routes */}
-          <Route path="/" element={
-            <ProtectedRoute>
-              <Layout />
-            </ProtectedRoute>
-          }>
-            <Route index element={<Dashboard />} />
-            <Route path="books" element={<Books />} />
-            <Route path="books/new" element={<BookForm />} />
-            <Route path="books/edit/:bookId" element={<BookEdit />} />
-            <Route path="books/read/:bookId" element={<BookReader />} />
-            <Route path="pages/new/:bookId" element={<PageEditor />} />
-            <Route path="playlists" element={<Playlists />} />
-            <Route path="playlists/new" element={<PlaylistForm />} />
-            <Route path="playlists/edit/:id" element={<PlaylistForm />} />
-            <Route path="book-series" element={<BookSeries />} />
-            <Route path="book-series/new" element={<BookSeriesForm />} />
-            <Route path="book-series/:id" element={<BookSeriesForm />} />
-            <Route path="categories" element={<Categories />} />
-            <Route path="voices" element={<Voices />} />
-            <Route path="games" element={<Games />} />
-            <Route path="lessons" element={<Lessons />} />
-            <Route path="lessons/new" element={<LessonForm />} />
-            <Route path="lessons/edit/:id" element={<LessonForm />} />
-            <Route path="lessons/calendar" element={<LessonCalendarPage />} />
-            <Route path="notifications" element={<Notifications />} />
-            <Route path="music" element={<MusicManagement />} />
-            <Route path="featured" element={<FeaturedContent />} />
-            <Route path="new-user-welcome" element={<NewUserWelcome />} />
-            <Route path="analytics" element={<AnalyticsDashboard />} />
-            <Route path="onboarding-analytics" element={<OnboardingAnalytics />} />
-            <Route path="radio" element={<Radio />} />
-            <Route path="radio/hosts" element={<RadioHosts />} />
-            <Route path="radio/library" element={<RadioLibrary />} />
-            <Route path="radio/show-builder" element={<RadioShowBuilder />} />
-            <Route path="radio/preview" element={<RadioPreviewPage />} />
-          </Route>
-        </Routes>
-      </Router>
+      <RouterProvider router={router} />
     </AuthProvider>
   );
 }
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, CheckCircle2, FileArchive, Upload, X } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { type BookImport, type PackageProgress, BookPackageError, importBookPackage } from '../services/bookPackage';
+
+interface BookPackageImportProps {
+    onClose: () => void;
+    // Called once the book exists, so the list can show it
+    onImported: () => void;
+}
+
+// Recreates a book exported from BookEdit (services/bookPackage) as a new draft
+const BookPackageImport: React.FC<BookPackageImportProps> = ({ onClose, onImported }) => {
+    const [file, setFile] = useState<File | null>(null);
+    const [progress, setProgress] = useState<PackageProgress | null>(null);
+    const [result, setResult] = useState<BookImport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const running = progress !== null && !result && !error;
+
+    const handleImport = async () => {
+        if (!file) return;
+        setError(null);
+        setProgress({ label: 'Reading the package', done: 0, total: 1 });
+        try {
+            const imported = await importBookPackage(file, setProgress);
+            setResult(imported);
+            onImported();
+        } catch (err) {
+            console.error('Book import failed:', err);
+            setError(err instanceof BookPackageError ? err.message : getApiErrorMessage(err, 'Failed to import the book'));
+            setProgress(null);
+        }
+    };
+
+    const percent = progress ? Math.round((progress.done / Math.max(1, progress.total)) * 100) : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg max-w-lg w-full mx-4 shadow-2xl flex flex-col max-h-[90vh]">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                        <FileArchive className="w-5 h-5 text-indigo-600" />
+                        Import Book
+                    </h3>
+                    <button onClick={onClose} disabled={running} className="text-gray-400 hover:text-gray-600 disabled:opacity-50" title="Close">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {!result && (
+                        <>
+                            <p className="text-sm text-gray-600">
+                                Choose a zip made with <strong>Export</strong> on a book's edit page. The book is created as a new draft and
+                                its media is uploaded again.
+                            </p>
+                            <label className={`flex items-center justify-center gap-2 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 ${running ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}>
+                                <FileArchive className="w-4 h-4" /> {file?.name || 'Choose book package (.zip)'}
+                                <input
+                                    type="file"
+                                    accept=".zip,application/zip"
+                                    disabled={running}
+                                    onChange={(e) => {
+                                        setFile(e.target.files?.[0] ?? null);
+                                        setError(null);
+                                    }}
+                                    className="hidden"
+                                />
+                            </label>
+                        </>
+                    )}
+
+                    {progress && !result && (
+                        <div className="space-y-1">
+                            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                                <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }} />
+                            </div>
+                            <p className="text-xs text-gray-500 truncate">{progress.label}</p>
+                        </div>
+                    )}
+
+                    {error && (
+                        <p className="text-sm bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 whitespace-pre-line">{error}</p>
+                    )}
+
+                    {result && (
+                        <div className="space-y-3">
+                            <p className="text-sm text-green-800 bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2">
+                                <CheckCircle2 className="w-4 h-4 shrink-0 mt-0.5" />
+                                "{result.book.title}" was imported as a draft.
+                            </p>
+                            {result.failed.length > 0 && (
+                                <div className="text-sm bg-amber-50 border border-amber-200 rounded-lg p-3 text-amber-800">
+                                    <p className="font-medium flex items-center gap-2">
+                                        <AlertTriangle className="w-4 h-4" />
+                                        {result.failed.length} file{result.failed.length === 1 ? '' : 's'} could not be uploaded and {result.failed.length === 1 ? 'was' : 'were'} left empty:
+                                    </p>
+                                    <ul className="mt-1 list-disc pl-6 text-xs space-y-0.5">
+                                        {result.failed.map((line) => <li key={line}>{line}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-2 p-4 border-t border-gray-200">
+                    {result ? (
+                        <>
+                            <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50">
+                                Close
+                            </button>
+                            <Link
+                                to={`/books/edit/${result.book._id}`}
+                                className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700"
+                            >
+                                Open book
+                            </Link>
+                        </>
+                    ) : (
+                        <button
+                            onClick={handleImport}
+                            disabled={!file || running}
+                            className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                        >
+                            <Upload className="w-4 h-4" /> {running ? 'Importing...' : 'Import'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BookPackageImport;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, ListChecks, Loader2, RotateCcw, X, XCircle } from 'lucide-react';
+import { type ValidationIssue, countIssues } from '../utils/bookValidation';
+
+interface BookValidationReportProps {
+    title: string;
+    issues: ValidationIssue[];
+    // Shown when the report was opened because publishing was refused
+    blocked?: boolean;
+    checking?: boolean;
+    onRecheck: () => void;
+    onClose: () => void;
+}
+
+const IssueRow: React.FC<{ issue: ValidationIssue }> = ({ issue }) => (
+    <li className="flex items-start gap-2 py-1.5 text-sm">
+        {issue.severity === 'error'
+            ? <XCircle className="w-4 h-4 text-red-600 shrink-0 mt-0.5" />
+            : <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />}
+        <span className="text-gray-800">{issue.message}</span>
+    </li>
+);
+
+// Checklist from utils/bookValidation, book-level issues first, then page by page
+const BookValidationReport: React.FC<BookValidationReportProps> = ({ title, issues, blocked, checking, onRecheck, onClose }) => {
+    const { errors, warnings } = countIssues(issues);
+    const bookIssues = issues.filter((issue) => issue.pageNumber === undefined);
+    const pageNumbers = Array.from(new Set(issues.flatMap((issue) => issue.pageNumber ?? []))).sort((a, b) => a - b);
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg max-w-2xl w-full mx-4 shadow-2xl flex flex-col max-h-[90vh]">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                        <ListChecks className="w-5 h-5 text-indigo-600" />
+                        Validation · {title}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className={`px-4 py-3 border-b text-sm font-medium ${errors ? 'bg-red-50 border-red-200 text-red-800' : warnings ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+                    {errors
+                        ? `${blocked ? 'Publishing blocked: ' : ''}${errors} error${errors === 1 ? '' : 's'} must be fixed before publishing${warnings ? `, plus ${warnings} warning${warnings === 1 ? '' : 's'}` : ''}.`
+                        : warnings
+                            ? `Ready to publish, with ${warnings} warning${warnings === 1 ? '' : 's'} to look at.`
+                            : (
+                                <span className="flex items-center gap-2"><CheckCircle2 className="w-4 h-4" /> Ready to publish. No problems found.</span>
+                            )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {bookIssues.length > 0 && (
+                        <section>
+                            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1">Book</h4>
+                            <ul>{bookIssues.map((issue, idx) => <IssueRow key={idx} issue={issue} />)}</ul>
+                        </section>
+                    )}
+                    {pageNumbers.map((pageNumber) => (
+                        <section key={pageNumber}>
+                            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1">Page {pageNumber}</h4>
+                            <ul>
+                                {issues
+                                    .filter((issue) => issue.pageNumber === pageNumber)
+                                    .map((issue, idx) => <IssueRow key={idx} issue={issue} />)}
+                            </ul>
+                        </section>
+                    ))}
+                </div>
+
+                <div className="flex justify-end gap-2 p-4 border-t border-gray-200">
+                    <button
+                        onClick={onRecheck}
+                        disabled={checking}
+                        className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
+                    >
+                        {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />} Check again
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700">
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BookValidationReport;
@@ -1,31 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { Eye, BookOpen, Heart, Bookmark, Trophy, HelpCircle, Palette, Gamepad2, ArrowUpDown, TrendingUp, TrendingDown } from 'lucide-react';
-import apiClient from '../services/apiClient';
+import { booksApi } from '../services/api';
+import { type Book } from '../types';
 import { Link } from 'react-router-dom';
 
-interface BookAnalytics {
-    _id: string;
-    title: string;
-    author: string;
-    coverImage?: string;
-    status: string;
-    viewCount: number;
-    readCount: number;
-    likeCount: number;
-    favoriteCount: number;
-    quizStartCount: number;
-    quizCompletionCount: number;
-    coloringSessionsCount: number;
-    gameUnlockCount: number;
-    gameOpenCount: number;
-    averageCompletionRate: number;
-}
-
 type SortField = 'viewCount' | 'readCount' | 'likeCount' | 'favoriteCount' | 'quizCompletionCount' | 'averageCompletionRate' | 'gameOpenCount';
 type SortDirection = 'asc' | 'desc';
 
 const BooksAnalytics: React.FC = () => {
-    const [books, setBooks] = useState<BookAnalytics[]>([]);
+    const [books, setBooks] = useState<Book[]>([]);
     const [loading, setLoading] = useState(true);
     const [sortField, setSortField] = useState<SortField>('viewCount');
     const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
@@ -34,28 +17,9 @@ const BooksAnalytics: React.FC = () => {
         fetchBooksAnalytics();
     }, []);
 
-    // Fetch all pages of books (handles pagination)
-    const fetchAllBooks = async (): Promise<BookAnalytics[]> => {
-        const pageSize = 100;
-        let page = 1;
-        let results: BookAnalytics[] = [];
-
-        while (true) {
-            const res = await apiClient.get(`/api/books?status=all&page=${page}&limit=${pageSize}`);
-            const payload = res.data;
-            const pageItems: BookAnalytics[] = Array.isArray(payload) ? payload : (payload.data || []);
-            results = results.concat(pageItems);
-
-            const hasMore = Array.isArray(payload) ? false : Boolean(payload.pagination?.hasMore);
-            if (!hasMore) break;
-            page += 1;
-        }
-        return results;
-    };
-
     const fetchBooksAnalytics = async () => {
         try {
-            const booksData = await fetchAllBooks();
+            const booksData = await booksApi.list({ status: 'all' });
             console.log(`📊 Analytics: Loaded ${booksData.length} books (all pages)`);
             setBooks(booksData);
         } catch (error) {
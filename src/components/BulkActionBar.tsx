@@ -0,0 +1,68 @@
+import React from 'react';
+import { type LucideIcon, X } from 'lucide-react';
+
+export interface BulkAction {
+    label: string;
+    icon: LucideIcon;
+    onClick: () => void;
+    danger?: boolean;
+}
+
+// An action that needs a value first, e.g. which category to assign
+export interface BulkChoice {
+    label: string;
+    options: { value: string; label: string }[];
+    onChoose: (value: string) => void;
+}
+
+interface BulkActionBarProps {
+    count: number;
+    // Plural name of what is selected, e.g. "books"
+    noun: string;
+    actions: BulkAction[];
+    choices?: BulkChoice[];
+    disabled?: boolean;
+    onClear: () => void;
+}
+
+// Sticks to the top of the list while anything is selected
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, noun, actions, choices = [], disabled, onClear }) => (
+    <div className="sticky top-0 z-20 mb-4 flex flex-wrap items-center gap-2 bg-indigo-50 border border-indigo-200 rounded-lg px-4 py-3 shadow-sm">
+        <span className="text-sm font-semibold text-indigo-800 mr-2">
+            {count} {noun} selected
+        </span>
+        {actions.map((action) => (
+            <button
+                key={action.label}
+                onClick={action.onClick}
+                disabled={disabled}
+                className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${action.danger
+                    ? 'bg-white border-red-200 text-red-600 hover:bg-red-50'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+            >
+                <action.icon className="w-4 h-4" />
+                {action.label}
+            </button>
+        ))}
+        {choices.map((choice) => (
+            <select
+                key={choice.label}
+                value=""
+                onChange={(e) => e.target.value && choice.onChoose(e.target.value)}
+                disabled={disabled || choice.options.length === 0}
+                className="border border-gray-300 rounded-lg px-2 py-1.5 text-sm bg-white text-gray-700 disabled:opacity-50"
+            >
+                <option value="">{choice.label}…</option>
+                {choice.options.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+            </select>
+        ))}
+        <button onClick={onClear} className="ml-auto text-gray-500 hover:text-gray-700" title="Clear selection">
+            <X className="w-4 h-4" />
+        </button>
+    </div>
+);
+
+export default BulkActionBar;
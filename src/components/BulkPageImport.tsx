@@ -0,0 +1,369 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle2, FileText, FolderOpen, Image, Loader2, RotateCcw, Upload, Video, X } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { type UploadResult, defaultPageTemplateKey, pageTemplatesApi, pagesApi, uploadsApi } from '../services/api';
+import { type PageTemplate, newPageFromLayout } from '../types';
+import { parsePageScript } from '../utils/pageScript';
+
+interface BulkPageImportProps {
+    bookId: string;
+    onClose: () => void;
+}
+
+interface ImportRow {
+    pageNumber: number;
+    file?: File;
+    text: string;
+}
+
+type RowStatus = 'pending' | 'uploading' | 'creating' | 'done' | 'failed';
+
+interface RowProgress {
+    status: RowStatus;
+    percent: number;
+    // Kept so a retry after a failed create doesn't upload the file again
+    uploaded?: UploadResult;
+    error?: string;
+}
+
+const isMedia = (file: File) => file.type.startsWith('image/') || file.type.startsWith('video/');
+
+// page2.jpg sorts before page10.jpg
+const byFilename = (a: File, b: File) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+const StatusCell: React.FC<{ progress?: RowProgress }> = ({ progress }) => {
+    switch (progress?.status) {
+        case 'uploading':
+            return (
+                <div className="w-28">
+                    <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-600 transition-all" style={{ width: `${progress.percent}%` }} />
+                    </div>
+                    <span className="text-xs text-gray-500">Uploading {progress.percent}%</span>
+                </div>
+            );
+        case 'creating':
+            return <span className="text-xs text-indigo-700 flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> Creating page</span>;
+        case 'done':
+            return <span className="text-xs text-green-700 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> Created</span>;
+        case 'failed':
+            return <span className="text-xs text-red-600 flex items-center gap-1" title={progress.error}><AlertCircle className="w-3 h-3" /> {progress.error}</span>;
+        default:
+            return <span className="text-xs text-gray-400">Waiting</span>;
+    }
+};
+
+// Creates a run of pages from background files paired in filename order with the blocks of a script
+const BulkPageImport: React.FC<BulkPageImportProps> = ({ bookId, onClose }) => {
+    const [files, setFiles] = useState<File[]>([]);
+    const [scriptName, setScriptName] = useState('');
+    const [blocks, setBlocks] = useState<string[]>([]);
+    const [scriptError, setScriptError] = useState('');
+    const [templates, setTemplates] = useState<PageTemplate[]>([]);
+    const [templateId, setTemplateId] = useState(() => localStorage.getItem(defaultPageTemplateKey(bookId)) || '');
+    const [existingNumbers, setExistingNumbers] = useState<number[]>([]);
+    const [startPage, setStartPage] = useState(1);
+    const [loading, setLoading] = useState(true);
+    const [running, setRunning] = useState(false);
+    const [progress, setProgress] = useState<Record<number, RowProgress>>({});
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                const [pages, templateList] = await Promise.all([pagesApi.listByBook(bookId), pageTemplatesApi.list()]);
+                const numbers = pages.map((p) => p.pageNumber);
+                setExistingNumbers(numbers);
+                setStartPage(numbers.length ? Math.max(...numbers) + 1 : 1);
+                setTemplates(templateList);
+            } catch (err) {
+                console.error('Failed to load pages and templates:', err);
+                alert(getApiErrorMessage(err, 'Failed to load pages and templates'));
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchData();
+    }, [bookId]);
+
+    const rows: ImportRow[] = Array.from({ length: Math.max(files.length, blocks.length) }, (_, idx) => ({
+        pageNumber: startPage + idx,
+        file: files[idx],
+        text: blocks[idx] ?? '',
+    }));
+    const template = templates.find((t) => t._id === templateId) ?? null;
+    const started = Object.keys(progress).length > 0;
+    const conflicts = rows.filter((row) => existingNumbers.includes(row.pageNumber)).map((row) => row.pageNumber);
+    const doneCount = Object.values(progress).filter((p) => p.status === 'done').length;
+    const failedIdx = rows.map((_, idx) => idx).filter((idx) => progress[idx]?.status === 'failed');
+
+    const updateRow = (idx: number, patch: Partial<RowProgress>) => {
+        setProgress((prev) => ({ ...prev, [idx]: { ...(prev[idx] ?? { status: 'pending', percent: 0 }), ...patch } }));
+    };
+
+    const handleMediaFiles = (list: FileList | null) => {
+        if (!list) return;
+        setFiles(Array.from(list).filter(isMedia).sort(byFilename));
+    };
+
+    const handleScriptFile = async (file: File | undefined) => {
+        if (!file) return;
+        setScriptName(file.name);
+        try {
+            setBlocks(parsePageScript(file.name, await file.text()));
+            setScriptError('');
+        } catch (err) {
+            console.error('Failed to read script:', err);
+            setBlocks([]);
+            setScriptError((err as Error).message);
+        }
+    };
+
+    const importRow = async (row: ImportRow, idx: number, previous?: RowProgress) => {
+        try {
+            let uploaded = previous?.uploaded;
+            if (row.file && !uploaded) {
+                updateRow(idx, { status: 'uploading', percent: 0, error: undefined });
+                uploaded = await uploadsApi.upload(
+                    row.file.type.startsWith('video/') ? 'video' : 'image',
+                    row.file,
+                    { bookId, type: 'pages', pageNumber: row.pageNumber },
+                    {
+                        onUploadProgress: (e) => {
+                            if (e.total) updateRow(idx, { percent: Math.round((e.loaded / e.total) * 100) });
+                        },
+                    }
+                );
+                updateRow(idx, { uploaded });
+            }
+
+            updateRow(idx, { status: 'creating', percent: 100, error: undefined });
+            await pagesApi.create(newPageFromLayout({
+                bookId,
+                pageNumber: row.pageNumber,
+                backgroundUrl: uploaded?.url,
+                backgroundType: row.file?.type.startsWith('video/') ? 'video' : 'image',
+                backgroundAudioUrl: uploaded?.backgroundAudioUrl,
+            }, template, row.text));
+            updateRow(idx, { status: 'done' });
+        } catch (err) {
+            console.error(`Failed to import page ${row.pageNumber}:`, err);
+            updateRow(idx, { status: 'failed', error: getApiErrorMessage(err, 'Import failed') });
+        }
+    };
+
+    // Pages are created one at a time so they land in order
+    const runImport = async (indices: number[]) => {
+        setRunning(true);
+        for (const idx of indices) {
+            await importRow(rows[idx], idx, progress[idx]);
+        }
+        setRunning(false);
+    };
+
+    const inputsLocked = started || running;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg max-w-4xl w-full mx-4 shadow-2xl flex flex-col max-h-[90vh]">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                        <Upload className="w-5 h-5 text-indigo-600" />
+                        Bulk Import Pages
+                    </h3>
+                    <button onClick={onClose} disabled={running} className="text-gray-400 hover:text-gray-600 disabled:opacity-50" title="Close">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {loading ? (
+                        <p className="text-sm text-gray-500">Loading pages and templates...</p>
+                    ) : (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider">Backgrounds</label>
+                                <div className="flex gap-2">
+                                    <label className={`flex-1 flex items-center justify-center gap-2 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 ${inputsLocked ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}>
+                                        <Image className="w-4 h-4" /> Choose files
+                                        <input
+                                            type="file"
+                                            multiple
+                                            accept="image/*,video/*"
+                                            disabled={inputsLocked}
+                                            onChange={(e) => handleMediaFiles(e.target.files)}
+                                            className="hidden"
+                                        />
+                                    </label>
+                                    <label className={`flex-1 flex items-center justify-center gap-2 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 ${inputsLocked ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}>
+                                        <FolderOpen className="w-4 h-4" /> Choose folder
+                                        <input
+                                            type="file"
+                                            // React doesn't type the directory picker attribute
+                                            ref={(el) => el?.setAttribute('webkitdirectory', '')}
+                                            disabled={inputsLocked}
+                                            onChange={(e) => handleMediaFiles(e.target.files)}
+                                            className="hidden"
+                                        />
+                                    </label>
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    {files.length
+                                        ? `${files.length} image/video file${files.length === 1 ? '' : 's'}, in filename order`
+                                        : 'Images or videos, one per page, ordered by filename'}
+                                </p>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider">Script</label>
+                                <label className={`flex items-center justify-center gap-2 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 ${inputsLocked ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}>
+                                    <FileText className="w-4 h-4" /> {scriptName || 'Choose CSV, JSON or text file'}
+                                    <input
+                                        type="file"
+                                        accept=".csv,.json,.txt,text/plain,text/csv,application/json"
+                                        disabled={inputsLocked}
+                                        onChange={(e) => handleScriptFile(e.target.files?.[0])}
+                                        className="hidden"
+                                    />
+                                </label>
+                                {scriptError ? (
+                                    <p className="text-xs text-red-600">{scriptError}</p>
+                                ) : (
+                                    <p className="text-xs text-gray-500">
+                                        {scriptName
+                                            ? `${blocks.length} page${blocks.length === 1 ? '' : 's'} of text`
+                                            : 'Plain text pages are separated by blank lines or ---. @Character tags are kept.'}
+                                    </p>
+                                )}
+                            </div>
+
+                            <div className="space-y-1">
+                                <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider">Layout Template</label>
+                                <select
+                                    value={templateId}
+                                    onChange={(e) => setTemplateId(e.target.value)}
+                                    disabled={inputsLocked}
+                                    className="w-full border rounded px-2 py-1.5 text-sm"
+                                >
+                                    <option value="">None (one centred text box)</option>
+                                    {templates.map((t) => (
+                                        <option key={t._id} value={t._id}>{t.name}</option>
+                                    ))}
+                                </select>
+                                {template && template.textBoxes.length > 1 && (
+                                    <p className="text-xs text-gray-500">The script text goes into the template's first text box.</p>
+                                )}
+                            </div>
+
+                            <div className="space-y-1">
+                                <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider">First Page Number</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={startPage}
+                                    onChange={(e) => setStartPage(parseInt(e.target.value) || 1)}
+                                    disabled={inputsLocked}
+                                    className="w-24 border rounded px-2 py-1.5 text-sm"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {files.length > 0 && blocks.length > 0 && files.length !== blocks.length && (
+                        <p className="text-sm bg-amber-50 border border-amber-200 rounded-lg p-3 text-amber-800">
+                            {files.length} background{files.length === 1 ? '' : 's'} but {blocks.length} page{blocks.length === 1 ? '' : 's'} of text.
+                            {files.length > blocks.length ? ' The last pages will have no text.' : ' The last pages will have no background.'}
+                        </p>
+                    )}
+                    {!started && conflicts.length > 0 && (
+                        <p className="text-sm bg-red-50 border border-red-200 rounded-lg p-3 text-red-700">
+                            Page{conflicts.length === 1 ? '' : 's'} {conflicts.join(', ')} already exist{conflicts.length === 1 ? 's' : ''}. Start numbering after them.
+                        </p>
+                    )}
+
+                    {rows.length > 0 && (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider border-b border-gray-200">
+                                    <th className="py-2 pr-2">Page</th>
+                                    <th className="py-2 pr-2">Background</th>
+                                    <th className="py-2 pr-2">Text</th>
+                                    <th className="py-2">Status</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map((row, idx) => (
+                                    <tr key={idx} className="border-b border-gray-100 align-top">
+                                        <td className="py-2 pr-2 font-medium text-gray-700">{row.pageNumber}</td>
+                                        <td className="py-2 pr-2 text-gray-600 max-w-[12rem]">
+                                            {row.file ? (
+                                                <span className="flex items-center gap-1 truncate" title={row.file.name}>
+                                                    {row.file.type.startsWith('video/') ? <Video className="w-3 h-3 shrink-0" /> : <Image className="w-3 h-3 shrink-0" />}
+                                                    {row.file.name}
+                                                </span>
+                                            ) : (
+                                                <span className="text-gray-400">None</span>
+                                            )}
+                                        </td>
+                                        <td className="py-2 pr-2 text-gray-600">
+                                            <p className="line-clamp-2 whitespace-pre-line">{row.text || <span className="text-gray-400">No text</span>}</p>
+                                        </td>
+                                        <td className="py-2">
+                                            <div className="flex items-center gap-2">
+                                                <StatusCell progress={progress[idx]} />
+                                                {progress[idx]?.status === 'failed' && !running && (
+                                                    <button
+                                                        onClick={() => runImport([idx])}
+                                                        className="text-indigo-600 hover:text-indigo-800"
+                                                        title="Retry this page"
+                                                    >
+                                                        <RotateCcw className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between gap-3 p-4 border-t border-gray-200">
+                    <p className="text-sm text-gray-600">
+                        {started && `${doneCount} of ${rows.length} page${rows.length === 1 ? '' : 's'} created${failedIdx.length ? `, ${failedIdx.length} failed` : ''}`}
+                    </p>
+                    <div className="flex gap-2">
+                        {failedIdx.length > 0 && (
+                            <button
+                                onClick={() => runImport(failedIdx)}
+                                disabled={running}
+                                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
+                            >
+                                <RotateCcw className="w-4 h-4" /> Retry failed
+                            </button>
+                        )}
+                        {started ? (
+                            <button
+                                onClick={onClose}
+                                disabled={running}
+                                className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                {running ? 'Importing...' : 'Done'}
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => runImport(rows.map((_, idx) => idx))}
+                                disabled={loading || rows.length === 0 || conflicts.length > 0}
+                                className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                            >
+                                <Upload className="w-4 h-4" /> Create {rows.length} page{rows.length === 1 ? '' : 's'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BulkPageImport;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { AlertCircle, CheckCircle2, Circle, Loader2, RotateCcw } from 'lucide-react';
+import { type BulkItemStatus, type BulkRun } from '../hooks/useBulkAction';
+
+interface BulkProgressDialogProps {
+    run: BulkRun;
+    onRetry: () => void;
+    onClose: () => void;
+}
+
+const STATUS_ICONS: Record<BulkItemStatus, React.ReactNode> = {
+    pending: <Circle className="w-4 h-4 text-gray-300" />,
+    running: <Loader2 className="w-4 h-4 text-indigo-600 animate-spin" />,
+    done: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+    failed: <AlertCircle className="w-4 h-4 text-red-600" />,
+};
+
+const BulkProgressDialog: React.FC<BulkProgressDialogProps> = ({ run, onRetry, onClose }) => {
+    const finished = run.results.filter((r) => r.status === 'done' || r.status === 'failed').length;
+    const failed = run.results.filter((r) => r.status === 'failed');
+    const percent = run.results.length ? Math.round((finished / run.results.length) * 100) : 100;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg max-w-lg w-full mx-4 shadow-2xl flex flex-col max-h-[80vh]">
+                <div className="p-4 border-b border-gray-200 space-y-2">
+                    <h3 className="text-lg font-bold text-gray-800">{run.title}</h3>
+                    <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full transition-all ${failed.length ? 'bg-amber-500' : 'bg-indigo-600'}`}
+                            style={{ width: `${percent}%` }}
+                        />
+                    </div>
+                    <p className="text-sm text-gray-600">
+                        {run.running
+                            ? `${finished} of ${run.results.length} done...`
+                            : failed.length
+                                ? `${run.results.length - failed.length} succeeded, ${failed.length} failed.`
+                                : `All ${run.results.length} succeeded.`}
+                    </p>
+                </div>
+
+                <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+                    {run.results.map((result) => (
+                        <li key={result.id} className="flex items-start gap-2 px-4 py-2 text-sm">
+                            <span className="mt-0.5 shrink-0">{STATUS_ICONS[result.status]}</span>
+                            <div className="min-w-0">
+                                <p className="text-gray-800 truncate">{result.label}</p>
+                                {result.error && <p className="text-xs text-red-600">{result.error}</p>}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="flex justify-end gap-2 p-4 border-t border-gray-200">
+                    {failed.length > 0 && !run.running && (
+                        <button
+                            onClick={onRetry}
+                            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                        >
+                            <RotateCcw className="w-4 h-4" /> Retry {failed.length} failed
+                        </button>
+                    )}
+                    <button
+                        onClick={onClose}
+                        disabled={run.running}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                        {run.running ? 'Working...' : 'Close'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BulkProgressDialog;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { type HistoryEntry } from '../hooks/useUndoHistory';
+
+interface HistoryPanelProps {
+    past: HistoryEntry<unknown>[];
+    future: HistoryEntry<unknown>[];
+    // Steps to move: negative undoes, positive redoes
+    onTravel: (delta: number) => void;
+    onClose: () => void;
+    // Label for the state before any recorded change
+    originLabel?: string;
+}
+
+// Lists undo history oldest first; clicking an entry jumps to the state right after it
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ past, future, onTravel, onClose, originLabel = 'Opened' }) => {
+    const itemClass = (current: boolean, undone = false) =>
+        `w-full text-left px-3 py-1.5 transition ${current
+            ? 'bg-indigo-50 text-indigo-700 font-semibold'
+            : undone
+                ? 'text-gray-400 hover:bg-gray-50'
+                : 'text-gray-700 hover:bg-gray-50'
+            }`;
+
+    return (
+        <div className="w-64 bg-white rounded-lg shadow-xl border border-gray-200 overflow-hidden">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50">
+                <h3 className="text-xs font-bold text-gray-800 uppercase tracking-wider">History</h3>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close history">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+            <ol className="max-h-80 overflow-y-auto text-sm py-1">
+                <li>
+                    <button onClick={() => onTravel(-past.length)} className={itemClass(past.length === 0)}>
+                        {originLabel}
+                    </button>
+                </li>
+                {past.map((entry, idx) => (
+                    <li key={entry.id}>
+                        <button onClick={() => onTravel(idx + 1 - past.length)} className={itemClass(idx === past.length - 1)}>
+                            {entry.label}
+                        </button>
+                    </li>
+                ))}
+                {future.map((entry, idx) => (
+                    <li key={entry.id}>
+                        <button onClick={() => onTravel(idx + 1)} className={itemClass(false, true)}>
+                            {entry.label}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+            <p className="px-3 py-2 border-t border-gray-200 text-xs text-gray-400">
+                Ctrl+Z to undo, Ctrl+Shift+Z to redo
+            </p>
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -1,39 +1,46 @@
 import React from 'react';
 import { Link, Outlet, useLocation, useNavigate } from 'react-router-dom';
-import { Book, Music, Layout as LayoutIcon, Home, Tag, Volume2, Gamepad2, Video, LogOut, Bell, Music2, Star, CalendarDays, BarChart3, Library, Sparkles, TrendingUp, Radio } from 'lucide-react';
+import { Book, Music, Layout as LayoutIcon, Home, Tag, Volume2, Gamepad2, Video, LogOut, Bell, Music2, Star, CalendarDays, BarChart3, Library, Sparkles, TrendingUp, Radio, Trash2, ClipboardCheck, Type } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { ROLE_LABELS, type Section } from '../services/permissions';
 
 const Layout: React.FC = () => {
     const location = useLocation();
     const navigate = useNavigate();
-    const { logout } = useAuth();
+    const { logout, user, roles, canView } = useAuth();
 
     const isActive = (path: string) => location.pathname === path;
 
-    const handleLogout = () => {
-        logout();
+    const handleLogout = async () => {
+        await logout();
         navigate('/login');
     };
 
-    const navItems = [
-        { path: '/', icon: Home, label: 'Dashboard' },
-        { path: '/analytics', icon: BarChart3, label: 'Content Analytics' },
-        { path: '/onboarding-analytics', icon: TrendingUp, label: 'Onboarding Analytics' },
-        { path: '/featured', icon: Star, label: 'Featured' },
-        { path: '/new-user-welcome', icon: Sparkles, label: 'New User Welcome' },
-        { path: '/books', icon: Book, label: 'Books' },
-        { path: '/book-series', icon: Library, label: 'Book Series' },
-        { path: '/playlists', icon: Music, label: 'Playlists' },
-        { path: '/lessons', icon: Video, label: 'Lessons' },
-        { path: '/lessons/calendar', icon: CalendarDays, label: 'Lesson Calendar' },
-        { path: '/categories', icon: Tag, label: 'Categories' },
-        { path: '/voices', icon: Volume2, label: 'Voices' },
-        { path: '/games', icon: Gamepad2, label: 'Games' },
-        { path: '/notifications', icon: Bell, label: 'Notifications' },
-        { path: '/music', icon: Music2, label: 'Music' },
-        { path: '/radio', icon: Radio, label: 'Radio Station' },
+    const navItems: Array<{ path: string; icon: typeof Home; label: string; section: Section }> = [
+        { path: '/', icon: Home, label: 'Dashboard', section: 'dashboard' },
+        { path: '/analytics', icon: BarChart3, label: 'Content Analytics', section: 'analytics' },
+        { path: '/onboarding-analytics', icon: TrendingUp, label: 'Onboarding Analytics', section: 'analytics' },
+        { path: '/featured', icon: Star, label: 'Featured', section: 'content' },
+        { path: '/new-user-welcome', icon: Sparkles, label: 'New User Welcome', section: 'content' },
+        { path: '/books', icon: Book, label: 'Books', section: 'content' },
+        { path: '/book-series', icon: Library, label: 'Book Series', section: 'content' },
+        { path: '/playlists', icon: Music, label: 'Playlists', section: 'content' },
+        { path: '/lessons', icon: Video, label: 'Lessons', section: 'content' },
+        { path: '/lessons/calendar', icon: CalendarDays, label: 'Lesson Calendar', section: 'content' },
+        { path: '/categories', icon: Tag, label: 'Categories', section: 'content' },
+        { path: '/fonts', icon: Type, label: 'Fonts', section: 'content' },
+        { path: '/review-queue', icon: ClipboardCheck, label: 'Review Queue', section: 'content' },
+        { path: '/trash', icon: Trash2, label: 'Trash', section: 'content' },
+        { path: '/voices', icon: Volume2, label: 'Voices', section: 'voices' },
+        { path: '/games', icon: Gamepad2, label: 'Games', section: 'games' },
+        { path: '/notifications', icon: Bell, label: 'Notifications', section: 'notifications' },
+        { path: '/music', icon: Music2, label: 'Music', section: 'music' },
+        { path: '/radio', icon: Radio, label: 'Radio Station', section: 'radio' },
     ];
 
+    // Only show sections the signed-in user's roles can open
+    const visibleNavItems = navItems.filter(item => canView(item.section));
+
     return (
         <div className="flex h-screen bg-gray-100">
             {/* Sidebar */}
@@ -45,7 +52,7 @@ const Layout: React.FC = () => {
                     </h1>
                 </div>
                 <nav className="mt-6 flex-1">
-                    {navItems.map((item) => (
+                    {visibleNavItems.map((item) => (
                         <Link
                             key={item.path}
                             to={item.path}
@@ -58,8 +65,16 @@ const Layout: React.FC = () => {
                     ))}
                 </nav>
                 
-                {/* Logout Button */}
+                {/* Signed-in user + Logout Button */}
                 <div className="p-4 border-t border-gray-200">
+                    {user && (
+                        <div className="px-4 pb-3">
+                            <p className="text-sm font-medium text-gray-800 truncate">{user.name || user.email}</p>
+                            <p className="text-xs text-gray-500 truncate">
+                                {roles.map(role => ROLE_LABELS[role]).join(', ')}
+                            </p>
+                        </div>
+                    )}
                     <button
                         onClick={handleLogout}
                         className="flex items-center w-full px-4 py-2 text-gray-600 hover:bg-red-50 hover:text-red-600 rounded-lg transition-colors"
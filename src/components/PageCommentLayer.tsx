@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { CheckCircle2, X } from 'lucide-react';
+import { type PageComments } from '../hooks/usePageComments';
+import { type ReviewComment } from '../types';
+
+interface PageCommentLayerProps {
+    comments: PageComments;
+    // null while the page hasn't been saved yet; comments need a page id
+    page: { _id: string; pageNumber: number } | null;
+    // The next click on the page drops a new pin
+    placing: boolean;
+    onPlaced: () => void;
+    canComment: boolean;
+}
+
+const authorName = (comment: ReviewComment) => comment.author?.name || comment.author?.email || 'Unknown';
+
+// Keeps the popover inside the page: it opens to the left of pins on the right half
+const popoverStyle = (x: number, y: number): React.CSSProperties => ({
+    top: `${Math.min(y, 70)}%`,
+    ...(x > 50 ? { right: `${100 - x + 2}%` } : { left: `${x + 2}%` }),
+});
+
+// Stops clicks on pins and popovers from reaching the canvas (selection, dragging) or the reader (scroll toggle)
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+// Numbered comment pins over a book page, with threaded replies. Sits inside the page
+// element (PageEditor canvas, BookReader page) and positions everything in percent.
+const PageCommentLayer: React.FC<PageCommentLayerProps> = ({ comments, page, placing, onPlaced, canComment }) => {
+    const [openId, setOpenId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<{ x: number; y: number } | null>(null);
+    const [text, setText] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    if (!page) return null;
+    const pins = comments.pins(page._id).filter((c) => !c.resolved);
+    const open = pins.find((c) => c._id === openId);
+
+    const handlePlace = (e: React.MouseEvent<HTMLDivElement>) => {
+        e.stopPropagation();
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = Math.round(((e.clientX - rect.left) / rect.width) * 1000) / 10;
+        const y = Math.round(((e.clientY - rect.top) / rect.height) * 1000) / 10;
+        setDraft({ x, y });
+        setOpenId(null);
+        setText('');
+        onPlaced();
+    };
+
+    const handlePost = async () => {
+        const body = text.trim();
+        if (!body || busy) return;
+        setBusy(true);
+        if (draft) {
+            const created = await comments.addPin(page, draft.x, draft.y, body);
+            if (created) {
+                setDraft(null);
+                setOpenId(created._id);
+                setText('');
+            }
+        } else if (open) {
+            await comments.reply(open, body);
+            setText('');
+        }
+        setBusy(false);
+    };
+
+    const handleResolve = async (thread: ReviewComment) => {
+        await comments.setResolved(thread, true);
+        setOpenId(null);
+    };
+
+    const composer = (placeholder: string, submitLabel: string, onCancel?: () => void) => (
+        <div className="space-y-2 pt-2">
+            <textarea
+                autoFocus
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handlePost();
+                }}
+                rows={2}
+                placeholder={placeholder}
+                className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <div className="flex justify-end gap-2">
+                {onCancel && (
+                    <button onClick={onCancel} className="px-3 py-1 text-xs text-gray-600 hover:text-gray-800">
+                        Cancel
+                    </button>
+                )}
+                <button
+                    onClick={handlePost}
+                    disabled={busy || !text.trim()}
+                    className="px-3 py-1 bg-indigo-600 text-white rounded text-xs font-semibold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                    {submitLabel}
+                </button>
+            </div>
+        </div>
+    );
+
+    return (
+        <div
+            className={`absolute inset-0 z-40 ${placing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+            onMouseDown={placing ? stop : undefined}
+            onClick={placing ? handlePlace : undefined}
+        >
+            {pins.map((pin, idx) => (
+                <button
+                    key={pin._id}
+                    onMouseDown={stop}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        setDraft(null);
+                        setText('');
+                        setOpenId(openId === pin._id ? null : pin._id);
+                    }}
+                    className={`pointer-events-auto absolute -translate-x-1/2 -translate-y-full w-7 h-7 rounded-full rounded-bl-none border-2 border-white shadow-md text-xs font-bold text-white flex items-center justify-center ${pin._id === openId ? 'bg-indigo-600' : 'bg-amber-500 hover:bg-amber-600'}`}
+                    style={{ left: `${pin.anchor.x}%`, top: `${pin.anchor.y}%` }}
+                    title={pin.body}
+                >
+                    {idx + 1}
+                </button>
+            ))}
+
+            {draft && (
+                <>
+                    <span
+                        className="absolute -translate-x-1/2 -translate-y-full w-7 h-7 rounded-full rounded-bl-none border-2 border-white shadow-md bg-indigo-600"
+                        style={{ left: `${draft.x}%`, top: `${draft.y}%` }}
+                    />
+                    <div
+                        className="pointer-events-auto absolute w-72 bg-white rounded-lg shadow-xl border border-gray-200 p-3 cursor-default"
+                        style={popoverStyle(draft.x, draft.y)}
+                        onMouseDown={stop}
+                        onClick={stop}
+                    >
+                        <p className="text-xs font-semibold text-gray-700">New comment on page {page.pageNumber}</p>
+                        {composer('What should change here?', 'Post', () => setDraft(null))}
+                    </div>
+                </>
+            )}
+
+            {open && (
+                <div
+                    className="pointer-events-auto absolute w-72 max-h-[60%] overflow-y-auto bg-white rounded-lg shadow-xl border border-gray-200 p-3 cursor-default text-sm"
+                    style={popoverStyle(open.anchor.x ?? 0, open.anchor.y ?? 0)}
+                    onMouseDown={stop}
+                    onClick={stop}
+                >
+                    <div className="flex items-center justify-between mb-2">
+                        {canComment ? (
+                            <button
+                                onClick={() => handleResolve(open)}
+                                className="text-xs text-green-700 hover:text-green-800 flex items-center gap-1"
+                            >
+                                <CheckCircle2 className="w-3 h-3" /> Resolve
+                            </button>
+                        ) : <span />}
+                        <button onClick={() => setOpenId(null)} className="text-gray-400 hover:text-gray-600" title="Close">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <ul className="space-y-2">
+                        {[open, ...comments.replies(open._id)].map((comment) => (
+                            <li key={comment._id} className={comment === open ? '' : 'pl-3 border-l-2 border-gray-200'}>
+                                <p className="text-xs text-gray-500">{authorName(comment)} · {new Date(comment.createdAt).toLocaleString()}</p>
+                                <p className="text-gray-800 whitespace-pre-line">{comment.body}</p>
+                            </li>
+                        ))}
+                    </ul>
+                    {canComment && composer('Reply...', 'Reply')}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PageCommentLayer;
@@ -0,0 +1,405 @@
+import React, { useEffect, useState } from 'react';
+import { LayoutTemplate, Loader2, RefreshCw, Save, Star, Trash2, X } from 'lucide-react';
+import { getApiErrorMessage, getMediaUrl } from '../services/apiClient';
+import { pageTemplatesApi, pagesApi } from '../services/api';
+import { type Page, type PageLayout, type PageTemplate, applyLayoutToPage, normalizeTextBox, toLayoutTextBox } from '../types';
+
+type LayoutPreview = PageLayout & { thumbnailUrl?: string };
+
+interface PageTemplateLibraryProps {
+    bookId: string;
+    bookTitle?: string;
+    pages: Page[];
+    // Layout of the page in the editor; null when it can't be saved yet (scroll image not uploaded)
+    currentLayout: LayoutPreview | null;
+    readOnly: boolean;
+    defaultTemplateId: string | null;
+    onSetDefault: (template: PageTemplate | null) => void;
+    onApplyToEditor: (template: PageTemplate, preserveText: boolean) => void;
+    // Called after a bulk apply with the ids of the pages that were rewritten
+    onPagesUpdated: (pageIds: string[]) => Promise<void> | void;
+    onClose: () => void;
+}
+
+// Where the editor kept its single per-book template before the library existed
+const legacyTemplateKey = (bookId: string) => `pageTemplate_${bookId}`;
+
+// Background, scroll and text box positions drawn to scale
+const LayoutThumbnail: React.FC<{ layout: LayoutPreview }> = ({ layout }) => (
+    <div className="relative aspect-[4/3] bg-gray-100 overflow-hidden">
+        {layout.thumbnailUrl && (
+            <img
+                src={getMediaUrl(layout.thumbnailUrl)}
+                alt=""
+                className="absolute inset-0 w-full h-full object-cover"
+                onError={(e) => { e.currentTarget.style.display = 'none'; }}
+            />
+        )}
+        {layout.scrollUrl && (
+            <img
+                src={getMediaUrl(layout.scrollUrl)}
+                alt=""
+                className="absolute object-fill"
+                style={{
+                    height: `${layout.scrollHeight}%`,
+                    width: `${layout.scrollWidth}%`,
+                    left: `calc(50% + ${layout.scrollOffsetX}%)`,
+                    transform: 'translateX(-50%)',
+                    bottom: `${layout.scrollOffsetY}%`,
+                }}
+            />
+        )}
+        {layout.textBoxes.map((box, idx) => (
+            <div
+                key={idx}
+                className="absolute h-1.5 bg-indigo-500/80 rounded"
+                style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.width || 30}%` }}
+            />
+        ))}
+    </div>
+);
+
+const PageTemplateLibrary: React.FC<PageTemplateLibraryProps> = ({
+    bookId,
+    bookTitle,
+    pages,
+    currentLayout,
+    readOnly,
+    defaultTemplateId,
+    onSetDefault,
+    onApplyToEditor,
+    onPagesUpdated,
+    onClose,
+}) => {
+    const pageNumbers = pages.map((p) => p.pageNumber);
+    const [templates, setTemplates] = useState<PageTemplate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [scope, setScope] = useState<'all' | 'book'>('all');
+    const [selectedId, setSelectedId] = useState<string | null>(defaultTemplateId);
+    const [newName, setNewName] = useState('');
+    const [busy, setBusy] = useState<string | null>(null);
+    const [rangeFrom, setRangeFrom] = useState(pageNumbers.length ? Math.min(...pageNumbers) : 1);
+    const [rangeTo, setRangeTo] = useState(pageNumbers.length ? Math.max(...pageNumbers) : 1);
+    const [preserveText, setPreserveText] = useState(true);
+    const [legacyTemplate, setLegacyTemplate] = useState(() => localStorage.getItem(legacyTemplateKey(bookId)));
+
+    useEffect(() => {
+        const fetchTemplates = async () => {
+            try {
+                setTemplates(await pageTemplatesApi.list());
+            } catch (err) {
+                console.error('Failed to load page templates:', err);
+                alert(getApiErrorMessage(err, 'Failed to load templates'));
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchTemplates();
+    }, []);
+
+    const visibleTemplates = scope === 'book' ? templates.filter((t) => t.sourceBookId === bookId) : templates;
+    const selected = templates.find((t) => t._id === selectedId) ?? null;
+    const targetPages = pages
+        .filter((p) => p.pageNumber >= rangeFrom && p.pageNumber <= rangeTo)
+        .sort((a, b) => a.pageNumber - b.pageNumber);
+
+    const runBusy = async (message: string, task: () => Promise<void>, fallback: string) => {
+        setBusy(message);
+        try {
+            await task();
+        } catch (err) {
+            console.error(`${fallback}:`, err);
+            alert(getApiErrorMessage(err, fallback));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleSaveCurrent = () => {
+        if (!currentLayout || !newName.trim()) return;
+        runBusy('Saving template...', async () => {
+            const created = await pageTemplatesApi.create({
+                ...currentLayout,
+                name: newName.trim(),
+                sourceBookId: bookId,
+                sourceBookTitle: bookTitle,
+            });
+            setTemplates((prev) => [created, ...prev]);
+            setSelectedId(created._id);
+            setNewName('');
+        }, 'Failed to save template');
+    };
+
+    const handleImportLegacy = () => {
+        if (!legacyTemplate) return;
+        runBusy('Importing layout...', async () => {
+            const legacy = JSON.parse(legacyTemplate) as Partial<PageLayout>;
+            // The old template kept the scroll preview, which was a blob: URL until the page was saved,
+            // and the page's own text; neither belongs in a template every book shares
+            const created = await pageTemplatesApi.create({
+                name: `${bookTitle || 'Book'} layout`,
+                sourceBookId: bookId,
+                sourceBookTitle: bookTitle,
+                scrollUrl: legacy.scrollUrl && !legacy.scrollUrl.startsWith('blob:') ? legacy.scrollUrl : '',
+                scrollHeight: legacy.scrollHeight || 33,
+                scrollOffsetY: 0,
+                scrollOffsetX: 0,
+                scrollWidth: 100,
+                textBoxes: (legacy.textBoxes || []).map((box) => toLayoutTextBox(normalizeTextBox(box))),
+            });
+            localStorage.removeItem(legacyTemplateKey(bookId));
+            setLegacyTemplate(null);
+            setTemplates((prev) => [created, ...prev]);
+            setSelectedId(created._id);
+        }, 'Failed to import layout');
+    };
+
+    const handleOverwrite = (template: PageTemplate) => {
+        if (!currentLayout) return;
+        if (!window.confirm(`Replace the layout of "${template.name}" with the page in the editor? Books using it keep their pages as they are.`)) return;
+        runBusy('Updating template...', async () => {
+            const updated = await pageTemplatesApi.update(template._id, currentLayout);
+            setTemplates((prev) => prev.map((t) => (t._id === updated._id ? updated : t)));
+        }, 'Failed to update template');
+    };
+
+    const handleDelete = (template: PageTemplate) => {
+        if (!window.confirm(`Delete the template "${template.name}"? It is shared, so it disappears for every book.`)) return;
+        runBusy('Deleting template...', async () => {
+            await pageTemplatesApi.remove(template._id);
+            setTemplates((prev) => prev.filter((t) => t._id !== template._id));
+            if (selectedId === template._id) setSelectedId(null);
+            if (defaultTemplateId === template._id) onSetDefault(null);
+        }, 'Failed to delete template');
+    };
+
+    const handleApplyToPages = async (template: PageTemplate) => {
+        if (targetPages.length === 0) return;
+        const textNote = preserveText ? 'Existing text is kept.' : 'Existing text is not kept.';
+        if (!window.confirm(`Apply "${template.name}" to ${targetPages.length} page(s), ${rangeFrom} to ${rangeTo}? ${textNote}`)) return;
+
+        const updatedIds: string[] = [];
+        const failed: number[] = [];
+        for (const [idx, page] of targetPages.entries()) {
+            setBusy(`Applying to page ${page.pageNumber} (${idx + 1}/${targetPages.length})...`);
+            try {
+                await pagesApi.update(page._id, applyLayoutToPage(page, template, preserveText));
+                updatedIds.push(page._id);
+            } catch (err) {
+                console.error(`Failed to apply template to page ${page.pageNumber}:`, err);
+                failed.push(page.pageNumber);
+            }
+        }
+        setBusy('Refreshing pages...');
+        try {
+            await onPagesUpdated(updatedIds);
+        } finally {
+            setBusy(null);
+        }
+
+        alert(failed.length
+            ? `Applied to ${updatedIds.length} page(s). Failed on page(s) ${failed.join(', ')}.`
+            : `Applied "${template.name}" to ${updatedIds.length} page(s).`);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg max-w-5xl w-full mx-4 shadow-2xl flex flex-col max-h-[90vh]">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                        <LayoutTemplate className="w-5 h-5 text-indigo-600" />
+                        Layout Templates
+                    </h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                    {/* Library */}
+                    <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                        {legacyTemplate && !readOnly && (
+                            <div className="flex items-center justify-between gap-3 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                                <span>This browser still has this book's old layout template. Import it into the shared library?</span>
+                                <button
+                                    onClick={handleImportLegacy}
+                                    disabled={busy !== null}
+                                    className="shrink-0 bg-amber-600 text-white px-3 py-1 rounded hover:bg-amber-700 disabled:opacity-50"
+                                >
+                                    Import
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="flex bg-gray-100 rounded-lg p-1 w-fit text-sm">
+                            {(['all', 'book'] as const).map((value) => (
+                                <button
+                                    key={value}
+                                    onClick={() => setScope(value)}
+                                    className={`px-3 py-1 rounded-md font-medium ${scope === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-600 hover:text-gray-800'}`}
+                                >
+                                    {value === 'all' ? 'All books' : 'This book'}
+                                </button>
+                            ))}
+                        </div>
+
+                        {loading ? (
+                            <p className="text-sm text-gray-500">Loading templates...</p>
+                        ) : visibleTemplates.length === 0 ? (
+                            <p className="text-sm text-gray-500">No templates yet. Save the page in the editor as the first one.</p>
+                        ) : (
+                            <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+                                {visibleTemplates.map((template) => (
+                                    <button
+                                        key={template._id}
+                                        onClick={() => setSelectedId(template._id)}
+                                        className={`text-left border rounded-lg overflow-hidden transition ${selectedId === template._id
+                                            ? 'border-indigo-600 ring-2 ring-indigo-300'
+                                            : 'border-gray-200 hover:border-indigo-400'
+                                            }`}
+                                    >
+                                        <LayoutThumbnail layout={template} />
+                                        <div className="p-2">
+                                            <p className="text-sm font-semibold text-gray-800 truncate flex items-center gap-1">
+                                                {defaultTemplateId === template._id && <Star className="w-3 h-3 text-amber-500 fill-amber-500 shrink-0" />}
+                                                {template.name}
+                                            </p>
+                                            <p className="text-xs text-gray-500 truncate">
+                                                {template.textBoxes.length} text box{template.textBoxes.length === 1 ? '' : 'es'}
+                                                {template.sourceBookTitle && ` · from ${template.sourceBookTitle}`}
+                                            </p>
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Actions */}
+                    <div className="w-80 border-l border-gray-200 overflow-y-auto p-4 space-y-5 bg-gray-50">
+                        {!readOnly && (
+                            <div className="space-y-2">
+                                <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider">Save Current Page Layout</label>
+                                {currentLayout ? (
+                                    <>
+                                        <LayoutThumbnail layout={currentLayout} />
+                                        <input
+                                            type="text"
+                                            value={newName}
+                                            onChange={(e) => setNewName(e.target.value)}
+                                            placeholder="Template name"
+                                            className="w-full border rounded px-2 py-1 text-sm"
+                                        />
+                                        <button
+                                            onClick={handleSaveCurrent}
+                                            disabled={!newName.trim() || busy !== null}
+                                            className="w-full py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition flex items-center justify-center gap-2 disabled:opacity-50"
+                                        >
+                                            <Save className="w-4 h-4" /> Save as Template
+                                        </button>
+                                    </>
+                                ) : (
+                                    <p className="text-xs text-gray-500">Save the page first so its scroll image is uploaded.</p>
+                                )}
+                            </div>
+                        )}
+
+                        {selected ? (
+                            <div className="space-y-3">
+                                <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider">{selected.name}</label>
+
+                                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={preserveText}
+                                        onChange={(e) => setPreserveText(e.target.checked)}
+                                        className="rounded"
+                                    />
+                                    Keep existing text
+                                </label>
+
+                                <button
+                                    onClick={() => {
+                                        onApplyToEditor(selected, preserveText);
+                                        onClose();
+                                    }}
+                                    className="w-full py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100"
+                                >
+                                    Use on the page in the editor
+                                </button>
+
+                                {!readOnly && pages.length > 0 && (
+                                    <div className="space-y-2 p-3 bg-white rounded-lg border border-gray-200">
+                                        <div className="flex items-center gap-2 text-sm text-gray-600">
+                                            <span>Pages</span>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                value={rangeFrom}
+                                                onChange={(e) => setRangeFrom(parseInt(e.target.value) || 1)}
+                                                className="w-16 border rounded px-2 py-1"
+                                            />
+                                            <span>to</span>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                value={rangeTo}
+                                                onChange={(e) => setRangeTo(parseInt(e.target.value) || 1)}
+                                                className="w-16 border rounded px-2 py-1"
+                                            />
+                                        </div>
+                                        <button
+                                            onClick={() => handleApplyToPages(selected)}
+                                            disabled={targetPages.length === 0 || busy !== null}
+                                            className="w-full py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+                                        >
+                                            Apply to {targetPages.length} saved page{targetPages.length === 1 ? '' : 's'}
+                                        </button>
+                                    </div>
+                                )}
+
+                                <button
+                                    onClick={() => onSetDefault(defaultTemplateId === selected._id ? null : selected)}
+                                    className="w-full py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 flex items-center justify-center gap-2"
+                                >
+                                    <Star className="w-4 h-4" />
+                                    {defaultTemplateId === selected._id ? 'Stop using for new pages' : 'Use for new pages in this book'}
+                                </button>
+
+                                {!readOnly && (
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => handleOverwrite(selected)}
+                                            disabled={!currentLayout || busy !== null}
+                                            className="flex-1 py-2 bg-white border border-gray-300 rounded-lg text-xs font-medium text-gray-700 hover:bg-gray-100 flex items-center justify-center gap-1 disabled:opacity-50"
+                                            title="Replace this template with the page in the editor"
+                                        >
+                                            <RefreshCw className="w-3 h-3" /> Update from page
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(selected)}
+                                            disabled={busy !== null}
+                                            className="flex-1 py-2 bg-white border border-red-200 rounded-lg text-xs font-medium text-red-600 hover:bg-red-50 flex items-center justify-center gap-1 disabled:opacity-50"
+                                        >
+                                            <Trash2 className="w-3 h-3" /> Delete
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-500">Pick a template to use it.</p>
+                        )}
+
+                        {busy && (
+                            <p className="text-sm text-indigo-700 flex items-center gap-2">
+                                <Loader2 className="w-4 h-4 animate-spin" /> {busy}
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PageTemplateLibrary;
@@ -1,19 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Eye, Play, Heart, Bookmark, ArrowUpDown, TrendingUp, TrendingDown, Music, Headphones } from 'lucide-react';
-import apiClient from '../services/apiClient';
+import { playlistsApi } from '../services/api';
+import { type Playlist } from '../types';
 import { Link } from 'react-router-dom';
 
-interface PlaylistAnalytics {
-    _id: string;
-    title: string;
-    author: string;
-    coverImage?: string;
-    type: 'Song' | 'Audiobook';
-    status: string;
-    viewCount: number;
-    playCount: number;
-    likeCount: number;
-    favoriteCount: number;
+interface PlaylistAnalytics extends Playlist {
     itemCount: number;
 }
 
@@ -33,12 +24,10 @@ const PlaylistsAnalytics: React.FC = () => {
     const fetchPlaylistsAnalytics = async () => {
         try {
             // Fetch all playlists with analytics data
-            const response = await apiClient.get('/api/playlists?status=all');
-            // Handle both old format (array) and new format ({ data: [], pagination: {} })
-            const playlistsData = Array.isArray(response.data) ? response.data : (response.data?.data || []);
-            const data = playlistsData.map((p: any) => ({
+            const playlistsData = await playlistsApi.list({ status: 'all' });
+            const data = playlistsData.map(p => ({
                 ...p,
-                itemCount: p.items?.length || 0,
+                itemCount: p.items.length,
             }));
             setPlaylists(data);
         } catch (error) {
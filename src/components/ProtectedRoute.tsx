@@ -1,13 +1,17 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import type { Section } from '../services/permissions';
+import NoAccess from '../pages/NoAccess';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Portal section the route belongs to; omit to only require a signed-in user
+  section?: Section;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, section }) => {
+  const { isAuthenticated, canView } = useAuth();
   const location = useLocation();
 
   if (!isAuthenticated) {
@@ -15,10 +19,11 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  if (section && !canView(section)) {
+    return <NoAccess />;
+  }
+
   return <>{children}</>;
 };
 
 export default ProtectedRoute;
-
-
-
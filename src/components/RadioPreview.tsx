@@ -1,45 +1,17 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Play, Pause, SkipForward, SkipBack, Volume2, VolumeX, Radio, Music, Shuffle, RefreshCw, Mic2, Loader2, BookOpen } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
+import { getApiErrorMessage } from '../services/apiClient';
+import { radioApi } from '../services/api';
+import { type HostBreak, type RadioHost, type RadioStation, type RadioTrack } from '../types';
 
 // Crossfade settings
 const CROSSFADE_DURATION = 5000; // 5 seconds crossfade
 const CROSSFADE_CHECK_INTERVAL = 100; // Check every 100ms
 
-interface RadioTrack {
-    _id: string;
-    title: string;
-    artist?: string;
-    audioUrl: string;
-    coverImage?: string;
-    duration?: number;
-    category: string;
-    rotation: string;
-    description?: string; // For context-aware hosting
-}
-
-interface RadioHost {
-    _id: string;
-    name: string;
-    avatarUrl?: string;
-    personality: string;
-}
-
-interface HostBreakData {
-    hostId: string;
-    hostName: string;
-    hostAvatar?: string;
-    script: string;
-    audioUrl: string;
-    duration: number;
-}
-
 interface QueueItem {
     type: 'song' | 'host_break';
     track?: RadioTrack;
-    hostBreak?: HostBreakData;
+    hostBreak?: HostBreak;
     pendingHostBreak?: {
         nextSong: RadioTrack;
         previousSong?: RadioTrack;
@@ -49,17 +21,6 @@ interface QueueItem {
     };
 }
 
-interface RadioStation {
-    name: string;
-    tagline: string;
-    coverImageUrl?: string;
-    hostBreakFrequency?: number;
-    hostBreakDuration?: number;
-    devotionalFrequency?: number;
-    devotionalDuration?: number;
-    enableDuoDiscussions?: boolean;
-}
-
 const RadioPreview: React.FC = () => {
     const [station, setStation] = useState<RadioStation | null>(null);
     const [tracks, setTracks] = useState<RadioTrack[]>([]);
@@ -127,28 +88,24 @@ const RadioPreview: React.FC = () => {
             setLoading(true);
             setError(null);
             
-            const [stationRes, libraryRes, hostsRes] = await Promise.all([
-                axios.get(`${API_URL}/radio/station`),
-                axios.get(`${API_URL}/radio/library?enabled=true`),
-                axios.get(`${API_URL}/radio/hosts`),
+            const [stationData, libraryTracks, hostsData] = await Promise.all([
+                radioApi.getStation(),
+                radioApi.listTracks({ enabled: true }),
+                radioApi.listHosts(),
             ]);
             
-            const stationData = stationRes.data;
             setStation(stationData);
-            setTracks(libraryRes.data.tracks || []);
-            const enabledHosts = (hostsRes.data || []).filter((h: RadioHost) => h);
+            setTracks(libraryTracks);
+            const enabledHosts = hostsData.filter((h: RadioHost) => h);
             setHosts(enabledHosts);
             
-            const libraryTracks = libraryRes.data.tracks || [];
-            
             if (libraryTracks.length > 0) {
                 // Pass station data directly to avoid stale state issue
                 buildQueue(libraryTracks, enabledHosts, stationData);
             }
         } catch (err: unknown) {
             console.error('Error fetching data:', err);
-            const errorMessage = err instanceof Error ? err.message : 'Failed to load radio data';
-            setError(errorMessage);
+            setError(getApiErrorMessage(err, err instanceof Error ? err.message : 'Failed to load radio data'));
         } finally {
             setLoading(false);
         }
@@ -294,7 +251,7 @@ const RadioPreview: React.FC = () => {
         contentType: string = 'song',
         contentDescription?: string,
         isDuo?: boolean
-    ): Promise<HostBreakData | undefined> => {
+    ): Promise<HostBreak | undefined> => {
         try {
             // Get durations from station settings
             const hostBreakDuration = station?.hostBreakDuration || 10;
@@ -306,7 +263,7 @@ const RadioPreview: React.FC = () => {
                 contentType === 'devotional_segment' ? devotionalDuration :
                 hostBreakDuration; // Regular breaks use station setting
             
-            const response = await axios.post(`${API_URL}/radio/host-break/generate`, {
+            return await radioApi.generateHostBreak({
                 nextSongTitle: nextSong.title,
                 nextSongArtist: nextSong.artist,
                 previousSongTitle: previousSong?.title,
@@ -317,8 +274,6 @@ const RadioPreview: React.FC = () => {
                 contentCategory: nextSong.category,
                 isDuo: isDuo || false,
             });
-            
-            return response.data.hostBreak;
         } catch (err) {
             console.error('Failed to generate host break:', err);
             return undefined;
@@ -332,7 +287,7 @@ const RadioPreview: React.FC = () => {
         previousSong?: RadioTrack,
         contentType: string = 'song',
         contentDescription?: string
-    ): Promise<HostBreakData | undefined> => {
+    ): Promise<HostBreak | undefined> => {
         try {
             setGeneratingHostBreak(true);
             
@@ -341,7 +296,7 @@ const RadioPreview: React.FC = () => {
                                    contentType === 'story_intro' ? 20 : 
                                    contentType === 'story_outro' ? 18 : 15;
             
-            const response = await axios.post(`${API_URL}/radio/host-break/generate`, {
+            return await radioApi.generateHostBreak({
                 nextSongTitle: nextSong.title,
                 nextSongArtist: nextSong.artist,
                 previousSongTitle: previousSong?.title,
@@ -351,8 +306,6 @@ const RadioPreview: React.FC = () => {
                 contentDescription,
                 contentCategory: nextSong.category
             });
-            
-            return response.data.hostBreak;
         } catch (err) {
             console.error('Failed to generate host break:', err);
             return undefined;
@@ -492,7 +445,8 @@ const RadioPreview: React.FC = () => {
                 }
             }
 
-            if (!hostBreakData?.audioUrl) {
+            const breakAudioUrl = hostBreakData?.audioUrl;
+            if (!breakAudioUrl) {
                 handleNext();
                 return;
             }
@@ -501,10 +455,10 @@ const RadioPreview: React.FC = () => {
             if (currentAudioRef.current && currentAudioRef.current.volume > 0) {
                 fadeAudio(currentAudioRef.current, currentAudioRef.current.volume, 0, 1000, async () => {
                     currentAudioRef.current?.pause();
-                    await playAudio(hostBreakData!.audioUrl, false); // No crossfade for host breaks
+                    await playAudio(breakAudioUrl, false); // No crossfade for host breaks
                 });
             } else {
-                await playAudio(hostBreakData.audioUrl, false);
+                await playAudio(breakAudioUrl, false);
             }
             return;
         }
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+
+interface ReadOnlyBannerProps {
+    // What the user is looking at, e.g. "book" or "station settings"
+    subject: string;
+}
+
+// Shown on edit forms when the signed-in user's roles only grant read access
+const ReadOnlyBanner: React.FC<ReadOnlyBannerProps> = ({ subject }) => (
+    <div className="mb-6 flex items-center gap-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg px-4 py-3">
+        <Eye className="w-5 h-5 flex-shrink-0" />
+        <p className="text-sm">
+            You have read-only access to this {subject}. Saving and deleting are disabled.
+        </p>
+    </div>
+);
+
+export default ReadOnlyBanner;
@@ -0,0 +1,299 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CheckCircle2, ClipboardCheck, Loader2, MessageSquare, RotateCcw, Send, Undo2, Upload, X } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { type ReviewTransition, reviewsApi } from '../services/api';
+import { type ReviewAnchor, type ReviewComment, type ReviewDocumentType, type ReviewStatus, STATUS_LABELS } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import StatusBadge from './StatusBadge';
+
+// Something a comment can be pinned to, e.g. a form field or a page of the book
+export interface ReviewAnchorOption {
+    label: string;
+    anchor: ReviewAnchor;
+}
+
+interface ReviewPanelProps {
+    type: ReviewDocumentType;
+    documentId: string;
+    title: string;
+    status: string;
+    anchors: ReviewAnchorOption[];
+    // Preselected when opened from a specific page
+    initialAnchor?: ReviewAnchor;
+    // Submitting sends the saved version, not what is in the editor
+    hasUnsavedChanges?: boolean;
+    // Last check before a step is sent, e.g. validation before publishing; false cancels it
+    onBeforeTransition?: (action: ReviewTransition) => Promise<boolean>;
+    onStatusChange: (status: ReviewStatus) => void;
+    onClose: () => void;
+}
+
+const STEPS = ['draft', 'in_review', 'approved', 'published'];
+
+const TRANSITIONS: Array<{ action: ReviewTransition; from: string[]; label: string; icon: typeof Send; primary?: boolean }> = [
+    { action: 'submit', from: ['draft'], label: 'Submit for review', icon: Send, primary: true },
+    { action: 'approve', from: ['in_review'], label: 'Approve', icon: CheckCircle2, primary: true },
+    { action: 'publish', from: ['approved'], label: 'Publish', icon: Upload, primary: true },
+    { action: 'request_changes', from: ['in_review', 'approved'], label: 'Request changes', icon: Undo2 },
+];
+
+const GENERAL = 'general';
+
+const anchorKey = (anchor: ReviewAnchor) =>
+    anchor.pageId ? `page:${anchor.pageId}` : anchor.field ? `field:${anchor.field}` : GENERAL;
+
+const authorName = (comment: ReviewComment) => comment.author?.name || comment.author?.email || 'Unknown';
+
+// Review status, workflow actions and anchored comments for one book, playlist or lesson
+const ReviewPanel: React.FC<ReviewPanelProps> = ({
+    type,
+    documentId,
+    title,
+    status,
+    anchors,
+    initialAnchor,
+    hasUnsavedChanges,
+    onBeforeTransition,
+    onStatusChange,
+    onClose,
+}) => {
+    const { canReview } = useAuth();
+    const [comments, setComments] = useState<ReviewComment[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [filter, setFilter] = useState(initialAnchor ? anchorKey(initialAnchor) : 'all');
+    const [showResolved, setShowResolved] = useState(false);
+    const [draftAnchor, setDraftAnchor] = useState(initialAnchor ? anchorKey(initialAnchor) : GENERAL);
+    const [draftBody, setDraftBody] = useState('');
+
+    const anchorLabel = (anchor: ReviewAnchor) => {
+        const match = anchors.find((option) => anchorKey(option.anchor) === anchorKey(anchor));
+        const label = match?.label ?? (anchor.pageNumber !== undefined ? `Page ${anchor.pageNumber}` : anchor.field ?? 'General');
+        return anchor.x !== undefined ? `${label} · pinned` : label;
+    };
+
+    const fetchComments = useCallback(async () => {
+        try {
+            setComments(await reviewsApi.comments(type, documentId));
+        } catch (err) {
+            console.error('Failed to load review comments:', err);
+            alert(getApiErrorMessage(err, 'Failed to load review comments'));
+        } finally {
+            setLoading(false);
+        }
+    }, [type, documentId]);
+
+    useEffect(() => {
+        fetchComments();
+    }, [fetchComments]);
+
+    const handleTransition = async (action: ReviewTransition, label: string) => {
+        let note: string | undefined;
+        if (action === 'request_changes') {
+            const answer = window.prompt('What needs to change? This is added as a comment.');
+            if (answer === null) return;
+            note = answer.trim() || undefined;
+        } else if (action === 'submit' && hasUnsavedChanges) {
+            if (!window.confirm('You have unsaved changes. Reviewers will see the last saved version. Submit anyway?')) return;
+        } else if (!window.confirm(`${label}: "${title}"?`)) {
+            return;
+        }
+
+        setBusy(true);
+        try {
+            if (onBeforeTransition && !(await onBeforeTransition(action))) return;
+            onStatusChange(await reviewsApi.transition(type, documentId, action, note));
+            if (note) await fetchComments();
+        } catch (err) {
+            console.error(`Failed to ${action}:`, err);
+            alert(getApiErrorMessage(err, `Failed to ${label.toLowerCase()}`));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleAddComment = async () => {
+        const body = draftBody.trim();
+        if (!body) return;
+        const anchor = anchors.find((option) => anchorKey(option.anchor) === draftAnchor)?.anchor ?? {};
+
+        setBusy(true);
+        try {
+            const comment = await reviewsApi.addComment(type, documentId, body, anchor);
+            setComments((prev) => [...prev, comment]);
+            setDraftBody('');
+        } catch (err) {
+            console.error('Failed to add comment:', err);
+            alert(getApiErrorMessage(err, 'Failed to add the comment'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleToggleResolved = async (comment: ReviewComment) => {
+        try {
+            await reviewsApi.setResolved(type, documentId, comment._id, !comment.resolved);
+            setComments((prev) => prev.map((c) => c._id === comment._id ? { ...c, resolved: !c.resolved } : c));
+        } catch (err) {
+            console.error('Failed to update comment:', err);
+            alert(getApiErrorMessage(err, 'Failed to update the comment'));
+        }
+    };
+
+    // Replies are listed under the comment that started their thread
+    const visibleComments = comments.filter((comment) =>
+        !comment.parentId && (showResolved || !comment.resolved) && (filter === 'all' || anchorKey(comment.anchor) === filter)
+    );
+    const openCount = comments.filter((comment) => !comment.parentId && !comment.resolved).length;
+    const availableTransitions = TRANSITIONS.filter((t) => t.from.includes(status) && canReview(t.action));
+    const canComment = canReview('comment');
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg max-w-3xl w-full mx-4 shadow-2xl flex flex-col max-h-[90vh]">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                        <ClipboardCheck className="w-5 h-5 text-indigo-600" />
+                        Review · {title}
+                        <StatusBadge status={status} />
+                    </h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 border-b border-gray-200 space-y-3">
+                    <ol className="flex items-center gap-2 text-sm">
+                        {STEPS.map((step, idx) => (
+                            <li key={step} className="flex items-center gap-2">
+                                {idx > 0 && <span className="text-gray-300">→</span>}
+                                <span className={step === status ? 'font-semibold text-indigo-700' : 'text-gray-400'}>
+                                    {STATUS_LABELS[step]}
+                                </span>
+                            </li>
+                        ))}
+                    </ol>
+                    {availableTransitions.length > 0 ? (
+                        <div className="flex flex-wrap gap-2">
+                            {availableTransitions.map((t) => (
+                                <button
+                                    key={t.action}
+                                    onClick={() => handleTransition(t.action, t.label)}
+                                    disabled={busy}
+                                    className={`px-4 py-2 rounded-lg text-sm font-semibold flex items-center gap-2 disabled:opacity-50 ${t.primary
+                                        ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                                        : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                                        }`}
+                                >
+                                    {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <t.icon className="w-4 h-4" />}
+                                    {t.label}
+                                </button>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500">
+                            {status === 'in_review'
+                                ? 'Waiting for an approver.'
+                                : status === 'approved'
+                                    ? 'Approved. An approver can publish it.'
+                                    : 'No review steps available for this status.'}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between gap-3 px-4 pt-4">
+                    <h4 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                        <MessageSquare className="w-4 h-4" /> Comments ({openCount} open)
+                    </h4>
+                    <div className="flex items-center gap-3 text-sm">
+                        <select
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value)}
+                            className="border border-gray-300 rounded-lg px-2 py-1 bg-white text-gray-700"
+                        >
+                            <option value="all">Everything</option>
+                            <option value={GENERAL}>General</option>
+                            {anchors.map((option) => (
+                                <option key={anchorKey(option.anchor)} value={anchorKey(option.anchor)}>{option.label}</option>
+                            ))}
+                        </select>
+                        <label className="flex items-center gap-1 text-gray-600">
+                            <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} className="rounded" />
+                            Show resolved
+                        </label>
+                    </div>
+                </div>
+
+                <ul className="flex-1 overflow-y-auto p-4 space-y-3">
+                    {loading ? (
+                        <li className="text-sm text-gray-500">Loading comments...</li>
+                    ) : visibleComments.length === 0 ? (
+                        <li className="text-sm text-gray-500">No comments here.</li>
+                    ) : (
+                        visibleComments.map((comment) => (
+                            <li key={comment._id} className={`border rounded-lg p-3 ${comment.resolved ? 'border-gray-200 bg-gray-50 opacity-70' : 'border-amber-200 bg-amber-50'}`}>
+                                <div className="flex items-center justify-between gap-2 mb-1">
+                                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                                        <span className="bg-white border border-gray-200 text-gray-700 px-2 rounded-full">{anchorLabel(comment.anchor)}</span>
+                                        <span>{authorName(comment)} · {new Date(comment.createdAt).toLocaleString()}</span>
+                                    </div>
+                                    {canComment && (
+                                        <button
+                                            onClick={() => handleToggleResolved(comment)}
+                                            className="text-xs text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+                                        >
+                                            {comment.resolved ? <><RotateCcw className="w-3 h-3" /> Reopen</> : <><CheckCircle2 className="w-3 h-3" /> Resolve</>}
+                                        </button>
+                                    )}
+                                </div>
+                                <p className="text-sm text-gray-800 whitespace-pre-line">{comment.body}</p>
+                                {comments.filter((reply) => reply.parentId === comment._id).map((reply) => (
+                                    <div key={reply._id} className="mt-2 pl-3 border-l-2 border-gray-200">
+                                        <p className="text-xs text-gray-500">{authorName(reply)} · {new Date(reply.createdAt).toLocaleString()}</p>
+                                        <p className="text-sm text-gray-800 whitespace-pre-line">{reply.body}</p>
+                                    </div>
+                                ))}
+                            </li>
+                        ))
+                    )}
+                </ul>
+
+                {canComment && (
+                    <div className="p-4 border-t border-gray-200 space-y-2">
+                        <div className="flex items-center gap-2 text-sm">
+                            <span className="text-gray-600">On</span>
+                            <select
+                                value={draftAnchor}
+                                onChange={(e) => setDraftAnchor(e.target.value)}
+                                className="border border-gray-300 rounded-lg px-2 py-1 bg-white text-gray-700"
+                            >
+                                <option value={GENERAL}>General</option>
+                                {anchors.map((option) => (
+                                    <option key={anchorKey(option.anchor)} value={anchorKey(option.anchor)}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex gap-2">
+                            <textarea
+                                value={draftBody}
+                                onChange={(e) => setDraftBody(e.target.value)}
+                                rows={2}
+                                placeholder="Leave a comment for the team..."
+                                className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                            <button
+                                onClick={handleAddComment}
+                                disabled={busy || !draftBody.trim()}
+                                className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50 self-end"
+                            >
+                                Comment
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { revisionsApi } from '../services/api';
+import { type Revision, type RevisionDocumentType } from '../types';
+import { type FieldChange, diffDocuments, formatDiffValue } from '../utils/revisionDiff';
+
+interface RevisionHistoryProps {
+    type: RevisionDocumentType;
+    documentId: string;
+    // What is being looked at, e.g. "Page 3" or the book title
+    title: string;
+    readOnly: boolean;
+    // The editor has edits that a rollback would replace
+    hasUnsavedChanges?: boolean;
+    // Reload the editor from the server after a rollback
+    onRolledBack: () => Promise<void> | void;
+    onClose: () => void;
+}
+
+type CompareMode = 'previous' | 'current';
+
+const KIND_STYLES: Record<FieldChange['kind'], string> = {
+    added: 'text-green-700',
+    removed: 'text-red-600',
+    changed: 'text-amber-700',
+};
+
+const authorName = (revision: Revision) => revision.author?.name || revision.author?.email || 'Unknown';
+
+const ChangeList: React.FC<{ changes: FieldChange[]; beforeLabel: string; afterLabel: string }> = ({ changes, beforeLabel, afterLabel }) =>
+    changes.length === 0 ? (
+        <p className="text-sm text-gray-500">No field changes.</p>
+    ) : (
+        <table className="w-full text-sm table-fixed">
+            <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider border-b border-gray-200">
+                    <th className="py-2 pr-2 w-1/4">Field</th>
+                    <th className="py-2 pr-2">{beforeLabel}</th>
+                    <th className="py-2">{afterLabel}</th>
+                </tr>
+            </thead>
+            <tbody>
+                {changes.map((change) => (
+                    <tr key={change.path} className="border-b border-gray-100 align-top">
+                        <td className={`py-2 pr-2 font-medium ${KIND_STYLES[change.kind]}`}>{change.label}</td>
+                        <td className="py-2 pr-2 text-gray-500 break-words whitespace-pre-line">
+                            {change.kind === 'added' ? '—' : <span className="bg-red-50 line-through decoration-red-300">{formatDiffValue(change.before)}</span>}
+                        </td>
+                        <td className="py-2 text-gray-800 break-words whitespace-pre-line">
+                            {change.kind === 'removed' ? '—' : <span className="bg-green-50">{formatDiffValue(change.after)}</span>}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+
+// Saved versions of one document: what each save changed, and rollback to any of them
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+    type,
+    documentId,
+    title,
+    readOnly,
+    hasUnsavedChanges,
+    onRolledBack,
+    onClose,
+}) => {
+    const [revisions, setRevisions] = useState<Revision[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [compare, setCompare] = useState<CompareMode>('previous');
+    const [busy, setBusy] = useState(false);
+
+    const fetchRevisions = useCallback(async () => {
+        try {
+            const list = await revisionsApi.list(type, documentId);
+            setRevisions(list);
+            setSelectedId((prev) => prev ?? list[0]?._id ?? null);
+        } catch (err) {
+            console.error('Failed to load revisions:', err);
+            alert(getApiErrorMessage(err, 'Failed to load the revision history'));
+        } finally {
+            setLoading(false);
+        }
+    }, [type, documentId]);
+
+    useEffect(() => {
+        fetchRevisions();
+    }, [fetchRevisions]);
+
+    const selectedIdx = revisions.findIndex((r) => r._id === selectedId);
+    const selected = revisions[selectedIdx];
+    const current = revisions[0];
+    const isCurrent = selectedIdx === 0;
+    const previous = revisions[selectedIdx + 1];
+
+    // "previous" shows what this save did; "current" shows what rolling back to it would change
+    const changes = !selected
+        ? []
+        : compare === 'previous' || isCurrent
+            ? diffDocuments(previous?.snapshot ?? {}, selected.snapshot)
+            : diffDocuments(current.snapshot, selected.snapshot);
+
+    const handleRollback = async () => {
+        if (!selected) return;
+        const unsavedNote = hasUnsavedChanges ? ' Your unsaved changes in the editor will be lost.' : '';
+        if (!window.confirm(`Roll back "${title}" to version ${selected.version}?${unsavedNote} The current version stays in the history.`)) return;
+
+        setBusy(true);
+        try {
+            await revisionsApi.rollback(type, documentId, selected._id);
+            setSelectedId(null);
+            await fetchRevisions();
+            await onRolledBack();
+        } catch (err) {
+            console.error('Failed to roll back:', err);
+            alert(getApiErrorMessage(err, 'Failed to roll back'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg max-w-5xl w-full mx-4 shadow-2xl flex flex-col max-h-[90vh]">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                        <History className="w-5 h-5 text-indigo-600" />
+                        History · {title}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <p className="p-4 text-sm text-gray-500">Loading history...</p>
+                ) : revisions.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-500">No saved versions yet. Each save from now on is recorded here.</p>
+                ) : (
+                    <div className="flex flex-1 min-h-0">
+                        <ol className="w-72 border-r border-gray-200 overflow-y-auto bg-gray-50">
+                            {revisions.map((revision, idx) => (
+                                <li key={revision._id}>
+                                    <button
+                                        onClick={() => setSelectedId(revision._id)}
+                                        className={`w-full text-left px-4 py-3 border-b border-gray-200 transition ${revision._id === selectedId ? 'bg-indigo-50' : 'hover:bg-white'}`}
+                                    >
+                                        <div className="flex items-center gap-2">
+                                            <span className={`text-sm font-semibold ${revision._id === selectedId ? 'text-indigo-700' : 'text-gray-800'}`}>
+                                                Version {revision.version}
+                                            </span>
+                                            {idx === 0 && <span className="text-xs bg-green-100 text-green-800 px-2 rounded-full">Current</span>}
+                                        </div>
+                                        <p className="text-xs text-gray-500">{new Date(revision.createdAt).toLocaleString()} · {authorName(revision)}</p>
+                                        {revision.restoredFromVersion !== undefined && (
+                                            <p className="text-xs text-indigo-600">Rolled back to version {revision.restoredFromVersion}</p>
+                                        )}
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+
+                        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                            {selected && (
+                                <>
+                                    <div className="flex items-center justify-between gap-3">
+                                        <div className="flex bg-gray-100 rounded-lg p-1 text-sm">
+                                            {(['previous', 'current'] as const).map((mode) => (
+                                                <button
+                                                    key={mode}
+                                                    onClick={() => setCompare(mode)}
+                                                    disabled={isCurrent && mode === 'current'}
+                                                    className={`px-3 py-1 rounded-md font-medium disabled:opacity-50 ${compare === mode || (isCurrent && mode === 'previous')
+                                                        ? 'bg-white text-indigo-600 shadow-sm'
+                                                        : 'text-gray-600 hover:text-gray-800'
+                                                        }`}
+                                                >
+                                                    {mode === 'previous' ? 'Changes in this save' : 'Compare with current'}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {!readOnly && !isCurrent && (
+                                            <button
+                                                onClick={handleRollback}
+                                                disabled={busy}
+                                                className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-50"
+                                            >
+                                                {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                                                Roll back to version {selected.version}
+                                            </button>
+                                        )}
+                                    </div>
+
+                                    {compare === 'current' && !isCurrent ? (
+                                        <ChangeList changes={changes} beforeLabel="Current" afterLabel={`Version ${selected.version}`} />
+                                    ) : previous ? (
+                                        <ChangeList changes={changes} beforeLabel={`Version ${previous.version}`} afterLabel={`Version ${selected.version}`} />
+                                    ) : (
+                                        <>
+                                            <p className="text-sm text-gray-500">First saved version.</p>
+                                            <ChangeList changes={changes} beforeLabel="Before" afterLabel={`Version ${selected.version}`} />
+                                        </>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RevisionHistory;
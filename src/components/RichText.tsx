@@ -0,0 +1,43 @@
+import React from 'react';
+import { type CharacterVoice, type TextSpan } from '../types';
+import { characterColor, styledRuns } from '../utils/richText';
+
+interface RichTextProps {
+    text: string;
+    spans?: TextSpan[];
+    // Span sizes are drawn relative to the box's font size, so they follow it when it scales
+    baseFontSize: number;
+    characterVoices?: CharacterVoice[];
+    // Offsets of text to mark, like the word being narrated
+    highlight?: { from: number; to: number } | null;
+}
+
+// A text box's text with its inline spans, as the app draws it
+const RichText: React.FC<RichTextProps> = ({ text, spans, baseFontSize, characterVoices, highlight }) => {
+    if (!spans?.length && !highlight) return <>{text}</>;
+    const runs = styledRuns(text, spans, highlight ? [highlight.from, highlight.to] : []);
+    return (
+        <>
+            {runs.map(({ start, end, style }) => {
+                const marked = highlight && start >= highlight.from && end <= highlight.to;
+                const color = (style.character && characterColor(characterVoices, style.character)) || style.color;
+                return (
+                    <span
+                        key={start}
+                        className={marked ? 'bg-yellow-300/80 rounded-sm' : undefined}
+                        style={{
+                            fontWeight: style.bold ? 'bold' : undefined,
+                            fontStyle: style.italic ? 'italic' : undefined,
+                            color,
+                            fontSize: style.fontSize ? `${style.fontSize / baseFontSize}em` : undefined,
+                        }}
+                    >
+                        {text.slice(start, end)}
+                    </span>
+                );
+            })}
+        </>
+    );
+};
+
+export default RichText;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { STATUS_LABELS } from '../types';
+
+const STATUS_STYLES: Record<string, string> = {
+    draft: 'bg-yellow-100 text-yellow-800',
+    in_review: 'bg-blue-100 text-blue-800',
+    approved: 'bg-purple-100 text-purple-800',
+    scheduled: 'bg-cyan-100 text-cyan-800',
+    published: 'bg-green-100 text-green-800',
+    archived: 'bg-gray-200 text-gray-700',
+};
+
+// Publishing status of a book, playlist or lesson, including the review steps
+const StatusBadge: React.FC<{ status: string }> = ({ status }) => (
+    <span className={`inline-block px-2 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[status] ?? 'bg-gray-100 text-gray-800'}`}>
+        {STATUS_LABELS[status] ?? status}
+    </span>
+);
+
+export default StatusBadge;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { CheckCircle2, Languages, Loader2, RotateCcw, X } from 'lucide-react';
+import { type BookEdition } from '../types';
+import { type MissingTranslation, languageLabel } from '../utils/editions';
+
+interface TranslationReportProps {
+    title: string;
+    editions: BookEdition[];
+    missing: MissingTranslation[];
+    checking?: boolean;
+    onRecheck: () => void;
+    onClose: () => void;
+}
+
+// What each edition still lacks, from utils/editions: the book's fields first, then page by page
+const TranslationReport: React.FC<TranslationReportProps> = ({ title, editions, missing, checking, onRecheck, onClose }) => (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <div className="bg-white rounded-lg max-w-2xl w-full mx-4 shadow-2xl flex flex-col max-h-[90vh]">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                    <Languages className="w-5 h-5 text-indigo-600" />
+                    Missing translations · {title}
+                </h3>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {editions.map(({ locale }) => {
+                    const items = missing.filter((item) => item.locale === locale);
+                    const pageNumbers = Array.from(new Set(items.flatMap((item) => item.pageNumber ?? []))).sort((a, b) => a - b);
+                    return (
+                        <section key={locale} className="border border-gray-200 rounded-lg">
+                            <h4 className={`px-3 py-2 text-sm font-semibold rounded-t-lg flex items-center justify-between ${items.length ? 'bg-amber-50 text-amber-900' : 'bg-green-50 text-green-800'}`}>
+                                {languageLabel(locale)}
+                                <span className="text-xs font-medium flex items-center gap-1">
+                                    {items.length
+                                        ? `${items.length} missing`
+                                        : <><CheckCircle2 className="w-4 h-4" /> Fully translated</>}
+                                </span>
+                            </h4>
+                            {items.length > 0 && (
+                                <div className="p-3 space-y-2">
+                                    {items.some((item) => item.pageNumber === undefined) && (
+                                        <div>
+                                            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Book</p>
+                                            <ul className="list-disc pl-5 text-sm text-gray-800">
+                                                {items.filter((item) => item.pageNumber === undefined).map((item) => <li key={item.message}>{item.message}</li>)}
+                                            </ul>
+                                        </div>
+                                    )}
+                                    {pageNumbers.map((pageNumber) => (
+                                        <div key={pageNumber}>
+                                            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Page {pageNumber}</p>
+                                            <ul className="list-disc pl-5 text-sm text-gray-800">
+                                                {items
+                                                    .filter((item) => item.pageNumber === pageNumber)
+                                                    .map((item, idx) => <li key={idx}>{item.message}</li>)}
+                                            </ul>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </section>
+                    );
+                })}
+            </div>
+
+            <div className="flex justify-end gap-2 p-4 border-t border-gray-200">
+                <button
+                    onClick={onRecheck}
+                    disabled={checking}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
+                >
+                    {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />} Check again
+                </button>
+                <button onClick={onClose} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700">
+                    Close
+                </button>
+            </div>
+        </div>
+    </div>
+);
+
+export default TranslationReport;
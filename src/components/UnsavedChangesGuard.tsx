@@ -0,0 +1,65 @@
+import React, { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+
+interface UnsavedChangesGuardProps {
+    // Block while this is true
+    when: boolean;
+    // Extra line under the warning, e.g. where the changes can be recovered from
+    detail?: string;
+    // Runs before the blocked navigation continues
+    onLeave?: () => void | Promise<void>;
+}
+
+// Warns before leaving a form with unsaved changes: in-app navigation gets a confirm
+// dialog, reloads and tab closes get the browser's own prompt
+const UnsavedChangesGuard: React.FC<UnsavedChangesGuardProps> = ({ when, detail, onLeave }) => {
+    const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+        when && currentLocation.pathname !== nextLocation.pathname
+    );
+
+    useEffect(() => {
+        if (!when) return;
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault();
+            e.returnValue = '';
+        };
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [when]);
+
+    if (blocker.state !== 'blocked') return null;
+
+    const handleLeave = async () => {
+        try {
+            await onLeave?.();
+        } finally {
+            blocker.proceed();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 max-w-md mx-4 shadow-2xl">
+                <h3 className="text-lg font-bold text-gray-800 mb-2">Leave without saving?</h3>
+                <p className="text-gray-600 mb-2">You have unsaved changes on this page.</p>
+                {detail && <p className="text-sm text-gray-500 mb-2">{detail}</p>}
+                <div className="flex gap-3 mt-6">
+                    <button
+                        onClick={() => blocker.reset()}
+                        className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-700 transition"
+                    >
+                        Stay
+                    </button>
+                    <button
+                        onClick={handleLeave}
+                        className="flex-1 bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-semibold hover:bg-gray-300 transition"
+                    >
+                        Leave
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UnsavedChangesGuard;
@@ -1,40 +1,63 @@
-import React, { createContext, useContext, useMemo, useState } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  type AuthSession,
+  type AuthUser,
+  getSession,
+  loginWithPassword,
+  logoutSession,
+  subscribeToSession,
+} from '../services/authSession';
+import {
+  type ReviewAction,
+  type Role,
+  type Section,
+  canEditSection,
+  canPerformReview,
+  canViewSection,
+  normalizeRoles,
+} from '../services/permissions';
 
 /**
- * Lightweight portal auth.
- * This repo previously referenced an AuthContext that wasn't committed; Netlify builds fail without it.
- * For now we use a simple localStorage flag. Replace with real backend auth when ready.
+ * Portal auth backed by the backend session endpoints.
+ * Tokens live in services/authSession; apiClient attaches them and refreshes on 401.
+ * When a refresh fails the session is cleared and this context flips to signed out.
  */
 
-const AUTH_KEY = 'gk_portal_auth';
-
 interface AuthContextType {
   isAuthenticated: boolean;
-  login: (email: string, password: string) => boolean;
-  logout: () => void;
+  user: AuthUser | null;
+  roles: Role[];
+  canView: (section: Section) => boolean;
+  canEdit: (section: Section) => boolean;
+  canReview: (action: ReviewAction) => boolean;
+  // Rejects with the server error when the credentials are refused
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(() => localStorage.getItem(AUTH_KEY) === 'true');
+  const [session, setSession] = useState<AuthSession | null>(() => getSession());
+
+  // Stay in sync with refreshes and forced logouts triggered by apiClient
+  useEffect(() => subscribeToSession(setSession), []);
 
   const value = useMemo<AuthContextType>(() => {
+    const roles: Role[] = session ? normalizeRoles(session.user.roles) : [];
     return {
-      isAuthenticated,
-      login: (email: string, password: string) => {
-        // Minimal gate: require non-empty fields. Swap to real auth later.
-        if (!email?.trim() || !password?.trim()) return false;
-        localStorage.setItem(AUTH_KEY, 'true');
-        setIsAuthenticated(true);
-        return true;
-      },
-      logout: () => {
-        localStorage.removeItem(AUTH_KEY);
-        setIsAuthenticated(false);
+      isAuthenticated: session !== null,
+      user: session?.user ?? null,
+      roles,
+      canView: (section: Section) => canViewSection(roles, section),
+      canEdit: (section: Section) => canEditSection(roles, section),
+      canReview: (action: ReviewAction) => canPerformReview(roles, action),
+      login: async (email: string, password: string) => {
+        await loginWithPassword(email.trim(), password);
       },
+      logout: () => logoutSession(),
     };
-  }, [isAuthenticated]);
+  }, [session]);
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
@@ -44,6 +67,3 @@ export const useAuth = (): AuthContextType => {
   if (!ctx) throw new Error('useAuth must be used within AuthProvider');
   return ctx;
 };
-
-
-
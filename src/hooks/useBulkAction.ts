@@ -0,0 +1,103 @@
+import { useRef, useState } from 'react';
+import { getApiErrorMessage } from '../services/apiClient';
+
+// Runs one task per selected item, one at a time, and records how each went so the
+// progress dialog can show a per-item report and retry only the failures.
+
+// Books, playlists and lessons all have these
+export interface BulkItem {
+  _id: string;
+  title: string;
+}
+
+// Thrown by a task to skip an item for a reason the report shows as-is
+export class BulkItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkItemError';
+  }
+}
+
+export type BulkItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BulkItemResult {
+  id: string;
+  label: string;
+  status: BulkItemStatus;
+  error?: string;
+}
+
+export interface BulkRun {
+  title: string;
+  results: BulkItemResult[];
+  running: boolean;
+}
+
+interface BulkJob {
+  items: BulkItem[];
+  task: (item: BulkItem) => Promise<void>;
+  // Called after every pass with the ids that succeeded in it
+  onFinish?: (succeededIds: string[]) => void;
+}
+
+export const useBulkAction = () => {
+  const [run, setRun] = useState<BulkRun | null>(null);
+  const jobRef = useRef<BulkJob | null>(null);
+
+  const setResult = (id: string, patch: Partial<BulkItemResult>) => {
+    setRun((prev) => prev && {
+      ...prev,
+      results: prev.results.map((r) => (r.id === id ? { ...r, ...patch } : r)),
+    });
+  };
+
+  const process = async (job: BulkJob, items: BulkItem[]) => {
+    setRun((prev) => prev && { ...prev, running: true });
+    const succeeded: string[] = [];
+    for (const item of items) {
+      setResult(item._id, { status: 'running', error: undefined });
+      try {
+        await job.task(item);
+        setResult(item._id, { status: 'done' });
+        succeeded.push(item._id);
+      } catch (err) {
+        console.error(`Bulk action failed for "${item.title}":`, err);
+        const error = err instanceof BulkItemError ? err.message : getApiErrorMessage(err, 'Failed');
+        setResult(item._id, { status: 'failed', error });
+      }
+    }
+    setRun((prev) => prev && { ...prev, running: false });
+    job.onFinish?.(succeeded);
+  };
+
+  const start = <T extends BulkItem>(
+    title: string,
+    items: T[],
+    task: (item: T) => Promise<void>,
+    onFinish?: (succeededIds: string[]) => void
+  ) => {
+    const job: BulkJob = { items, task: task as (item: BulkItem) => Promise<void>, onFinish };
+    jobRef.current = job;
+    setRun({
+      title,
+      running: true,
+      results: items.map((item) => ({ id: item._id, label: item.title, status: 'pending' })),
+    });
+    return process(job, items);
+  };
+
+  const retryFailed = () => {
+    const job = jobRef.current;
+    if (!job || !run || run.running) return;
+    const failedIds = new Set(run.results.filter((r) => r.status === 'failed').map((r) => r.id));
+    return process(job, job.items.filter((item) => failedIds.has(item._id)));
+  };
+
+  const dismiss = () => {
+    if (run?.running) return;
+    jobRef.current = null;
+    setRun(null);
+  };
+
+  return { run, start, retryFailed, dismiss };
+};
@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from 'react';
+import { getMediaUrl } from '../services/apiClient';
+import { type TtsSpeech, ttsApi } from '../services/api';
+import { type NarrationVoices, narrationSegments } from '../utils/narration';
+import { type SpokenWord, type TimedWord, estimatedTimings, returnedTimings, wordAt } from '../utils/speechTiming';
+
+// Plays one text box's narration in the page editor, with each part in its narrator or
+// character voice, and tracks the word being spoken so the canvas can highlight it.
+
+export interface NarrationPreview {
+  boxId: string;
+  // The text being read; a highlight only applies while the box still has this text
+  text: string;
+  state: 'loading' | 'playing';
+  // Offsets into text
+  word: SpokenWord | null;
+  // No segment so far came with timings, so the highlight follows an estimate
+  estimated: boolean;
+}
+
+export interface NarrationPreviewControls {
+  preview: NarrationPreview | null;
+  // Resolves when the narration ends or is stopped; rejects when generating or playing fails
+  play: (boxId: string, text: string, voices: NarrationVoices) => Promise<void>;
+  stop: () => void;
+}
+
+export const useNarrationPreview = (): NarrationPreviewControls => {
+  const [preview, setPreview] = useState<NarrationPreview | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const frameRef = useRef(0);
+  const runRef = useRef(0);
+  // Ends the part playing when the narration is stopped, so play() can return
+  const settleRef = useRef<(() => void) | null>(null);
+  // Speech by voice and text, so replaying a box doesn't regenerate it
+  const cacheRef = useRef(new Map<string, Promise<TtsSpeech>>());
+
+  const halt = () => {
+    runRef.current++;
+    cancelAnimationFrame(frameRef.current);
+    const audio = audioRef.current;
+    if (audio) {
+      audio.onended = null;
+      audio.onerror = null;
+      audio.pause();
+      audio.removeAttribute('src');
+    }
+    const settle = settleRef.current;
+    settleRef.current = null;
+    settle?.();
+  };
+
+  useEffect(() => halt, []);
+
+  const stop = () => {
+    halt();
+    setPreview(null);
+  };
+
+  const speechFor = (text: string, voiceId: string) => {
+    const cache = cacheRef.current;
+    const key = `${voiceId}\n${text}`;
+    let speech = cache.get(key);
+    if (!speech) {
+      speech = ttsApi.generate(text, voiceId, { timestamps: true });
+      speech.catch(() => cache.delete(key));
+      cache.set(key, speech);
+    }
+    return speech;
+  };
+
+  const play = async (boxId: string, text: string, voices: NarrationVoices) => {
+    halt();
+    const run = runRef.current;
+    const current = () => run === runRef.current;
+    const audio = audioRef.current ?? (audioRef.current = new Audio());
+    setPreview({ boxId, text, state: 'loading', word: null, estimated: false });
+
+    // Segments are trimmed slices of the text; find where each starts
+    const segments = narrationSegments(text, voices);
+    let cursor = 0;
+    const offsets = segments.map((segment) => {
+      const at = text.indexOf(segment.text, cursor);
+      cursor = at + segment.text.length;
+      return at;
+    });
+    // Generate every part up front so one follows another without a gap
+    const speeches = segments.map((segment) => speechFor(segment.text, segment.voiceId ?? ''));
+    let timed = false;
+
+    try {
+      for (const [idx, segment] of segments.entries()) {
+        const speech = await speeches[idx];
+        if (!current()) return;
+        if (!speech.audioUrl) throw new Error('No audio URL returned from server');
+        const returned = returnedTimings(segment.text, speech);
+        timed ||= returned !== null;
+        let estimate: TimedWord[] | null = null;
+
+        await new Promise<void>((resolve, reject) => {
+          settleRef.current = resolve;
+          const tick = () => {
+            if (!current()) return;
+            const words = returned ?? (estimate ??= Number.isFinite(audio.duration) ? estimatedTimings(segment.text, audio.duration) : null);
+            const spoken = words && wordAt(words, audio.currentTime);
+            const word = spoken ? { from: offsets[idx] + spoken.from, to: offsets[idx] + spoken.to } : null;
+            setPreview((prev) => (prev && prev.state === 'playing' && prev.word?.from === word?.from
+              ? prev
+              : { boxId, text, state: 'playing', word, estimated: !timed }));
+            frameRef.current = requestAnimationFrame(tick);
+          };
+          audio.onended = () => {
+            cancelAnimationFrame(frameRef.current);
+            resolve();
+          };
+          audio.onerror = () => reject(new Error(audio.error?.message || 'The narration audio could not be played'));
+          audio.src = getMediaUrl(speech.audioUrl);
+          audio.play().then(tick, reject);
+        });
+        if (!current()) return;
+      }
+    } finally {
+      if (current()) stop();
+    }
+  };
+
+  return { preview, play, stop };
+};
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { reviewsApi } from '../services/api';
+import { type ReviewComment } from '../types';
+
+// Review comments pinned to the pages of one book. They are the book's review comments
+// (see components/ReviewPanel) that carry a page and a position; replies hang off the
+// thread's first comment through parentId.
+
+export interface PageComments {
+  loading: boolean;
+  // First comments of the threads pinned on a page, oldest first
+  pins: (pageId: string) => ReviewComment[];
+  replies: (commentId: string) => ReviewComment[];
+  // Open threads on a page, pinned or not
+  unresolvedCount: (pageId: string) => number;
+  addPin: (page: { _id: string; pageNumber: number }, x: number, y: number, body: string) => Promise<ReviewComment | null>;
+  reply: (thread: ReviewComment, body: string) => Promise<void>;
+  setResolved: (thread: ReviewComment, resolved: boolean) => Promise<void>;
+  // Refetch, e.g. after the review panel changed comments
+  reload: () => void;
+}
+
+export const usePageComments = (bookId: string | undefined): PageComments => {
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [loading, setLoading] = useState(Boolean(bookId));
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (!bookId) return;
+    let stale = false;
+    reviewsApi.comments('book', bookId)
+      .then((list) => {
+        if (!stale) setComments(list);
+      })
+      .catch((err) => console.error('Failed to load page comments:', err))
+      .finally(() => {
+        if (!stale) setLoading(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [bookId, reloadCount]);
+
+  const threads = (pageId: string) => comments.filter((c) => !c.parentId && c.anchor.pageId === pageId);
+
+  const pins = (pageId: string) => threads(pageId).filter((c) => c.anchor.x !== undefined && c.anchor.y !== undefined);
+
+  const replies = (commentId: string) => comments.filter((c) => c.parentId === commentId);
+
+  const unresolvedCount = (pageId: string) => threads(pageId).filter((c) => !c.resolved).length;
+
+  const addPin: PageComments['addPin'] = async (page, x, y, body) => {
+    if (!bookId) return null;
+    try {
+      const anchor = { pageId: page._id, pageNumber: page.pageNumber, x, y };
+      const comment = await reviewsApi.addComment('book', bookId, body, anchor);
+      setComments((prev) => [...prev, comment]);
+      return comment;
+    } catch (err) {
+      console.error('Failed to add comment:', err);
+      alert(getApiErrorMessage(err, 'Failed to add the comment'));
+      return null;
+    }
+  };
+
+  const reply: PageComments['reply'] = async (thread, body) => {
+    if (!bookId) return;
+    try {
+      const comment = await reviewsApi.addComment('book', bookId, body, thread.anchor, thread._id);
+      setComments((prev) => [...prev, comment]);
+    } catch (err) {
+      console.error('Failed to reply:', err);
+      alert(getApiErrorMessage(err, 'Failed to post the reply'));
+    }
+  };
+
+  const setResolved: PageComments['setResolved'] = async (thread, resolved) => {
+    if (!bookId) return;
+    try {
+      await reviewsApi.setResolved('book', bookId, thread._id, resolved);
+      setComments((prev) => prev.map((c) => (c._id === thread._id ? { ...c, resolved } : c)));
+    } catch (err) {
+      console.error('Failed to update comment:', err);
+      alert(getApiErrorMessage(err, 'Failed to update the comment'));
+    }
+  };
+
+  return { loading, pins, replies, unresolvedCount, addPin, reply, setResolved, reload: () => setReloadCount((n) => n + 1) };
+};
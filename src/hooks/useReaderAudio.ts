@@ -0,0 +1,256 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { getApiErrorMessage, getMediaUrl } from '../services/apiClient';
+import { ttsApi } from '../services/api';
+import { type Book, type Page } from '../types';
+import { bookLanguage, editionVoices, readerText } from '../utils/editions';
+import { narrationSegments } from '../utils/narration';
+
+// The sound of a book page as the app plays it: the book's background music across pages,
+// the page's own audio (extracted from its video background or sequence videos, which play
+// muted), TTS narration of each text box in turn, and the sound effect bubble. Music and page
+// audio are ducked while narration or a sound effect plays.
+
+const MUSIC_VOLUME = 0.35;
+const PAGE_AUDIO_VOLUME = 0.8;
+// Share of their volume that music and page audio keep while ducked
+const DUCKED = 0.3;
+const FADE_MS = 400;
+
+export type NarrationState = 'loading' | 'playing' | 'finished' | 'error' | 'off';
+
+interface ReaderAudioOptions {
+  book: Book | null;
+  page: Page | undefined;
+  // Video currently showing in a video sequence
+  videoIndex: number;
+  // Everything but the sound effect bubble stays silent until audio is switched on,
+  // which also satisfies the browser's autoplay rules
+  enabled: boolean;
+  // Stands in for the reader's own voice when the book has no narrator voice
+  fallbackVoiceId?: string;
+  // Edition to read, with its own voices; the book's language when unset
+  locale?: string;
+}
+
+export interface ReaderAudio {
+  narration: NarrationState;
+  narrationError: string | null;
+  // Text box being read out
+  speakingBox: number | null;
+  replayNarration: () => void;
+  playSoundEffect: () => void;
+}
+
+interface NarrationStatus {
+  key: string;
+  state: NarrationState;
+  box: number | null;
+  error: string | null;
+}
+
+const fades = new WeakMap<HTMLAudioElement, number>();
+
+const fadeTo = (audio: HTMLAudioElement, volume: number) => {
+  const from = audio.volume;
+  const started = performance.now();
+  const step = () => {
+    const t = Math.min(1, (performance.now() - started) / FADE_MS);
+    audio.volume = from + (volume - from) * t;
+    if (t < 1) fades.set(audio, requestAnimationFrame(step));
+  };
+  cancelAnimationFrame(fades.get(audio) ?? 0);
+  fades.set(audio, requestAnimationFrame(step));
+};
+
+// Autoplay refusals and interrupted loads are expected while paging quickly
+const playQuietly = (audio: HTMLAudioElement) =>
+  audio.play().catch((err: unknown) => {
+    if (!(err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'AbortError'))) {
+      console.error('Audio playback failed:', err);
+    }
+  });
+
+const playToEnd = (audio: HTMLAudioElement, url: string) =>
+  new Promise<void>((resolve, reject) => {
+    audio.onended = () => resolve();
+    audio.onerror = () => reject(new Error(audio.error?.message || 'The narration audio could not be played'));
+    audio.src = url;
+    audio.play().catch(reject);
+  });
+
+const stop = (audio: HTMLAudioElement) => {
+  audio.onended = null;
+  audio.onerror = null;
+  audio.pause();
+  audio.removeAttribute('src');
+};
+
+export const useReaderAudio = ({ book, page, videoIndex, enabled, fallbackVoiceId, locale }: ReaderAudioOptions): ReaderAudio => {
+  const [run, setRun] = useState(0);
+  const [status, setStatus] = useState<NarrationStatus | null>(null);
+  const [effectPlaying, setEffectPlaying] = useState(false);
+  const musicRef = useRef<HTMLAudioElement | null>(null);
+  const pageAudioRef = useRef<HTMLAudioElement | null>(null);
+  const effectRef = useRef<HTMLAudioElement | null>(null);
+  const duckedRef = useRef(false);
+  // Generated clips by voice and text, so replays and revisits don't regenerate
+  const clipCache = useRef(new Map<string, Promise<string>>());
+
+  // Per text box, the parts to read and the voice for each
+  const segments = useMemo(() => {
+    if (!book || !page) return [];
+    const base = bookLanguage(book);
+    const voices = editionVoices(book, locale ?? base);
+    return page.textBoxes.map((box) => narrationSegments(readerText(box, locale ?? base, base), voices)
+      .map((segment) => ({ ...segment, voiceId: segment.voiceId || fallbackVoiceId })));
+  }, [book, page, fallbackVoiceId, locale]);
+  const hasNarration = segments.some((box) => box.length > 0);
+  const missingVoice = segments.some((box) => box.some((segment) => !segment.voiceId));
+  const narrationKey = `${page?._id}:${locale}:${run}`;
+
+  let narration: NarrationState;
+  let narrationError: string | null = null;
+  let speakingBox: number | null = null;
+  if (!enabled || !book) narration = 'off';
+  else if (!hasNarration) narration = 'finished';
+  else if (missingVoice) {
+    narration = 'error';
+    narrationError = 'The book has no narrator voice. Pick a reader voice to hear the narration.';
+  } else if (status?.key === narrationKey) {
+    narration = status.state;
+    narrationError = status.error;
+    speakingBox = status.box;
+  } else narration = 'loading';
+
+  const ducked = narration === 'playing' || effectPlaying;
+
+  const musicUrls = (book?.files?.audio ?? []).map((file) => getMediaUrl(file.url)).filter(Boolean).join('\n');
+  const pageAudioUrl = page?.useVideoSequence && page.videoSequence.length > 0
+    ? page.videoSequence[videoIndex]?.audioUrl
+    : page?.backgroundType === 'video' ? page.backgroundAudioUrl : undefined;
+  // Sequence audio follows its video, which only loops when it is the only one
+  const loopPageAudio = !page?.useVideoSequence || page.videoSequence.length <= 1;
+
+  useEffect(() => {
+    duckedRef.current = ducked;
+    if (musicRef.current) fadeTo(musicRef.current, MUSIC_VOLUME * (ducked ? DUCKED : 1));
+    if (pageAudioRef.current) fadeTo(pageAudioRef.current, PAGE_AUDIO_VOLUME * (ducked ? DUCKED : 1));
+  }, [ducked]);
+
+  // Background music: the book's audio files in order, round and round, across page turns
+  useEffect(() => {
+    if (!enabled || !musicUrls) return;
+    const urls = musicUrls.split('\n');
+    let track = 0;
+    const audio = new Audio(urls[0]);
+    audio.loop = urls.length === 1;
+    audio.volume = MUSIC_VOLUME * (duckedRef.current ? DUCKED : 1);
+    audio.onended = () => {
+      track = (track + 1) % urls.length;
+      audio.src = urls[track];
+      playQuietly(audio);
+    };
+    musicRef.current = audio;
+    playQuietly(audio);
+    return () => {
+      stop(audio);
+      musicRef.current = null;
+    };
+  }, [enabled, musicUrls]);
+
+  useEffect(() => {
+    if (!enabled || !pageAudioUrl) return;
+    const audio = new Audio(getMediaUrl(pageAudioUrl));
+    audio.loop = loopPageAudio;
+    audio.volume = PAGE_AUDIO_VOLUME * (duckedRef.current ? DUCKED : 1);
+    pageAudioRef.current = audio;
+    playQuietly(audio);
+    return () => {
+      stop(audio);
+      pageAudioRef.current = null;
+    };
+  }, [enabled, pageAudioUrl, loopPageAudio]);
+
+  // Narration: every text box in order, each split into narrator and character parts
+  useEffect(() => {
+    if (!enabled || !hasNarration || missingVoice) return;
+    const cache = clipCache.current;
+    const clipUrl = (text: string, voiceId: string) => {
+      const cacheKey = `${voiceId}\n${text}`;
+      let clip = cache.get(cacheKey);
+      if (!clip) {
+        clip = ttsApi.generate(text, voiceId).then(({ audioUrl }) => {
+          if (!audioUrl) throw new Error('No audio URL returned from server');
+          return getMediaUrl(audioUrl);
+        });
+        clip.catch(() => cache.delete(cacheKey));
+        cache.set(cacheKey, clip);
+      }
+      return clip;
+    };
+
+    let stale = false;
+    const audio = new Audio();
+    const report = (state: NarrationState, box: number | null = null, error: string | null = null) => {
+      if (!stale) setStatus({ key: narrationKey, state, box, error });
+    };
+
+    // Generate every clip up front so one follows another without a gap
+    const clips = segments.map((box) => box.map((segment) => clipUrl(segment.text, segment.voiceId as string)));
+    const narrate = async () => {
+      try {
+        for (let box = 0; box < clips.length; box++) {
+          for (const clip of clips[box]) {
+            const url = await clip;
+            if (stale) return;
+            report('playing', box);
+            await playToEnd(audio, url);
+            if (stale) return;
+          }
+        }
+        report('finished');
+      } catch (err) {
+        if (stale) return;
+        console.error('Narration failed:', err);
+        report('error', null, getApiErrorMessage(err, err instanceof Error ? err.message : 'Narration failed'));
+      }
+    };
+    narrate();
+
+    return () => {
+      stale = true;
+      stop(audio);
+    };
+  }, [enabled, hasNarration, missingVoice, segments, narrationKey]);
+
+  // A page's sound effect stops when the reader turns the page
+  useEffect(() => () => {
+    effectRef.current?.pause();
+    effectRef.current = null;
+  }, [page]);
+
+  const playSoundEffect = () => {
+    if (!page?.soundEffectUrl) return;
+    effectRef.current?.pause();
+    const audio = new Audio(getMediaUrl(page.soundEffectUrl));
+    effectRef.current = audio;
+    const done = () => {
+      if (effectRef.current === audio || !effectRef.current) setEffectPlaying(false);
+    };
+    audio.onended = done;
+    audio.onpause = done;
+    setEffectPlaying(true);
+    audio.play().catch((err: unknown) => {
+      console.error('Sound effect playback failed:', err);
+      setEffectPlaying(false);
+    });
+  };
+
+  return {
+    narration,
+    narrationError,
+    speakingBox,
+    replayNarration: () => setRun((n) => n + 1),
+    playSoundEffect,
+  };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { fontsApi } from '../services/api';
+import { loadFont } from '../services/fontLoader';
+import { type Font } from '../types';
+
+// The font registry, with the available fonts loaded into the document so page text draws in
+// them. Null until the list arrives, or if it can't be fetched, so callers don't flag fonts early.
+export const useRegisteredFonts = (): Font[] | null => {
+  const [fonts, setFonts] = useState<Font[] | null>(null);
+
+  useEffect(() => {
+    let stale = false;
+    fontsApi.list()
+      .then((list) => {
+        if (stale) return;
+        setFonts(list);
+        for (const font of list) {
+          if (font.available) loadFont(font).catch((err) => console.warn(`Could not load the font ${font.family}:`, err));
+        }
+      })
+      .catch((err) => console.error('Failed to load fonts:', err));
+    return () => {
+      stale = true;
+    };
+  }, []);
+
+  return fonts;
+};
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+
+// Checkbox selection for list pages. Whole items are kept, not just ids, so a bulk action
+// still has what it needs after the user pages away from some of the selected rows.
+export const useSelection = <T extends { _id: string }>() => {
+  const [selected, setSelected] = useState<Record<string, T>>({});
+
+  const isSelected = (id: string) => id in selected;
+
+  const toggle = (item: T) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (item._id in next) {
+        delete next[item._id];
+      } else {
+        next[item._id] = item;
+      }
+      return next;
+    });
+  };
+
+  const allSelected = (list: T[]) => list.length > 0 && list.every((item) => item._id in selected);
+
+  // Selects every item in the list, or deselects them all if they already are
+  const toggleAll = (list: T[]) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      const clearing = list.every((item) => item._id in prev);
+      list.forEach((item) => {
+        if (clearing) {
+          delete next[item._id];
+        } else {
+          next[item._id] = item;
+        }
+      });
+      return next;
+    });
+  };
+
+  const deselect = (ids: string[]) => {
+    setSelected((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.includes(id))));
+  };
+
+  return {
+    items: Object.values(selected),
+    count: Object.keys(selected).length,
+    isSelected,
+    toggle,
+    allSelected,
+    toggleAll,
+    deselect,
+    clear: () => setSelected({}),
+  };
+};
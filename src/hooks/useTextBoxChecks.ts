@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { type CharacterVoice, type TextBox } from '../types';
+import { type ValidationSeverity } from '../utils/bookValidation';
+import { type ScrollGeometry, DEVICE_FRAME_PX, DEVICE_PROFILES, scrollRect } from '../utils/readerLayout';
+import { type BoxFit, averageColor, contrastProblems, drawBackdrop, measureTextFit } from '../utils/textFit';
+
+// Fit and readability checks for the page editor's text boxes: each box is measured on every
+// device the book preview simulates, and its text colors are checked against what is behind it.
+
+export interface TextBoxIssue {
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface TextBoxCheckInput {
+  // With the text and spans of the locale being edited
+  boxes: TextBox[];
+  page: ScrollGeometry;
+  // Image the page opens on; null when it's a video, which isn't sampled
+  backgroundUrl?: string | null;
+  // The editor canvas, which the backdrop is sampled at
+  size: { width: number; height: number };
+  characterVoices?: CharacterVoice[];
+}
+
+// Checks wait for editing to pause
+const CHECK_DELAY_MS = 400;
+// Percent of the page that layout rounding can be off by
+const SLACK = 0.5;
+
+const onDevices = (labels: string[]) => (labels.length === DEVICE_PROFILES.length ? 'every device' : labels.join(', '));
+
+const checkTextBoxes = async ({ boxes, page, backgroundUrl, size, characterVoices }: TextBoxCheckInput) => {
+  await document.fonts.ready;
+  const devices = DEVICE_PROFILES.map((profile) => ({
+    label: profile.label,
+    fits: measureTextFit(boxes, page, { width: profile.width - 2 * DEVICE_FRAME_PX, height: profile.height - 2 * DEVICE_FRAME_PX }, characterVoices),
+  }));
+  const editorFits = measureTextFit(boxes, page, size, characterVoices);
+  const backdrop = backgroundUrl === null ? null : await drawBackdrop(size, page, backgroundUrl, page.scrollUrl);
+  const scroll = scrollRect(page, 'max');
+
+  const issues: Record<string, TextBoxIssue[]> = {};
+  boxes.forEach((box, idx) => {
+    const list: TextBoxIssue[] = [];
+    const failing = (test: (fit: BoxFit) => boolean) => devices.filter(({ fits }) => test(fits[idx])).map(({ label }) => label);
+
+    const cutOff = failing((fit) => fit.cutOff);
+    if (cutOff.length) list.push({ severity: 'error', message: `Text is cut off on ${onDevices(cutOff)}; readers have to scroll the box` });
+    const cutOffAtMid = failing((fit) => fit.cutOffAtMid && !fit.cutOff);
+    if (cutOffAtMid.length) list.push({ severity: 'warning', message: `Text is cut off with the scroll swiped down on ${onDevices(cutOffAtMid)}` });
+    const tooWide = failing((fit) => fit.tooWide);
+    if (tooWide.length) list.push({ severity: 'warning', message: `A word is wider than the box on ${onDevices(tooWide)}` });
+
+    if (box.x + box.width > 100 + SLACK) {
+      list.push({ severity: 'error', message: 'The box runs off the right edge of the page' });
+    }
+    if (page.scrollUrl) {
+      if (box.x < scroll.left - SLACK || box.x + box.width > scroll.right + SLACK) {
+        list.push({ severity: 'warning', message: 'The box sticks out of the sides of the scroll' });
+      }
+      const below = failing((fit) => fit.bottom > 100 - page.scrollOffsetY + SLACK);
+      if (below.length) list.push({ severity: 'warning', message: `Text runs below the scroll on ${onDevices(below)}` });
+    }
+
+    if (box.text.trim()) {
+      const fit = editorFits[idx];
+      const behind = backdrop && averageColor(backdrop, { left: box.x, right: box.x + box.width, top: fit.top, bottom: fit.bottom });
+      for (const { color, ratio, required } of contrastProblems(box, behind, characterVoices)) {
+        list.push({ severity: 'warning', message: `Low contrast: ${color} text is ${ratio.toFixed(1)}:1 against what's behind it (needs ${required}:1)` });
+      }
+    }
+    if (list.length) issues[box.id] = list;
+  });
+  return issues;
+};
+
+// Issues by box id. The last results stay up while new ones are worked out, so badges don't
+// flicker while typing.
+export const useTextBoxChecks = (input: TextBoxCheckInput): Record<string, TextBoxIssue[]> => {
+  const [issues, setIssues] = useState<Record<string, TextBoxIssue[]>>({});
+  // Fonts that finish loading change the layout, so they trigger another check
+  const [fontLoads, setFontLoads] = useState(0);
+  const key = JSON.stringify(input);
+
+  useEffect(() => {
+    const onLoaded = () => setFontLoads((count) => count + 1);
+    document.fonts.addEventListener('loadingdone', onLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', onLoaded);
+  }, []);
+
+  useEffect(() => {
+    let stale = false;
+    const timer = setTimeout(() => {
+      checkTextBoxes(JSON.parse(key) as TextBoxCheckInput)
+        .then((result) => {
+          if (!stale) setIssues(result);
+        })
+        .catch((err) => console.error('Text box checks failed:', err));
+    }, CHECK_DELAY_MS);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [key, fontLoads]);
+
+  return issues;
+};
@@ -0,0 +1,97 @@
+import { useMemo, useState } from 'react';
+
+const keyOf = (snapshot: unknown) => JSON.stringify(snapshot);
+
+// Undo/redo over snapshots of some piece of editor state.
+// The hook watches the snapshot it is given: every change becomes a history entry once
+// `paused` is false, so drags and slider moves land as one step when they finish.
+// Consecutive changes with the same merge key (e.g. typing into one text box) collapse into one.
+
+export interface HistoryChange {
+  label: string;
+  mergeKey?: string;
+}
+
+export interface HistoryEntry<T> extends HistoryChange {
+  id: number;
+  // State before this change (undo stack) or after it (redo stack)
+  snapshot: T;
+}
+
+interface UndoHistoryOptions<T> {
+  // Memoize it: it is compared by its JSON form on every render
+  snapshot: T;
+  // Hold off recording while an interaction is still in progress
+  paused: boolean;
+  describe: (before: T, after: T) => HistoryChange;
+  // Puts a snapshot back into the editor and returns what was actually applied
+  apply: (snapshot: T) => T;
+  limit?: number;
+}
+
+interface Committed<T> {
+  snapshot: T;
+  key: string;
+}
+
+export const useUndoHistory = <T>({ snapshot, paused, describe, apply, limit = 100 }: UndoHistoryOptions<T>) => {
+  const [past, setPast] = useState<HistoryEntry<T>[]>([]);
+  const [future, setFuture] = useState<HistoryEntry<T>[]>([]);
+  const [committed, setCommitted] = useState<Committed<T> | null>(null);
+  const [resetPending, setResetPending] = useState(true);
+  const [nextId, setNextId] = useState(1);
+  const snapshotKey = useMemo(() => keyOf(snapshot), [snapshot]);
+
+  // Record during render so the entry lands in the same pass as the change itself
+  if (resetPending) {
+    setResetPending(false);
+    setCommitted({ snapshot, key: snapshotKey });
+    setPast([]);
+    setFuture([]);
+  } else if (committed && !paused && snapshotKey !== committed.key) {
+    const change = describe(committed.snapshot, snapshot);
+    const last = past[past.length - 1];
+    if (!(change.mergeKey && last?.mergeKey === change.mergeKey && future.length === 0)) {
+      setPast([...past, { ...change, id: nextId, snapshot: committed.snapshot }].slice(-limit));
+      setNextId(nextId + 1);
+    }
+    setFuture([]);
+    setCommitted({ snapshot, key: snapshotKey });
+  }
+
+  // Move `delta` steps through the history: negative undoes, positive redoes
+  const travel = (delta: number) => {
+    if (!committed || paused || delta === 0) return;
+    const nextPast = [...past];
+    const nextFuture = [...future];
+    let current = committed.snapshot;
+    for (let i = 0; i < Math.abs(delta); i++) {
+      const entry = delta < 0 ? nextPast.pop() : nextFuture.shift();
+      if (!entry) break;
+      if (delta < 0) {
+        nextFuture.unshift({ ...entry, snapshot: current });
+      } else {
+        nextPast.push({ ...entry, snapshot: current });
+      }
+      current = entry.snapshot;
+    }
+    if (current === committed.snapshot) return;
+
+    const applied = apply(current);
+    setPast(nextPast);
+    setFuture(nextFuture);
+    setCommitted({ snapshot: applied, key: keyOf(applied) });
+  };
+
+  return {
+    past,
+    future,
+    canUndo: past.length > 0 && !paused,
+    canRedo: future.length > 0 && !paused,
+    undo: () => travel(-1),
+    redo: () => travel(1),
+    travel,
+    // Start over from whatever the state is on the next render (page loaded, reset, ...)
+    reset: () => setResetPending(true),
+  };
+};
@@ -1,8 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { Plus, Upload, X, Music, Gamepad2, Globe, Trash2, Video, Volume2, Gift } from 'lucide-react';
-import apiClient from '../services/apiClient';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { Plus, Upload, X, Music, Gamepad2, Globe, Trash2, Video, Volume2, Gift, Layers, History, ClipboardCheck, ListChecks, Download, Languages } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { booksApi, categoriesApi, gamesApi, pagesApi, uploadsApi, voicesApi } from '../services/api';
+import { type PackageProgress, exportBookPackage } from '../services/bookPackage';
+import { type BookAudioFile, type BookEdition, type BookGame, type BookVideo, type Category, type CharacterVoice, type Page, STATUS_LABELS, WORKFLOW_ONLY_STATUSES } from '../types';
+import BookValidationReport from '../components/BookValidationReport';
+import BulkPageImport from '../components/BulkPageImport';
 import ContentAnalytics from '../components/ContentAnalytics';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
+import ReviewPanel from '../components/ReviewPanel';
+import RevisionHistory from '../components/RevisionHistory';
+import TranslationReport from '../components/TranslationReport';
+import { useAuth } from '../contexts/AuthContext';
+import { type ValidationIssue, countIssues, validateBook } from '../utils/bookValidation';
+import { type MissingTranslation, DEFAULT_LANGUAGE, LANGUAGES, languageLabel, missingTranslations } from '../utils/editions';
 
 interface Voice {
     _id?: string;
@@ -17,6 +29,8 @@ interface Voice {
 const BookEdit: React.FC = () => {
     const { bookId } = useParams<{ bookId: string }>();
     const navigate = useNavigate();
+    const { canEdit, canReview } = useAuth();
+    const readOnly = !canEdit('content');
 
     // Form state
     const [title, setTitle] = useState('');
@@ -27,6 +41,7 @@ const BookEdit: React.FC = () => {
     const [category, setCategory] = useState('Other');
     const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
     const [status, setStatus] = useState('draft');
+    const [savedStatus, setSavedStatus] = useState('draft');
     const [orientation, setOrientation] = useState<'portrait' | 'landscape'>('portrait');
     const [isMembersOnly, setIsMembersOnly] = useState(false);
     const [loading, setLoading] = useState(false);
@@ -34,22 +49,22 @@ const BookEdit: React.FC = () => {
     const [uploading, setUploading] = useState(false);
     const [previewImage, setPreviewImage] = useState<string>('');
     const [isDragging, setIsDragging] = useState(false);
-    const [categories, setCategories] = useState<Array<{ _id: string; name: string }>>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const dropZoneRef = useRef<HTMLDivElement>(null);
-    const [audioFiles, setAudioFiles] = useState<Array<{ url: string; filename: string; uploadedAt?: string }>>([]);
+    const [audioFiles, setAudioFiles] = useState<BookAudioFile[]>([]);
     const [audioUploadVolume, setAudioUploadVolume] = useState<number>(0.4); // 40% default attenuation on upload
     const [uploadingAudio, setUploadingAudio] = useState(false);
     const [reprocessingAudioIndex, setReprocessingAudioIndex] = useState<number | null>(null);
     const audioInputRef = useRef<HTMLInputElement>(null);
     const [availableGames, setAvailableGames] = useState<Array<{ gameId: string; name: string; enabled: boolean }>>([]);
     const [selectedGames, setSelectedGames] = useState<string[]>([]);
-    const [bookGames, setBookGames] = useState<Array<{ _id?: string; title: string; url: string; coverImage?: string; description?: string }>>([]);
+    const [bookGames, setBookGames] = useState<BookGame[]>([]);
     const [editingBookGame, setEditingBookGame] = useState<number | null>(null);
     const [newBookGame, setNewBookGame] = useState<{ title: string; url: string; coverImage?: string; description?: string }>({ title: '', url: '', coverImage: '', description: '' });
     const [uploadingGameCover, setUploadingGameCover] = useState(false);
     const gameCoverInputRef = useRef<HTMLInputElement>(null);
-    const [bookVideos, setBookVideos] = useState<Array<{ _id?: string; title: string; videoUrl: string; thumbnailUrl?: string; description?: string }>>([]);
+    const [bookVideos, setBookVideos] = useState<BookVideo[]>([]);
     const [editingBookVideo, setEditingBookVideo] = useState<number | null>(null);
     const [newBookVideo, setNewBookVideo] = useState<{ title: string; videoUrl: string; thumbnailUrl?: string; description?: string }>({ title: '', videoUrl: '', thumbnailUrl: '', description: '' });
     const [uploadingVideo, setUploadingVideo] = useState(false);
@@ -69,16 +84,33 @@ const BookEdit: React.FC = () => {
     
     // Multi-character voice system
     const [defaultNarratorVoiceId, setDefaultNarratorVoiceId] = useState<string>('');
-    const [characterVoices, setCharacterVoices] = useState<Array<{ characterName: string; voiceId: string; color?: string }>>([]);
+    const [characterVoices, setCharacterVoices] = useState<CharacterVoice[]>([]);
     const [newCharacterName, setNewCharacterName] = useState<string>('');
 
+    // Editions: the language of the book's own text, plus a translation per locale
+    const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+    const [editions, setEditions] = useState<BookEdition[]>([]);
+    const [newEditionLocale, setNewEditionLocale] = useState('');
+    const [translationReport, setTranslationReport] = useState<MissingTranslation[] | null>(null);
+    const [checkingTranslations, setCheckingTranslations] = useState(false);
+
+    const [showBulkImport, setShowBulkImport] = useState(false);
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [searchParams] = useSearchParams();
+    // The review queue links here with ?review=1
+    const [showReview, setShowReview] = useState(searchParams.get('review') === '1');
+    const [reviewPages, setReviewPages] = useState<Page[]>([]);
+    const [reloadCount, setReloadCount] = useState(0);
+    const [validation, setValidation] = useState<{ issues: ValidationIssue[]; blocked: boolean } | null>(null);
+    const [validating, setValidating] = useState(false);
+    const [exportProgress, setExportProgress] = useState<PackageProgress | null>(null);
+
     // Load existing book data
     useEffect(() => {
         const fetchBook = async () => {
             if (!bookId) return;
             try {
-                const res = await apiClient.get(`/api/books/${bookId}`);
-                const b = res.data;
+                const b = await booksApi.get(bookId);
                 setTitle(b.title || '');
                 setAuthor(b.author || '');
                 setDescription(b.description || '');
@@ -87,6 +119,7 @@ const BookEdit: React.FC = () => {
                 setMinAge(b.minAge ?? '');
                 setCategory(b.category || 'Other');
                 setStatus(b.status || 'draft');
+                setSavedStatus(b.status || 'draft');
                 setOrientation(b.orientation || 'portrait');
                 setIsMembersOnly(b.isMembersOnly || false);
                 
@@ -140,21 +173,25 @@ const BookEdit: React.FC = () => {
                 } else {
                     setCharacterVoices([]);
                 }
+
+                setLanguage(b.language || DEFAULT_LANGUAGE);
+                setEditions(b.editions ?? []);
             } catch (err) {
                 console.error('Failed to fetch book:', err);
+                alert(getApiErrorMessage(err, 'Failed to load book'));
             } finally {
                 setFetching(false);
             }
         };
         fetchBook();
-    }, [bookId]);
+    }, [bookId, reloadCount]);
 
     // Fetch available voices
     useEffect(() => {
         const fetchVoices = async () => {
             try {
-                const response = await apiClient.get('/api/voices');
-                setAvailableVoices(response.data || []);
+                const voicesData = await voicesApi.list<Voice>();
+                setAvailableVoices(voicesData || []);
             } catch (error) {
                 console.error('Error fetching voices:', error);
             }
@@ -166,21 +203,14 @@ const BookEdit: React.FC = () => {
         const fetchCategories = async () => {
             try {
                 // Only fetch book categories
-                const response = await apiClient.get('/api/categories?type=book');
-                // Handle paginated response or direct array
-                const categoriesData = Array.isArray(response.data) 
-                    ? response.data 
-                    : (response.data.data || response.data.categories || []);
+                const categoriesData = await categoriesApi.list('book');
                 console.log('📚 Loaded categories:', categoriesData.length);
                 setCategories(categoriesData);
             } catch (error) {
                 console.error('Error fetching categories:', error);
                 // Fallback: try fetching all categories if type filter fails
                 try {
-                    const fallbackResponse = await apiClient.get('/api/categories');
-                    const fallbackData = Array.isArray(fallbackResponse.data) 
-                        ? fallbackResponse.data 
-                        : (fallbackResponse.data.data || fallbackResponse.data.categories || []);
+                    const fallbackData = await categoriesApi.list();
                     console.log('📚 Loaded categories (fallback):', fallbackData.length);
                     setCategories(fallbackData);
                 } catch (fallbackError) {
@@ -195,12 +225,8 @@ const BookEdit: React.FC = () => {
     useEffect(() => {
         const fetchGames = async () => {
             try {
-                const response = await apiClient.get('/api/games');
-                // Handle paginated response or direct array
-                const gamesData = Array.isArray(response.data) 
-                    ? response.data 
-                    : (response.data.data || response.data.games || []);
-                setAvailableGames(gamesData);
+                const gamesData = await gamesApi.list<{ gameId: string; name: string; enabled: boolean }>();
+                setAvailableGames(gamesData || []);
             } catch (error) {
                 console.error('Error fetching games:', error);
             }
@@ -215,20 +241,11 @@ const BookEdit: React.FC = () => {
         }
 
         setUploading(true);
-        const formDataUpload = new FormData();
-        formDataUpload.append('file', file);
-
         try {
             // Upload with bookId and type=cover for organized structure
-            const response = await apiClient.post(
-                `/api/upload/image?bookId=${bookId}&type=cover`,
-                formDataUpload,
-                {
-                    headers: { 'Content-Type': 'multipart/form-data' },
-                }
-            );
-            setCoverImage(response.data.url);
-            setPreviewImage(response.data.url);
+            const { url } = await uploadsApi.upload('image', file, { bookId, type: 'cover' });
+            setCoverImage(url);
+            setPreviewImage(url);
         } catch (error) {
             console.error('Upload failed:', error);
             alert('Failed to upload image');
@@ -287,22 +304,13 @@ const BookEdit: React.FC = () => {
         }
 
         setUploadingAudio(true);
-        const formDataUpload = new FormData();
-        formDataUpload.append('file', file);
-
         try {
-            const response = await apiClient.post(
-                `/api/upload/audio?bookId=${bookId}&type=audio&volume=${audioUploadVolume}`,
-                formDataUpload,
-                {
-                    headers: { 'Content-Type': 'multipart/form-data' },
-                }
-            );
+            const uploaded = await uploadsApi.upload('audio', file, { bookId, type: 'audio', volume: audioUploadVolume });
             
             // Add new audio file to the list
             const newAudio = {
-                url: response.data.url,
-                filename: response.data.filename || file.name,
+                url: uploaded.url,
+                filename: uploaded.filename || file.name,
                 uploadedAt: new Date().toISOString(),
             };
             setAudioFiles([...audioFiles, newAudio]);
@@ -356,12 +364,10 @@ const BookEdit: React.FC = () => {
 
         setReprocessingAudioIndex(index);
         try {
-            const response = await apiClient.post(
-                `/api/upload/audio/reprocess?bookId=${bookId}&index=${index}&volume=${vol}`
-            );
+            const reprocessed = await uploadsApi.reprocessBookAudio(bookId, index, vol);
             const updated = {
-                url: response.data.url,
-                filename: response.data.filename || audioFiles[index]?.filename || `audio-${index}.mp3`,
+                url: reprocessed.url,
+                filename: reprocessed.filename || audioFiles[index]?.filename || `audio-${index}.mp3`,
                 uploadedAt: new Date().toISOString(),
             };
             setAudioFiles(prev => prev.map((a, i) => (i === index ? updated : a)));
@@ -391,18 +397,9 @@ const BookEdit: React.FC = () => {
         }
 
         setUploadingVideo(true);
-        const formDataUpload = new FormData();
-        formDataUpload.append('file', file);
-
         try {
-            const response = await apiClient.post(
-                `/api/upload/video?bookId=${bookId}&type=video`,
-                formDataUpload,
-                {
-                    headers: { 'Content-Type': 'multipart/form-data' },
-                }
-            );
-            setNewBookVideo({ ...newBookVideo, videoUrl: response.data.url });
+            const { url } = await uploadsApi.upload('video', file, { bookId, type: 'video' });
+            setNewBookVideo({ ...newBookVideo, videoUrl: url });
         } catch (error: any) {
             console.error('Video upload failed:', error);
             let errorMessage = 'Failed to upload video file';
@@ -431,11 +428,84 @@ const BookEdit: React.FC = () => {
         }
     };
 
+    // The book as it is in the form, checked against its saved pages
+    const checkBook = async () => validateBook(
+        { coverImage, description, introVideoUrl, bookGames, bookVideos, characterVoices, files: { audio: audioFiles } },
+        bookId ? await pagesApi.listByBook(bookId) : []
+    );
+
+    const handleValidate = async () => {
+        setValidating(true);
+        try {
+            setValidation({ issues: await checkBook(), blocked: false });
+        } catch (err) {
+            console.error('Error validating book:', err);
+            alert(getApiErrorMessage(err, 'Failed to load the pages to validate'));
+        } finally {
+            setValidating(false);
+        }
+    };
+
+    const handleCheckTranslations = async () => {
+        if (!bookId) return;
+        setCheckingTranslations(true);
+        try {
+            setTranslationReport(missingTranslations({ language, editions, description }, await pagesApi.listByBook(bookId)));
+        } catch (err) {
+            console.error('Error checking translations:', err);
+            alert(getApiErrorMessage(err, 'Failed to load the pages to check'));
+        } finally {
+            setCheckingTranslations(false);
+        }
+    };
+
+    const updateEdition = (locale: string, changes: Partial<BookEdition>) => {
+        setEditions(editions.map((edition) => edition.locale === locale ? { ...edition, ...changes } : edition));
+    };
+
+    // An empty voice leaves the character on the book's own voice
+    const setEditionCharacterVoice = (edition: BookEdition, characterName: string, voiceId: string) => {
+        const others = (edition.characterVoices ?? []).filter((voice) => voice.characterName !== characterName);
+        updateEdition(edition.locale, { characterVoices: voiceId ? [...others, { characterName, voiceId }] : others });
+    };
+
+    // Packages what is saved, not unsaved edits in the form
+    const handleExport = async () => {
+        if (!bookId) return;
+        setExportProgress({ label: 'Loading the book', done: 0, total: 1 });
+        try {
+            const { file, filename, missing } = await exportBookPackage(bookId, setExportProgress);
+            const url = URL.createObjectURL(file);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = filename;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+            if (missing.length > 0) {
+                alert(`Exported, but ${missing.length} file${missing.length === 1 ? '' : 's'} could not be downloaded. The package keeps their original URLs:\n\n${missing.join('\n')}`);
+            }
+        } catch (err) {
+            console.error('Error exporting book:', err);
+            alert(getApiErrorMessage(err, 'Failed to export the book'));
+        } finally {
+            setExportProgress(null);
+        }
+    };
+
+    // Publishing is refused while validation finds errors; the report says what to fix
+    const passesValidation = async () => {
+        const issues = await checkBook();
+        if (countIssues(issues).errors === 0) return true;
+        setValidation({ issues, blocked: true });
+        return false;
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!bookId) return;
+        if (!bookId || readOnly) return;
         setLoading(true);
         try {
+            if (status === 'published' && savedStatus !== 'published' && !(await passesValidation())) return;
             const payload = {
                 title,
                 author,
@@ -459,9 +529,11 @@ const BookEdit: React.FC = () => {
                 rewardVoiceId: rewardVoiceId || null, // Voice unlocked when completing book
                 defaultNarratorVoiceId: defaultNarratorVoiceId || null, // Narrator voice (used when no @Character tag)
                 characterVoices: characterVoices, // Character-to-voice mappings for @Character tags
+                language,
+                editions,
             };
             console.log('Updating book with payload:', payload);
-            await apiClient.put(`/api/books/${bookId}`, payload);
+            await booksApi.update(bookId, payload);
             navigate('/books');
         } catch (err) {
             console.error('Error updating book:', err);
@@ -471,13 +543,74 @@ const BookEdit: React.FC = () => {
         }
     };
 
+    // Pages a review comment can be pinned to
+    useEffect(() => {
+        if (!showReview || !bookId) return;
+        pagesApi.listByBook(bookId)
+            .then(setReviewPages)
+            .catch((err) => console.error('Error fetching pages for review:', err));
+    }, [showReview, bookId]);
+
     if (fetching) {
         return <div className="p-6 text-center">Loading book data...</div>;
     }
 
     return (
         <div className="max-w-4xl mx-auto p-6">
-            <h2 className="text-3xl font-bold text-gray-800 mb-6">Edit Book</h2>
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-3xl font-bold text-gray-800">Edit Book</h2>
+                <div className="flex gap-2">
+                    {bookId && (
+                        <button
+                            type="button"
+                            onClick={handleValidate}
+                            disabled={validating}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                        >
+                            <ListChecks className="w-4 h-4" /> {validating ? 'Checking...' : 'Validate'}
+                        </button>
+                    )}
+                    {bookId && (
+                        <button
+                            type="button"
+                            onClick={() => setShowReview(true)}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            <ClipboardCheck className="w-4 h-4" /> Review
+                        </button>
+                    )}
+                    {bookId && (
+                        <button
+                            type="button"
+                            onClick={() => setShowRevisions(true)}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            <History className="w-4 h-4" /> History
+                        </button>
+                    )}
+                    {bookId && (
+                        <button
+                            type="button"
+                            onClick={handleExport}
+                            disabled={!!exportProgress}
+                            title={exportProgress?.label ?? 'Download the saved book, its pages and all their media as a zip'}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                        >
+                            <Download className="w-4 h-4" /> {exportProgress ? `Exporting ${exportProgress.done}/${exportProgress.total}...` : 'Export'}
+                        </button>
+                    )}
+                    {!readOnly && bookId && (
+                        <button
+                            type="button"
+                            onClick={() => setShowBulkImport(true)}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            <Layers className="w-4 h-4" /> Bulk Import Pages
+                        </button>
+                    )}
+                </div>
+            </div>
+            {readOnly && <ReadOnlyBanner subject="book" />}
             
             {/* Analytics Section */}
             {bookId && (
@@ -649,7 +782,9 @@ const BookEdit: React.FC = () => {
                             className="w-full rounded-md border border-gray-300 bg-white text-gray-900 text-base focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent px-4 py-3 transition cursor-pointer min-h-[44px]"
                         >
                             <option value="draft">Draft</option>
-                            <option value="published">Published</option>
+                            {/* Review steps are set from the Review panel, and only approvers publish */}
+                            {WORKFLOW_ONLY_STATUSES.includes(status) && <option value={status} disabled>{STATUS_LABELS[status]}</option>}
+                            <option value="published" disabled={status !== 'published' && !canReview('publish')}>Published</option>
                             <option value="archived">Archived</option>
                         </select>
                     </div>
@@ -1001,15 +1136,9 @@ const BookEdit: React.FC = () => {
                                         const file = e.target.files?.[0];
                                         if (file && bookId) {
                                             setUploadingGameCover(true);
-                                            const formData = new FormData();
-                                            formData.append('file', file);
                                             try {
-                                                const response = await apiClient.post(
-                                                    `/api/upload/image?bookId=${bookId}&type=game-cover`,
-                                                    formData,
-                                                    { headers: { 'Content-Type': 'multipart/form-data' } }
-                                                );
-                                                setNewBookGame({ ...newBookGame, coverImage: response.data.url || '' });
+                                                const { url } = await uploadsApi.upload('image', file, { bookId, type: 'game-cover' });
+                                                setNewBookGame({ ...newBookGame, coverImage: url || '' });
                                             } catch (error) {
                                                 console.error('Failed to upload game cover:', error);
                                                 alert('Failed to upload cover image');
@@ -1233,15 +1362,9 @@ const BookEdit: React.FC = () => {
                                         const file = e.target.files?.[0];
                                         if (file && bookId) {
                                             setUploadingVideoThumbnail(true);
-                                            const formData = new FormData();
-                                            formData.append('file', file);
                                             try {
-                                                const response = await apiClient.post(
-                                                    `/api/upload/image?bookId=${bookId}&type=cover`,
-                                                    formData,
-                                                    { headers: { 'Content-Type': 'multipart/form-data' } }
-                                                );
-                                                setNewBookVideo({ ...newBookVideo, thumbnailUrl: response.data.url || '' });
+                                                const { url } = await uploadsApi.upload('image', file, { bookId, type: 'cover' });
+                                                setNewBookVideo({ ...newBookVideo, thumbnailUrl: url || '' });
                                             } catch (error) {
                                                 console.error('Failed to upload video thumbnail:', error);
                                                 alert('Failed to upload thumbnail image');
@@ -1384,16 +1507,9 @@ const BookEdit: React.FC = () => {
                                     }
                                     
                                     setUploadingIntroVideo(true);
-                                    const formData = new FormData();
-                                    formData.append('file', file);
-                                    
                                     try {
-                                        const response = await apiClient.post(
-                                            `/api/upload/video?bookId=${bookId}&type=video`,
-                                            formData,
-                                            { headers: { 'Content-Type': 'multipart/form-data' } }
-                                        );
-                                        setIntroVideoUrl(response.data.url);
+                                        const { url } = await uploadsApi.upload('video', file, { bookId, type: 'video' });
+                                        setIntroVideoUrl(url);
                                     } catch (error: any) {
                                         console.error('Intro video upload failed:', error);
                                         const errorMessage = error.response?.data?.message || error.message || 'Unknown error';
@@ -1631,6 +1747,13 @@ const BookEdit: React.FC = () => {
                                             <div className="flex-shrink-0 w-24">
                                                 <span className="text-sm font-medium text-green-800">@{char.characterName}</span>
                                             </div>
+                                            <input
+                                                type="color"
+                                                value={char.color || '#6366f1'}
+                                                onChange={(e) => setCharacterVoices(characterVoices.map((c, i) => i === index ? { ...c, color: e.target.value } : c))}
+                                                className="w-8 h-8 p-0.5 rounded cursor-pointer flex-shrink-0"
+                                                title="Color of this character's lines when text is coloured by character"
+                                            />
                                             <select
                                                 value={char.voiceId}
                                                 onChange={(e) => {
@@ -1691,6 +1814,132 @@ const BookEdit: React.FC = () => {
                     </div>
                 </div>
                 
+                {/* Languages & Editions */}
+                <div className="border-t border-gray-200 pt-6">
+                    <div className="flex items-center justify-between mb-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                            <Languages className="w-4 h-4 inline mr-2" />
+                            Languages &amp; Editions
+                        </label>
+                        {bookId && editions.length > 0 && (
+                            <button
+                                type="button"
+                                onClick={handleCheckTranslations}
+                                disabled={checkingTranslations}
+                                className="inline-flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                                <ListChecks className="w-4 h-4" /> {checkingTranslations ? 'Checking...' : 'Missing translations'}
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-xs text-gray-500 mb-4">
+                        The fields above are the book in its own language. Each edition adds a translated title and description and its own voices;
+                        translate the page text in the page editor by switching its language. Keep the <code className="bg-gray-100 px-1 rounded">@CharacterName</code> tags in translations.
+                    </p>
+
+                    <div className="flex items-center gap-3 mb-4">
+                        <span className="text-sm text-gray-700">Book language</span>
+                        <select
+                            value={language}
+                            onChange={(e) => setLanguage(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                            {LANGUAGES.filter((option) => option.code === language || !editions.some((edition) => edition.locale === option.code)).map((option) => (
+                                <option key={option.code} value={option.code}>{option.label}</option>
+                            ))}
+                            {!LANGUAGES.some((option) => option.code === language) && <option value={language}>{language}</option>}
+                        </select>
+                    </div>
+
+                    <div className="space-y-4">
+                        {editions.map((edition) => (
+                            <div key={edition.locale} className="bg-sky-50 rounded-lg p-4 border border-sky-200 space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-medium text-sky-900">{languageLabel(edition.locale)} edition</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => {
+                                            if (confirm(`Remove the ${languageLabel(edition.locale)} edition? Its page translations are kept and come back if the edition is added again.`)) {
+                                                setEditions(editions.filter((e) => e.locale !== edition.locale));
+                                            }
+                                        }}
+                                        className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                                        title="Remove edition"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                <input
+                                    type="text"
+                                    placeholder={`Title (${title})`}
+                                    value={edition.title ?? ''}
+                                    onChange={(e) => updateEdition(edition.locale, { title: e.target.value })}
+                                    className="w-full px-3 py-2 border border-sky-300 rounded-lg bg-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                                />
+                                <textarea
+                                    placeholder="Description"
+                                    value={edition.description ?? ''}
+                                    onChange={(e) => updateEdition(edition.locale, { description: e.target.value })}
+                                    rows={2}
+                                    className="w-full px-3 py-2 border border-sky-300 rounded-lg bg-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                                />
+                                <div className="flex items-center gap-3">
+                                    <span className="flex-shrink-0 w-24 text-sm text-sky-800">Narrator</span>
+                                    <select
+                                        value={edition.narratorVoiceId ?? ''}
+                                        onChange={(e) => updateEdition(edition.locale, { narratorVoiceId: e.target.value || undefined })}
+                                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                                    >
+                                        <option value="">Same as the book</option>
+                                        {availableVoices.filter(v => v.enabled).map(voice => (
+                                            <option key={voice.voiceId} value={voice.voiceId}>{voice.customName || voice.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {characterVoices.map((char) => (
+                                    <div key={char.characterName} className="flex items-center gap-3">
+                                        <span className="flex-shrink-0 w-24 text-sm text-sky-800">@{char.characterName}</span>
+                                        <select
+                                            value={edition.characterVoices?.find((voice) => voice.characterName === char.characterName)?.voiceId ?? ''}
+                                            onChange={(e) => setEditionCharacterVoice(edition, char.characterName, e.target.value)}
+                                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                                        >
+                                            <option value="">Same as the book</option>
+                                            {availableVoices.filter(v => v.enabled).map(voice => (
+                                                <option key={voice.voiceId} value={voice.voiceId}>{voice.customName || voice.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex gap-2 mt-4">
+                        <select
+                            value={newEditionLocale}
+                            onChange={(e) => setNewEditionLocale(e.target.value)}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                            <option value="">Add an edition...</option>
+                            {LANGUAGES.filter((option) => option.code !== language && !editions.some((edition) => edition.locale === option.code)).map((option) => (
+                                <option key={option.code} value={option.code}>{option.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            disabled={!newEditionLocale}
+                            onClick={() => {
+                                setEditions([...editions, { locale: newEditionLocale }]);
+                                setNewEditionLocale('');
+                            }}
+                            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                        >
+                            <Plus className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+
                 <div className="flex justify-end gap-4 pt-4">
                     <button
                         type="button"
@@ -1701,13 +1950,75 @@ const BookEdit: React.FC = () => {
                     </button>
                     <button
                         type="submit"
-                        disabled={loading || uploading}
+                        disabled={loading || uploading || readOnly}
                         className="inline-flex items-center gap-2 bg-indigo-600 text-white font-semibold px-6 py-2 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         {loading ? 'Saving...' : <><Plus className="w-5 h-5" /> Save Changes</>}
                     </button>
                 </div>
             </form>
+
+            {showBulkImport && bookId && (
+                <BulkPageImport bookId={bookId} onClose={() => setShowBulkImport(false)} />
+            )}
+
+            {showRevisions && bookId && (
+                <RevisionHistory
+                    type="book"
+                    documentId={bookId}
+                    title={title || 'Book'}
+                    readOnly={readOnly}
+                    onRolledBack={() => setReloadCount((n) => n + 1)}
+                    onClose={() => setShowRevisions(false)}
+                />
+            )}
+
+            {showReview && bookId && (
+                <ReviewPanel
+                    type="book"
+                    documentId={bookId}
+                    title={title || 'Book'}
+                    status={status}
+                    anchors={[
+                        { label: 'Title', anchor: { field: 'title' } },
+                        { label: 'Description', anchor: { field: 'description' } },
+                        { label: 'Cover image', anchor: { field: 'coverImage' } },
+                        { label: 'Categories', anchor: { field: 'categories' } },
+                        ...reviewPages.map((page) => ({
+                            label: `Page ${page.pageNumber}`,
+                            anchor: { pageId: page._id, pageNumber: page.pageNumber },
+                        })),
+                    ]}
+                    onBeforeTransition={(action) => action === 'publish' ? passesValidation() : Promise.resolve(true)}
+                    onStatusChange={(next) => {
+                        setStatus(next);
+                        setSavedStatus(next);
+                    }}
+                    onClose={() => setShowReview(false)}
+                />
+            )}
+
+            {translationReport && (
+                <TranslationReport
+                    title={title}
+                    editions={editions}
+                    missing={translationReport}
+                    checking={checkingTranslations}
+                    onRecheck={handleCheckTranslations}
+                    onClose={() => setTranslationReport(null)}
+                />
+            )}
+
+            {validation && (
+                <BookValidationReport
+                    title={title || 'Book'}
+                    issues={validation.issues}
+                    blocked={validation.blocked}
+                    checking={validating}
+                    onRecheck={handleValidate}
+                    onClose={() => setValidation(null)}
+                />
+            )}
         </div>
     );
 };
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Upload, ArrowLeft, Save, Video, X } from 'lucide-react';
-import apiClient from '../services/apiClient';
+import { booksApi, categoriesApi, uploadsApi } from '../services/api';
+import { type Category } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
 
 interface BookFormData {
     title: string;
@@ -16,13 +19,10 @@ interface BookFormData {
     introVideoUrl: string;
 }
 
-interface Category {
-    _id: string;
-    name: string;
-}
-
 const BookForm: React.FC = () => {
     const navigate = useNavigate();
+    const { canEdit, canReview } = useAuth();
+    const readOnly = !canEdit('content');
     const [loading, setLoading] = useState(false);
     const [uploading, setUploading] = useState(false);
     const [uploadingIntroVideo, setUploadingIntroVideo] = useState(false);
@@ -48,10 +48,10 @@ const BookForm: React.FC = () => {
         const fetchCategories = async () => {
             try {
                 // Only fetch book categories
-                const response = await apiClient.get('/api/categories?type=book');
-                setCategories(response.data);
-                if (response.data.length > 0 && !formData.category) {
-                    setFormData(prev => ({ ...prev, category: response.data[0].name }));
+                const categoriesData = await categoriesApi.list('book');
+                setCategories(categoriesData);
+                if (categoriesData.length > 0 && !formData.category) {
+                    setFormData(prev => ({ ...prev, category: categoriesData[0].name }));
                 }
             } catch (error) {
                 console.error('Error fetching categories:', error);
@@ -108,6 +108,7 @@ const BookForm: React.FC = () => {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (readOnly) return;
         setLoading(true);
 
         try {
@@ -115,8 +116,7 @@ const BookForm: React.FC = () => {
             const bookData = { ...formData, coverImage: '', introVideoUrl: '' };
             
             // Create book
-            const response = await apiClient.post('/api/books', bookData);
-            const newBook = response.data;
+            const newBook = await booksApi.create(bookData);
             const bookId = newBook._id;
             
             const updateData: { coverImage?: string; introVideoUrl?: string } = {};
@@ -124,19 +124,10 @@ const BookForm: React.FC = () => {
             // Step 2: Upload cover image with bookId for organized structure
             if (coverFile) {
                 setUploading(true);
-                const formDataUpload = new FormData();
-                formDataUpload.append('file', coverFile);
-
                 try {
-                    const uploadResponse = await apiClient.post(
-                        `/api/upload/image?bookId=${bookId}&type=cover`,
-                        formDataUpload,
-                        {
-                            headers: { 'Content-Type': 'multipart/form-data' },
-                        }
-                    );
+                    const uploaded = await uploadsApi.upload('image', coverFile, { bookId, type: 'cover' });
                     
-                    updateData.coverImage = uploadResponse.data.url;
+                    updateData.coverImage = uploaded.url;
                     
                     // Clean up local preview
                     if (previewUrl.startsWith('blob:')) {
@@ -153,19 +144,10 @@ const BookForm: React.FC = () => {
             // Step 3: Upload intro video with bookId
             if (introVideoFile) {
                 setUploadingIntroVideo(true);
-                const videoFormData = new FormData();
-                videoFormData.append('file', introVideoFile);
-
                 try {
-                    const uploadResponse = await apiClient.post(
-                        `/api/upload/video?bookId=${bookId}&type=intro`,
-                        videoFormData,
-                        {
-                            headers: { 'Content-Type': 'multipart/form-data' },
-                        }
-                    );
+                    const uploaded = await uploadsApi.upload('video', introVideoFile, { bookId, type: 'intro' });
                     
-                    updateData.introVideoUrl = uploadResponse.data.url;
+                    updateData.introVideoUrl = uploaded.url;
                     
                     // Clean up local preview
                     if (introVideoPreview.startsWith('blob:')) {
@@ -181,7 +163,7 @@ const BookForm: React.FC = () => {
             
             // Step 4: Update book with uploaded files
             if (Object.keys(updateData).length > 0) {
-                await apiClient.put(`/api/books/${bookId}`, updateData);
+                await booksApi.update(bookId, updateData);
             }
             
             navigate('/books');
@@ -204,6 +186,7 @@ const BookForm: React.FC = () => {
                 </button>
                 <h1 className="text-3xl font-bold text-gray-800">Create New Book</h1>
             </div>
+            {readOnly && <ReadOnlyBanner subject="book" />}
 
             <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
                 {/* Cover Image */}
@@ -239,6 +222,7 @@ const BookForm: React.FC = () => {
                                 type="file"
                                 accept="image/*"
                                 onChange={handleImageUpload}
+                                disabled={readOnly}
                                 className="hidden"
                                 id="cover-upload"
                             />
@@ -294,6 +278,7 @@ const BookForm: React.FC = () => {
                                 type="file"
                                 accept="video/mp4,video/*"
                                 onChange={handleIntroVideoSelect}
+                                disabled={readOnly}
                                 className="hidden"
                                 id="intro-video-upload"
                             />
@@ -418,7 +403,8 @@ const BookForm: React.FC = () => {
                             className="w-full px-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white cursor-pointer min-h-[44px]"
                         >
                             <option value="draft">Draft</option>
-                            <option value="published">Published</option>
+                            {/* New books go through review unless an approver creates them */}
+                            <option value="published" disabled={!canReview('publish')}>Published</option>
                             <option value="archived">Archived</option>
                         </select>
                     </div>
@@ -493,7 +479,7 @@ const BookForm: React.FC = () => {
                     </button>
                     <button
                         type="submit"
-                        disabled={loading || uploading || uploadingIntroVideo || !formData.title || !formData.author}
+                        disabled={loading || uploading || uploadingIntroVideo || !formData.title || !formData.author || readOnly}
                         className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                     >
                         <Save className="w-5 h-5" />
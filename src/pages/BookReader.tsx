@@ -1,65 +1,32 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { apiClient, getMediaUrl } from '../services/apiClient';
-import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { getApiErrorMessage, getMediaUrl } from '../services/apiClient';
+import { booksApi, pagesApi, voicesApi } from '../services/api';
+import { type Book, type Page, scrollStateHeights } from '../types';
+import { AlertTriangle, ChevronLeft, ChevronRight, FastForward, Languages, Loader2, MessageSquare, Type, MessageSquarePlus, RotateCcw, Volume2, VolumeX, X } from 'lucide-react';
+import PageCommentLayer from '../components/PageCommentLayer';
+import RichText from '../components/RichText';
+import { useAuth } from '../contexts/AuthContext';
+import { usePageComments } from '../hooks/usePageComments';
+import { useReaderAudio } from '../hooks/useReaderAudio';
+import { useRegisteredFonts } from '../hooks/useRegisteredFonts';
+import { bookLanguage, bookLocales, editionVoices, languageLabel, localizedText, readerText } from '../utils/editions';
+import { fontProblem } from '../utils/fonts';
+import { narratorVoiceId } from '../utils/narration';
+import { type DeviceProfileId, type ScrollState, DEVICE_PROFILES, SCROLL_STATES, readerTextBoxLayout, textShift } from '../utils/readerLayout';
 
-interface TextBox {
-    text: string;
-    x: number;
-    y: number;
-    width?: number;
-    alignment: 'left' | 'center' | 'right';
-    fontFamily?: string;
-    fontSize?: number;
-    color?: string;
-    showBackground?: boolean;
-    backgroundColor?: string;
-    shadowColor?: string;
+interface Voice {
+    voiceId: string;
+    name: string;
+    customName?: string;
+    enabled: boolean;
 }
 
-interface VideoSequenceItem {
-    url: string;
-    filename?: string;
-    order: number;
-}
-
-interface ImageSequenceItem {
-    url: string;
-    filename?: string;
-    order: number;
-}
+// Pause after the narration ends before auto-advance turns the page; pages without text get longer to look at
+const AUTO_ADVANCE_DELAY_MS = 1500;
+const SILENT_PAGE_DELAY_MS = 5000;
 
-interface Page {
-    _id: string;
-    pageNumber: number;
-    backgroundUrl?: string;
-    backgroundType?: 'image' | 'video';
-    scrollUrl?: string;
-    scrollHeight?: number;
-    scrollMidHeight?: number;
-    scrollOffsetY?: number;
-    textBoxes?: TextBox[]; // Legacy field
-    content?: {
-        textBoxes?: TextBox[]; // Primary location from DB
-    };
-    files?: {
-        background?: {
-            url?: string;
-            type?: 'image' | 'video';
-        };
-        scroll?: {
-            url?: string;
-        };
-    };
-    // Video sequence support
-    useVideoSequence?: boolean;
-    videoSequence?: VideoSequenceItem[];
-    // Image sequence support
-    useImageSequence?: boolean;
-    imageSequence?: ImageSequenceItem[];
-    imageSequenceDuration?: number; // seconds per image (default 3)
-    imageSequenceAnimation?: string; // animation effect type
-}
+const SWIPE_THRESHOLD_PX = 40;
 
 const BookReader: React.FC = () => {
     const { bookId } = useParams<{ bookId: string }>();
@@ -67,8 +34,29 @@ const BookReader: React.FC = () => {
     const [pages, setPages] = useState<Page[]>([]);
     const [currentPageIndex, setCurrentPageIndex] = useState(0);
     const [loading, setLoading] = useState(true);
-    const [showScroll, setShowScroll] = useState(true);
-    const [viewMode, setViewMode] = useState<'fullscreen' | 'tablet-p' | 'tablet-l' | 'phone-p' | 'phone-l'>('fullscreen');
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [scrollState, setScrollState] = useState<ScrollState>('max');
+    const swipeStartY = useRef<number | null>(null);
+    const swiped = useRef(false);
+    // Text boxes whose text doesn't fit in the current scroll state, per page and state
+    const textBoxRefs = useRef<(HTMLDivElement | null)[]>([]);
+    const [overflow, setOverflow] = useState<{ key: string; boxes: number[] }>({ key: '', boxes: [] });
+    const [viewMode, setViewMode] = useState<'fullscreen' | DeviceProfileId>('fullscreen');
+    const { canReview } = useAuth();
+    // Reviewers can pin comments while reading through the book
+    const pageComments = usePageComments(bookId);
+    const [placingComment, setPlacingComment] = useState(false);
+
+    // Audio preview: narration, music, page audio and sound effects as the app plays them
+    const [book, setBook] = useState<Book | null>(null);
+    const [voices, setVoices] = useState<Voice[]>([]);
+    const [readerVoiceId, setReaderVoiceId] = useState('');
+    const [soundOn, setSoundOn] = useState(false);
+    const [autoAdvance, setAutoAdvance] = useState(false);
+    // Edition being previewed; null is the book's own language
+    const [readerLocale, setReaderLocale] = useState<string | null>(null);
+    const baseLocale = bookLanguage(book ?? {});
+    const locale = readerLocale ?? baseLocale;
     
     // Image sequence state
     const [currentImageIndex, setCurrentImageIndex] = useState(0);
@@ -80,22 +68,20 @@ const BookReader: React.FC = () => {
     const videoRef = useRef<HTMLVideoElement>(null);
 
     // Device dimensions
-    const deviceStyles = {
-        'fullscreen': { width: '100%', height: '100%', borderRadius: 0 },
-        'tablet-p': { width: '768px', height: '1024px', borderRadius: '24px' }, // iPad Miniish
-        'tablet-l': { width: '1024px', height: '768px', borderRadius: '24px' },
-        'phone-p': { width: '390px', height: '844px', borderRadius: '40px' },   // iPhone 13ish
-        'phone-l': { width: '844px', height: '390px', borderRadius: '40px' },
-    };
+    const device = DEVICE_PROFILES.find((profile) => profile.id === viewMode);
+    const deviceStyle = device
+        ? { width: `${device.width}px`, height: `${device.height}px`, borderRadius: `${device.radius}px` }
+        : { width: '100%', height: '100%', borderRadius: 0 };
 
     useEffect(() => {
         const fetchPages = async () => {
             if (!bookId) return;
             try {
-                const res = await apiClient.get(`/api/pages/book/${bookId}`);
-                setPages(res.data);
+                const pagesData = await pagesApi.listByBook(bookId);
+                setPages(pagesData);
             } catch (err) {
                 console.error('Failed to fetch pages:', err);
+                setLoadError(getApiErrorMessage(err, 'Failed to load pages'));
             } finally {
                 setLoading(false);
             }
@@ -103,7 +89,72 @@ const BookReader: React.FC = () => {
         fetchPages();
     }, [bookId]);
 
+    // The preview still works without the book; it only supplies voices and music
+    useEffect(() => {
+        if (!bookId) return;
+        booksApi.get(bookId)
+            .then(setBook)
+            .catch((err) => console.error('Failed to fetch book:', err));
+        voicesApi.list<Voice>()
+            .then((list) => {
+                const enabled = list.filter((v) => v.enabled);
+                setVoices(enabled);
+                if (enabled.length > 0) setReaderVoiceId(enabled[0].voiceId);
+            })
+            .catch((err) => console.error('Failed to fetch voices:', err));
+    }, [bookId]);
+
     const currentPage = pages[currentPageIndex];
+
+    // Measured once the scroll has settled, and again when fonts load or the window resizes
+    const overflowKey = `${currentPage?._id}:${scrollState}:${viewMode}:${locale}`;
+    useEffect(() => {
+        let stale = false;
+        const measure = () => {
+            if (stale) return;
+            setOverflow({
+                key: overflowKey,
+                boxes: textBoxRefs.current.flatMap((el, idx) => (el && el.scrollHeight > el.clientHeight + 1 ? [idx] : [])),
+            });
+        };
+        const timer = setTimeout(measure, 600);
+        document.fonts.ready.then(measure);
+        // Registered fonts can arrive after the page is drawn
+        document.fonts.addEventListener('loadingdone', measure);
+        window.addEventListener('resize', measure);
+        return () => {
+            stale = true;
+            clearTimeout(timer);
+            document.fonts.removeEventListener('loadingdone', measure);
+            window.removeEventListener('resize', measure);
+        };
+    }, [overflowKey]);
+    const overflowingBoxes = overflow.key === overflowKey ? overflow.boxes : [];
+    const audio = useReaderAudio({
+        book,
+        page: currentPage,
+        videoIndex: currentVideoIndex,
+        enabled: soundOn,
+        fallbackVoiceId: readerVoiceId || undefined,
+        locale,
+    });
+    const untranslatedBoxes = currentPage?.textBoxes.filter((box) => box.text.trim() && !localizedText(box, locale, baseLocale).trim()).length ?? 0;
+    // Fonts on this page the app may not have; unknown until the registry loads
+    const registeredFonts = useRegisteredFonts();
+    const fontProblems = registeredFonts && currentPage
+        ? Array.from(new Set(currentPage.textBoxes.flatMap((box) => fontProblem(box.fontFamily, registeredFonts) ?? [])))
+        : [];
+
+    // Auto-advance: turn the page once the narration is done. Web view pages wait for the reader.
+    useEffect(() => {
+        if (!autoAdvance || audio.narration !== 'finished' || !currentPage || currentPage.isWebViewPage) return;
+        if (currentPageIndex >= pages.length - 1) return;
+        const timer = setTimeout(() => {
+            setCurrentPageIndex((prev) => prev + 1);
+            setScrollState('max');
+        }, currentPage.textBoxes.length > 0 ? AUTO_ADVANCE_DELAY_MS : SILENT_PAGE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [autoAdvance, audio.narration, currentPage, currentPageIndex, pages.length]);
     
     // Reset image/video index when page changes
     useEffect(() => {
@@ -124,7 +175,7 @@ const BookReader: React.FC = () => {
             return;
         }
         
-        const sortedImages = [...currentPage.imageSequence].sort((a, b) => a.order - b.order);
+        const sortedImages = currentPage.imageSequence;
         if (sortedImages.length <= 1) return;
         
         const duration = (currentPage.imageSequenceDuration || 3) * 1000; // Convert to ms
@@ -156,7 +207,7 @@ const BookReader: React.FC = () => {
     const handleVideoEnded = () => {
         if (!currentPage?.useVideoSequence || !currentPage?.videoSequence?.length) return;
         
-        const sortedVideos = [...currentPage.videoSequence].sort((a, b) => a.order - b.order);
+        const sortedVideos = currentPage.videoSequence;
         if (sortedVideos.length <= 1) return;
         
         setCurrentVideoIndex(prev => (prev + 1) % sortedVideos.length);
@@ -166,7 +217,7 @@ const BookReader: React.FC = () => {
         e.stopPropagation();
         if (currentPageIndex < pages.length - 1) {
             setCurrentPageIndex(prev => prev + 1);
-            setShowScroll(true); // Reset scroll visibility on page turn
+            setScrollState('max'); // Reset scroll state on page turn
         }
     };
 
@@ -174,12 +225,31 @@ const BookReader: React.FC = () => {
         e.stopPropagation();
         if (currentPageIndex > 0) {
             setCurrentPageIndex(prev => prev - 1);
-            setShowScroll(true);
+            setScrollState('max');
         }
     };
 
+    // A tap hides the scroll or brings it back fully open
     const toggleScroll = () => {
-        setShowScroll(prev => !prev);
+        if (swiped.current) {
+            swiped.current = false;
+            return;
+        }
+        setScrollState(prev => (prev === 'hidden' ? 'max' : 'hidden'));
+    };
+
+    // Swiping down lowers the scroll one state, swiping up raises it, as in the app
+    const handleSwipeEnd = (e: React.PointerEvent) => {
+        const startY = swipeStartY.current;
+        swipeStartY.current = null;
+        if (startY === null || !currentPage?.scrollUrl) return;
+        const dy = e.clientY - startY;
+        if (Math.abs(dy) < SWIPE_THRESHOLD_PX) return;
+        swiped.current = true;
+        setScrollState(prev => {
+            const idx = SCROLL_STATES.indexOf(prev) + (dy > 0 ? -1 : 1);
+            return SCROLL_STATES[Math.min(SCROLL_STATES.length - 1, Math.max(0, idx))];
+        });
     };
 
     const resolveUrl = (url?: string) => {
@@ -195,10 +265,13 @@ const BookReader: React.FC = () => {
         );
     }
 
-    if (pages.length === 0) {
+    if (loadError || pages.length === 0) {
         return (
             <div className="min-h-screen flex flex-col items-center justify-center bg-gray-900 text-white p-4">
-                <h2 className="text-2xl font-bold mb-4">No pages found</h2>
+                <h2 className="text-2xl font-bold mb-4">{loadError ? 'Could not load this book' : 'No pages found'}</h2>
+                {loadError && (
+                    <pre className="max-w-2xl mb-4 text-sm text-red-300 whitespace-pre-wrap">{loadError}</pre>
+                )}
                 <button
                     onClick={() => navigate('/books')}
                     className="bg-indigo-600 px-4 py-2 rounded hover:bg-indigo-700 transition"
@@ -230,30 +303,15 @@ const BookReader: React.FC = () => {
                         >
                             Full
                         </button>
-                        <button
-                            onClick={() => setViewMode('tablet-p')}
-                            className={`px-3 py-1 rounded text-xs font-medium transition ${viewMode === 'tablet-p' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
-                        >
-                            Tablet (P)
-                        </button>
-                        <button
-                            onClick={() => setViewMode('tablet-l')}
-                            className={`px-3 py-1 rounded text-xs font-medium transition ${viewMode === 'tablet-l' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
-                        >
-                            Tablet (L)
-                        </button>
-                        <button
-                            onClick={() => setViewMode('phone-p')}
-                            className={`px-3 py-1 rounded text-xs font-medium transition ${viewMode === 'phone-p' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
-                        >
-                            Phone (P)
-                        </button>
-                        <button
-                            onClick={() => setViewMode('phone-l')}
-                            className={`px-3 py-1 rounded text-xs font-medium transition ${viewMode === 'phone-l' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
-                        >
-                            Phone (L)
-                        </button>
+                        {DEVICE_PROFILES.map((profile) => (
+                            <button
+                                key={profile.id}
+                                onClick={() => setViewMode(profile.id)}
+                                className={`px-3 py-1 rounded text-xs font-medium transition ${viewMode === profile.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {profile.label}
+                            </button>
+                        ))}
                     </div>
                 </div>
                 <div className="flex items-center gap-4">
@@ -270,11 +328,11 @@ const BookReader: React.FC = () => {
                                     <span className="w-2 h-2 bg-white rounded-full animate-pulse" />
                                     Video Sequence ({currentPage.videoSequence.length})
                                 </span>
-                            ) : (currentPage.backgroundType === 'video' || currentPage.files?.background?.type === 'video') ? (
+                            ) : currentPage.backgroundType === 'video' ? (
                                 <span className="bg-orange-600/80 text-white text-xs px-2 py-1 rounded-full">
                                     Video
                                 </span>
-                            ) : (currentPage.backgroundUrl || currentPage.files?.background?.url) ? (
+                            ) : currentPage.backgroundUrl ? (
                                 <span className="bg-blue-600/80 text-white text-xs px-2 py-1 rounded-full">
                                     Image
                                 </span>
@@ -285,6 +343,114 @@ const BookReader: React.FC = () => {
                             )}
                         </div>
                     )}
+                    {currentPage?.scrollUrl && (
+                        <div className="flex bg-gray-900 rounded-lg p-1" title="Swipe the page up or down to move between states, as in the app">
+                            {SCROLL_STATES.map((state) => (
+                                <button
+                                    key={state}
+                                    onClick={() => setScrollState(state)}
+                                    className={`px-3 py-1 rounded text-xs font-medium capitalize transition ${scrollState === state ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {state}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {overflowingBoxes.length > 0 && (
+                        <span className="bg-red-600/80 text-white text-xs px-2 py-1 rounded-full flex items-center gap-1" title="Text cut off in this scroll state is outlined in red">
+                            <AlertTriangle className="w-3 h-3" />
+                            {overflowingBoxes.length} text box{overflowingBoxes.length === 1 ? '' : 'es'} overflow
+                        </span>
+                    )}
+                    {audio.narration === 'loading' && (
+                        <span className="text-gray-300 text-xs flex items-center gap-1">
+                            <Loader2 className="w-3 h-3 animate-spin" /> Preparing narration…
+                        </span>
+                    )}
+                    {audio.narration === 'error' && (
+                        <span className="bg-red-600/80 text-white text-xs px-2 py-1 rounded-full flex items-center gap-1" title={audio.narrationError ?? undefined}>
+                            <AlertTriangle className="w-3 h-3" /> Narration failed
+                        </span>
+                    )}
+                    {book && bookLocales(book).length > 1 && (
+                        <label className="flex items-center gap-1 bg-gray-900 text-gray-300 text-xs rounded px-2 py-1 border border-gray-700" title="Edition to preview">
+                            <Languages className="w-4 h-4" />
+                            <select value={locale} onChange={(e) => setReaderLocale(e.target.value)} className="bg-transparent outline-none">
+                                {bookLocales(book).map((code) => (
+                                    <option key={code} value={code} className="bg-gray-900">{languageLabel(code)}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                    {untranslatedBoxes > 0 && (
+                        <span className="bg-amber-600/80 text-white text-xs px-2 py-1 rounded-full flex items-center gap-1" title={`Shown in ${languageLabel(baseLocale)} until translated`}>
+                            <Languages className="w-3 h-3" />
+                            {untranslatedBoxes} text box{untranslatedBoxes === 1 ? '' : 'es'} not translated
+                        </span>
+                    )}
+                    {fontProblems.length > 0 && (
+                        <span className="bg-amber-600/80 text-white text-xs px-2 py-1 rounded-full flex items-center gap-1" title={fontProblems.join('\n')}>
+                            <Type className="w-3 h-3" />
+                            {fontProblems.length} font{fontProblems.length === 1 ? '' : 's'} not registered
+                        </span>
+                    )}
+                    {soundOn && book && !narratorVoiceId(editionVoices(book, locale)) && voices.length > 0 && (
+                        <select
+                            value={readerVoiceId}
+                            onChange={(e) => setReaderVoiceId(e.target.value)}
+                            className="bg-gray-900 text-gray-300 text-xs rounded px-2 py-1 border border-gray-700"
+                            title="The book has no narrator voice, so the app reads with the reader's chosen voice"
+                        >
+                            {voices.map((v) => (
+                                <option key={v.voiceId} value={v.voiceId}>Reader voice: {v.customName || v.name}</option>
+                            ))}
+                        </select>
+                    )}
+                    <div className="flex bg-gray-900 rounded-lg p-1">
+                        <button
+                            onClick={() => setSoundOn(!soundOn)}
+                            className={`px-3 py-1 rounded text-xs font-medium transition flex items-center gap-1 ${soundOn ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            title="Play narration, background music and page audio"
+                        >
+                            {soundOn ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                            Sound
+                        </button>
+                        {soundOn && (
+                            <button
+                                onClick={audio.replayNarration}
+                                className="px-2 py-1 rounded text-xs text-gray-400 hover:text-white transition"
+                                title="Read this page again"
+                            >
+                                <RotateCcw className="w-4 h-4" />
+                            </button>
+                        )}
+                        <button
+                            onClick={() => {
+                                if (!autoAdvance) setSoundOn(true);
+                                setAutoAdvance(!autoAdvance);
+                            }}
+                            className={`px-3 py-1 rounded text-xs font-medium transition flex items-center gap-1 ${autoAdvance ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            title="Turn the page when the narration ends"
+                        >
+                            <FastForward className="w-4 h-4" />
+                            Auto
+                        </button>
+                    </div>
+                    {currentPage && pageComments.unresolvedCount(currentPage._id) > 0 && (
+                        <span className="bg-amber-500 text-white text-xs px-2 py-1 rounded-full flex items-center gap-1" title="Unresolved comments on this page">
+                            <MessageSquare className="w-3 h-3" />
+                            {pageComments.unresolvedCount(currentPage._id)}
+                        </span>
+                    )}
+                    {canReview('comment') && (
+                        <button
+                            onClick={() => setPlacingComment(!placingComment)}
+                            className={`px-3 py-1 rounded text-xs font-medium transition flex items-center gap-1 ${placingComment ? 'bg-amber-500 text-white' : 'bg-gray-900 text-gray-300 hover:text-white'}`}
+                        >
+                            <MessageSquarePlus className="w-4 h-4" />
+                            {placingComment ? 'Click the page…' : 'Comment'}
+                        </button>
+                    )}
                     <div className="text-gray-400 text-sm">
                         Page {currentPageIndex + 1} / {pages.length}
                     </div>
@@ -297,11 +463,16 @@ const BookReader: React.FC = () => {
                 <div
                     className={`relative overflow-hidden shadow-2xl transition-all duration-300 bg-black ${viewMode !== 'fullscreen' ? 'border-8 border-gray-800' : ''}`}
                     style={{
-                        ...deviceStyles[viewMode],
+                        ...deviceStyle,
                         transform: viewMode !== 'fullscreen' ? 'scale(0.9)' : 'none', // Slight scale down to fit nicely
                         transformOrigin: 'center center'
                     }}
                     onClick={toggleScroll}
+                    onPointerDown={(e) => {
+                        swipeStartY.current = e.clientY;
+                        swiped.current = false;
+                    }}
+                    onPointerUp={handleSwipeEnd}
                 >
                     {/* Close Button (Hidden in preview mode, use toolbar back instead) */}
                     {viewMode === 'fullscreen' && (
@@ -320,8 +491,8 @@ const BookReader: React.FC = () => {
                     <div className="absolute inset-0 flex items-center justify-center">
                         {(() => {
                             // Check for image sequence first
-                            if (currentPage.useImageSequence && currentPage.imageSequence && currentPage.imageSequence.length > 0) {
-                                const sortedImages = [...currentPage.imageSequence].sort((a, b) => a.order - b.order);
+                            if (currentPage.useImageSequence && currentPage.imageSequence.length > 0) {
+                                const sortedImages = currentPage.imageSequence;
                                 const currentImage = sortedImages[currentImageIndex] || sortedImages[0];
                                 const animation = currentPage.imageSequenceAnimation || 'fade';
                                 
@@ -364,8 +535,8 @@ const BookReader: React.FC = () => {
                             }
                             
                             // Check for video sequence
-                            if (currentPage.useVideoSequence && currentPage.videoSequence && currentPage.videoSequence.length > 0) {
-                                const sortedVideos = [...currentPage.videoSequence].sort((a, b) => a.order - b.order);
+                            if (currentPage.useVideoSequence && currentPage.videoSequence.length > 0) {
+                                const sortedVideos = currentPage.videoSequence;
                                 const currentVideo = sortedVideos[currentVideoIndex] || sortedVideos[0];
                                 const shouldLoop = sortedVideos.length === 1;
                                 
@@ -393,9 +564,8 @@ const BookReader: React.FC = () => {
                                 );
                             }
                             
-                            // Get background URL from various possible locations
-                            const bgUrl = currentPage.backgroundUrl || currentPage.files?.background?.url;
-                            const bgType = currentPage.backgroundType || currentPage.files?.background?.type;
+                            const bgUrl = currentPage.backgroundUrl;
+                            const bgType = currentPage.backgroundType;
                             
                             // No background - show placeholder
                             if (!bgUrl) {
@@ -437,87 +607,75 @@ const BookReader: React.FC = () => {
 
                     {/* Text Boxes Layer - positioned relative to full page, moves with scroll */}
                     {(() => {
-                        const scrollUrl = currentPage.scrollUrl || currentPage.files?.scroll?.url;
-                        const scrollOffset = currentPage.scrollOffsetY || 0;
-                        
+                        const scrollUrl = currentPage.scrollUrl;
+                        const shift = textShift(currentPage, scrollState);
+
                         return (
                             <div
                                 className="absolute inset-0 pointer-events-none transition-transform duration-500 ease-in-out z-20"
                                 style={{
-                                    transform: scrollUrl && !showScroll
+                                    transform: scrollUrl && scrollState === 'hidden'
                                         ? 'translateY(100%)'
-                                        : 'translateY(0)'
+                                        : `translateY(${shift}%)`
                                 }}
                             >
-                                {/* Use content.textBoxes first (if has items), fall back to root textBoxes (legacy) */}
-                                {(() => {
-                                    const contentBoxes = currentPage.content?.textBoxes;
-                                    const textBoxes = (contentBoxes && contentBoxes.length > 0) ? contentBoxes : currentPage.textBoxes;
-                                    return textBoxes;
-                                })()?.map((box, idx) => {
-                                    // Calculate scroll top position - use scrollMidHeight if available (all values are percentages)
-                                    const scrollHeightVal = currentPage.scrollMidHeight ? `${currentPage.scrollMidHeight}%` : (currentPage.scrollHeight ? `${currentPage.scrollHeight}%` : '30%');
-                                    // Add scroll offset to the calculation
-                                    const scrollTopVal = `calc(100% - ${scrollHeightVal} - ${scrollOffset}%)`;
-
-                                    return (
-                                        <div
-                                            key={idx}
-                                            className="absolute pointer-events-auto overflow-y-auto p-2"
-                                            style={{
-                                                left: `${box.x}%`,
-                                                // If scroll exists, ensure top is at least the scroll start position
-                                                top: scrollUrl ? `max(${box.y}%, ${scrollTopVal})` : `${box.y}%`,
-                                                width: `${box.width || 30}%`,
-                                                transform: 'translate(0, 0)',
-                                                textAlign: box.alignment,
-                                                color: box.color || '#4a3b2a',
-                                                // Match app: use Patrick Hand (Google Font) with fallbacks
-                                                fontFamily: box.fontFamily === 'Comic Sans MS' 
-                                                    ? "'Patrick Hand', 'Comic Sans MS', 'Bubblegum Sans', cursive" 
-                                                    : (box.fontFamily || "'Patrick Hand', 'Comic Sans MS', cursive"),
-                                                // Match app: scale up 20% when using Patrick Hand (renders smaller than Comic Sans)
-                                                fontSize: (box.fontFamily === 'Comic Sans MS' || !box.fontFamily)
-                                                    ? `${Math.round((box.fontSize || 24) * 1.2)}px`
-                                                    : `${box.fontSize || 24}px`,
-                                                // Calculate max height based on the effective top position
-                                                maxHeight: scrollUrl
-                                                    ? `calc(100% - max(${box.y}%, ${scrollTopVal}) - 40px)`
-                                                    : `calc(100% - ${box.y}% - 40px)`,
-                                                overflowY: 'auto',
-                                                WebkitOverflowScrolling: 'touch',
-                                                // Background box styling
-                                                backgroundColor: box.showBackground ? (box.backgroundColor || 'rgba(255,255,255,0.85)') : 'transparent',
-                                                borderRadius: box.showBackground ? '12px' : '0',
-                                                padding: box.showBackground ? '12px 16px' : '8px',
-                                                // Text shadow/glow - color controlled by shadowColor setting
-                                                textShadow: box.showBackground 
-                                                    ? '1px 1px 2px rgba(255,255,255,0.8)'
-                                                    : box.shadowColor === 'black'
-                                                        ? '0 0 8px rgba(0,0,0,0.9), 0 0 16px rgba(0,0,0,0.7), 1px 1px 4px rgba(0,0,0,0.8)'
-                                                        : '0 0 8px rgba(255,255,255,0.9), 0 0 16px rgba(255,255,255,0.7), 1px 1px 4px rgba(255,255,255,0.8)',
-                                            }}
-                                        >
-                                            {box.text}
-                                        </div>
-                                    );
-                                })}
+                                {currentPage.textBoxes.map((box, idx) => (
+                                    <div
+                                        key={idx}
+                                        ref={(el) => {
+                                            textBoxRefs.current[idx] = el;
+                                        }}
+                                        className="absolute pointer-events-auto overflow-y-auto p-2"
+                                        style={{
+                                            ...readerTextBoxLayout(box, currentPage, scrollState),
+                                            transform: 'translate(0, 0)',
+                                            color: box.color,
+                                            // Highlight the box being narrated, or text cut off in this scroll state
+                                            outline: audio.speakingBox === idx
+                                                ? '3px solid rgba(250, 204, 21, 0.9)'
+                                                : overflowingBoxes.includes(idx) ? '2px dashed rgba(239, 68, 68, 0.9)' : 'none',
+                                            outlineOffset: '2px',
+                                            overflowY: 'auto',
+                                            WebkitOverflowScrolling: 'touch',
+                                            // Background box styling
+                                            backgroundColor: box.showBackground ? (box.backgroundColor || 'rgba(255,255,255,0.85)') : 'transparent',
+                                            borderRadius: box.showBackground ? '12px' : '0',
+                                            // Text shadow/glow - color controlled by shadowColor setting
+                                            textShadow: box.showBackground 
+                                                ? '1px 1px 2px rgba(255,255,255,0.8)'
+                                                : box.shadowColor === 'black'
+                                                    ? '0 0 8px rgba(0,0,0,0.9), 0 0 16px rgba(0,0,0,0.7), 1px 1px 4px rgba(0,0,0,0.8)'
+                                                    : '0 0 8px rgba(255,255,255,0.9), 0 0 16px rgba(255,255,255,0.7), 1px 1px 4px rgba(255,255,255,0.8)',
+                                        }}
+                                    >
+                                        {(() => {
+                                            const text = readerText(box, locale, baseLocale);
+                                            // Spans style the base text, which untranslated boxes fall back to
+                                            return <RichText text={text} spans={text === box.text ? box.spans : undefined} baseFontSize={box.fontSize} characterVoices={book?.characterVoices} />;
+                                        })()}
+                                    </div>
+                                ))}
                             </div>
                         );
                     })()}
 
                     {/* Scroll Overlay Layer */}
                     {(() => {
-                        const scrollUrl = currentPage.scrollUrl || currentPage.files?.scroll?.url;
-                        const scrollOffset = currentPage.scrollOffsetY || 0;
+                        const scrollUrl = currentPage.scrollUrl;
+                        const scrollOffset = currentPage.scrollOffsetY;
                         if (!scrollUrl) return null;
+                        const heights = scrollStateHeights(currentPage);
                         
                         return (
                             <div
-                                className={`absolute left-0 right-0 transition-transform duration-500 ease-in-out z-10 ${showScroll ? 'translate-y-0' : 'translate-y-full'}`}
+                                className="absolute transition-all duration-500 ease-in-out z-10"
                                 style={{ 
-                                    height: currentPage.scrollMidHeight ? `${currentPage.scrollMidHeight}%` : (currentPage.scrollHeight ? `${currentPage.scrollHeight}%` : '30%'),
-                                    bottom: `${scrollOffset}%` // Apply vertical offset
+                                    height: `${scrollState === 'mid' ? heights.mid : heights.max}%`,
+                                    width: `${currentPage.scrollWidth}%`,
+                                    left: `calc(50% + ${currentPage.scrollOffsetX}%)`,
+                                    transform: 'translateX(-50%)', // Center horizontally
+                                    // Hidden slides it below the page whatever its offset
+                                    bottom: scrollState === 'hidden' ? `-${heights.max}%` : `${scrollOffset}%`
                                 }}
                                 onClick={(e) => e.stopPropagation()}
                             >
@@ -531,6 +689,20 @@ const BookReader: React.FC = () => {
                         );
                     })()}
 
+                    {/* Sound Effect Bubble */}
+                    {currentPage.soundEffectUrl && (
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                audio.playSoundEffect();
+                            }}
+                            className="absolute top-4 left-4 z-30 bg-white/90 text-indigo-600 p-3 rounded-full shadow-lg hover:scale-110 transition"
+                            title="Sound effect"
+                        >
+                            <Volume2 className="w-6 h-6" />
+                        </button>
+                    )}
+
                     {/* Navigation Controls */}
                     <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 flex justify-between px-4 pointer-events-none">
                         <button
@@ -552,6 +724,15 @@ const BookReader: React.FC = () => {
                         </button>
                     </div>
 
+                    <PageCommentLayer
+                        key={currentPage._id}
+                        comments={pageComments}
+                        page={currentPage}
+                        placing={placingComment}
+                        onPlaced={() => setPlacingComment(false)}
+                        canComment={canReview('comment')}
+                    />
+
                     {/* Page Indicator */}
                     <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/40 text-white px-3 py-1 rounded-full text-sm backdrop-blur-sm pointer-events-none">
                         Page {currentPageIndex + 1} of {pages.length}
@@ -1,46 +1,18 @@
 import React, { useEffect, useState } from 'react';
 import { Plus, Edit, Trash2, BookOpen, Eye, EyeOff, Library } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import apiClient from '../services/apiClient';
-
-interface BookInSeries {
-    book: {
-        _id: string;
-        title: string;
-        coverImage?: string;
-        author?: string;
-    };
-    order: number;
-}
-
-interface BookSeriesType {
-    _id: string;
-    title: string;
-    description?: string;
-    coverImage: string;
-    books: BookInSeries[];
-    minAge: number;
-    maxAge: number;
-    level: string;
-    category?: {
-        _id: string;
-        name: string;
-    };
-    status: 'draft' | 'published';
-    isMembersOnly: boolean;
-    isFeatured: boolean;
-    displayOrder: number;
-    author?: string;
-    viewCount: number;
-    createdAt: string;
-    updatedAt: string;
-}
+import { TRASH_RETENTION_DAYS, seriesApi } from '../services/api';
+import { type BookSeries as BookSeriesType } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
 
 const BookSeries: React.FC = () => {
     const [series, setSeries] = useState<BookSeriesType[]>([]);
     const [loading, setLoading] = useState(true);
     const [filter, setFilter] = useState<'all' | 'draft' | 'published'>('all');
     const navigate = useNavigate();
+    const { canEdit } = useAuth();
+    const readOnly = !canEdit('content');
 
     useEffect(() => {
         fetchSeries();
@@ -48,11 +20,7 @@ const BookSeries: React.FC = () => {
 
     const fetchSeries = async () => {
         try {
-            const response = await apiClient.get('/api/book-series?status=all');
-            const seriesData = Array.isArray(response.data) 
-                ? response.data 
-                : (response.data.data || []);
-            setSeries(seriesData);
+            setSeries(await seriesApi.list());
         } catch (error) {
             console.error('Error fetching book series:', error);
         } finally {
@@ -61,10 +29,11 @@ const BookSeries: React.FC = () => {
     };
 
     const handleDelete = async (id: string) => {
-        if (!confirm('Are you sure you want to delete this book series?')) return;
+        if (readOnly) return;
+        if (!confirm(`Move this book series to the Trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`)) return;
 
         try {
-            await apiClient.delete(`/api/book-series/${id}`);
+            await seriesApi.remove(id);
             setSeries(series.filter(s => s._id !== id));
         } catch (error) {
             console.error('Error deleting book series:', error);
@@ -73,13 +42,11 @@ const BookSeries: React.FC = () => {
     };
 
     const handleToggleStatus = async (item: BookSeriesType) => {
+        if (readOnly) return;
         const newStatus = item.status === 'published' ? 'draft' : 'published';
         try {
-            const response = await apiClient.put(`/api/book-series/${item._id}`, {
-                ...item,
-                status: newStatus,
-            });
-            setSeries(series.map(s => s._id === item._id ? response.data : s));
+            const updated = await seriesApi.update(item._id, { status: newStatus });
+            setSeries(series.map(s => s._id === item._id ? updated : s));
         } catch (error) {
             console.error('Error updating book series status:', error);
             alert('Failed to update book series status');
@@ -95,14 +62,17 @@ const BookSeries: React.FC = () => {
         <div>
             <div className="flex justify-between items-center mb-6">
                 <h1 className="text-3xl font-bold text-gray-800">Book Series</h1>
-                <button
-                    onClick={() => navigate('/book-series/new')}
-                    className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
-                >
-                    <Plus size={20} />
-                    Create Book Series
-                </button>
+                {!readOnly && (
+                    <button
+                        onClick={() => navigate('/book-series/new')}
+                        className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
+                    >
+                        <Plus size={20} />
+                        Create Book Series
+                    </button>
+                )}
             </div>
+            {readOnly && <ReadOnlyBanner subject="book series list" />}
 
             {/* Filter Tabs */}
             <div className="flex gap-2 mb-6">
@@ -133,13 +103,15 @@ const BookSeries: React.FC = () => {
                     <Library size={48} className="mx-auto text-gray-400 mb-4" />
                     <h3 className="text-lg font-medium text-gray-600 mb-2">No Book Series Found</h3>
                     <p className="text-gray-500 mb-4">Create your first book series to group related books together.</p>
-                    <button
-                        onClick={() => navigate('/book-series/new')}
-                        className="inline-flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
-                    >
-                        <Plus size={20} />
-                        Create Book Series
-                    </button>
+                    {!readOnly && (
+                        <button
+                            onClick={() => navigate('/book-series/new')}
+                            className="inline-flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
+                        >
+                            <Plus size={20} />
+                            Create Book Series
+                        </button>
+                    )}
                 </div>
             ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -198,7 +170,7 @@ const BookSeries: React.FC = () => {
                                 {/* Meta Info */}
                                 <div className="flex items-center gap-3 text-xs text-gray-500 mb-4">
                                     <span>Ages {item.minAge}-{item.maxAge}</span>
-                                    {item.category && (
+                                    {typeof item.category === 'object' && (
                                         <>
                                             <span>•</span>
                                             <span>{item.category.name}</span>
@@ -211,25 +183,28 @@ const BookSeries: React.FC = () => {
                                 {/* Books Preview */}
                                 {item.books && item.books.length > 0 && (
                                     <div className="flex -space-x-2 mb-4">
-                                        {item.books.slice(0, 5).map((b, idx) => (
-                                            <div 
-                                                key={idx}
-                                                className="w-8 h-8 rounded-full border-2 border-white overflow-hidden bg-gray-200"
-                                                title={b.book?.title}
-                                            >
-                                                {b.book?.coverImage ? (
-                                                    <img 
-                                                        src={b.book.coverImage} 
-                                                        alt={b.book.title}
-                                                        className="w-full h-full object-cover"
-                                                    />
-                                                ) : (
-                                                    <div className="w-full h-full flex items-center justify-center bg-indigo-100">
-                                                        <BookOpen size={12} className="text-indigo-500" />
-                                                    </div>
-                                                )}
-                                            </div>
-                                        ))}
+                                        {item.books.slice(0, 5).map((b, idx) => {
+                                            const book = typeof b.book === 'object' ? b.book : undefined;
+                                            return (
+                                                <div 
+                                                    key={idx}
+                                                    className="w-8 h-8 rounded-full border-2 border-white overflow-hidden bg-gray-200"
+                                                    title={book?.title}
+                                                >
+                                                    {book?.coverImage ? (
+                                                        <img 
+                                                            src={book.coverImage} 
+                                                            alt={book.title}
+                                                            className="w-full h-full object-cover"
+                                                        />
+                                                    ) : (
+                                                        <div className="w-full h-full flex items-center justify-center bg-indigo-100">
+                                                            <BookOpen size={12} className="text-indigo-500" />
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
                                         {item.books.length > 5 && (
                                             <div className="w-8 h-8 rounded-full border-2 border-white bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-600">
                                                 +{item.books.length - 5}
@@ -242,7 +217,8 @@ const BookSeries: React.FC = () => {
                                 <div className="flex items-center gap-2">
                                     <button
                                         onClick={() => handleToggleStatus(item)}
-                                        className={`flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                                        disabled={readOnly}
+                                        className={`flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                                             item.status === 'published'
                                                 ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200'
                                                 : 'bg-green-100 text-green-700 hover:bg-green-200'
@@ -269,7 +245,8 @@ const BookSeries: React.FC = () => {
                                     </button>
                                     <button
                                         onClick={() => handleDelete(item._id)}
-                                        className="flex items-center justify-center p-2 rounded-lg text-sm font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-colors"
+                                        disabled={readOnly}
+                                        className="flex items-center justify-center p-2 rounded-lg text-sm font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                                     >
                                         <Trash2 size={16} />
                                     </button>
@@ -1,50 +1,20 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { ArrowLeft, Plus, Trash2, GripVertical, BookOpen, Save, X, Search } from 'lucide-react';
-import apiClient from '../services/apiClient';
-
-interface Book {
-    _id: string;
-    title: string;
-    author?: string;
-    coverImage?: string;
-    description?: string;
-    minAge?: number;
-    maxAge?: number;
-    status: string;
-    isMembersOnly?: boolean;
-}
-
-interface BookInSeries {
-    book: string | Book;
-    order: number;
-}
-
-interface Category {
-    _id: string;
-    name: string;
-    type: 'book' | 'audio';
-}
-
-interface BookSeriesFormData {
-    title: string;
-    description: string;
-    coverImage: string;
-    books: BookInSeries[];
-    minAge: number;
-    maxAge: number;
-    level: string;
-    category: string;
-    status: 'draft' | 'published';
-    isMembersOnly: boolean;
-    isFeatured: boolean;
-    displayOrder: number;
-    author: string;
-}
+import { getApiErrorMessage } from '../services/apiClient';
+import { booksApi, categoriesApi, seriesApi, uploadsApi } from '../services/api';
+import { type Book, type BookSeriesPayload, type Category } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
+
+// Books are kept as selectedBooks while editing and sent as ids on save
+type BookSeriesFormData = Omit<BookSeriesPayload, 'books'>;
 
 const BookSeriesForm: React.FC = () => {
     const { id } = useParams();
     const navigate = useNavigate();
+    const { canEdit } = useAuth();
+    const readOnly = !canEdit('content');
     const [loading, setLoading] = useState(false);
     const [uploading, setUploading] = useState(false);
     const [categories, setCategories] = useState<Category[]>([]);
@@ -55,7 +25,6 @@ const BookSeriesForm: React.FC = () => {
         title: '',
         description: '',
         coverImage: '',
-        books: [],
         minAge: 0,
         maxAge: 12,
         level: 'all',
@@ -74,17 +43,13 @@ const BookSeriesForm: React.FC = () => {
         fetchCategories();
         fetchAvailableBooks();
         if (id) {
-            fetchSeries();
+            fetchSeries(id);
         }
     }, [id]);
 
     const fetchCategories = async () => {
         try {
-            const response = await apiClient.get('/api/categories?type=book');
-            const categoriesData = Array.isArray(response.data) 
-                ? response.data 
-                : (response.data.data || []);
-            setCategories(categoriesData);
+            setCategories(await categoriesApi.list('book'));
         } catch (error) {
             console.error('Error fetching categories:', error);
         }
@@ -92,22 +57,7 @@ const BookSeriesForm: React.FC = () => {
 
     const fetchAvailableBooks = async () => {
         try {
-            // Fetch all pages of books (handles pagination)
-            const pageSize = 100;
-            let page = 1;
-            let results: Book[] = [];
-
-            while (true) {
-                const res = await apiClient.get(`/api/books?status=all&page=${page}&limit=${pageSize}`);
-                const payload = res.data;
-                const pageItems: Book[] = Array.isArray(payload) ? payload : (payload.data || payload.books || []);
-                results = results.concat(pageItems);
-
-                const hasMore = Array.isArray(payload) ? false : Boolean(payload.pagination?.hasMore);
-                if (!hasMore) break;
-                page += 1;
-            }
-
+            const results = await booksApi.list({ status: 'all' });
             console.log(`📚 Series form: Loaded ${results.length} books (all pages)`);
             setAvailableBooks(results);
         } catch (error) {
@@ -115,15 +65,14 @@ const BookSeriesForm: React.FC = () => {
         }
     };
 
-    const fetchSeries = async () => {
+    const fetchSeries = async (seriesId: string) => {
         try {
-            const response = await apiClient.get(`/api/book-series/${id}`);
-            const series = response.data;
+            const series = await seriesApi.get(seriesId);
             
             // Extract full book data
-            const booksWithData = series.books?.map((b: any) => 
-                typeof b.book === 'object' ? b.book : null
-            ).filter(Boolean) || [];
+            const booksWithData = series.books.flatMap(b => 
+                typeof b.book === 'object' ? [b.book] : []
+            );
             
             setSelectedBooks(booksWithData);
             
@@ -131,11 +80,10 @@ const BookSeriesForm: React.FC = () => {
                 title: series.title || '',
                 description: series.description || '',
                 coverImage: series.coverImage || '',
-                books: series.books || [],
                 minAge: series.minAge || 0,
                 maxAge: series.maxAge || 12,
                 level: series.level || 'all',
-                category: series.category?._id || series.category || '',
+                category: (typeof series.category === 'object' ? series.category._id : series.category) || '',
                 status: series.status || 'draft',
                 isMembersOnly: series.isMembersOnly || false,
                 isFeatured: series.isFeatured || false,
@@ -150,6 +98,7 @@ const BookSeriesForm: React.FC = () => {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (readOnly) return;
         
         if (!formData.coverImage) {
             alert('Please upload a cover image for the series.');
@@ -171,30 +120,25 @@ const BookSeriesForm: React.FC = () => {
             };
             
             if (id) {
-                await apiClient.put(`/api/book-series/${id}`, payload);
+                await seriesApi.update(id, payload);
             } else {
-                await apiClient.post('/api/book-series', payload);
+                await seriesApi.create(payload);
             }
             navigate('/book-series');
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error saving book series:', error);
-            const errorMessage = error.response?.data?.message || error.response?.data?.error || error.message || 'Failed to save book series';
-            alert(`Failed to save book series: ${errorMessage}`);
+            alert(getApiErrorMessage(error, 'Failed to save book series'));
         } finally {
             setLoading(false);
         }
     };
 
     const handleFileUpload = async (file: File) => {
+        if (readOnly) return;
         setUploading(true);
-        const formDataUpload = new FormData();
-        formDataUpload.append('file', file);
-
         try {
-            const response = await apiClient.post('/api/upload/image', formDataUpload, {
-                headers: { 'Content-Type': 'multipart/form-data' },
-            });
-            setFormData(prev => ({ ...prev, coverImage: response.data.url }));
+            const { url } = await uploadsApi.upload('image', file);
+            setFormData(prev => ({ ...prev, coverImage: url }));
         } catch (error) {
             console.error('Error uploading file:', error);
             alert('Failed to upload file');
@@ -246,6 +190,7 @@ const BookSeriesForm: React.FC = () => {
                     {id ? 'Edit Book Series' : 'Create Book Series'}
                 </h1>
             </div>
+            {readOnly && <ReadOnlyBanner subject="book series" />}
 
             <form onSubmit={handleSubmit} className="space-y-6">
                 {/* Cover Image */}
@@ -277,7 +222,7 @@ const BookSeriesForm: React.FC = () => {
                                         file:bg-indigo-50 file:text-indigo-700
                                         hover:file:bg-indigo-100
                                         cursor-pointer"
-                                    disabled={uploading}
+                                    disabled={uploading || readOnly}
                                 />
                             </label>
                             {uploading && (
@@ -563,7 +508,7 @@ const BookSeriesForm: React.FC = () => {
                     </button>
                     <button
                         type="submit"
-                        disabled={loading}
+                        disabled={loading || readOnly}
                         className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
                     >
                         {loading ? (
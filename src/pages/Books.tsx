@@ -1,76 +1,211 @@
-import React, { useEffect, useState } from 'react';
-import { Plus, Trash2, List, BarChart3 } from 'lucide-react';
-import { Link } from 'react-router-dom';
-import apiClient from '../services/apiClient';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Trash2, List, BarChart3, Search, Filter, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, BookOpen, Eye, EyeOff, Archive, Send, FileArchive } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { getApiErrorMessage, getMediaUrl } from '../services/apiClient';
+import { type BookQuery, type BookSortField, TRASH_RETENTION_DAYS, booksApi, categoriesApi, pagesApi, reviewsApi } from '../services/api';
+import { type Book, type Category } from '../types';
+import BookPackageImport from '../components/BookPackageImport';
 import BooksAnalytics from '../components/BooksAnalytics';
-
-interface Book {
-    _id: string;
-    title: string;
-    author: string;
-    status: string;
-    coverImage?: string;
-}
+import BulkActionBar from '../components/BulkActionBar';
+import BulkProgressDialog from '../components/BulkProgressDialog';
+import StatusBadge from '../components/StatusBadge';
+import { useAuth } from '../contexts/AuthContext';
+import { BulkItemError, useBulkAction } from '../hooks/useBulkAction';
+import { useSelection } from '../hooks/useSelection';
+import { countIssues, validateBook } from '../utils/bookValidation';
 
 type TabView = 'list' | 'analytics';
 
+const PAGE_SIZES = [25, 50, 100];
+const SEARCH_DEBOUNCE_MS = 300;
+
+const COLUMNS: { label: string; sort?: BookSortField }[] = [
+    { label: 'Title', sort: 'title' },
+    { label: 'Author', sort: 'author' },
+    { label: 'Status', sort: 'status' },
+    { label: 'Category' },
+    { label: 'Age', sort: 'minAge' },
+    { label: 'Reads', sort: 'readCount' },
+    { label: 'Updated', sort: 'updatedAt' },
+];
+const SORT_FIELDS = COLUMNS.flatMap((c) => (c.sort ? [c.sort] : []));
+
+// Everything about the list view lives in the URL, so a filtered page can be bookmarked or shared.
+// Params left at their default are dropped to keep links short.
+const CATALOG_DEFAULTS = {
+    tab: 'list',
+    q: '',
+    status: '',
+    category: '',
+    age: '',
+    members: '', // 'yes' | 'no'
+    orientation: '',
+    sort: 'updatedAt',
+    order: 'desc',
+    page: '1',
+    limit: String(PAGE_SIZES[0]),
+};
+
+type CatalogParams = typeof CATALOG_DEFAULTS;
+
+const readCatalogParams = (params: URLSearchParams): CatalogParams => {
+    const read = (key: keyof CatalogParams) => params.get(key) ?? CATALOG_DEFAULTS[key];
+    return {
+        tab: read('tab') === 'analytics' ? 'analytics' : 'list',
+        q: read('q'),
+        status: read('status'),
+        category: read('category'),
+        age: read('age'),
+        members: read('members'),
+        orientation: read('orientation'),
+        sort: SORT_FIELDS.includes(read('sort') as BookSortField) ? read('sort') : CATALOG_DEFAULTS.sort,
+        order: read('order') === 'asc' ? 'asc' : 'desc',
+        page: String(Math.max(1, parseInt(read('page')) || 1)),
+        limit: PAGE_SIZES.includes(Number(read('limit'))) ? read('limit') : CATALOG_DEFAULTS.limit,
+    };
+};
+
+const toBookQuery = (catalog: CatalogParams): BookQuery => {
+    const age = parseInt(catalog.age);
+    return {
+        page: Number(catalog.page),
+        limit: Number(catalog.limit),
+        search: catalog.q.trim() || undefined,
+        // Without a status the backend only lists published books
+        status: catalog.status || 'all',
+        category: catalog.category || undefined,
+        age: Number.isNaN(age) ? undefined : age,
+        isMembersOnly: catalog.members ? catalog.members === 'yes' : undefined,
+        orientation: catalog.orientation === 'portrait' || catalog.orientation === 'landscape' ? catalog.orientation : undefined,
+        sort: catalog.sort as BookSortField,
+        order: catalog.order as 'asc' | 'desc',
+    };
+};
+
+// Applies a change to the URL params; any filter change starts again from page 1
+const withCatalogParams = (prev: URLSearchParams, patch: Partial<CatalogParams>) => {
+    const next = new URLSearchParams(prev);
+    const merged = { ...readCatalogParams(prev), ...patch };
+    if (!('page' in patch)) merged.page = CATALOG_DEFAULTS.page;
+    (Object.keys(merged) as (keyof CatalogParams)[]).forEach((key) => {
+        if (merged[key] === CATALOG_DEFAULTS[key]) {
+            next.delete(key);
+        } else {
+            next.set(key, merged[key]);
+        }
+    });
+    return next;
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : '—');
+
 const Books: React.FC = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const catalog = useMemo(() => readCatalogParams(searchParams), [searchParams]);
     const [books, setBooks] = useState<Book[]>([]);
+    const [total, setTotal] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
     const [loading, setLoading] = useState(true);
+    const [reloadCount, setReloadCount] = useState(0);
+    const [showImport, setShowImport] = useState(false);
+    const [categories, setCategories] = useState<Category[]>([]);
     const [deletingBookId, setDeletingBookId] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<TabView>('list');
-
-    // Fetch all pages of books (handles pagination)
-    const fetchAllBooks = async (): Promise<Book[]> => {
-        const pageSize = 100; // backend cap is 100
-        let page = 1;
-        let results: Book[] = [];
+    const [searchText, setSearchText] = useState(catalog.q);
+    const [syncedSearch, setSyncedSearch] = useState(catalog.q);
+    const { canEdit, canReview } = useAuth();
+    const readOnly = !canEdit('content');
+    const selection = useSelection<Book>();
+    const bulk = useBulkAction();
 
-        while (true) {
-            const res = await apiClient.get(`/api/books?status=all&page=${page}&limit=${pageSize}`);
-            const payload = res.data;
+    const activeTab = catalog.tab as TabView;
+    const page = Number(catalog.page);
+    const limit = Number(catalog.limit);
+    const totalPages = Math.max(page + (hasMore ? 1 : 0), Math.ceil(total / limit));
+    const hasFilters = Boolean(catalog.q || catalog.status || catalog.category || catalog.age || catalog.members || catalog.orientation);
 
-            // Support both paginated { data, pagination } and direct arrays
-            const pageItems: Book[] = Array.isArray(payload) ? payload : (payload.data || payload.books || []);
-            results = results.concat(pageItems);
+    const updateCatalog = (patch: Partial<CatalogParams>, options: { replace?: boolean } = {}) => {
+        setSearchParams((prev) => withCatalogParams(prev, patch), options);
+    };
 
-            const hasMore = Array.isArray(payload)
-                ? false
-                : Boolean(payload.pagination?.hasMore);
+    // Back/forward can change the search in the URL; mirror it into the box
+    if (catalog.q !== syncedSearch) {
+        setSyncedSearch(catalog.q);
+        setSearchText(catalog.q);
+    }
 
-            if (!hasMore) break;
-            page += 1;
-        }
+    useEffect(() => {
+        if (searchText === catalog.q) return;
+        const timer = setTimeout(() => {
+            setSyncedSearch(searchText);
+            setSearchParams((prev) => withCatalogParams(prev, { q: searchText }), { replace: true });
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [searchText, catalog.q, setSearchParams]);
 
-        return results;
-    };
+    useEffect(() => {
+        const fetchCategories = async () => {
+            try {
+                setCategories(await categoriesApi.list('book'));
+            } catch (error) {
+                console.error('Error fetching categories:', error);
+            }
+        };
+        fetchCategories();
+    }, []);
 
     useEffect(() => {
+        if (catalog.tab !== 'list') return;
+        // Ignore a response that arrives after the query has moved on
+        let stale = false;
         const fetchBooks = async () => {
+            setLoading(true);
             try {
-                const booksData = await fetchAllBooks();
-                console.log(`📚 Loaded ${booksData.length} books (all pages)`);
-                setBooks(booksData);
+                const result = await booksApi.search(toBookQuery(catalog));
+                if (stale) return;
+                console.log(`📚 Loaded ${result.books.length} of ${result.total} books (page ${catalog.page})`);
+                setBooks(result.books);
+                setTotal(result.total);
+                setHasMore(result.hasMore);
             } catch (error) {
+                if (stale) return;
                 console.error('Error fetching books:', error);
+                alert(getApiErrorMessage(error, 'Failed to load books'));
             } finally {
-                setLoading(false);
+                if (!stale) setLoading(false);
             }
         };
 
         fetchBooks();
-    }, []);
+        return () => {
+            stale = true;
+        };
+    }, [catalog, reloadCount]);
+
+    const handleSort = (field: BookSortField) => {
+        if (catalog.sort === field) {
+            updateCatalog({ order: catalog.order === 'asc' ? 'desc' : 'asc' });
+        } else {
+            // Text columns read best A-Z, numbers and dates biggest/newest first
+            updateCatalog({ sort: field, order: field === 'title' || field === 'author' || field === 'status' ? 'asc' : 'desc' });
+        }
+    };
+
+    const clearFilters = () => {
+        setSearchText('');
+        updateCatalog({ q: '', status: '', category: '', age: '', members: '', orientation: '' });
+    };
 
     const handleDeleteBook = async (bookId: string, bookTitle: string) => {
-        if (!window.confirm(`Are you sure you want to delete "${bookTitle}"? This action cannot be undone.`)) {
+        if (!window.confirm(`Move "${bookTitle}" and its pages to the Trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`)) {
             return;
         }
 
         setDeletingBookId(bookId);
         try {
-            await apiClient.delete(`/api/books/${bookId}`);
-            // Remove the book from the list
-            setBooks(books.filter(book => book._id !== bookId));
+            await booksApi.remove(bookId);
+            selection.deselect([bookId]);
+            // Refetch so the page fills back up from the next one
+            setReloadCount((n) => n + 1);
         } catch (error) {
             console.error('Error deleting book:', error);
             alert('Failed to delete book. Please try again.');
@@ -79,6 +214,42 @@ const Books: React.FC = () => {
         }
     };
 
+    // Selected books can be on other pages, so refetch rather than patch the visible list
+    const finishBulk = (succeededIds: string[]) => {
+        selection.deselect(succeededIds);
+        setReloadCount((n) => n + 1);
+    };
+
+    // Only the changed fields are sent, so read counts and edits made since the list loaded survive
+    const bulkUpdate = (title: string, patch: (book: Book) => Partial<Book>) => {
+        bulk.start(title, selection.items, async (book) => {
+            await booksApi.update(book._id, patch(book));
+        }, finishBulk);
+    };
+
+    // Books that fail validation are skipped and reported
+    const handleBulkPublish = () => {
+        bulk.start('Publishing books', selection.items, async (book) => {
+            const { errors } = countIssues(validateBook(book, await pagesApi.listByBook(book._id)));
+            if (errors) throw new BulkItemError(`${errors} validation error${errors === 1 ? '' : 's'}; open the book and use Validate`);
+            await booksApi.update(book._id, { status: 'published' });
+        }, finishBulk);
+    };
+
+    const handleBulkSubmit = () => {
+        bulk.start('Submitting books for review', selection.items, async (book) => {
+            await reviewsApi.transition('book', book._id, 'submit');
+        }, finishBulk);
+    };
+
+    const handleBulkDelete = () => {
+        if (!window.confirm(`Move ${selection.count} book(s) and their pages to the Trash? They can be restored for ${TRASH_RETENTION_DAYS} days.`)) return;
+        bulk.start('Moving books to the Trash', selection.items, (book) => booksApi.remove(book._id), finishBulk);
+    };
+
+    const firstShown = books.length ? (page - 1) * limit + 1 : 0;
+    const lastShown = (page - 1) * limit + books.length;
+
     return (
         <div>
             <div className="flex justify-between items-center mb-6">
@@ -87,7 +258,7 @@ const Books: React.FC = () => {
                     {/* Tab Buttons */}
                     <div className="flex bg-gray-100 rounded-lg p-1">
                         <button
-                            onClick={() => setActiveTab('list')}
+                            onClick={() => updateCatalog({ tab: 'list', page: catalog.page })}
                             className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
                                 activeTab === 'list'
                                     ? 'bg-white text-indigo-600 shadow-sm'
@@ -98,7 +269,7 @@ const Books: React.FC = () => {
                             List
                         </button>
                         <button
-                            onClick={() => setActiveTab('analytics')}
+                            onClick={() => updateCatalog({ tab: 'analytics', page: catalog.page })}
                             className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
                                 activeTab === 'analytics'
                                     ? 'bg-white text-indigo-600 shadow-sm'
@@ -109,14 +280,25 @@ const Books: React.FC = () => {
                             Analytics
                         </button>
                     </div>
-                    
-                    <Link
-                        to="/books/new"
-                        className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
-                    >
-                        <Plus className="w-5 h-5" />
-                        Add Book
-                    </Link>
+
+                    {!readOnly && (
+                        <button
+                            onClick={() => setShowImport(true)}
+                            className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-gray-50 transition-colors"
+                        >
+                            <FileArchive className="w-5 h-5" />
+                            Import
+                        </button>
+                    )}
+                    {!readOnly && (
+                        <Link
+                            to="/books/new"
+                            className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
+                        >
+                            <Plus className="w-5 h-5" />
+                            Add Book
+                        </Link>
+                    )}
                 </div>
             </div>
 
@@ -124,75 +306,287 @@ const Books: React.FC = () => {
                 <BooksAnalytics />
             ) : (
                 <>
-                    {loading ? (
+                    {/* Filters */}
+                    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 mb-6">
+                        <div className="flex flex-wrap items-center gap-3">
+                            <div className="flex items-center gap-2">
+                                <Search className="w-5 h-5 text-gray-400" />
+                                <input
+                                    type="search"
+                                    placeholder="Search title or author..."
+                                    value={searchText}
+                                    onChange={(e) => setSearchText(e.target.value)}
+                                    className="border rounded-lg px-3 py-2 w-64"
+                                />
+                            </div>
+
+                            <Filter className="w-5 h-5 text-gray-400" />
+                            <select
+                                value={catalog.status}
+                                onChange={(e) => updateCatalog({ status: e.target.value })}
+                                className="border rounded-lg px-3 py-2"
+                            >
+                                <option value="">All Statuses</option>
+                                <option value="published">Published</option>
+                                <option value="approved">Approved</option>
+                                <option value="in_review">In review</option>
+                                <option value="draft">Draft</option>
+                                <option value="archived">Archived</option>
+                            </select>
+
+                            <select
+                                value={catalog.category}
+                                onChange={(e) => updateCatalog({ category: e.target.value })}
+                                className="border rounded-lg px-3 py-2"
+                            >
+                                <option value="">All Categories</option>
+                                {categories.map((cat) => (
+                                    <option key={cat._id} value={cat.name}>{cat.name}</option>
+                                ))}
+                            </select>
+
+                            <input
+                                type="number"
+                                min={0}
+                                placeholder="Age"
+                                title="Books suitable for this age"
+                                value={catalog.age}
+                                onChange={(e) => updateCatalog({ age: e.target.value }, { replace: true })}
+                                className="border rounded-lg px-3 py-2 w-24"
+                            />
+
+                            <select
+                                value={catalog.members}
+                                onChange={(e) => updateCatalog({ members: e.target.value })}
+                                className="border rounded-lg px-3 py-2"
+                            >
+                                <option value="">Free & Members</option>
+                                <option value="yes">Members Only</option>
+                                <option value="no">Free Only</option>
+                            </select>
+
+                            <select
+                                value={catalog.orientation}
+                                onChange={(e) => updateCatalog({ orientation: e.target.value })}
+                                className="border rounded-lg px-3 py-2"
+                            >
+                                <option value="">Any Orientation</option>
+                                <option value="portrait">Portrait</option>
+                                <option value="landscape">Landscape</option>
+                            </select>
+
+                            {hasFilters && (
+                                <button onClick={clearFilters} className="text-sm text-indigo-600 hover:text-indigo-800">
+                                    Clear filters
+                                </button>
+                            )}
+                        </div>
+                    </div>
+
+                    {selection.count > 0 && !readOnly && (
+                        <BulkActionBar
+                            count={selection.count}
+                            noun={selection.count === 1 ? 'book' : 'books'}
+                            disabled={bulk.run?.running}
+                            onClear={selection.clear}
+                            actions={[
+                                // Only approvers publish; everyone else sends books through review
+                                canReview('publish')
+                                    ? { label: 'Publish', icon: Eye, onClick: handleBulkPublish }
+                                    : { label: 'Submit for review', icon: Send, onClick: handleBulkSubmit },
+                                { label: 'Unpublish', icon: EyeOff, onClick: () => bulkUpdate('Unpublishing books', () => ({ status: 'draft' })) },
+                                { label: 'Archive', icon: Archive, onClick: () => bulkUpdate('Archiving books', () => ({ status: 'archived' })) },
+                                { label: 'Delete', icon: Trash2, onClick: handleBulkDelete, danger: true },
+                            ]}
+                            choices={[
+                                {
+                                    label: 'Add to category',
+                                    options: categories.map((cat) => ({ value: cat.name, label: cat.name })),
+                                    onChoose: (name) => bulkUpdate(`Adding books to ${name}`, (book) => ({
+                                        category: book.category || name,
+                                        categories: Array.from(new Set([...(book.categories ?? []), name])),
+                                    })),
+                                },
+                                {
+                                    label: 'Set access',
+                                    options: [{ value: 'members', label: 'Members only' }, { value: 'free', label: 'Free for everyone' }],
+                                    onChoose: (value) => bulkUpdate(
+                                        value === 'members' ? 'Making books members-only' : 'Making books free',
+                                        () => ({ isMembersOnly: value === 'members' })
+                                    ),
+                                },
+                            ]}
+                        />
+                    )}
+
+                    {loading && books.length === 0 ? (
                         <p>Loading books...</p>
                     ) : books.length === 0 ? (
                         <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 text-center">
-                            <p className="text-gray-500">No books found. Create your first one!</p>
+                            <p className="text-gray-500">
+                                {hasFilters ? 'No books match these filters.' : page > 1 ? 'No books on this page.' : 'No books found. Create your first one!'}
+                            </p>
                         </div>
                     ) : (
-                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                            {books.map((book) => (
-                                <div key={book._id} className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 flex flex-col justify-between h-full">
-                                    <div>
-                                        {book.coverImage && (
-                                            <div className="mb-4 rounded-lg overflow-hidden">
-                                                <img 
-                                                    src={book.coverImage} 
-                                                    alt={book.title}
-                                                    className="w-full h-48 object-cover"
-                                                    onError={(e) => {
-                                                        // Hide image if it fails to load
-                                                        e.currentTarget.style.display = 'none';
-                                                    }}
+                        <div className={`bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden ${loading ? 'opacity-60' : ''}`}>
+                            <table className="w-full">
+                                <thead className="bg-gray-50 border-b">
+                                    <tr>
+                                        {!readOnly && (
+                                            <th className="pl-4 w-8">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selection.allSelected(books)}
+                                                    onChange={() => selection.toggleAll(books)}
+                                                    className="rounded"
+                                                    title="Select all on this page"
                                                 />
-                                            </div>
+                                            </th>
                                         )}
-                                        <h2 className="text-xl font-semibold text-gray-800">{book.title}</h2>
-                                        <p className="text-gray-600">{book.author}</p>
-                                        <span className={`inline-block mt-4 px-3 py-1 rounded-full text-sm ${book.status === 'published' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
-                                            }`}>
-                                            {book.status}
-                                        </span>
-                                    </div>
-                                    <div className="mt-4 flex space-x-2 flex-wrap gap-2">
-                                        <Link
-                                            to={`/books/edit/${book._id}`}
-                                            className="bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700 transition"
-                                        >
-                                            Edit
-                                        </Link>
-                                        <Link
-                                            to={`/pages/new/${book._id}`}
-                                            className="bg-purple-600 text-white px-3 py-1 rounded hover:bg-purple-700 transition"
-                                        >
-                                            Add Page
-                                        </Link>
-                                        <Link
-                                            to={`/books/read/${book._id}`}
-                                            className="bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700 transition"
-                                        >
-                                            Read
-                                        </Link>
-                                        <button
-                                            onClick={(e) => {
-                                                e.preventDefault();
-                                                e.stopPropagation();
-                                                handleDeleteBook(book._id, book.title);
-                                            }}
-                                            disabled={deletingBookId === book._id}
-                                            className="bg-red-600 text-white px-3 py-1 rounded hover:bg-red-700 transition flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
-                                        >
-                                            <Trash2 className="w-4 h-4" />
-                                            {deletingBookId === book._id ? 'Deleting...' : 'Delete'}
-                                        </button>
-                                    </div>
-                                </div>
-                            ))}
+                                        <th className="p-4 w-16" />
+                                        {COLUMNS.map((column) => (
+                                            <th key={column.label} className="text-left p-4 font-medium text-gray-600">
+                                                {column.sort ? (
+                                                    <button
+                                                        onClick={() => handleSort(column.sort!)}
+                                                        className={`inline-flex items-center gap-1 hover:text-gray-900 ${catalog.sort === column.sort ? 'text-indigo-600' : ''}`}
+                                                    >
+                                                        {column.label}
+                                                        {catalog.sort === column.sort && (catalog.order === 'asc'
+                                                            ? <ArrowUp className="w-3 h-3" />
+                                                            : <ArrowDown className="w-3 h-3" />)}
+                                                    </button>
+                                                ) : column.label}
+                                            </th>
+                                        ))}
+                                        <th className="text-right p-4 font-medium text-gray-600">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {books.map((book) => (
+                                        <tr key={book._id} className={`border-b ${selection.isSelected(book._id) ? 'bg-indigo-50/50' : 'hover:bg-gray-50'}`}>
+                                            {!readOnly && (
+                                                <td className="pl-4">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selection.isSelected(book._id)}
+                                                        onChange={() => selection.toggle(book)}
+                                                        className="rounded"
+                                                    />
+                                                </td>
+                                            )}
+                                            <td className="p-4">
+                                                {book.coverImage ? (
+                                                    <img
+                                                        src={getMediaUrl(book.coverImage)}
+                                                        alt=""
+                                                        className="w-10 h-12 rounded object-cover"
+                                                        onError={(e) => {
+                                                            // Hide image if it fails to load
+                                                            e.currentTarget.style.display = 'none';
+                                                        }}
+                                                    />
+                                                ) : (
+                                                    <div className="w-10 h-12 rounded bg-gray-200 flex items-center justify-center">
+                                                        <BookOpen className="w-5 h-5 text-gray-400" />
+                                                    </div>
+                                                )}
+                                            </td>
+                                            <td className="p-4">
+                                                <div className="font-medium text-gray-900">{book.title}</div>
+                                                {book.isMembersOnly && <span className="text-xs text-amber-600">Members only</span>}
+                                            </td>
+                                            <td className="p-4 text-gray-600">{book.author}</td>
+                                            <td className="p-4">
+                                                <StatusBadge status={book.status} />
+                                            </td>
+                                            <td className="p-4 text-gray-600 text-sm">{book.categories?.join(', ') || book.category || '—'}</td>
+                                            <td className="p-4 text-gray-600">{book.minAge !== undefined ? `${book.minAge}+` : '—'}</td>
+                                            <td className="p-4 text-gray-600">{book.readCount.toLocaleString()}</td>
+                                            <td className="p-4 text-gray-600 text-sm">{formatDate(book.updatedAt)}</td>
+                                            <td className="p-4">
+                                                <div className="flex justify-end gap-2 text-sm">
+                                                    <Link
+                                                        to={`/books/edit/${book._id}`}
+                                                        className="bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700 transition"
+                                                    >
+                                                        Edit
+                                                    </Link>
+                                                    <Link
+                                                        to={`/pages/new/${book._id}`}
+                                                        className="bg-purple-600 text-white px-3 py-1 rounded hover:bg-purple-700 transition whitespace-nowrap"
+                                                    >
+                                                        Add Page
+                                                    </Link>
+                                                    <Link
+                                                        to={`/books/read/${book._id}`}
+                                                        className="bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700 transition"
+                                                    >
+                                                        Read
+                                                    </Link>
+                                                    <button
+                                                        onClick={() => handleDeleteBook(book._id, book.title)}
+                                                        disabled={deletingBookId === book._id || readOnly}
+                                                        className="bg-red-600 text-white px-2 py-1 rounded hover:bg-red-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                                                        title={deletingBookId === book._id ? 'Deleting...' : 'Delete'}
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {/* Pagination */}
+                    {(books.length > 0 || page > 1) && (
+                        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                            <span>
+                                {books.length > 0 && `Showing ${firstShown}–${lastShown} of ${total.toLocaleString()}`}
+                            </span>
+                            <div className="flex items-center gap-3">
+                                <select
+                                    value={catalog.limit}
+                                    onChange={(e) => updateCatalog({ limit: e.target.value })}
+                                    className="border rounded-lg px-2 py-1"
+                                >
+                                    {PAGE_SIZES.map((size) => (
+                                        <option key={size} value={size}>{size} per page</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => updateCatalog({ page: String(page - 1) })}
+                                    disabled={page <= 1 || loading}
+                                    className="p-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                                    title="Previous page"
+                                >
+                                    <ChevronLeft className="w-4 h-4" />
+                                </button>
+                                <span>Page {page} of {totalPages}</span>
+                                <button
+                                    onClick={() => updateCatalog({ page: String(page + 1) })}
+                                    disabled={page >= totalPages || loading}
+                                    className="p-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                                    title="Next page"
+                                >
+                                    <ChevronRight className="w-4 h-4" />
+                                </button>
+                            </div>
                         </div>
                     )}
                 </>
             )}
+
+            {bulk.run && <BulkProgressDialog run={bulk.run} onRetry={bulk.retryFailed} onClose={bulk.dismiss} />}
+            {showImport && (
+                <BookPackageImport
+                    onClose={() => setShowImport(false)}
+                    onImported={() => setReloadCount((n) => n + 1)}
+                />
+            )}
         </div>
     );
 };
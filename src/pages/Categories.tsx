@@ -1,15 +1,10 @@
 import React, { useEffect, useState } from 'react';
 import { Plus, Edit, Trash2, Tag, BookOpen, Headphones } from 'lucide-react';
-import apiClient from '../services/apiClient';
-
-interface Category {
-    _id: string;
-    name: string;
-    description?: string;
-    color: string;
-    icon?: string;
-    contentType: 'Book' | 'Audio';
-}
+import { getApiErrorMessage } from '../services/apiClient';
+import { categoriesApi } from '../services/api';
+import { type Category, type CategoryContentType } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
 
 const Categories: React.FC = () => {
     const [categories, setCategories] = useState<Category[]>([]);
@@ -21,10 +16,12 @@ const Categories: React.FC = () => {
         description: '',
         color: '#6366f1',
         icon: '',
-        contentType: 'Book' as 'Book' | 'Audio',
+        contentType: 'Book' as CategoryContentType,
     });
     const [saving, setSaving] = useState(false);
     const [deleting, setDeleting] = useState<string | null>(null);
+    const { canEdit } = useAuth();
+    const readOnly = !canEdit('content');
 
     useEffect(() => {
         fetchCategories();
@@ -32,8 +29,7 @@ const Categories: React.FC = () => {
 
     const fetchCategories = async () => {
         try {
-            const response = await apiClient.get('/api/categories');
-            setCategories(response.data);
+            setCategories(await categoriesApi.list());
         } catch (error) {
             console.error('Error fetching categories:', error);
         } finally {
@@ -78,34 +74,36 @@ const Categories: React.FC = () => {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (readOnly) return;
         setSaving(true);
         try {
             if (editingCategory) {
-                await apiClient.put(`/api/categories/${editingCategory._id}`, formData);
+                await categoriesApi.update(editingCategory._id, formData);
             } else {
-                await apiClient.post('/api/categories', formData);
+                await categoriesApi.create(formData);
             }
             await fetchCategories();
             handleCloseModal();
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error saving category:', error);
-            alert(error.response?.data?.error || 'Failed to save category');
+            alert(getApiErrorMessage(error, 'Failed to save category'));
         } finally {
             setSaving(false);
         }
     };
 
     const handleDelete = async (id: string) => {
+        if (readOnly) return;
         if (!confirm('Are you sure you want to delete this category?')) {
             return;
         }
         setDeleting(id);
         try {
-            await apiClient.delete(`/api/categories/${id}`);
+            await categoriesApi.remove(id);
             await fetchCategories();
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error deleting category:', error);
-            alert(error.response?.data?.error || 'Failed to delete category');
+            alert(getApiErrorMessage(error, 'Failed to delete category'));
         } finally {
             setDeleting(null);
         }
@@ -119,14 +117,17 @@ const Categories: React.FC = () => {
         <div>
             <div className="flex justify-between items-center mb-6">
                 <h1 className="text-3xl font-bold text-gray-800">Categories</h1>
-                <button
-                    onClick={() => handleOpenModal()}
-                    className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
-                >
-                    <Plus className="w-5 h-5" />
-                    Add Category
-                </button>
+                {!readOnly && (
+                    <button
+                        onClick={() => handleOpenModal()}
+                        className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
+                    >
+                        <Plus className="w-5 h-5" />
+                        Add Category
+                    </button>
+                )}
             </div>
+            {readOnly && <ReadOnlyBanner subject="category list" />}
 
             {categories.length === 0 ? (
                 <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 text-center">
@@ -168,23 +169,25 @@ const Categories: React.FC = () => {
                                     <><BookOpen className="w-3.5 h-3.5" /> Read Page</>
                                 )}
                             </div>
-                            <div className="flex gap-2 mt-4">
-                                <button
-                                    onClick={() => handleOpenModal(category)}
-                                    className="flex-1 bg-indigo-600 text-white px-3 py-2 rounded hover:bg-indigo-700 transition flex items-center justify-center gap-2"
-                                >
-                                    <Edit className="w-4 h-4" />
-                                    Edit
-                                </button>
-                                <button
-                                    onClick={() => handleDelete(category._id)}
-                                    disabled={deleting === category._id}
-                                    className="flex-1 bg-red-600 text-white px-3 py-2 rounded hover:bg-red-700 transition disabled:opacity-50 flex items-center justify-center gap-2"
-                                >
-                                    <Trash2 className="w-4 h-4" />
-                                    {deleting === category._id ? 'Deleting...' : 'Delete'}
-                                </button>
-                            </div>
+                            {!readOnly && (
+                                <div className="flex gap-2 mt-4">
+                                    <button
+                                        onClick={() => handleOpenModal(category)}
+                                        className="flex-1 bg-indigo-600 text-white px-3 py-2 rounded hover:bg-indigo-700 transition flex items-center justify-center gap-2"
+                                    >
+                                        <Edit className="w-4 h-4" />
+                                        Edit
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(category._id)}
+                                        disabled={deleting === category._id}
+                                        className="flex-1 bg-red-600 text-white px-3 py-2 rounded hover:bg-red-700 transition disabled:opacity-50 flex items-center justify-center gap-2"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                        {deleting === category._id ? 'Deleting...' : 'Delete'}
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -5,6 +5,8 @@ import {
     ChevronDown, ChevronUp, Search, ArrowUpRight, ArrowDownRight,
     BookOpen, Clock, Headphones, Music, Gamepad2, FileText
 } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { analyticsApi, type AnalyticsResult } from '../services/api';
 
 interface UserData {
     id: string;
@@ -77,19 +79,6 @@ interface AnalyticsData {
     users: UserData[];
 }
 
-// Ensure API_BASE always ends with /api
-const getApiBase = () => {
-    let base = import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com';
-    // Remove trailing slash if present
-    base = base.replace(/\/$/, '');
-    // Add /api if not present
-    if (!base.endsWith('/api')) {
-        base = `${base}/api`;
-    }
-    return base;
-};
-const API_BASE = getApiBase();
-
 const TIME_RANGE_OPTIONS: { value: TimeRange; label: string }[] = [
     { value: '1d', label: '1 Day' },
     { value: '1w', label: '1 Week' },
@@ -112,15 +101,14 @@ const Dashboard: React.FC = () => {
     const fetchData = async (timeRange: TimeRange = selectedTimeRange) => {
         setLoading(true);
         try {
-            const response = await fetch(`${API_BASE}/analytics/users?timeRange=${timeRange}`);
-            const result = await response.json();
+            const result = await analyticsApi.getUsers<AnalyticsData & AnalyticsResult>(timeRange);
             if (result.success) {
                 setData(result);
             } else {
                 setError(result.message || 'Failed to fetch data');
             }
         } catch (err) {
-            setError('Failed to connect to server');
+            setError(getApiErrorMessage(err, 'Failed to connect to server'));
             console.error(err);
         } finally {
             setLoading(false);
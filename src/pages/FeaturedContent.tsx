@@ -1,40 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Star, GripVertical, BookOpen, Music, Save, Loader2, ChevronDown, ChevronRight, Headphones } from 'lucide-react';
-import apiClient from '../services/apiClient';
-
-interface Book {
-  _id: string;
-  title: string;
-  author: string;
-  coverImage?: string;
-  files?: { coverImage?: string };
-  status: string;
-  isFeatured?: boolean;
-  featuredOrder?: number;
-}
-
-interface PlaylistItem {
-  _id: string;
-  title: string;
-  artist?: string;
-  coverImage?: string;
-  audioUrl?: string;
-  duration?: number;
-  isFeatured?: boolean;
-  featuredOrder?: number;
-}
-
-interface Playlist {
-  _id: string;
-  title: string;
-  author: string;
-  coverImage?: string;
-  type: string;
-  status: string;
-  isFeatured?: boolean;
-  featuredOrder?: number;
-  items?: PlaylistItem[];
-}
+import { booksApi, playlistsApi } from '../services/api';
+import { type Book, type Playlist, type PlaylistItem } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
 
 interface FeaturedEpisode {
   _id: string; // Composite ID: playlistId_itemId
@@ -59,41 +28,19 @@ const FeaturedContent: React.FC = () => {
   const [saving, setSaving] = useState(false);
   const [activeTab, setActiveTab] = useState<'featured' | 'books' | 'playlists'>('featured');
   const [expandedPlaylists, setExpandedPlaylists] = useState<Set<string>>(new Set());
+  const { canEdit } = useAuth();
+  const readOnly = !canEdit('content');
 
   useEffect(() => {
     fetchData();
   }, []);
 
-  const fetchAllPages = async <T,>(endpoint: string): Promise<T[]> => {
-    const pageSize = 100; // backend cap is 100
-    let page = 1;
-    let results: T[] = [];
-
-    while (true) {
-      const res = await apiClient.get(`${endpoint}${endpoint.includes('?') ? '&' : '?'}page=${page}&limit=${pageSize}`);
-      const payload = res.data;
-
-      // Support both paginated { data, pagination } and direct arrays
-      const pageItems: T[] = Array.isArray(payload) ? payload : (payload.data || payload.playlists || payload.books || []);
-      results = results.concat(pageItems);
-
-      const hasMore = Array.isArray(payload)
-        ? false
-        : Boolean(payload.pagination?.hasMore);
-
-      if (!hasMore) break;
-      page += 1;
-    }
-
-    return results;
-  };
-
   const fetchData = async () => {
     setLoading(true);
     try {
       const [booksArray, playlistsArray] = await Promise.all([
-        fetchAllPages<Book>('/api/books?status=all'),
-        fetchAllPages<Playlist>('/api/playlists?status=all'),
+        booksApi.list({ status: 'all' }),
+        playlistsApi.list({ status: 'all' }),
       ]);
 
       const booksData = booksArray.filter((b: Book) => b.status === 'published');
@@ -236,6 +183,7 @@ const FeaturedContent: React.FC = () => {
   };
 
   const saveFeaturedItems = async () => {
+    if (readOnly) return;
     console.log('🔄 Starting save featured items...');
     console.log('📋 Featured items to save:', featuredItems);
     setSaving(true);
@@ -251,11 +199,11 @@ const FeaturedContent: React.FC = () => {
         const stillFeatured = featuredItems.some(f => f._id === book._id && f.itemType === 'book');
         if (!stillFeatured) {
           console.log(`📕 Unfeaturing book: ${book.title}`);
-          const res = await apiClient.put(`/api/books/${book._id}`, {
+          const updated = await booksApi.update(book._id, {
             isFeatured: false,
             featuredOrder: 0,
           });
-          console.log('📕 Unfeatured book response:', res.data);
+          console.log('📕 Unfeatured book response:', updated);
         }
       }
 
@@ -263,11 +211,11 @@ const FeaturedContent: React.FC = () => {
         const stillFeatured = featuredItems.some(f => f._id === playlist._id && f.itemType === 'playlist');
         if (!stillFeatured) {
           console.log(`🎵 Unfeaturing playlist: ${playlist.title}`);
-          const res = await apiClient.put(`/api/playlists/${playlist._id}`, {
+          const updated = await playlistsApi.update(playlist._id, {
             isFeatured: false,
             featuredOrder: 0,
           });
-          console.log('🎵 Unfeatured playlist response:', res.data);
+          console.log('🎵 Unfeatured playlist response:', updated);
         }
       }
 
@@ -280,7 +228,7 @@ const FeaturedContent: React.FC = () => {
               const stillFeatured = featuredItems.some(f => f._id === compositeId && f.itemType === 'episode');
               if (!stillFeatured) {
                 console.log(`🎧 Unfeaturing episode: ${item.title}`);
-                await apiClient.put(`/api/playlists/${playlist._id}/items/${item._id}/featured`, {
+                await playlistsApi.setItemFeatured(playlist._id, item._id, {
                   isFeatured: false,
                   featuredOrder: 0,
                 });
@@ -299,20 +247,20 @@ const FeaturedContent: React.FC = () => {
           // Handle episode featuring
           const episodeItem = item as FeaturedEpisode & { itemType: 'episode' };
           console.log(`⭐ Setting featured episode #${i + 1}: ${episodeItem.title}`);
-          await apiClient.put(`/api/playlists/${episodeItem.playlistId}/items/${episodeItem.itemId}/featured`, {
+          await playlistsApi.setItemFeatured(episodeItem.playlistId, episodeItem.itemId, {
             isFeatured: true,
             featuredOrder: i,
           });
           console.log(`✅ Updated episode ${episodeItem.title}`);
         } else {
           // Handle book or playlist featuring
-          const endpoint = item.itemType === 'book' ? '/api/books' : '/api/playlists';
+          const api = item.itemType === 'book' ? booksApi : playlistsApi;
           console.log(`⭐ Setting featured #${i + 1}: ${item.title} (${item.itemType})`);
-          const res = await apiClient.put(`${endpoint}/${item._id}`, {
+          const updated = await api.update(item._id, {
             isFeatured: true,
             featuredOrder: i,
           });
-          console.log(`✅ Updated ${item.title}:`, res.data.isFeatured, res.data.featuredOrder);
+          console.log(`✅ Updated ${item.title}:`, updated.isFeatured, updated.featuredOrder);
         }
       }
 
@@ -353,7 +301,7 @@ const FeaturedContent: React.FC = () => {
         </div>
         <button
           onClick={saveFeaturedItems}
-          disabled={saving}
+          disabled={saving || readOnly}
           className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors disabled:opacity-50"
         >
           {saving ? (
@@ -369,6 +317,7 @@ const FeaturedContent: React.FC = () => {
           )}
         </button>
       </div>
+      {readOnly && <ReadOnlyBanner subject="featured list" />}
 
       {/* Tabs */}
       <div className="border-b border-gray-200">
@@ -0,0 +1,364 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, Type, Upload, Globe, AlertTriangle, Loader2, Lock } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { fontsApi, uploadsApi } from '../services/api';
+import { loadFont } from '../services/fontLoader';
+import { type Font, type FontPayload, type FontSource } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
+import { BUILT_IN_FONTS, familyFromFilename } from '../utils/fonts';
+
+const DEFAULT_PREVIEW_TEXT = 'Once upon a time, a little fox found a glowing star.';
+
+interface FontForm {
+    family: string;
+    source: FontSource;
+    // Stylesheet link of a web font; uploaded fonts keep the URL of their file
+    url: string;
+    file: File | null;
+    available: boolean;
+}
+
+const EMPTY_FORM: FontForm = { family: '', source: 'upload', url: '', file: null, available: true };
+
+// A font's preview is ready once it has loaded under its current name and URL
+const loadKey = (font: Font) => `${font._id}:${font.family}:${font.url}`;
+
+const Fonts: React.FC = () => {
+    const [fonts, setFonts] = useState<Font[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [previewText, setPreviewText] = useState(DEFAULT_PREVIEW_TEXT);
+    const [loadStatus, setLoadStatus] = useState<Record<string, 'ready' | 'error'>>({});
+    const [showModal, setShowModal] = useState(false);
+    const [editingFont, setEditingFont] = useState<Font | null>(null);
+    const [formData, setFormData] = useState<FontForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const { canEdit } = useAuth();
+    const readOnly = !canEdit('content');
+
+    useEffect(() => {
+        const fetchFonts = async () => {
+            try {
+                setFonts(await fontsApi.list());
+            } catch (error) {
+                console.error('Error fetching fonts:', error);
+                alert(getApiErrorMessage(error, 'Failed to load fonts'));
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchFonts();
+    }, []);
+
+    // Every registered font is loaded here, available or not, so it can be previewed
+    useEffect(() => {
+        for (const font of fonts) {
+            const key = loadKey(font);
+            loadFont(font)
+                .then(() => setLoadStatus((prev) => ({ ...prev, [key]: 'ready' })))
+                .catch((error) => {
+                    console.warn(`Could not load the font ${font.family}:`, error);
+                    setLoadStatus((prev) => ({ ...prev, [key]: 'error' }));
+                });
+        }
+    }, [fonts]);
+
+    const handleOpenModal = (font?: Font) => {
+        setEditingFont(font ?? null);
+        setFormData(font
+            ? { family: font.family, source: font.source, url: font.source === 'web' ? font.url : '', file: null, available: font.available }
+            : EMPTY_FORM);
+        setShowModal(true);
+    };
+
+    const handleCloseModal = () => {
+        setShowModal(false);
+        setEditingFont(null);
+        setFormData(EMPTY_FORM);
+    };
+
+    const handleFileChange = (file: File | null) => {
+        setFormData((prev) => ({ ...prev, file, family: prev.family || (file ? familyFromFilename(file.name) : '') }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const family = formData.family.trim();
+        if (BUILT_IN_FONTS.some((builtIn) => builtIn.toLowerCase() === family.toLowerCase())) {
+            alert(`${family} is already built in.`);
+            return;
+        }
+        if (formData.source === 'upload' && !formData.file && editingFont?.source !== 'upload') {
+            alert('Choose a font file to upload.');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const payload: FontPayload = { family, source: formData.source, url: formData.url.trim(), available: formData.available };
+            if (formData.source === 'upload') {
+                if (formData.file) {
+                    const uploaded = await uploadsApi.upload('font', formData.file, { type: 'fonts' });
+                    payload.url = uploaded.url;
+                    payload.filename = uploaded.filename || formData.file.name;
+                } else {
+                    payload.url = editingFont?.url ?? '';
+                    payload.filename = editingFont?.filename;
+                }
+            }
+            const saved = editingFont ? await fontsApi.update(editingFont._id, payload) : await fontsApi.create(payload);
+            setFonts((prev) => (editingFont ? prev.map((font) => (font._id === saved._id ? saved : font)) : [...prev, saved]));
+            handleCloseModal();
+        } catch (error) {
+            console.error('Error saving font:', error);
+            alert(getApiErrorMessage(error, 'Failed to save font'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggleAvailable = async (font: Font) => {
+        setBusyId(font._id);
+        try {
+            const saved = await fontsApi.update(font._id, { available: !font.available });
+            setFonts((prev) => prev.map((f) => (f._id === saved._id ? saved : f)));
+        } catch (error) {
+            console.error('Error updating font:', error);
+            alert(getApiErrorMessage(error, 'Failed to update font'));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (font: Font) => {
+        if (!confirm(`Remove ${font.family}? Pages that use it will be flagged and fall back to another font in the app.`)) return;
+        setBusyId(font._id);
+        try {
+            await fontsApi.remove(font._id);
+            setFonts((prev) => prev.filter((f) => f._id !== font._id));
+        } catch (error) {
+            console.error('Error deleting font:', error);
+            alert(getApiErrorMessage(error, 'Failed to delete font'));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const preview = (family: string) => (
+        <p className="text-2xl text-gray-800 break-words" style={{ fontFamily: `${JSON.stringify(family)}, sans-serif` }}>
+            {previewText || DEFAULT_PREVIEW_TEXT}
+        </p>
+    );
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <h1 className="text-3xl font-bold text-gray-800">Fonts</h1>
+                {!readOnly && (
+                    <button
+                        onClick={() => handleOpenModal()}
+                        className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
+                    >
+                        <Plus className="w-5 h-5" />
+                        Add Font
+                    </button>
+                )}
+            </div>
+            <p className="text-gray-500 mb-6">
+                Fonts marked available are offered for text boxes in the page editor and loaded by the book preview.
+                Pages using a font that isn't registered get a warning.
+            </p>
+            {readOnly && <ReadOnlyBanner subject="font list" />}
+
+            <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Preview text</label>
+                <input
+                    type="text"
+                    value={previewText}
+                    onChange={(e) => setPreviewText(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+            </div>
+
+            <h2 className="text-xl font-semibold text-gray-800 mb-3">Registered fonts</h2>
+            {loading ? (
+                <p className="mb-8">Loading fonts...</p>
+            ) : fonts.length === 0 ? (
+                <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 text-center mb-8">
+                    <Type className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-500">No fonts registered yet. Upload a font file or add a web font.</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+                    {fonts.map((font) => {
+                        const status = loadStatus[loadKey(font)];
+                        return (
+                            <div key={font._id} className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 flex flex-col">
+                                <div className="flex items-start justify-between gap-2 mb-3">
+                                    <div>
+                                        <h3 className="text-lg font-semibold text-gray-800">{font.family}</h3>
+                                        <p className="text-xs text-gray-500 flex items-center gap-1 mt-1">
+                                            {font.source === 'upload'
+                                                ? <><Upload className="w-3 h-3" /> {font.filename || 'Uploaded file'}</>
+                                                : <><Globe className="w-3 h-3" /> Web font</>}
+                                        </p>
+                                    </div>
+                                    <label className="flex items-center gap-2 text-sm text-gray-700 shrink-0">
+                                        <input
+                                            type="checkbox"
+                                            checked={font.available}
+                                            onChange={() => handleToggleAvailable(font)}
+                                            disabled={readOnly || busyId === font._id}
+                                        />
+                                        Available
+                                    </label>
+                                </div>
+                                <div className="flex-1 min-h-16 mb-4">
+                                    {status === 'error' ? (
+                                        <p className="text-sm text-red-600 flex items-center gap-1">
+                                            <AlertTriangle className="w-4 h-4" /> Couldn't load this font. Check its file or link.
+                                        </p>
+                                    ) : status === 'ready' ? preview(font.family) : (
+                                        <p className="text-sm text-gray-400 flex items-center gap-1">
+                                            <Loader2 className="w-4 h-4 animate-spin" /> Loading font...
+                                        </p>
+                                    )}
+                                </div>
+                                {!readOnly && (
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => handleOpenModal(font)}
+                                            className="flex-1 bg-indigo-600 text-white px-3 py-2 rounded hover:bg-indigo-700 transition flex items-center justify-center gap-2"
+                                        >
+                                            <Edit className="w-4 h-4" />
+                                            Edit
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(font)}
+                                            disabled={busyId === font._id}
+                                            className="flex-1 bg-red-600 text-white px-3 py-2 rounded hover:bg-red-700 transition disabled:opacity-50 flex items-center justify-center gap-2"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                            Delete
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <h2 className="text-xl font-semibold text-gray-800 mb-1">Built-in fonts</h2>
+            <p className="text-sm text-gray-500 mb-3">Bundled with the app and always available.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {BUILT_IN_FONTS.map((family) => (
+                    <div key={family} className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+                        <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2 mb-3">
+                            {family}
+                            <Lock className="w-4 h-4 text-gray-400" />
+                        </h3>
+                        {preview(family)}
+                    </div>
+                ))}
+            </div>
+
+            {/* Modal */}
+            {showModal && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+                        <h2 className="text-2xl font-bold text-gray-800 mb-4">
+                            {editingFont ? 'Edit Font' : 'Add Font'}
+                        </h2>
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="flex gap-3">
+                                {([['upload', 'Upload file', Upload], ['web', 'Web font', Globe]] as const).map(([source, label, Icon]) => (
+                                    <button
+                                        key={source}
+                                        type="button"
+                                        onClick={() => setFormData({ ...formData, source })}
+                                        className={`flex-1 py-3 px-4 rounded-lg border-2 flex items-center justify-center gap-2 transition-all ${formData.source === source
+                                            ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                                            : 'border-gray-300 hover:border-gray-400 text-gray-600'
+                                            }`}
+                                    >
+                                        <Icon className="w-5 h-5" />
+                                        <span className="font-semibold">{label}</span>
+                                    </button>
+                                ))}
+                            </div>
+                            {formData.source === 'upload' ? (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                                        Font file {editingFont?.source === 'upload' ? '(leave empty to keep the current file)' : '*'}
+                                    </label>
+                                    <input
+                                        type="file"
+                                        accept=".woff2,.woff,.ttf,.otf"
+                                        onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+                                        className="w-full text-sm"
+                                    />
+                                    <p className="text-xs text-gray-500 mt-1">WOFF2 is smallest; WOFF, TTF and OTF work too.</p>
+                                </div>
+                            ) : (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">Stylesheet URL *</label>
+                                    <input
+                                        type="url"
+                                        value={formData.url}
+                                        onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                        placeholder="https://fonts.googleapis.com/css2?family=Happy+Monkey&display=swap"
+                                        required
+                                    />
+                                </div>
+                            )}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    Family name * <span className="text-gray-500 font-normal">(as the stylesheet or app names it)</span>
+                                </label>
+                                <input
+                                    type="text"
+                                    value={formData.family}
+                                    onChange={(e) => setFormData({ ...formData, family: e.target.value })}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    required
+                                />
+                                {editingFont && formData.family.trim() !== editingFont.family && (
+                                    <p className="text-xs text-amber-700 mt-1">Pages that use {editingFont.family} keep that name and will be flagged.</p>
+                                )}
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={formData.available}
+                                    onChange={(e) => setFormData({ ...formData, available: e.target.checked })}
+                                />
+                                Available in the page editor
+                            </label>
+                            <div className="flex gap-4 pt-4">
+                                <button
+                                    type="button"
+                                    onClick={handleCloseModal}
+                                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={saving}
+                                    className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                                >
+                                    {saving ? 'Saving...' : editingFont ? 'Update' : 'Add'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Fonts;
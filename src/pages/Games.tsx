@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { Gamepad2, Play, Pause, RefreshCw, Edit2, Save, X, Plus, Globe, Upload, Coins } from 'lucide-react';
-import apiClient from '../services/apiClient';
+import { getApiErrorMessage } from '../services/apiClient';
+import { gamesApi, uploadsApi } from '../services/api';
 
 interface Game {
     _id?: string;
@@ -60,8 +61,8 @@ const Games: React.FC = () => {
 
     const fetchGames = async () => {
         try {
-            const response = await apiClient.get('/api/games');
-            setGames(response.data || []);
+            const gamesData = await gamesApi.list<Game>();
+            setGames(gamesData || []);
         } catch (error: any) {
             console.error('Error fetching games:', error);
             // If it's a 404 or empty response, just set empty array
@@ -100,7 +101,7 @@ const Games: React.FC = () => {
 
         try {
             for (const game of defaultGames) {
-                await apiClient.post('/api/games', game);
+                await gamesApi.create(game);
             }
             await fetchGames();
         } catch (error) {
@@ -110,11 +111,11 @@ const Games: React.FC = () => {
 
     const handleToggleEnabled = async (game: Game) => {
         try {
-            await apiClient.put(`/api/games/${game.gameId}/toggle`);
+            await gamesApi.toggle(game.gameId);
             await fetchGames();
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error toggling game:', error);
-            alert(error.response?.data?.message || 'Failed to update game');
+            alert(getApiErrorMessage(error, 'Failed to update game'));
         }
     };
 
@@ -144,13 +145,13 @@ const Games: React.FC = () => {
         if (!editingGame) return;
 
         try {
-            await apiClient.put(`/api/games/${editingGame.gameId}`, formData);
+            await gamesApi.update(editingGame.gameId, formData);
             await fetchGames();
             setEditingGame(null);
             setFormData(null);
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error saving game:', error);
-            alert(error.response?.data?.message || 'Failed to save game');
+            alert(getApiErrorMessage(error, 'Failed to save game'));
         }
     };
 
@@ -171,7 +172,7 @@ const Games: React.FC = () => {
         }
 
         try {
-            await apiClient.post('/api/games', newGame);
+            await gamesApi.create(newGame);
             await fetchGames();
             setShowCreateModal(false);
             setNewGame({
@@ -192,9 +193,9 @@ const Games: React.FC = () => {
                 goldCoinPrice: 0,
                 ageRating: 'All Ages',
             });
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error creating game:', error);
-            alert(error.response?.data?.message || 'Failed to create game');
+            alert(getApiErrorMessage(error, 'Failed to create game'));
         }
     };
 
@@ -422,15 +423,9 @@ const Games: React.FC = () => {
                                                     const file = e.target.files?.[0];
                                                     if (file) {
                                                         setUploadingEditCover(true);
-                                                        const uploadFormData = new FormData();
-                                                        uploadFormData.append('file', file);
                                                         try {
-                                                            const response = await apiClient.post(
-                                                                `/api/upload/image?bookId=games&type=game-cover`,
-                                                                uploadFormData,
-                                                                { headers: { 'Content-Type': 'multipart/form-data' } }
-                                                            );
-                                                            setFormData({ ...formData, coverImage: response.data.url });
+                                                            const { url } = await uploadsApi.upload('image', file, { bookId: 'games', type: 'game-cover' });
+                                                            setFormData({ ...formData, coverImage: url });
                                                         } catch (error) {
                                                             console.error('Failed to upload cover image:', error);
                                                             alert('Failed to upload cover image');
@@ -757,15 +752,9 @@ const Games: React.FC = () => {
                                                     const file = e.target.files?.[0];
                                                     if (file) {
                                                         setUploadingCover(true);
-                                                        const formData = new FormData();
-                                                        formData.append('file', file);
                                                         try {
-                                                            const response = await apiClient.post(
-                                                                `/api/upload/image?bookId=games&type=game-cover`,
-                                                                formData,
-                                                                { headers: { 'Content-Type': 'multipart/form-data' } }
-                                                            );
-                                                            setNewGame({ ...newGame, coverImage: response.data.url });
+                                                            const { url } = await uploadsApi.upload('image', file, { bookId: 'games', type: 'game-cover' });
+                                                            setNewGame({ ...newGame, coverImage: url });
                                                         } catch (error) {
                                                             console.error('Failed to upload cover image:', error);
                                                             alert('Failed to upload cover image');
@@ -1,21 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { ChevronLeft, ChevronRight, Calendar, Video, Clock, X, Trash2, Plus } from 'lucide-react';
-import apiClient from '../services/apiClient';
-
-interface Lesson {
-    _id: string;
-    title: string;
-    description?: string;
-    status: 'draft' | 'scheduled' | 'published' | 'archived';
-    video?: {
-        url?: string;
-        thumbnail?: string;
-        duration?: number;
-    };
-    type?: string;
-    scheduledDate?: string;
-    coinReward?: number;
-}
+import { lessonsApi } from '../services/api';
+import { type Lesson } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
 
 interface CalendarDay {
     date: Date;
@@ -25,6 +13,8 @@ interface CalendarDay {
 }
 
 const LessonCalendarPage: React.FC = () => {
+    const { canEdit } = useAuth();
+    const readOnly = !canEdit('content');
     const [currentDate, setCurrentDate] = useState(new Date());
     const [calendarDays, setCalendarDays] = useState<CalendarDay[]>([]);
     const [scheduledLessons, setScheduledLessons] = useState<{ [key: string]: Lesson[] }>({}); // Array of lessons per date
@@ -106,29 +96,23 @@ const LessonCalendarPage: React.FC = () => {
             const endDate = new Date(year, month + 2, 0).toISOString();
 
             // Fetch scheduled lessons for calendar (status=all to see drafts in portal)
-            const calendarResponse = await apiClient.get(`/api/lessons/calendar?startDate=${startDate}&endDate=${endDate}&status=all`);
+            const calendarLessons = await lessonsApi.calendar({ startDate, endDate, status: 'all' });
             
             // Convert to lookup by date - support multiple lessons per day
             const scheduled: { [key: string]: Lesson[] } = {};
-            if (calendarResponse.data.lessons) {
-                calendarResponse.data.lessons.forEach((lesson: Lesson) => {
-                    if (lesson.scheduledDate) {
-                        const dateKey = lesson.scheduledDate.split('T')[0];
-                        if (!scheduled[dateKey]) {
-                            scheduled[dateKey] = [];
-                        }
-                        scheduled[dateKey].push(lesson);
+            calendarLessons.forEach((lesson: Lesson) => {
+                if (lesson.scheduledDate) {
+                    const dateKey = lesson.scheduledDate.split('T')[0];
+                    if (!scheduled[dateKey]) {
+                        scheduled[dateKey] = [];
                     }
-                });
-            }
+                    scheduled[dateKey].push(lesson);
+                }
+            });
             setScheduledLessons(scheduled);
 
             // Fetch all lessons to find unscheduled ones (status=all to see drafts in portal)
-            const allResponse = await apiClient.get('/api/lessons?status=all');
-            // Handle paginated response or direct array
-            const allLessons = Array.isArray(allResponse.data) 
-                ? allResponse.data 
-                : (allResponse.data.data || allResponse.data.lessons || []);
+            const allLessons = await lessonsApi.list({ status: 'all' });
             const unscheduled = allLessons.filter((lesson: Lesson) => 
                 !lesson.scheduledDate && lesson.status !== 'archived'
             );
@@ -143,12 +127,10 @@ const LessonCalendarPage: React.FC = () => {
 
     // Schedule a lesson to a specific date
     const scheduleLesson = async (lessonId: string, date: Date | null) => {
+        if (readOnly) return;
         try {
             setSaving(true);
-            await apiClient.put('/api/lessons/schedule', {
-                lessonId,
-                date: date ? date.toISOString() : null
-            });
+            await lessonsApi.schedule(lessonId, date);
             await fetchLessons();
             setSelectedDay(null);
         } catch (error) {
@@ -161,6 +143,7 @@ const LessonCalendarPage: React.FC = () => {
 
     // Remove lesson from a date
     const unscheduleLesson = async (lessonId: string) => {
+        if (readOnly) return;
         await scheduleLesson(lessonId, null);
     };
 
@@ -231,8 +214,9 @@ const LessonCalendarPage: React.FC = () => {
                             {unscheduledLessons.map((lesson) => (
                                 <div
                                     key={lesson._id}
-                                    className="bg-gray-50 rounded-lg p-3 border border-gray-200 hover:border-indigo-300 hover:bg-indigo-50 transition-colors cursor-pointer"
+                                    className={`bg-gray-50 rounded-lg p-3 border border-gray-200 transition-colors ${readOnly ? '' : 'hover:border-indigo-300 hover:bg-indigo-50 cursor-pointer'}`}
                                     onClick={() => {
+                                        if (readOnly) return;
                                         if (selectedDay) {
                                             scheduleLesson(lesson._id, selectedDay.date);
                                         } else {
@@ -314,6 +298,12 @@ const LessonCalendarPage: React.FC = () => {
                     </div>
                 </div>
 
+                {readOnly && (
+                    <div className="px-4 pt-4">
+                        <ReadOnlyBanner subject="lesson calendar" />
+                    </div>
+                )}
+
                 {/* Day Headers */}
                 <div className="grid grid-cols-7 bg-white border-b border-gray-200">
                     {dayNames.map((day) => (
@@ -362,22 +352,24 @@ const LessonCalendarPage: React.FC = () => {
                                                 />
                                             )}
                                             <p className="font-medium text-indigo-800 truncate text-[10px]">{lesson.title}</p>
-                                            <button
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    if (confirm(`Unschedule "${lesson.title}" from this day?`)) {
-                                                        unscheduleLesson(lesson._id);
-                                                    }
-                                                }}
-                                                className="absolute top-0.5 right-0.5 p-0.5 bg-red-500 text-white rounded opacity-0 group-hover:opacity-100 transition-opacity"
-                                            >
-                                                <X className="w-2.5 h-2.5" />
-                                            </button>
+                                            {!readOnly && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        if (confirm(`Unschedule "${lesson.title}" from this day?`)) {
+                                                            unscheduleLesson(lesson._id);
+                                                        }
+                                                    }}
+                                                    className="absolute top-0.5 right-0.5 p-0.5 bg-red-500 text-white rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                                                >
+                                                    <X className="w-2.5 h-2.5" />
+                                                </button>
+                                            )}
                                         </div>
                                     ))}
                                 </div>
 
-                                {day.lessons.length === 0 && isSelected && (
+                                {day.lessons.length === 0 && isSelected && !readOnly && (
                                     <div className="text-xs text-indigo-600 mt-2">
                                         Click a video from the library
                                     </div>
@@ -427,18 +419,20 @@ const LessonCalendarPage: React.FC = () => {
                                         {lesson.description && (
                                             <p className="text-sm text-gray-600 mt-1">{lesson.description}</p>
                                         )}
-                                        <button
-                                            onClick={() => {
-                                                if (confirm(`Unschedule "${lesson.title}" from this day?`)) {
-                                                    unscheduleLesson(lesson._id);
-                                                }
-                                            }}
-                                            disabled={saving}
-                                            className="mt-3 bg-red-100 text-red-700 px-3 py-1.5 rounded-lg hover:bg-red-200 transition-colors flex items-center gap-2 text-sm"
-                                        >
-                                            <Trash2 className="w-3.5 h-3.5" />
-                                            Unschedule
-                                        </button>
+                                        {!readOnly && (
+                                            <button
+                                                onClick={() => {
+                                                    if (confirm(`Unschedule "${lesson.title}" from this day?`)) {
+                                                        unscheduleLesson(lesson._id);
+                                                    }
+                                                }}
+                                                disabled={saving}
+                                                className="mt-3 bg-red-100 text-red-700 px-3 py-1.5 rounded-lg hover:bg-red-200 transition-colors flex items-center gap-2 text-sm"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                                Unschedule
+                                            </button>
+                                        )}
                                     </div>
                                 ))}
                             </div>
@@ -519,7 +513,7 @@ const LessonCalendarPage: React.FC = () => {
                                     </div>
                                 )}
                             </div>
-                        ) : (
+                        ) : !readOnly && (
                             /* Add New Video Button */
                             <button
                                 onClick={() => setShowAddVideoSection(true)}
@@ -1,53 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Upload, Plus, Trash2, Save, Image as ImageIcon, BookOpen, Activity, Calendar, Sparkles, ChevronUp, ChevronDown, Film } from 'lucide-react';
-import apiClient from '../services/apiClient';
-
-interface Episode {
-    episodeNumber: number;
-    title?: string;
-    url: string;
-    thumbnail?: string;
-    duration?: number;
-}
-
-interface Devotional {
-    title?: string;
-    content?: string;
-    verse?: string;
-    verseText?: string;
-}
-
-interface QuizQuestion {
-    question: string;
-    options: Array<{ text: string; isCorrect: boolean }>;
-}
-
-interface Activity {
-    type: 'quiz' | 'reflection';
-    title?: string;
-    content?: string; // Legacy: single question
-    options?: Array<{ text: string; isCorrect: boolean }>; // Legacy: options for single question
-    questions?: QuizQuestion[]; // New: array of questions
-    reflectionPrompt?: string;
-}
-
-type LessonType = 
-    | 'Bible Study' 
-    | 'Science' 
-    | 'Math' 
-    | 'History' 
-    | 'English' 
-    | 'Reading'
-    | 'Arts & Crafts' 
-    | 'Music'
-    | 'Physical Education'
-    | 'Life Skills'
-    | 'Technology'
-    | 'Social Studies'
-    | 'Nature';
-
-type AgeGroup = '4-6' | '6-8' | '8-10' | '10-12' | 'all';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Upload, Plus, Trash2, Save, Image as ImageIcon, BookOpen, Activity, Calendar, Sparkles, ChevronUp, ChevronDown, Film, History, ClipboardCheck } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { lessonsApi, ttsApi, uploadsApi } from '../services/api';
+import {
+    type Activity as LessonActivity,
+    type AgeGroup,
+    type Devotional,
+    type Episode,
+    type LessonStatus,
+    type LessonType,
+    STATUS_LABELS,
+    WORKFLOW_ONLY_STATUSES,
+} from '../types';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
+import ReviewPanel from '../components/ReviewPanel';
+import RevisionHistory from '../components/RevisionHistory';
+import { useAuth } from '../contexts/AuthContext';
 
 interface LessonFormData {
     title: string;
@@ -61,9 +30,9 @@ interface LessonFormData {
     };
     episodes: Episode[];
     devotional: Devotional;
-    activity: Activity;
+    activity: LessonActivity;
     scheduledDate?: string;
-    status: 'draft' | 'scheduled' | 'published' | 'archived';
+    status: LessonStatus;
     coinReward: number;
     order: number;
 }
@@ -71,6 +40,13 @@ interface LessonFormData {
 const LessonForm: React.FC = () => {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
+    const { canEdit, canReview } = useAuth();
+    const readOnly = !canEdit('content');
+    const canPublish = canReview('publish');
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [searchParams] = useSearchParams();
+    // The review queue links here with ?review=1
+    const [showReview, setShowReview] = useState(searchParams.get('review') === '1');
     const [loading, setLoading] = useState(false);
     const [fetching, setFetching] = useState(!!id);
     const [uploadingThumbnail, setUploadingThumbnail] = useState(false);
@@ -119,14 +95,14 @@ const LessonForm: React.FC = () => {
 
     const fetchLesson = async () => {
         try {
-            const response = await apiClient.get(`/api/lessons/${id}`);
-            const lesson = response.data;
+            if (!id) return;
+            const lesson = await lessonsApi.get(id);
             setFormData({
                 title: lesson.title || '',
                 description: lesson.description || '',
                 type: lesson.type || 'Bible Study',
                 ageGroup: lesson.ageGroup || 'all',
-                video: lesson.video || { url: '', thumbnail: '', duration: 0 },
+                video: lesson.video ? { url: '', ...lesson.video } : { url: '', thumbnail: '', duration: 0 },
                 episodes: lesson.episodes || [],
                 devotional: lesson.devotional || { title: '', content: '', verse: '', verseText: '' },
                 activity: lesson.activity || { type: 'quiz', questions: [] },
@@ -148,7 +124,7 @@ const LessonForm: React.FC = () => {
             }
         } catch (error) {
             console.error('Error fetching lesson:', error);
-            alert('Failed to load lesson');
+            alert(getApiErrorMessage(error, 'Failed to load lesson'));
         } finally {
             setFetching(false);
         }
@@ -162,24 +138,15 @@ const LessonForm: React.FC = () => {
 
         setUploadingThumbnail(true);
         setThumbnailFile(file);
-        const formDataUpload = new FormData();
-        formDataUpload.append('file', file);
-
         try {
             const lessonId = id || 'temp';
-            const response = await apiClient.post(
-                `/api/upload/image?bookId=lessons&type=thumbnail&lessonId=${lessonId}`,
-                formDataUpload,
-                {
-                    headers: { 'Content-Type': 'multipart/form-data' },
-                }
-            );
+            const { url } = await uploadsApi.upload('image', file, { bookId: 'lessons', type: 'thumbnail', lessonId });
 
             setFormData(prev => ({
                 ...prev,
-                video: { ...prev.video, thumbnail: response.data.url },
+                video: { ...prev.video, thumbnail: url },
             }));
-            setThumbnailPreview(response.data.url);
+            setThumbnailPreview(url);
         } catch (error) {
             console.error('Error uploading thumbnail:', error);
             alert('Failed to upload thumbnail');
@@ -196,23 +163,19 @@ const LessonForm: React.FC = () => {
         }
 
         setUploadingEpisode(episodeIndex);
-        const formDataUpload = new FormData();
-        formDataUpload.append('file', file);
-
         try {
             const lessonId = id || 'temp';
-            const response = await apiClient.post(
-                `/api/upload/video?bookId=lessons&type=episodes&lessonId=${lessonId}&episodeNumber=${episodeIndex + 1}`,
-                formDataUpload,
-                {
-                    headers: { 'Content-Type': 'multipart/form-data' },
-                }
-            );
+            const { url } = await uploadsApi.upload('video', file, {
+                bookId: 'lessons',
+                type: 'episodes',
+                lessonId,
+                episodeNumber: episodeIndex + 1,
+            });
 
             // Get video duration
             let duration = 0;
             const video = document.createElement('video');
-            video.src = response.data.url;
+            video.src = url;
             await new Promise<void>((resolve) => {
                 video.onloadedmetadata = () => {
                     duration = Math.floor(video.duration);
@@ -225,7 +188,7 @@ const LessonForm: React.FC = () => {
                 const newEpisodes = [...prev.episodes];
                 newEpisodes[episodeIndex] = {
                     ...newEpisodes[episodeIndex],
-                    url: response.data.url,
+                    url,
                     duration,
                 };
                 return { ...prev, episodes: newEpisodes };
@@ -305,10 +268,9 @@ const LessonForm: React.FC = () => {
 
             console.log('Sending request to generate activity:', payload);
 
-            const response = await apiClient.post('/api/lessons/generate-activity', payload);
+            const generated = await lessonsApi.generateActivity(payload);
 
-            console.log('Activity generation response:', response.data);
-            const generated = response.data;
+            console.log('Activity generation response:', generated);
 
             if (formData.activity.type === 'quiz') {
                 setFormData(prev => ({
@@ -352,14 +314,12 @@ const LessonForm: React.FC = () => {
 
         setEnhancingDevotional(true);
         try {
-            const response = await apiClient.post('/api/tts/enhance', { 
-                text: formData.devotional.content 
-            });
+            const { enhancedText } = await ttsApi.enhance(formData.devotional.content || '');
             
-            if (response.data.enhancedText) {
+            if (enhancedText) {
                 setFormData(prev => ({
                     ...prev,
-                    devotional: { ...prev.devotional, content: response.data.enhancedText }
+                    devotional: { ...prev.devotional, content: enhancedText }
                 }));
                 alert('Devotional text enhanced with emotion prompts!');
             }
@@ -373,6 +333,7 @@ const LessonForm: React.FC = () => {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (readOnly) return;
 
         if (!formData.title) {
             alert('Title is required');
@@ -436,10 +397,10 @@ const LessonForm: React.FC = () => {
             let lessonId = id;
 
             if (id) {
-                await apiClient.put(`/api/lessons/${id}`, payload);
+                await lessonsApi.update(id, payload);
             } else {
-                const response = await apiClient.post('/api/lessons', payload);
-                lessonId = response.data._id;
+                const created = await lessonsApi.create(payload);
+                lessonId = created._id;
 
                 // Ensure lessonId is defined before using it
                 if (!lessonId) {
@@ -448,15 +409,9 @@ const LessonForm: React.FC = () => {
 
                 // If we uploaded thumbnail with temp ID, re-upload with real lesson ID
                 if (thumbnailFile && formData.video.thumbnail && typeof formData.video.thumbnail === 'string' && !formData.video.thumbnail.includes(lessonId)) {
-                    const formDataUpload = new FormData();
-                    formDataUpload.append('file', thumbnailFile);
-                    const uploadResponse = await apiClient.post(
-                        `/api/upload/image?bookId=lessons&type=thumbnail&lessonId=${lessonId}`,
-                        formDataUpload,
-                        { headers: { 'Content-Type': 'multipart/form-data' } }
-                    );
-                    await apiClient.put(`/api/lessons/${lessonId}`, {
-                        video: { ...formData.video, thumbnail: uploadResponse.data.url },
+                    const uploaded = await uploadsApi.upload('image', thumbnailFile, { bookId: 'lessons', type: 'thumbnail', lessonId });
+                    await lessonsApi.update(lessonId, {
+                        video: { ...formData.video, thumbnail: uploaded.url },
                     });
                 }
             }
@@ -486,7 +441,26 @@ const LessonForm: React.FC = () => {
                 <h1 className="text-3xl font-bold text-gray-800">
                     {id ? 'Edit Lesson' : 'Create New Lesson'}
                 </h1>
+                {id && (
+                    <div className="ml-auto flex gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setShowReview(true)}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            <ClipboardCheck className="w-4 h-4" /> Review
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setShowRevisions(true)}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            <History className="w-4 h-4" /> History
+                        </button>
+                    </div>
+                )}
             </div>
+            {readOnly && <ReadOnlyBanner subject="lesson" />}
 
             <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 space-y-8">
                 {/* Basic Information */}
@@ -1116,8 +1090,12 @@ const LessonForm: React.FC = () => {
                                 className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                             >
                                 <option value="draft">Draft</option>
-                                <option value="scheduled">Scheduled</option>
-                                <option value="published">Published</option>
+                                {/* Review steps are set from the Review panel; scheduling publishes too, so both need an approver */}
+                                {WORKFLOW_ONLY_STATUSES.includes(formData.status) && (
+                                    <option value={formData.status} disabled>{STATUS_LABELS[formData.status]}</option>
+                                )}
+                                <option value="scheduled" disabled={formData.status !== 'scheduled' && !canPublish}>Scheduled</option>
+                                <option value="published" disabled={formData.status !== 'published' && !canPublish}>Published</option>
                                 <option value="archived">Archived</option>
                             </select>
                         </div>
@@ -1151,7 +1129,7 @@ const LessonForm: React.FC = () => {
                 <div className="flex gap-4 pt-6 border-t">
                     <button
                         type="submit"
-                        disabled={loading}
+                        disabled={loading || readOnly}
                         className="bg-indigo-600 text-white px-6 py-3 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors disabled:opacity-50"
                     >
                         <Save className="w-5 h-5" />
@@ -1166,6 +1144,39 @@ const LessonForm: React.FC = () => {
                     </button>
                 </div>
             </form>
+
+            {showRevisions && id && (
+                <RevisionHistory
+                    type="lesson"
+                    documentId={id}
+                    title={formData.title || 'Lesson'}
+                    readOnly={readOnly}
+                    onRolledBack={fetchLesson}
+                    onClose={() => setShowRevisions(false)}
+                />
+            )}
+
+            {showReview && id && (
+                <ReviewPanel
+                    type="lesson"
+                    documentId={id}
+                    title={formData.title || 'Lesson'}
+                    status={formData.status}
+                    anchors={[
+                        { label: 'Title', anchor: { field: 'title' } },
+                        { label: 'Description', anchor: { field: 'description' } },
+                        { label: 'Video', anchor: { field: 'video' } },
+                        ...formData.episodes.map((episode) => ({
+                            label: `Episode ${episode.episodeNumber}${episode.title ? `: ${episode.title}` : ''}`,
+                            anchor: { field: `episodes.${episode.episodeNumber}` },
+                        })),
+                        { label: 'Devotional', anchor: { field: 'devotional' } },
+                        { label: 'Activity', anchor: { field: 'activity' } },
+                    ]}
+                    onStatusChange={(status) => setFormData(prev => ({ ...prev, status }))}
+                    onClose={() => setShowReview(false)}
+                />
+            )}
         </div>
     );
 };
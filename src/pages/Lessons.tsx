@@ -1,29 +1,24 @@
 import React, { useEffect, useState } from 'react';
-import { Plus, Trash2, Edit, Calendar, Video } from 'lucide-react';
+import { Plus, Trash2, Edit, Calendar, Video, Eye, EyeOff, Archive, Send } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import apiClient from '../services/apiClient';
-
-interface Lesson {
-    _id: string;
-    title: string;
-    description?: string;
-    status: 'draft' | 'scheduled' | 'published' | 'archived';
-    video?: {
-        url?: string;
-        thumbnail?: string;
-        duration?: number;
-    };
-    type?: string;
-    scheduledDate?: string;
-    coinReward?: number;
-    order?: number;
-}
+import { TRASH_RETENTION_DAYS, lessonsApi, reviewsApi } from '../services/api';
+import { type Lesson, LessonTypeSchema } from '../types';
+import BulkActionBar from '../components/BulkActionBar';
+import BulkProgressDialog from '../components/BulkProgressDialog';
+import StatusBadge from '../components/StatusBadge';
+import { useAuth } from '../contexts/AuthContext';
+import { useBulkAction } from '../hooks/useBulkAction';
+import { useSelection } from '../hooks/useSelection';
 
 const Lessons: React.FC = () => {
     const [lessons, setLessons] = useState<Lesson[]>([]);
     const [loading, setLoading] = useState(true);
     const [deletingLessonId, setDeletingLessonId] = useState<string | null>(null);
+    const { canEdit, canReview } = useAuth();
+    const readOnly = !canEdit('content');
     const [statusFilter, setStatusFilter] = useState<string>('all');
+    const selection = useSelection<Lesson>();
+    const bulk = useBulkAction();
 
     useEffect(() => {
         fetchLessons();
@@ -31,14 +26,7 @@ const Lessons: React.FC = () => {
 
     const fetchLessons = async () => {
         try {
-            const url = statusFilter === 'all'
-                ? '/api/lessons?status=all'
-                : `/api/lessons?status=${statusFilter}`;
-            const response = await apiClient.get(url);
-            // Handle paginated response or direct array
-            const lessonsData = Array.isArray(response.data) 
-                ? response.data 
-                : (response.data.data || response.data.lessons || []);
+            const lessonsData = await lessonsApi.list({ status: statusFilter });
             setLessons(lessonsData);
         } catch (error) {
             console.error('Error fetching lessons:', error);
@@ -48,14 +36,15 @@ const Lessons: React.FC = () => {
     };
 
     const handleDeleteLesson = async (lessonId: string, lessonTitle: string) => {
-        if (!window.confirm(`Are you sure you want to delete "${lessonTitle}"? This action cannot be undone.`)) {
+        if (!window.confirm(`Move "${lessonTitle}" to the Trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`)) {
             return;
         }
 
         setDeletingLessonId(lessonId);
         try {
-            await apiClient.delete(`/api/lessons/${lessonId}`);
+            await lessonsApi.remove(lessonId);
             setLessons(lessons.filter(lesson => lesson._id !== lessonId));
+            selection.deselect([lessonId]);
         } catch (error) {
             console.error('Error deleting lesson:', error);
             alert('Failed to delete lesson. Please try again.');
@@ -64,19 +53,26 @@ const Lessons: React.FC = () => {
         }
     };
 
-    const getStatusColor = (status: string) => {
-        switch (status) {
-            case 'published':
-                return 'bg-green-100 text-green-800';
-            case 'scheduled':
-                return 'bg-blue-100 text-blue-800';
-            case 'draft':
-                return 'bg-gray-100 text-gray-800';
-            case 'archived':
-                return 'bg-red-100 text-red-800';
-            default:
-                return 'bg-gray-100 text-gray-800';
-        }
+    const bulkUpdate = (title: string, patch: Partial<Lesson>) => {
+        bulk.start(title, selection.items, async (lesson) => {
+            const updated = await lessonsApi.update(lesson._id, patch);
+            setLessons(prev => prev.map(l => l._id === updated._id ? updated : l));
+        }, selection.deselect);
+    };
+
+    const handleBulkSubmit = () => {
+        bulk.start('Submitting lessons for review', selection.items, async (lesson) => {
+            const status = await reviewsApi.transition('lesson', lesson._id, 'submit');
+            setLessons(prev => prev.map(l => l._id === lesson._id ? { ...l, status } : l));
+        }, selection.deselect);
+    };
+
+    const handleBulkDelete = () => {
+        if (!window.confirm(`Move ${selection.count} lesson(s) to the Trash? They can be restored for ${TRASH_RETENTION_DAYS} days.`)) return;
+        bulk.start('Moving lessons to the Trash', selection.items, async (lesson) => {
+            await lessonsApi.remove(lesson._id);
+            setLessons(prev => prev.filter(l => l._id !== lesson._id));
+        }, selection.deselect);
     };
 
     const formatDate = (dateString?: string) => {
@@ -111,7 +107,7 @@ const Lessons: React.FC = () => {
             </div>
 
             {/* Status Filter */}
-            <div className="mb-6 flex gap-2">
+            <div className="mb-6 flex items-center gap-2">
                 <button
                     onClick={() => setStatusFilter('all')}
                     className={`px-4 py-2 rounded-lg transition-colors ${statusFilter === 'all'
@@ -130,6 +126,24 @@ const Lessons: React.FC = () => {
                 >
                     Draft
                 </button>
+                <button
+                    onClick={() => setStatusFilter('in_review')}
+                    className={`px-4 py-2 rounded-lg transition-colors ${statusFilter === 'in_review'
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                >
+                    In review
+                </button>
+                <button
+                    onClick={() => setStatusFilter('approved')}
+                    className={`px-4 py-2 rounded-lg transition-colors ${statusFilter === 'approved'
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                >
+                    Approved
+                </button>
                 <button
                     onClick={() => setStatusFilter('scheduled')}
                     className={`px-4 py-2 rounded-lg transition-colors ${statusFilter === 'scheduled'
@@ -148,8 +162,45 @@ const Lessons: React.FC = () => {
                 >
                     Published
                 </button>
+                {!readOnly && lessons.length > 0 && (
+                    <label className="ml-auto flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={selection.allSelected(lessons)}
+                            onChange={() => selection.toggleAll(lessons)}
+                            className="rounded"
+                        />
+                        Select all
+                    </label>
+                )}
             </div>
 
+            {selection.count > 0 && !readOnly && (
+                <BulkActionBar
+                    count={selection.count}
+                    noun={selection.count === 1 ? 'lesson' : 'lessons'}
+                    disabled={bulk.run?.running}
+                    onClear={selection.clear}
+                    actions={[
+                        // Only approvers publish; everyone else sends lessons through review
+                        canReview('publish')
+                            ? { label: 'Publish', icon: Eye, onClick: () => bulkUpdate('Publishing lessons', { status: 'published' }) }
+                            : { label: 'Submit for review', icon: Send, onClick: handleBulkSubmit },
+                        { label: 'Unpublish', icon: EyeOff, onClick: () => bulkUpdate('Unpublishing lessons', { status: 'draft' }) },
+                        { label: 'Archive', icon: Archive, onClick: () => bulkUpdate('Archiving lessons', { status: 'archived' }) },
+                        { label: 'Delete', icon: Trash2, onClick: handleBulkDelete, danger: true },
+                    ]}
+                    choices={[
+                        {
+                            // Lessons are grouped by subject rather than by category
+                            label: 'Set subject',
+                            options: LessonTypeSchema.options.map((type) => ({ value: type, label: type })),
+                            onChoose: (type) => bulkUpdate(`Setting subject to ${type}`, { type: LessonTypeSchema.parse(type) }),
+                        },
+                    ]}
+                />
+            )}
+
             {loading ? (
                 <p>Loading lessons...</p>
             ) : lessons.length === 0 ? (
@@ -159,7 +210,16 @@ const Lessons: React.FC = () => {
             ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                     {lessons.map((lesson) => (
-                        <div key={lesson._id} className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 flex flex-col justify-between h-full">
+                        <div key={lesson._id} className={`relative bg-white p-6 rounded-lg shadow-sm border flex flex-col justify-between h-full ${selection.isSelected(lesson._id) ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200'}`}>
+                            {!readOnly && (
+                                <input
+                                    type="checkbox"
+                                    checked={selection.isSelected(lesson._id)}
+                                    onChange={() => selection.toggle(lesson)}
+                                    className="absolute top-8 left-8 z-10 w-5 h-5 rounded cursor-pointer"
+                                    title="Select"
+                                />
+                            )}
                             <div>
                                 {lesson.video?.thumbnail ? (
                                     <div className="mb-4 rounded-lg overflow-hidden">
@@ -182,9 +242,7 @@ const Lessons: React.FC = () => {
                                 )}
 
                                 <div className="flex flex-wrap items-center gap-2 mb-2">
-                                    <span className={`px-2 py-1 rounded text-xs font-semibold ${getStatusColor(lesson.status)}`}>
-                                        {lesson.status}
-                                    </span>
+                                    <StatusBadge status={lesson.status} />
                                     <span className="px-2 py-1 rounded text-xs font-semibold bg-indigo-100 text-indigo-800">
                                         {lesson.type || 'Bible'}
                                     </span>
@@ -214,7 +272,7 @@ const Lessons: React.FC = () => {
                                 </Link>
                                 <button
                                     onClick={() => handleDeleteLesson(lesson._id, lesson.title)}
-                                    disabled={deletingLessonId === lesson._id}
+                                    disabled={deletingLessonId === lesson._id || readOnly}
                                     className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
                                 >
                                     {deletingLessonId === lesson._id ? (
@@ -228,6 +286,8 @@ const Lessons: React.FC = () => {
                     ))}
                 </div >
             )}
+
+            {bulk.run && <BulkProgressDialog run={bulk.run} onRetry={bulk.retryFailed} onClose={bulk.dismiss} />}
         </div >
     );
 };
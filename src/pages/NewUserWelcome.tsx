@@ -13,28 +13,16 @@ import {
   Settings,
   Search
 } from 'lucide-react';
-import apiClient from '../services/apiClient';
-
-interface ContentItem {
-  _id: string;
-  title: string;
-  subtitle?: string;
-  imageUrl?: string;
-  type: 'book' | 'playlist' | 'lesson';
-  order?: number;
-}
-
-interface WelcomeConfig {
-  section: string;
-  title: string;
-  subtitle: string;
-  maxItems: number;
-  skipButtonText: string;
-  showSkipButton: boolean;
-}
+import { featuredApi } from '../services/api';
+import { type FeaturedContentItem, type WelcomeConfig } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
+
+// The settings tab edits every field, so none are left unset
+type WelcomeSettings = Required<Omit<WelcomeConfig, 'items'>>;
 
 const NewUserWelcome: React.FC = () => {
-  const [config, setConfig] = useState<WelcomeConfig>({
+  const [config, setConfig] = useState<WelcomeSettings>({
     section: 'new-user-welcome',
     title: 'Choose a Bedtime Story',
     subtitle: 'Pick something to start your adventure.',
@@ -42,13 +30,15 @@ const NewUserWelcome: React.FC = () => {
     skipButtonText: 'Skip for now',
     showSkipButton: true,
   });
-  const [selectedItems, setSelectedItems] = useState<ContentItem[]>([]);
-  const [availableContent, setAvailableContent] = useState<ContentItem[]>([]);
+  const [selectedItems, setSelectedItems] = useState<FeaturedContentItem[]>([]);
+  const [availableContent, setAvailableContent] = useState<FeaturedContentItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [activeTab, setActiveTab] = useState<'settings' | 'content' | 'preview'>('settings');
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<'all' | 'book' | 'playlist' | 'lesson'>('all');
+  const { canEdit } = useAuth();
+  const readOnly = !canEdit('content');
 
   useEffect(() => {
     fetchData();
@@ -57,13 +47,12 @@ const NewUserWelcome: React.FC = () => {
   const fetchData = async () => {
     setLoading(true);
     try {
-      const [configRes, contentRes] = await Promise.all([
-        apiClient.get('/api/featured/config/new-user-welcome'),
-        apiClient.get('/api/featured/available-content'),
+      const [cfg, content] = await Promise.all([
+        featuredApi.getWelcomeConfig(),
+        featuredApi.availableContent(),
       ]);
 
-      if (configRes.data.success && configRes.data.config) {
-        const cfg = configRes.data.config;
+      if (cfg) {
         setConfig({
           section: cfg.section || 'new-user-welcome',
           title: cfg.title || 'Welcome to Godly Kids!',
@@ -72,12 +61,9 @@ const NewUserWelcome: React.FC = () => {
           skipButtonText: cfg.skipButtonText || 'Skip for now',
           showSkipButton: cfg.showSkipButton !== false,
         });
-        setSelectedItems(cfg.items || []);
-      }
-
-      if (contentRes.data.success) {
-        setAvailableContent(contentRes.data.content || []);
+        setSelectedItems(cfg.items);
       }
+      setAvailableContent(content);
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -86,9 +72,10 @@ const NewUserWelcome: React.FC = () => {
   };
 
   const handleSave = async () => {
+    if (readOnly) return;
     setSaving(true);
     try {
-      await apiClient.put('/api/featured/config/new-user-welcome', {
+      await featuredApi.saveWelcomeConfig({
         ...config,
         items: selectedItems,
       });
@@ -101,7 +88,7 @@ const NewUserWelcome: React.FC = () => {
     }
   };
 
-  const addItem = (item: ContentItem) => {
+  const addItem = (item: FeaturedContentItem) => {
     if (selectedItems.some(i => i._id === item._id)) {
       return; // Already added
     }
@@ -173,7 +160,7 @@ const NewUserWelcome: React.FC = () => {
         </div>
         <button
           onClick={handleSave}
-          disabled={saving}
+          disabled={saving || readOnly}
           className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors disabled:opacity-50"
         >
           {saving ? (
@@ -189,6 +176,7 @@ const NewUserWelcome: React.FC = () => {
           )}
         </button>
       </div>
+      {readOnly && <ReadOnlyBanner subject="welcome screen" />}
 
       {/* Tabs */}
       <div className="border-b border-gray-200">
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ShieldOff } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { ROLE_LABELS } from '../services/permissions';
+
+const NoAccess: React.FC = () => {
+    const { user, roles } = useAuth();
+
+    return (
+        <div className="max-w-lg mx-auto mt-16 bg-white p-8 rounded-lg shadow-sm border border-gray-200 text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-red-50 rounded-full mb-4">
+                <ShieldOff className="w-8 h-8 text-red-500" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-800 mb-2">No access</h1>
+            <p className="text-gray-600 mb-4">
+                Your account doesn't have permission to open this section of the portal.
+                Ask an admin if you need access.
+            </p>
+            {user && (
+                <p className="text-sm text-gray-500 mb-6">
+                    Signed in as <span className="font-medium">{user.email}</span>
+                    {' · '}
+                    {roles.map(role => ROLE_LABELS[role]).join(', ')}
+                </p>
+            )}
+            <Link
+                to="/"
+                className="inline-block bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
+            >
+                Back to Dashboard
+            </Link>
+        </div>
+    );
+};
+
+export default NoAccess;
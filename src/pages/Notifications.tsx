@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Bell, Send, Clock, Users, Image, Link, AlertCircle, CheckCircle } from 'lucide-react';
-import apiClient from '../services/apiClient';
+import { getApiErrorMessage } from '../services/apiClient';
+import { notificationsApi, type NotificationPayload } from '../services/api';
 
 interface NotificationForm {
     title: string;
@@ -42,8 +43,7 @@ const Notifications: React.FC = () => {
         setResult(null);
 
         try {
-            const endpoint = scheduled ? '/api/notifications/schedule' : '/api/notifications/send';
-            const payload: any = {
+            const payload: NotificationPayload = {
                 title: form.title,
                 message: form.message,
                 segments: [form.segment]
@@ -51,18 +51,20 @@ const Notifications: React.FC = () => {
 
             if (form.url) payload.url = form.url;
             if (form.imageUrl) payload.imageUrl = form.imageUrl;
-            if (scheduled && form.scheduledTime) {
-                payload.sendAt = new Date(form.scheduledTime).toISOString();
-            }
 
-            const response = await apiClient.post(endpoint, payload);
+            const response = scheduled
+                ? await notificationsApi.schedule({
+                    ...payload,
+                    sendAt: form.scheduledTime ? new Date(form.scheduledTime).toISOString() : undefined,
+                })
+                : await notificationsApi.send(payload);
 
-            if (response.data.success) {
+            if (response.success) {
                 setResult({ 
                     success: true, 
                     message: scheduled 
                         ? `Notification scheduled for ${new Date(form.scheduledTime).toLocaleString()}`
-                        : `Notification sent to ${response.data.recipients || 'all'} users!`
+                        : `Notification sent to ${response.recipients || 'all'} users!`
                 });
                 // Reset form
                 setForm({
@@ -76,11 +78,11 @@ const Notifications: React.FC = () => {
             } else {
                 setResult({ success: false, message: 'Failed to send notification' });
             }
-        } catch (error: any) {
+        } catch (error) {
             console.error('Notification error:', error);
             setResult({ 
                 success: false, 
-                message: error.response?.data?.message || 'Failed to send notification' 
+                message: getApiErrorMessage(error, 'Failed to send notification')
             });
         } finally {
             setSending(false);
@@ -3,6 +3,8 @@ import {
     TrendingUp, Users, UserPlus, Crown, XCircle, RefreshCw,
     ChevronRight, Calendar, BarChart3, ArrowDownRight, ArrowUpRight
 } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { analyticsApi, type AnalyticsResult } from '../services/api';
 
 interface FunnelStep {
     step: string;
@@ -34,17 +36,6 @@ interface OnboardingData {
     planPreference: { annual: number; monthly: number };
 }
 
-// API Base URL
-const getApiBase = () => {
-    let base = import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com';
-    base = base.replace(/\/$/, '');
-    if (!base.endsWith('/api')) {
-        base = `${base}/api`;
-    }
-    return base;
-};
-const API_BASE = getApiBase();
-
 const OnboardingAnalytics: React.FC = () => {
     const [data, setData] = useState<OnboardingData | null>(null);
     const [loading, setLoading] = useState(true);
@@ -55,15 +46,14 @@ const OnboardingAnalytics: React.FC = () => {
         setLoading(true);
         setError(null);
         try {
-            const response = await fetch(`${API_BASE}/analytics/onboarding?days=${days}`);
-            const result = await response.json();
+            const result = await analyticsApi.getOnboarding<OnboardingData & AnalyticsResult>(days);
             if (result.success) {
                 setData(result);
             } else {
                 setError(result.message || 'Failed to fetch data');
             }
         } catch (err) {
-            setError('Failed to connect to server');
+            setError(getApiErrorMessage(err, 'Failed to connect to server'));
             console.error(err);
         } finally {
             setLoading(false);
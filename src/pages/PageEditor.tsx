@@ -1,6 +1,49 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams } from 'react-router-dom';
-import { apiClient, getMediaUrl } from '../services/apiClient';
+import { getApiErrorMessage, getMediaUrl } from '../services/apiClient';
+import { booksApi, defaultPageTemplateKey, gamesApi, pageTemplatesApi, pagesApi, TRASH_RETENTION_DAYS, ttsApi, uploadsApi } from '../services/api';
+import { type PageEditorDraft, type PageEditorState, pageDrafts } from '../services/pageDrafts';
+import {
+    type CharacterVoice,
+    type Page,
+    type PageLayout,
+    type PageTemplate,
+    type TextBox,
+    normalizeTextBox,
+    toLayoutTextBox,
+    toPagePayload,
+} from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import UnsavedChangesGuard from '../components/UnsavedChangesGuard';
+import HistoryPanel from '../components/HistoryPanel';
+import RevisionHistory from '../components/RevisionHistory';
+import ReviewPanel from '../components/ReviewPanel';
+import PageCommentLayer from '../components/PageCommentLayer';
+import PageTemplateLibrary from '../components/PageTemplateLibrary';
+import RichText from '../components/RichText';
+import { type HistoryChange, useUndoHistory } from '../hooks/useUndoHistory';
+import { usePageComments } from '../hooks/usePageComments';
+import { useNarrationPreview } from '../hooks/useNarrationPreview';
+import { useRegisteredFonts } from '../hooks/useRegisteredFonts';
+import { type TextBoxIssue, useTextBoxChecks } from '../hooks/useTextBoxChecks';
+import { countIssues, validateBook } from '../utils/bookValidation';
+import {
+    type AlignEdge,
+    type BoxPositions,
+    type BoxRect,
+    type DistributeAxis,
+    type SnapGuides,
+    alignBoxes,
+    boundsOf,
+    buildSnapGuides,
+    distributeBoxes,
+    moveBoxes,
+    snapDelta,
+} from '../utils/textBoxLayout';
+import { type LocalizedBook, bookLanguage, bookLocales, editionVoices, languageLabel, localizedText, readerText, withLocalizedText } from '../utils/editions';
+import { fontChoices, fontProblem } from '../utils/fonts';
+import { type NarrationVoices, narrationSegments } from '../utils/narration';
+import { type SpanStyle, applySpanStyle, characterSpans, rangeHasStyle, remapSpans } from '../utils/richText';
 import {
     Save,
     Image as ImageIcon,
@@ -25,25 +68,29 @@ import {
     ChevronRight,
     Film,
     Globe,
-    Gamepad2
+    Gamepad2,
+    Undo2,
+    Redo2,
+    History,
+    AlignStartVertical,
+    AlignCenterVertical,
+    AlignEndVertical,
+    AlignStartHorizontal,
+    AlignEndHorizontal,
+    AlignHorizontalDistributeCenter,
+    AlignVerticalDistributeCenter,
+    MessageSquare,
+    MessageSquarePlus,
+    Languages,
+    Play,
+    Square,
+    Bold,
+    Italic,
+    Drama,
+    RemoveFormatting,
+    AlertTriangle
 } from 'lucide-react';
 
-interface TextBox {
-    id: string;
-    text: string;
-    x: number; // percentage (0-100)
-    y: number; // percentage (0-100)
-    width: number; // percentage (0-100)
-    height?: number; // percentage (0-100) - optional, auto if not set
-    alignment: 'left' | 'center' | 'right';
-    fontFamily: string;
-    showBackground?: boolean;
-    backgroundColor?: string;
-    shadowColor?: string;
-    fontSize: number;
-    color: string;
-}
-
 interface VideoSequenceItem {
     id: string; // Temporary ID for UI
     url?: string; // Uploaded URL
@@ -72,8 +119,140 @@ interface Game {
     gameType: 'modal' | 'webview';
 }
 
+// What undo/redo covers: text boxes, scroll geometry, background and sequences.
+// Picked files are kept so an undone swap can be redone without picking the file again.
+interface CanvasSnapshot {
+    textBoxes: TextBox[];
+    backgroundType: 'image' | 'video';
+    backgroundFile: File | null;
+    backgroundPreview: string | null;
+    scrollFile: File | null;
+    scrollPreview: string | null;
+    scrollHeight: number;
+    scrollOffsetY: number;
+    scrollOffsetX: number;
+    scrollWidth: number;
+    videoSequence: VideoSequenceItem[];
+    imageSequence: ImageSequenceItem[];
+}
+
+const describeSequenceChange = (before: { id: string }[], after: { id: string }[], noun: string): HistoryChange => {
+    if (after.length > before.length) return { label: `Add ${noun} to sequence` };
+    if (after.length < before.length) return { label: `Remove ${noun} from sequence` };
+    const reordered = after.some((item, idx) => item.id !== before[idx].id);
+    return { label: reordered ? `Reorder ${noun} sequence` : `Edit ${noun} sequence` };
+};
+
+// Names a canvas change for the history panel. Merge keys fold slider drags and typing into one step.
+const describeCanvasChange = (before: CanvasSnapshot, after: CanvasSnapshot): HistoryChange => {
+    if (before.backgroundPreview !== after.backgroundPreview || before.backgroundType !== after.backgroundType) {
+        return { label: 'Change background' };
+    }
+    if (before.scrollPreview !== after.scrollPreview) {
+        return { label: after.scrollPreview ? 'Change scroll image' : 'Remove scroll image' };
+    }
+    if (before.scrollHeight !== after.scrollHeight || before.scrollWidth !== after.scrollWidth) {
+        return { label: 'Resize scroll', mergeKey: 'scroll-size' };
+    }
+    if (before.scrollOffsetX !== after.scrollOffsetX || before.scrollOffsetY !== after.scrollOffsetY) {
+        return { label: 'Move scroll', mergeKey: 'scroll-position' };
+    }
+    if (before.videoSequence !== after.videoSequence) {
+        return describeSequenceChange(before.videoSequence, after.videoSequence, 'video');
+    }
+    if (before.imageSequence !== after.imageSequence) {
+        return describeSequenceChange(before.imageSequence, after.imageSequence, 'image');
+    }
+
+    if (after.textBoxes.length > before.textBoxes.length) return { label: 'Add text box' };
+    if (after.textBoxes.length < before.textBoxes.length) return { label: 'Delete text box' };
+    const box = after.textBoxes.find((b, idx) => b !== before.textBoxes[idx]);
+    const old = box && before.textBoxes.find((b) => b.id === box.id);
+    if (!box || !old) return { label: 'Edit canvas' };
+    if (box.text !== old.text || box.translations !== old.translations) return { label: 'Edit text', mergeKey: `text:${box.id}` };
+    if (box.x !== old.x || box.y !== old.y) return { label: 'Move text box' };
+    if (box.width !== old.width || box.height !== old.height) return { label: 'Resize text box' };
+    const prop = (Object.keys(box) as (keyof TextBox)[]).find((key) => box[key] !== old[key]);
+    return { label: 'Style text box', mergeKey: `style:${box.id}:${prop}` };
+};
+
+// A group drag: where the pointer started and where each selected box was
+interface DragOrigin {
+    x: number;
+    y: number;
+    positions: BoxPositions;
+    bounds: Omit<BoxRect, 'id'>;
+    guides: SnapGuides | null; // null when snapping is off
+}
+
+// Marquee selection in canvas percent; additive when started with Shift held
+interface Marquee {
+    startX: number;
+    startY: number;
+    x: number;
+    y: number;
+    additive: boolean;
+}
+
+const ALIGN_TOOLS: { edge: AlignEdge; label: string; icon: React.ElementType }[] = [
+    { edge: 'left', label: 'Align left', icon: AlignStartVertical },
+    { edge: 'center', label: 'Align center', icon: AlignCenterVertical },
+    { edge: 'right', label: 'Align right', icon: AlignEndVertical },
+    { edge: 'top', label: 'Align top', icon: AlignStartHorizontal },
+    { edge: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal },
+];
+
+const DISTRIBUTE_TOOLS: { axis: DistributeAxis; label: string; icon: React.ElementType }[] = [
+    { axis: 'horizontal', label: 'Distribute horizontally', icon: AlignHorizontalDistributeCenter },
+    { axis: 'vertical', label: 'Distribute vertically', icon: AlignVerticalDistributeCenter },
+];
+
+// Arrow-key nudge in canvas percent; Shift takes the big step
+const NUDGE_STEP = 0.5;
+const NUDGE_STEP_LARGE = 5;
+
+const templateTextBoxes = (layout: PageLayout): TextBox[] =>
+    layout.textBoxes.map((box, idx) => ({ ...normalizeTextBox(box), id: `template-${Date.now()}-${idx}` }));
+
+// How often unsaved edits are written to the local draft store
+const AUTOSAVE_INTERVAL_MS = 10000;
+
+// Previews hold either an uploaded URL or a blob: URL for a file that isn't uploaded yet
+const uploadedUrl = (preview: string | null) =>
+    preview && preview.startsWith('http') ? preview : undefined;
+
+const pageToEditorState = (page: Page): PageEditorState => ({
+    backgroundType: page.backgroundType,
+    backgroundUrl: page.backgroundUrl ? getMediaUrl(page.backgroundUrl) : undefined,
+    scrollUrl: page.scrollUrl ? getMediaUrl(page.scrollUrl) : undefined,
+    scrollHeight: page.scrollHeight,
+    scrollOffsetY: page.scrollOffsetY,
+    scrollOffsetX: page.scrollOffsetX,
+    scrollWidth: page.scrollWidth,
+    soundEffectUrl: page.soundEffectUrl ? getMediaUrl(page.soundEffectUrl) : undefined,
+    soundEffectFilename: page.soundEffectFilename,
+    // Text boxes get client-side IDs for editing
+    textBoxes: page.textBoxes.map((box, idx) => ({ ...box, id: `${page._id}-${idx}` })),
+    isColoringPage: page.isColoringPage,
+    coloringEndModalOnly: page.coloringEndModalOnly,
+    isWebViewPage: page.isWebViewPage,
+    webViewSource: page.webView?.gameId ? 'game' : 'url',
+    webViewUrl: page.webView?.url || '',
+    webViewGameId: page.webView?.gameId || '',
+    webViewTitle: page.webView?.title || '',
+    webViewShowNavButton: page.webView?.showNavigationButton ?? true,
+    useVideoSequence: page.useVideoSequence,
+    videoSequence: page.videoSequence,
+    useImageSequence: page.useImageSequence,
+    imageSequence: page.imageSequence,
+    imageSequenceDuration: page.imageSequenceDuration,
+    imageSequenceAnimation: page.imageSequenceAnimation || 'kenBurns',
+});
+
 const PageEditor: React.FC = () => {
     const { bookId } = useParams<{ bookId: string }>();
+    const { canEdit, canReview } = useAuth();
+    const readOnly = !canEdit('content');
 
     // Core State
     const [pageNumber, setPageNumber] = useState<number>(1);
@@ -121,18 +300,25 @@ const PageEditor: React.FC = () => {
     const [soundEffectFilename, setSoundEffectFilename] = useState<string | null>(null);
 
     // UI State
-    const [selectedBoxId, setSelectedBoxId] = useState<string | null>(null);
+    const [selectedBoxIds, setSelectedBoxIds] = useState<string[]>([]);
     const [draggingId, setDraggingId] = useState<string | null>(null);
     const [resizingBoxId, setResizingBoxId] = useState<string | null>(null);
-    const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+    const [dragOrigin, setDragOrigin] = useState<DragOrigin | null>(null);
+    const [marquee, setMarquee] = useState<Marquee | null>(null);
+    const [snapEnabled, setSnapEnabled] = useState(true);
+    const [snapLines, setSnapLines] = useState<SnapGuides>({ x: [], y: [] });
     const canvasRef = useRef<HTMLDivElement>(null);
 
-    const [existingPages, setExistingPages] = useState<any[]>([]);
+    // The properties panel edits one box; alignment tools work on the whole selection
+    const selectedBoxId = selectedBoxIds.length === 1 ? selectedBoxIds[0] : null;
+    const selectOnly = (id: string | null) => setSelectedBoxIds(id ? [id] : []);
+
+    const [existingPages, setExistingPages] = useState<Page[]>([]);
     const [loadingPages, setLoadingPages] = useState(true);
     const [editingPageId, setEditingPageId] = useState<string | null>(null);
     
     // Character voices for @ autocomplete
-    const [characterVoices, setCharacterVoices] = useState<Array<{ characterName: string; voiceId: string; color?: string }>>([]);
+    const [characterVoices, setCharacterVoices] = useState<CharacterVoice[]>([]);
     
     // TTS Cache clearing
     const [clearingCache, setClearingCache] = useState(false);
@@ -142,14 +328,24 @@ const PageEditor: React.FC = () => {
     const [cursorPosition, setCursorPosition] = useState(0);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-    // Template for reusing scroll and text boxes
-    const [pageTemplate, setPageTemplate] = useState<{
-        scrollUrl: string;
-        scrollHeight: number;
-        textBoxes: Omit<TextBox, 'id'>[];
-    } | null>(null);
-    const [showTemplateDialog, setShowTemplateDialog] = useState(false);
-    const [applyLayoutToAllPages, setApplyLayoutToAllPages] = useState(false); // Copy layout to all other pages
+    // Layout templates come from the shared library; the default one starts every new page
+    const [showTemplateLibrary, setShowTemplateLibrary] = useState(false);
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [defaultTemplate, setDefaultTemplate] = useState<PageTemplate | null>(null);
+    const [bookTitle, setBookTitle] = useState<string>();
+    const [bookStatus, setBookStatus] = useState('draft');
+    // The book's languages and narration voices. Text boxes are edited in editorLocale; null is the book's own.
+    const [bookSettings, setBookSettings] = useState<LocalizedBook & NarrationVoices>({});
+    const [editorLocale, setEditorLocale] = useState<string | null>(null);
+    const baseLocale = bookLanguage(bookSettings);
+    const locale = editorLocale ?? baseLocale;
+    const translating = locale !== baseLocale;
+    const [showReview, setShowReview] = useState(false);
+    // Pinned review comments on the canvas
+    const pageComments = usePageComments(bookId);
+    const narration = useNarrationPreview();
+    const registeredFonts = useRegisteredFonts();
+    const [placingComment, setPlacingComment] = useState(false);
 
     // Resizable panels
     const [leftPanelWidth, setLeftPanelWidth] = useState(320); // 320px = w-80
@@ -160,15 +356,33 @@ const PageEditor: React.FC = () => {
     const [isResizingRight, setIsResizingRight] = useState(false);
     const [isResizingCanvas, setIsResizingCanvas] = useState(false);
 
+    // Unsaved-changes tracking. The baseline is the editor state right after a page is
+    // loaded, reset or saved; markClean() asks for it to be re-captured on the next render.
+    const [baselineJson, setBaselineJson] = useState<string | null>(null);
+    const [baselineStale, setBaselineStale] = useState(true);
+    const [lastDraftJson, setLastDraftJson] = useState<string | null>(null);
+    const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null);
+    const [pendingDraft, setPendingDraft] = useState<PageEditorDraft | null>(null);
+    const autosaveRef = useRef<() => Promise<void>>(async () => {});
+
     // Fetch book data to get character voices
     useEffect(() => {
         const fetchBookData = async () => {
             if (!bookId) return;
             try {
-                const res = await apiClient.get(`/api/books/${bookId}`);
-                if (res.data.characterVoices && Array.isArray(res.data.characterVoices)) {
-                    console.log('🎭 Loaded character voices:', res.data.characterVoices);
-                    setCharacterVoices(res.data.characterVoices);
+                const book = await booksApi.get(bookId);
+                setBookTitle(book.title);
+                setBookStatus(book.status);
+                setBookSettings({
+                    language: book.language,
+                    editions: book.editions,
+                    defaultNarratorVoiceId: book.defaultNarratorVoiceId,
+                    defaultVoiceId: book.defaultVoiceId,
+                    characterVoices: book.characterVoices,
+                });
+                if (book.characterVoices && Array.isArray(book.characterVoices)) {
+                    console.log('🎭 Loaded character voices:', book.characterVoices);
+                    setCharacterVoices(book.characterVoices);
                 }
             } catch (err) {
                 console.error('Failed to fetch book data for character voices:', err);
@@ -181,9 +395,9 @@ const PageEditor: React.FC = () => {
     useEffect(() => {
         const fetchGames = async () => {
             try {
-                const res = await apiClient.get('/api/games');
+                const games = await gamesApi.list<Game>();
                 // Filter to only webview-type games that have URLs
-                const webviewGames = res.data.filter((g: Game) => g.gameType === 'webview' && g.url);
+                const webviewGames = games.filter((g: Game) => g.gameType === 'webview' && g.url);
                 setAvailableGames(webviewGames);
             } catch (err) {
                 console.error('Failed to fetch games:', err);
@@ -197,40 +411,43 @@ const PageEditor: React.FC = () => {
         const fetchPages = async () => {
             if (!bookId) return;
             try {
-                const res = await apiClient.get(`/api/pages/book/${bookId}`);
-                console.log('📚 Fetched pages for book:', bookId, res.data);
-                console.log('📚 First page textBoxes sample:', res.data[0]?.textBoxes, res.data[0]?.content?.textBoxes);
-                setExistingPages(res.data);
+                const pages = await pagesApi.listByBook(bookId);
+                console.log('📚 Fetched pages for book:', bookId, pages);
+                setExistingPages(pages);
 
                 // Auto-set page number to next available
-                if (res.data.length > 0) {
-                    const maxPageNum = Math.max(...res.data.map((p: any) => p.pageNumber));
+                if (pages.length > 0) {
+                    const maxPageNum = Math.max(...pages.map((p) => p.pageNumber));
                     setPageNumber(maxPageNum + 1);
+                }
 
-                    // Load template from localStorage if it exists for this book
-                    const savedTemplate = localStorage.getItem(`pageTemplate_${bookId}`);
-                    if (savedTemplate) {
-                        const template = JSON.parse(savedTemplate);
-                        setPageTemplate(template);
-
-                        // Apply template to new page
-                        if (template.scrollUrl) {
-                            setScrollPreview(template.scrollUrl);
-                        }
-                        if (template.scrollHeight) {
+                // Start the fresh page from the book's default template, if one is set
+                const defaultTemplateId = localStorage.getItem(defaultPageTemplateKey(bookId));
+                if (defaultTemplateId) {
+                    try {
+                        const template = (await pageTemplatesApi.list()).find((t) => t._id === defaultTemplateId);
+                        if (template) {
+                            setDefaultTemplate(template);
+                            setScrollPreview(template.scrollUrl ? getMediaUrl(template.scrollUrl) : null);
                             setScrollHeight(template.scrollHeight);
+                            setScrollOffsetY(template.scrollOffsetY);
+                            setScrollOffsetX(template.scrollOffsetX);
+                            setScrollWidth(template.scrollWidth);
+                            setTextBoxes(templateTextBoxes(template));
                         }
-                        if (template.textBoxes && template.textBoxes.length > 0) {
-                            const boxesWithIds = template.textBoxes.map((box: any, idx: number) => ({
-                                ...box,
-                                id: `template-${Date.now()}-${idx}`
-                            }));
-                            setTextBoxes(boxesWithIds);
-                        }
+                    } catch (err) {
+                        console.error('Failed to load the default page template:', err);
                     }
                 }
+
+                // The fresh page (template applied) is the clean state; offer any draft left for it
+                setBaselineStale(true);
+                const nextPageNum = pages.length > 0 ? Math.max(...pages.map((p) => p.pageNumber)) + 1 : 1;
+                const draft = await pageDrafts.get(bookId, nextPageNum);
+                if (draft) setPendingDraft(draft);
             } catch (err) {
                 console.error('Failed to fetch existing pages:', err);
+                alert(getApiErrorMessage(err, 'Failed to load pages'));
             } finally {
                 setLoadingPages(false);
             }
@@ -246,6 +463,152 @@ const PageEditor: React.FC = () => {
         };
     }, [backgroundPreview, scrollPreview]);
 
+    // Snapshot of everything a local draft can restore
+    const editorState = useMemo<PageEditorState>(() => ({
+        backgroundType,
+        backgroundUrl: uploadedUrl(backgroundPreview),
+        scrollUrl: uploadedUrl(scrollPreview),
+        scrollHeight,
+        scrollOffsetY,
+        scrollOffsetX,
+        scrollWidth,
+        soundEffectUrl: uploadedUrl(soundEffectPreview),
+        soundEffectFilename: soundEffectFilename || undefined,
+        textBoxes,
+        isColoringPage,
+        coloringEndModalOnly,
+        isWebViewPage,
+        webViewSource,
+        webViewUrl,
+        webViewGameId,
+        webViewTitle,
+        webViewShowNavButton,
+        useVideoSequence,
+        videoSequence: videoSequence.flatMap((v) =>
+            v.url ? [{ url: v.url, audioUrl: v.audioUrl, filename: v.filename, order: v.order }] : []
+        ),
+        useImageSequence,
+        imageSequence: imageSequence.flatMap((img) =>
+            img.url ? [{ url: img.url, filename: img.filename, order: img.order }] : []
+        ),
+        imageSequenceDuration,
+        imageSequenceAnimation,
+    }), [
+        backgroundType, backgroundPreview, scrollPreview, scrollHeight, scrollOffsetY, scrollOffsetX, scrollWidth,
+        soundEffectPreview, soundEffectFilename, textBoxes, isColoringPage, coloringEndModalOnly,
+        isWebViewPage, webViewSource, webViewUrl, webViewGameId, webViewTitle, webViewShowNavButton,
+        useVideoSequence, videoSequence, useImageSequence, imageSequence, imageSequenceDuration, imageSequenceAnimation,
+    ]);
+    const editorStateJson = useMemo(() => JSON.stringify(editorState), [editorState]);
+
+    const hasUnsavedChanges = !readOnly && baselineJson !== null && editorStateJson !== baselineJson;
+    // Picked files only live in memory, so they can't be kept in a draft
+    const hasPendingUploads = !readOnly && (!!backgroundFile || !!scrollFile || !!soundEffectFile
+        || videoSequence.some((v) => v.file) || imageSequence.some((img) => img.file));
+    const showDraftPrompt = !readOnly && !baselineStale && pendingDraft !== null
+        && pendingDraft.pageNumber === pageNumber && JSON.stringify(pendingDraft.state) !== baselineJson;
+
+    // Undo/redo for the canvas; drags are recorded once the mouse is released
+    const canvasSnapshot = useMemo<CanvasSnapshot>(() => ({
+        textBoxes,
+        backgroundType,
+        backgroundFile,
+        backgroundPreview,
+        scrollFile,
+        scrollPreview,
+        scrollHeight,
+        scrollOffsetY,
+        scrollOffsetX,
+        scrollWidth,
+        videoSequence,
+        imageSequence,
+    }), [
+        textBoxes, backgroundType, backgroundFile, backgroundPreview, scrollFile, scrollPreview,
+        scrollHeight, scrollOffsetY, scrollOffsetX, scrollWidth, videoSequence, imageSequence,
+    ]);
+
+    const applyCanvasSnapshot = (snapshot: CanvasSnapshot): CanvasSnapshot => {
+        // Replaced previews get revoked, so picked files need fresh object URLs
+        const applied: CanvasSnapshot = {
+            ...snapshot,
+            backgroundPreview: snapshot.backgroundFile ? URL.createObjectURL(snapshot.backgroundFile) : snapshot.backgroundPreview,
+            scrollPreview: snapshot.scrollFile ? URL.createObjectURL(snapshot.scrollFile) : snapshot.scrollPreview,
+            videoSequence: snapshot.videoSequence.map((v) => v.file ? { ...v, preview: URL.createObjectURL(v.file) } : v),
+            imageSequence: snapshot.imageSequence.map((img) => img.file ? { ...img, preview: URL.createObjectURL(img.file) } : img),
+        };
+        setTextBoxes(applied.textBoxes);
+        setBackgroundType(applied.backgroundType);
+        setBackgroundFile(applied.backgroundFile);
+        setBackgroundPreview(applied.backgroundPreview);
+        setScrollFile(applied.scrollFile);
+        setScrollPreview(applied.scrollPreview);
+        setScrollHeight(applied.scrollHeight);
+        setScrollOffsetY(applied.scrollOffsetY);
+        setScrollOffsetX(applied.scrollOffsetX);
+        setScrollWidth(applied.scrollWidth);
+        setVideoSequence(applied.videoSequence);
+        setImageSequence(applied.imageSequence);
+        setSelectedBoxIds((ids) => ids.filter((id) => applied.textBoxes.some((b) => b.id === id)));
+        return applied;
+    };
+
+    const canvasHistory = useUndoHistory({
+        snapshot: canvasSnapshot,
+        paused: draggingId !== null || resizingBoxId !== null || isDraggingScroll,
+        describe: describeCanvasChange,
+        apply: applyCanvasSnapshot,
+    });
+    const [showHistory, setShowHistory] = useState(false);
+
+    // A new baseline (page loaded, reset or saved) also starts a new undo history
+    if (baselineStale) {
+        setBaselineStale(false);
+        setBaselineJson(editorStateJson);
+        canvasHistory.reset();
+    }
+
+    // The page just loaded, reset or saved is the new clean state
+    const markClean = () => {
+        setBaselineStale(true);
+        setLastDraftJson(null);
+        setDraftSavedAt(null);
+        setPendingDraft(null);
+    };
+
+    // Write unsaved edits to the local draft store
+    const flushDraft = async () => {
+        if (!bookId || !hasUnsavedChanges || editorStateJson === lastDraftJson) return;
+        try {
+            const draft = await pageDrafts.save(bookId, pageNumber, editingPageId, editorState);
+            setLastDraftJson(editorStateJson);
+            setDraftSavedAt(draft.savedAt);
+        } catch (err) {
+            console.error('Failed to save local draft:', err);
+        }
+    };
+
+    // The interval outlives renders, so it always calls the latest flushDraft through the ref
+    useEffect(() => {
+        autosaveRef.current = flushDraft;
+    });
+
+    useEffect(() => {
+        if (!hasUnsavedChanges) return;
+        const timer = setInterval(() => autosaveRef.current(), AUTOSAVE_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [hasUnsavedChanges]);
+
+    // Offer a draft left behind for this page number, if there is one
+    const checkForDraft = async (num: number) => {
+        if (!bookId) return;
+        try {
+            const draft = await pageDrafts.get(bookId, num);
+            if (draft) setPendingDraft(draft);
+        } catch (err) {
+            console.error('Failed to read local draft:', err);
+        }
+    };
+
     // Add new text box
     const addTextBox = () => {
         const newBox: TextBox = {
@@ -260,7 +623,7 @@ const PageEditor: React.FC = () => {
             color: '#4a3b2a'
         };
         setTextBoxes([...textBoxes, newBox]);
-        setSelectedBoxId(newBox.id);
+        selectOnly(newBox.id);
     };
 
     // Update text box
@@ -268,28 +631,48 @@ const PageEditor: React.FC = () => {
         setTextBoxes(boxes => boxes.map(box => box.id === id ? { ...box, ...updates } : box));
     };
 
+    // A box's text in the language being edited
+    const boxText = (box: TextBox) => localizedText(box, locale, baseLocale);
+    // Inline spans follow edits of the base text; translations are plain
+    const setBoxText = (id: string, text: string) => {
+        setTextBoxes(boxes => boxes.map(box => {
+            if (box.id !== id) return box;
+            const edited = withLocalizedText(box, locale, baseLocale, text);
+            return translating ? edited : { ...edited, spans: remapSpans(box.spans, box.text, text) };
+        }));
+    };
+
+    // Styles the text selected in the text field, or the whole box when nothing is selected
+    const styleSelection = (box: TextBox, patch: (start: number, end: number) => Partial<SpanStyle>) => {
+        const textarea = textareaRef.current;
+        let start = textarea?.selectionStart ?? 0;
+        let end = textarea?.selectionEnd ?? 0;
+        if (start === end) [start, end] = [0, box.text.length];
+        updateTextBox(box.id, { spans: applySpanStyle(box.text, box.spans, start, end, patch(start, end)) });
+    };
+    const toggleSelectionStyle = (box: TextBox, key: 'bold' | 'italic') =>
+        styleSelection(box, (start, end) => ({ [key]: !rangeHasStyle(box.text, box.spans, start, end, key) }));
+
     // Delete text box
     const deleteTextBox = (id: string) => {
         setTextBoxes(boxes => boxes.filter(box => box.id !== id));
-        if (selectedBoxId === id) setSelectedBoxId(null);
+        setSelectedBoxIds(ids => ids.filter(selected => selected !== id));
     };
 
     // Enhance text with TTS emotion prompts
     const handleEnhanceText = async (boxId: string) => {
         const box = textBoxes.find(b => b.id === boxId);
-        if (!box || !box.text.trim()) {
+        if (!box || !boxText(box).trim()) {
             alert('Please add text first before enhancing.');
             return;
         }
 
         setEnhancingText(true);
         try {
-            const response = await apiClient.post('/api/tts/enhance', { 
-                text: box.text 
-            });
+            const { enhancedText } = await ttsApi.enhance(boxText(box));
             
-            if (response.data.enhancedText) {
-                updateTextBox(boxId, { text: response.data.enhancedText });
+            if (enhancedText) {
+                setBoxText(boxId, enhancedText);
                 alert('Text enhanced with emotion prompts!');
             }
         } catch (error) {
@@ -302,7 +685,7 @@ const PageEditor: React.FC = () => {
 
     // Handle text change in textarea with @ detection
     const handleTextChange = (boxId: string, newText: string) => {
-        updateTextBox(boxId, { text: newText });
+        setBoxText(boxId, newText);
         
         // Check for @ character to show suggestions
         const textarea = textareaRef.current;
@@ -333,7 +716,7 @@ const PageEditor: React.FC = () => {
         const box = textBoxes.find(b => b.id === boxId);
         if (!box) return;
         
-        const text = box.text;
+        const text = boxText(box);
         const textBeforeCursor = text.substring(0, cursorPosition);
         const lastAtIndex = textBeforeCursor.lastIndexOf('@');
         
@@ -342,7 +725,7 @@ const PageEditor: React.FC = () => {
             const before = text.substring(0, lastAtIndex);
             const after = text.substring(cursorPosition);
             const newText = `${before}@${characterName} ${after}`;
-            updateTextBox(boxId, { text: newText });
+            setBoxText(boxId, newText);
         }
         
         setShowCharacterSuggestions(false);
@@ -358,19 +741,17 @@ const PageEditor: React.FC = () => {
     const [enhancingSfx, setEnhancingSfx] = useState(false);
     const handleEnhanceSfx = async (boxId: string) => {
         const box = textBoxes.find(b => b.id === boxId);
-        if (!box || !box.text.trim()) {
+        if (!box || !boxText(box).trim()) {
             alert('Please add text first before enhancing.');
             return;
         }
 
         setEnhancingSfx(true);
         try {
-            const response = await apiClient.post('/api/tts/enhance-sfx', { 
-                text: box.text 
-            });
+            const { enhancedText } = await ttsApi.enhanceSfx(boxText(box));
             
-            if (response.data.enhancedText) {
-                updateTextBox(boxId, { text: response.data.enhancedText });
+            if (enhancedText) {
+                setBoxText(boxId, enhancedText);
                 alert('Text enhanced with sound effect prompts!');
             }
         } catch (error) {
@@ -381,193 +762,122 @@ const PageEditor: React.FC = () => {
         }
     };
 
+    // Reads a box in the language being edited, with the voices the app would use
+    const handlePlayNarration = async (box: TextBox) => {
+        if (narration.preview?.boxId === box.id) {
+            narration.stop();
+            return;
+        }
+        const text = boxText(box);
+        if (!text.trim()) {
+            alert('Please add text first before playing.');
+            return;
+        }
+        const voices = editionVoices(bookSettings, locale);
+        if (narrationSegments(text, voices).some(segment => !segment.voiceId)) {
+            alert('The book has no narrator voice, so the app would use the reader\'s own. Set a narrator voice in the book settings to preview narration.');
+            return;
+        }
+        try {
+            await narration.play(box.id, text, voices);
+        } catch (err) {
+            console.error('Failed to play narration:', err);
+            alert(getApiErrorMessage(err, 'Failed to play narration. Please try again.'));
+        }
+    };
+
     // Helper to resolve image URLs
     const resolveUrl = (url?: string) => {
         if (!url) return '';
         return getMediaUrl(url);
     };
 
+    // Put a page's (or a draft's) state into the editor, dropping any picked files
+    const applyEditorState = (state: PageEditorState, idPrefix: string) => {
+        narration.stop();
+        setBackgroundType(state.backgroundType);
+        setBackgroundPreview(state.backgroundUrl || null);
+        setBackgroundFile(null);
+
+        setScrollPreview(state.scrollUrl || null);
+        setScrollFile(null);
+        setScrollHeight(state.scrollHeight);
+        setScrollOffsetY(state.scrollOffsetY);
+        setScrollWidth(state.scrollWidth);
+        setScrollOffsetX(state.scrollOffsetX);
+
+        setSoundEffectPreview(state.soundEffectUrl || null);
+        setSoundEffectFilename(state.soundEffectUrl ? state.soundEffectFilename || 'Sound Effect' : null);
+        setSoundEffectFile(null);
+
+        setTextBoxes(state.textBoxes);
+
+        // Coloring page settings
+        setIsColoringPage(state.isColoringPage);
+        setColoringEndModalOnly(state.coloringEndModalOnly);
+
+        // Web view page settings
+        setIsWebViewPage(state.isWebViewPage);
+        setWebViewSource(state.webViewSource);
+        setWebViewUrl(state.webViewUrl);
+        setWebViewGameId(state.webViewGameId);
+        setWebViewTitle(state.webViewTitle);
+        setWebViewShowNavButton(state.webViewShowNavButton);
+
+        // Video sequence settings
+        setUseVideoSequence(state.useVideoSequence);
+        setVideoSequence(state.videoSequence.map((v, idx) => ({
+            id: `loaded-${idPrefix}-${idx}`,
+            url: v.url,
+            audioUrl: v.audioUrl, // Auto-extracted audio URL
+            filename: v.filename || `Video ${v.order}`,
+            order: v.order,
+        })));
+
+        // Image sequence settings
+        setUseImageSequence(state.useImageSequence);
+        setImageSequenceDuration(state.imageSequenceDuration);
+        setImageSequenceAnimation(state.imageSequenceAnimation);
+        setImageSequence(state.imageSequence.map((img, idx) => ({
+            id: `loaded-img-${idPrefix}-${idx}`,
+            url: img.url,
+            filename: img.filename || `Image ${img.order}`,
+            order: img.order,
+        })));
+
+        selectOnly(null);
+    };
+
     // Load existing page for editing
-    const loadPage = (page: any) => {
+    const loadPage = (page: Page) => {
         console.log('📄 Loading page:', page._id, 'pageNumber:', page.pageNumber);
-        console.log('📄 Page data:', JSON.stringify(page, null, 2));
-        
-        // Debug: Log all possible background locations
-        console.log('🔍 Background debug:', {
-            'page.backgroundUrl': page.backgroundUrl,
-            'page.backgroundType': page.backgroundType,
-            'page.files': page.files,
-            'page.files?.background': page.files?.background,
-            'page.files?.background?.url': page.files?.background?.url,
-            'page.files?.background?.type': page.files?.background?.type,
-            'page.content?.backgroundUrl': page.content?.backgroundUrl,
-        });
-        
-        setEditingPageId(page._id);
-        setPageNumber(page.pageNumber);
-        
-        // Determine background type - check all possible locations
-        const bgType = page.backgroundType || page.files?.background?.type || page.content?.backgroundType || 'image';
-        console.log('🎬 Background type determined:', bgType);
-        setBackgroundType(bgType);
-
-        // Set background preview if URL exists (check ALL possible locations)
-        const bgUrl = page.backgroundUrl || page.files?.background?.url || page.content?.backgroundUrl || page.imageUrl;
-        console.log('🖼️ Background URL determined:', bgUrl);
-        if (bgUrl) {
-            const resolvedUrl = resolveUrl(bgUrl);
-            console.log('🖼️ Background URL resolved:', resolvedUrl);
-            setBackgroundPreview(resolvedUrl);
-            setBackgroundFile(null); // Clear file since we're using existing URL
-        } else {
+        if (!page.backgroundUrl) {
             console.log('⚠️ No background URL found for this page!');
-            setBackgroundPreview(null);
-        }
-
-        // Set scroll preview if URL exists (check both legacy and new locations)
-        const scrollUrl = page.scrollUrl || page.files?.scroll?.url || page.content?.scrollUrl;
-        console.log('📜 Scroll URL:', scrollUrl);
-        if (scrollUrl) {
-            setScrollPreview(resolveUrl(scrollUrl));
-            setScrollFile(null);
-        } else {
-            setScrollPreview(null);
-        }
-
-        // Load scroll height (default to 33%) - check multiple possible field names
-        const savedScrollHeight = page.scrollHeight || page.scrollMidHeight || page.files?.scroll?.height;
-        console.log('📏 Scroll height:', savedScrollHeight);
-        setScrollHeight(savedScrollHeight || 33);
-        
-        // Load scroll offset (default to 0)
-        const savedScrollOffsetY = page.scrollOffsetY || 0;
-        console.log('📍 Scroll offset Y:', savedScrollOffsetY);
-        setScrollOffsetY(savedScrollOffsetY);
-        
-        // Load scroll width (default to 100%)
-        const savedScrollWidth = page.scrollWidth || 100;
-        console.log('📐 Scroll width:', savedScrollWidth);
-        setScrollWidth(savedScrollWidth);
-        
-        // Load scroll horizontal offset (default to 0)
-        const savedScrollOffsetX = page.scrollOffsetX || 0;
-        console.log('📍 Scroll offset X:', savedScrollOffsetX);
-        setScrollOffsetX(savedScrollOffsetX);
-
-        // Load sound effect if exists
-        const soundEffectUrl = page.soundEffectUrl || page.files?.soundEffect?.url;
-        const soundEffectName = page.files?.soundEffect?.filename;
-        console.log('🔊 Sound effect URL:', soundEffectUrl);
-        if (soundEffectUrl) {
-            setSoundEffectPreview(resolveUrl(soundEffectUrl));
-            setSoundEffectFilename(soundEffectName || 'Sound Effect');
-            setSoundEffectFile(null);
-        } else {
-            setSoundEffectPreview(null);
-            setSoundEffectFilename(null);
         }
 
-        // Load text boxes with IDs for editing
-        // IMPORTANT: Prefer root textBoxes (where we save to), fall back to content.textBoxes
-        console.log('📝 page.textBoxes:', page.textBoxes);
-        console.log('📝 page.content?.textBoxes:', page.content?.textBoxes);
-        const rootTextBoxes = page.textBoxes || [];
-        const contentTextBoxes = page.content?.textBoxes || [];
-        // Prefer root textBoxes if it has data (where we save), otherwise fall back to content.textBoxes
-        const textBoxesData = rootTextBoxes.length > 0 ? rootTextBoxes : contentTextBoxes;
-        console.log('📝 Final textBoxesData:', textBoxesData);
-        
-        if (Array.isArray(textBoxesData) && textBoxesData.length > 0) {
-            const boxesWithIds = textBoxesData.map((box: any, idx: number) => ({
-                ...box,
-                id: `${page._id}-${idx}`,
-                fontFamily: box.fontFamily || 'Comic Sans MS',
-                fontSize: box.fontSize || 24,
-                color: box.color || '#4a3b2a',
-                width: box.width || 30
-            }));
-            console.log('📝 Loaded text boxes:', boxesWithIds);
-            setTextBoxes(boxesWithIds);
-        } else {
-            console.log('📝 No text boxes found, setting empty array');
-            setTextBoxes([]);
-        }
+        setEditingPageId(page._id);
+        setPageNumber(page.pageNumber);
+        applyEditorState(pageToEditorState(page), page._id);
+        markClean();
+        checkForDraft(page.pageNumber);
+    };
 
-        // Load coloring page settings
-        setIsColoringPage(page.isColoringPage || false);
-        setColoringEndModalOnly(page.coloringEndModalOnly !== false); // Default to true if not set
-        
-        // Load web view page settings
-        setIsWebViewPage(page.isWebViewPage || false);
-        if (page.webView) {
-            setWebViewUrl(page.webView.url || '');
-            setWebViewGameId(page.webView.gameId?._id || page.webView.gameId || '');
-            setWebViewTitle(page.webView.title || '');
-            setWebViewShowNavButton(page.webView.showNavigationButton !== false);
-            // Determine source type
-            if (page.webView.gameId) {
-                setWebViewSource('game');
-            } else {
-                setWebViewSource('url');
-            }
-        } else {
-            setWebViewUrl('');
-            setWebViewGameId('');
-            setWebViewTitle('');
-            setWebViewShowNavButton(true);
-            setWebViewSource('url');
-        }
-        
-        // Load video sequence settings
-        console.log('🎬 Video sequence settings:', {
-            useVideoSequence: page.useVideoSequence,
-            videoSequenceLength: page.videoSequence?.length || 0,
-            videoSequence: page.videoSequence
-        });
-        setUseVideoSequence(page.useVideoSequence || false);
-        if (page.videoSequence && page.videoSequence.length > 0) {
-            const loadedVideos: VideoSequenceItem[] = page.videoSequence.map((v: any, idx: number) => ({
-                id: `loaded-${page._id}-${idx}`,
-                url: v.url,
-                audioUrl: v.audioUrl, // Load auto-extracted audio URL
-                filename: v.filename || `Video ${v.order}`,
-                order: v.order,
-            }));
-            setVideoSequence(loadedVideos);
-        } else {
-            setVideoSequence([]);
-        }
-        
-        // Load image sequence settings
-        console.log('🖼️ Image sequence settings:', {
-            useImageSequence: page.useImageSequence,
-            imageSequenceLength: page.imageSequence?.length || 0,
-            imageSequence: page.imageSequence,
-            imageSequenceAnimation: page.imageSequenceAnimation
-        });
-        setUseImageSequence(page.useImageSequence || false);
-        setImageSequenceDuration(page.imageSequenceDuration || 3);
-        setImageSequenceAnimation(page.imageSequenceAnimation || 'kenBurns');
-        if (page.imageSequence && page.imageSequence.length > 0) {
-            const loadedImages: ImageSequenceItem[] = page.imageSequence.map((img: any, idx: number) => ({
-                id: `loaded-img-${page._id}-${idx}`,
-                url: img.url,
-                filename: img.filename || `Image ${img.order}`,
-                order: img.order,
-            }));
-            setImageSequence(loadedImages);
-        } else {
-            setImageSequence([]);
-        }
+    // Switching pages keeps the current edits as a draft instead of dropping them
+    const openPage = async (page: Page) => {
+        await flushDraft();
+        loadPage(page);
+    };
 
-        setSelectedBoxId(null);
+    const openNewPage = async () => {
+        await flushDraft();
+        createNewPage();
     };
 
     // Create new page (reset editor)
     const createNewPage = () => {
         setEditingPageId(null);
         const nextPageNum = existingPages.length > 0
-            ? Math.max(...existingPages.map((p: any) => p.pageNumber)) + 1
+            ? Math.max(...existingPages.map((p) => p.pageNumber)) + 1
             : 1;
         setPageNumber(nextPageNum);
         setBackgroundType('image');
@@ -580,7 +890,7 @@ const PageEditor: React.FC = () => {
         setSoundEffectFile(null);
         setSoundEffectPreview(null);
         setSoundEffectFilename(null);
-        setSelectedBoxId(null);
+        selectOnly(null);
         
         // Reset coloring page settings
         setIsColoringPage(false);
@@ -611,66 +921,263 @@ const PageEditor: React.FC = () => {
         });
         setImageSequence([]);
 
-        // Apply template if it exists
-        if (pageTemplate) {
-            if (pageTemplate.scrollUrl) {
-                setScrollPreview(resolveUrl(pageTemplate.scrollUrl));
-            }
-            if (pageTemplate.textBoxes && pageTemplate.textBoxes.length > 0) {
-                const boxesWithIds = pageTemplate.textBoxes.map((box: any, idx: number) => ({
-                    ...box,
-                    id: `new-${Date.now()}-${idx}`,
-                    width: box.width || 30
-                }));
-                setTextBoxes(boxesWithIds);
-            } else {
-                setTextBoxes([]);
-            }
+        // Start from the book's default template, if one is set
+        if (defaultTemplate) {
+            applyLayoutToEditor(defaultTemplate, false);
         } else {
             setScrollPreview(null);
             setTextBoxes([]);
         }
+
+        markClean();
+        checkForDraft(nextPageNum);
+    };
+
+    // Put a template's scroll and text box layout on the page in the editor (unsaved).
+    // preserveText works like applyLayoutToPage: current text fills the template's boxes in order.
+    const applyLayoutToEditor = (layout: PageLayout, preserveText: boolean) => {
+        setScrollPreview(layout.scrollUrl ? resolveUrl(layout.scrollUrl) : null);
+        setScrollFile(null);
+        setScrollHeight(layout.scrollHeight);
+        setScrollOffsetY(layout.scrollOffsetY);
+        setScrollOffsetX(layout.scrollOffsetX);
+        setScrollWidth(layout.scrollWidth);
+        const boxes = templateTextBoxes(layout);
+        setTextBoxes(preserveText
+            ? [
+                ...boxes.map((box, idx) => ({ ...box, text: textBoxes[idx]?.text ?? '', spans: textBoxes[idx]?.spans, translations: textBoxes[idx]?.translations })),
+                ...textBoxes.slice(boxes.length),
+            ]
+            : boxes);
+        selectOnly(null);
+    };
+
+    const handleSetDefaultTemplate = (template: PageTemplate | null) => {
+        if (!bookId) return;
+        if (template) {
+            localStorage.setItem(defaultPageTemplateKey(bookId), template._id);
+        } else {
+            localStorage.removeItem(defaultPageTemplateKey(bookId));
+        }
+        setDefaultTemplate(template);
+    };
+
+    // After a template was applied to saved pages; reload the open page if it was one of them.
+    // Reloading would throw away unsaved edits, so that needs a yes first; they stay in the editor otherwise.
+    const handleTemplatePagesUpdated = async (pageIds: string[]) => {
+        if (!bookId) return;
+        const pages = await pagesApi.listByBook(bookId);
+        setExistingPages(pages);
+        const openPage = editingPageId && pageIds.includes(editingPageId)
+            ? pages.find((p) => p._id === editingPageId)
+            : undefined;
+        if (!openPage) return;
+        if (hasUnsavedChanges && !confirm(`Page ${openPage.pageNumber} was updated. Reload it and discard your unsaved changes? Saving your changes instead will overwrite the update.`)) return;
+        loadPage(openPage);
+    };
+
+    // What "save as template" would store; null while the scroll is a local file
+    const currentLayout = scrollPreview && !uploadedUrl(scrollPreview) ? null : {
+        scrollUrl: uploadedUrl(scrollPreview) || '',
+        scrollHeight,
+        scrollOffsetY,
+        scrollOffsetX,
+        scrollWidth,
+        textBoxes: textBoxes.map(toLayoutTextBox),
+        thumbnailUrl: backgroundType === 'image' ? uploadedUrl(backgroundPreview) : undefined,
+    };
+
+    const restoreDraft = () => {
+        if (!pendingDraft) return;
+        applyEditorState(pendingDraft.state, `draft-${pendingDraft.savedAt}`);
+        // Still unsaved: the baseline stays the page as stored, and undo starts from the draft
+        canvasHistory.reset();
+        setLastDraftJson(null);
+        setDraftSavedAt(pendingDraft.savedAt);
+        setPendingDraft(null);
+    };
+
+    const removeDraft = async (num: number) => {
+        if (!bookId) return;
+        try {
+            await pageDrafts.remove(bookId, num);
+        } catch (err) {
+            console.error('Failed to remove local draft:', err);
+        }
+    };
+
+    const discardDraft = async () => {
+        if (!pendingDraft) return;
+        setPendingDraft(null);
+        await removeDraft(pendingDraft.pageNumber);
+    };
+
+    // Pointer position in canvas percent
+    const canvasPoint = (e: { clientX: number; clientY: number }) => {
+        if (!canvasRef.current) return null;
+        const canvasRect = canvasRef.current.getBoundingClientRect();
+        return {
+            x: ((e.clientX - canvasRect.left) / canvasRect.width) * 100,
+            y: ((e.clientY - canvasRect.top) / canvasRect.height) * 100,
+        };
+    };
+
+    // Box rects in canvas percent. Heights come from the DOM since boxes grow with their text;
+    // rendered=true uses the on-screen top, which the scroll can push below box.y.
+    const measureBoxes = (ids: string[], rendered = false): BoxRect[] => {
+        const canvas = canvasRef.current;
+        if (!canvas) return [];
+        const canvasRect = canvas.getBoundingClientRect();
+        return textBoxes.filter((box) => ids.includes(box.id)).map((box) => {
+            const el = canvas.querySelector<HTMLElement>(`[data-box-id="${box.id}"]`);
+            const elRect = el?.getBoundingClientRect();
+            return {
+                id: box.id,
+                x: box.x,
+                y: rendered && elRect ? ((elRect.top - canvasRect.top) / canvasRect.height) * 100 : box.y,
+                width: box.width,
+                height: elRect ? (elRect.height / canvasRect.height) * 100 : box.height || 10,
+            };
+        });
+    };
+
+    const applyPositions = (positions: BoxPositions) => {
+        setTextBoxes(boxes => boxes.map(box => positions[box.id] ? { ...box, ...positions[box.id] } : box));
+    };
+
+    const arrangeSelection = (arrange: (rects: BoxRect[]) => BoxPositions) => {
+        applyPositions(arrange(measureBoxes(selectedBoxIds)));
+    };
+
+    // Returns false when there's nothing selected, so the arrow key keeps its default
+    const nudgeSelection = (key: string, large: boolean) => {
+        if (selectedBoxIds.length === 0) return false;
+        const step = large ? NUDGE_STEP_LARGE : NUDGE_STEP;
+        const dx = key === 'ArrowLeft' ? -step : key === 'ArrowRight' ? step : 0;
+        const dy = key === 'ArrowUp' ? -step : key === 'ArrowDown' ? step : 0;
+        const origins = Object.fromEntries(textBoxes
+            .filter(box => selectedBoxIds.includes(box.id))
+            .map(box => [box.id, { x: box.x, y: box.y }]));
+        applyPositions(moveBoxes(origins, dx, dy));
+        return true;
+    };
+
+    // Snap targets while dragging: canvas, scroll overlay and every box not being moved
+    const snapGuidesFor = (movingIds: string[]): SnapGuides => {
+        const others = measureBoxes(textBoxes.filter(box => !movingIds.includes(box.id)).map(box => box.id));
+        const scrollRect = scrollPreview ? [{
+            x: 50 + scrollOffsetX - scrollWidth / 2,
+            y: 100 - scrollHeight - scrollOffsetY,
+            width: scrollWidth,
+            height: scrollHeight,
+        }] : [];
+        return buildSnapGuides([...others, ...scrollRect]);
     };
 
     // Drag Handlers
     const handleMouseDown = (e: React.MouseEvent, id: string) => {
         e.stopPropagation();
-        const box = textBoxes.find(b => b.id === id);
-        if (!box || !canvasRef.current) return;
 
-        const canvasRect = canvasRef.current.getBoundingClientRect();
-        const startX = e.clientX - canvasRect.left;
-        const startY = e.clientY - canvasRect.top;
+        // Shift-click toggles the box in the selection without moving anything
+        if (e.shiftKey) {
+            setSelectedBoxIds(ids => ids.includes(id) ? ids.filter(selected => selected !== id) : [...ids, id]);
+            return;
+        }
 
-        // Convert percentage to pixels for drag offset
-        const boxXPx = (box.x / 100) * canvasRect.width;
-        const boxYPx = (box.y / 100) * canvasRect.height;
+        const point = canvasPoint(e);
+        if (!point) return;
 
+        // Dragging a selected box moves the whole selection
+        const ids = selectedBoxIds.includes(id) ? selectedBoxIds : [id];
+        if (!selectedBoxIds.includes(id)) selectOnly(id);
+
+        const rects = measureBoxes(ids);
         setDraggingId(id);
-        setSelectedBoxId(id);
-        setDragOffset({
-            x: startX - boxXPx,
-            y: startY - boxYPx
+        setDragOrigin({
+            x: point.x,
+            y: point.y,
+            positions: Object.fromEntries(rects.map(r => [r.id, { x: r.x, y: r.y }])),
+            bounds: boundsOf(rects),
+            guides: snapEnabled ? snapGuidesFor(ids) : null,
         });
     };
 
     const handleMouseMove = (e: React.MouseEvent) => {
-        if (draggingId && canvasRef.current) {
-            const canvasRect = canvasRef.current.getBoundingClientRect();
-            const currentX = e.clientX - canvasRect.left;
-            const currentY = e.clientY - canvasRect.top;
+        if (!draggingId || !dragOrigin) return;
+        const point = canvasPoint(e);
+        if (!point) return;
+
+        let dx = point.x - dragOrigin.x;
+        let dy = point.y - dragOrigin.y;
+        // Alt drags freely
+        if (dragOrigin.guides && !e.altKey) {
+            const snapped = snapDelta(dragOrigin.bounds, dx, dy, dragOrigin.guides);
+            dx = snapped.dx;
+            dy = snapped.dy;
+            setSnapLines(snapped.lines);
+        } else {
+            setSnapLines({ x: [], y: [] });
+        }
+        applyPositions(moveBoxes(dragOrigin.positions, dx, dy));
+    };
 
-            const newXPx = currentX - dragOffset.x;
-            const newYPx = currentY - dragOffset.y;
+    // Marquee selection starts on empty canvas (or on the scroll with Shift held)
+    const handleCanvasMouseDown = (e: React.MouseEvent) => {
+        if (e.button !== 0) return;
+        const point = canvasPoint(e);
+        if (!point) return;
+        // No text selection while dragging; still take focus off any field so arrow keys nudge
+        e.preventDefault();
+        if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+        setMarquee({ startX: point.x, startY: point.y, x: point.x, y: point.y, additive: e.shiftKey });
+    };
 
-            // Convert pixels to percentage
-            const newXPercent = Math.max(0, Math.min(100, (newXPx / canvasRect.width) * 100));
-            const newYPercent = Math.max(0, Math.min(100, (newYPx / canvasRect.height) * 100));
+    const handleMarqueeMove = (e: React.MouseEvent) => {
+        if (!marquee) return;
+        const point = canvasPoint(e);
+        if (point) setMarquee({ ...marquee, x: point.x, y: point.y });
+    };
 
-            updateTextBox(draggingId, { x: newXPercent, y: newYPercent });
-        }
+    const finishMarquee = () => {
+        if (!marquee) return;
+        const left = Math.min(marquee.startX, marquee.x);
+        const right = Math.max(marquee.startX, marquee.x);
+        const top = Math.min(marquee.startY, marquee.y);
+        const bottom = Math.max(marquee.startY, marquee.y);
+        const hits = measureBoxes(textBoxes.map(box => box.id), true)
+            .filter(r => r.x < right && r.x + r.width > left && r.y < bottom && r.y + r.height > top)
+            .map(r => r.id);
+        setSelectedBoxIds(ids => marquee.additive ? [...ids, ...hits.filter(id => !ids.includes(id))] : hits);
+        setMarquee(null);
     };
 
+    // Ctrl+Z / Ctrl+Shift+Z walk the canvas history, arrow keys nudge the selection.
+    // Same ref trick as autosave: the listener is added once and calls the latest handlers.
+    const shortcutsRef = useRef({ history: canvasHistory, nudge: nudgeSelection });
+    useEffect(() => {
+        shortcutsRef.current = { history: canvasHistory, nudge: nudgeSelection };
+    });
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Text fields keep their native undo and cursor keys
+            if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+            const { history, nudge } = shortcutsRef.current;
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    history.redo();
+                } else {
+                    history.undo();
+                }
+            } else if (e.key.startsWith('Arrow') && !e.ctrlKey && !e.metaKey && !e.altKey) {
+                if (nudge(e.key, e.shiftKey)) e.preventDefault();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
     const handleBoxResize = (e: React.MouseEvent) => {
         if (resizingBoxId && canvasRef.current) {
             const canvasRect = canvasRef.current.getBoundingClientRect();
@@ -691,7 +1198,10 @@ const PageEditor: React.FC = () => {
     };
 
     const handleMouseUp = () => {
+        finishMarquee();
         setDraggingId(null);
+        setDragOrigin(null);
+        setSnapLines({ x: [], y: [] });
         setResizingBoxId(null);
         setIsResizingLeft(false);
         setIsResizingRight(false);
@@ -754,6 +1264,7 @@ const PageEditor: React.FC = () => {
     // Combined mouse move handler
     const handleGlobalMouseMove = (e: React.MouseEvent) => {
         handleMouseMove(e);
+        handleMarqueeMove(e);
         handleBoxResize(e);
         handleLeftResize(e);
         handleRightResize(e);
@@ -769,17 +1280,15 @@ const PageEditor: React.FC = () => {
         setCacheCleared(false);
         
         try {
-            const response = await apiClient.delete('/api/tts/clear-cache', {
-                data: { bookId }
-            });
+            const result = await ttsApi.clearBookCache(bookId);
             
-            if (response.data.success) {
+            if (result.success) {
                 setCacheCleared(true);
-                console.log(`✅ Cleared ${response.data.deletedCount} TTS cache entries for book`);
+                console.log(`✅ Cleared ${result.deletedCount} TTS cache entries for book`);
                 // Auto-hide success message after 3 seconds
                 setTimeout(() => setCacheCleared(false), 3000);
             } else {
-                alert('Failed to clear cache: ' + (response.data.message || 'Unknown error'));
+                alert('Failed to clear cache: ' + (result.message || 'Unknown error'));
             }
         } catch (error: any) {
             console.error('Error clearing TTS cache:', error);
@@ -790,7 +1299,7 @@ const PageEditor: React.FC = () => {
     };
 
     const handleSubmit = async () => {
-        if (!bookId) return;
+        if (!bookId || readOnly) return;
         setLoading(true);
         try {
             // Upload background
@@ -803,19 +1312,16 @@ const PageEditor: React.FC = () => {
             let backgroundAudioUrl = '';
             
             if (backgroundFile) {
-                const formData = new FormData();
-                formData.append('file', backgroundFile);
                 // Include bookId, type=pages, and pageNumber for proper GCS path
-                const endpoint = backgroundType === 'image' 
-                    ? `/api/upload/image?bookId=${bookId}&type=pages&pageNumber=${pageNumber}` 
-                    : `/api/upload/video?bookId=${bookId}&type=pages&pageNumber=${pageNumber}`;
-                const res = await apiClient.post(endpoint, formData, {
-                    headers: { 'Content-Type': 'multipart/form-data' },
-                });
-                backgroundUrl = res.data.url;
+                const uploaded = await uploadsApi.upload(
+                    backgroundType === 'image' ? 'image' : 'video',
+                    backgroundFile,
+                    { bookId, type: 'pages', pageNumber }
+                );
+                backgroundUrl = uploaded.url;
                 // Capture auto-extracted audio from video (for iOS audio layering)
-                if (res.data.backgroundAudioUrl) {
-                    backgroundAudioUrl = res.data.backgroundAudioUrl;
+                if (uploaded.backgroundAudioUrl) {
+                    backgroundAudioUrl = uploaded.backgroundAudioUrl;
                     console.log('🎬 Auto-extracted background audio:', backgroundAudioUrl);
                 }
             }
@@ -840,12 +1346,8 @@ const PageEditor: React.FC = () => {
             // If we have a new file to upload, upload it
             if (scrollFile) {
                 console.log('📜 Uploading new scroll file:', scrollFile.name);
-                const formData = new FormData();
-                formData.append('file', scrollFile);
-                const res = await apiClient.post(`/api/upload/image?bookId=${bookId}&type=scroll`, formData, {
-                    headers: { 'Content-Type': 'multipart/form-data' },
-                });
-                scrollUrl = res.data.url;
+                const uploaded = await uploadsApi.upload('image', scrollFile, { bookId, type: 'scroll' });
+                scrollUrl = uploaded.url;
                 console.log('📜 Uploaded scroll image:', scrollUrl);
             } else if (scrollPreview && scrollPreview.startsWith('blob:')) {
                 // CRITICAL: Blob URLs are temporary and expire - try to upload but don't block save
@@ -854,12 +1356,8 @@ const PageEditor: React.FC = () => {
                     const response = await fetch(scrollPreview);
                     if (response.ok) {
                         const blob = await response.blob();
-                        const formData = new FormData();
-                        formData.append('file', blob, 'scroll-image.png');
-                        const res = await apiClient.post(`/api/upload/image?bookId=${bookId}&type=scroll`, formData, {
-                            headers: { 'Content-Type': 'multipart/form-data' },
-                        });
-                        scrollUrl = res.data.url;
+                        const uploaded = await uploadsApi.upload('image', blob, { bookId, type: 'scroll' }, { filename: 'scroll-image.png' });
+                        scrollUrl = uploaded.url;
                         console.log('📜 Uploaded blob scroll image:', scrollUrl);
                     } else {
                         console.warn('⚠️ Blob URL expired - clearing scroll. Please re-upload.');
@@ -881,12 +1379,8 @@ const PageEditor: React.FC = () => {
             }
 
             if (soundEffectFile) {
-                const formData = new FormData();
-                formData.append('file', soundEffectFile);
-                const res = await apiClient.post(`/api/upload/sound-effect?bookId=${bookId}&pageNumber=${pageNumber}`, formData, {
-                    headers: { 'Content-Type': 'multipart/form-data' },
-                });
-                soundEffectUrl = res.data.url;
+                const uploaded = await uploadsApi.upload('sound-effect', soundEffectFile, { bookId, pageNumber });
+                soundEffectUrl = uploaded.url;
             }
 
             // Upload video sequence files (with auto-extracted audio for iOS)
@@ -895,22 +1389,16 @@ const PageEditor: React.FC = () => {
                 for (const video of videoSequence.sort((a, b) => a.order - b.order)) {
                     if (video.file) {
                         // Upload new video file
-                        const formData = new FormData();
-                        formData.append('file', video.file);
                         try {
-                            const res = await apiClient.post(
-                                `/api/upload/video?bookId=${bookId}&type=sequence&pageNumber=${pageNumber}`,
-                                formData,
-                                { headers: { 'Content-Type': 'multipart/form-data' } }
-                            );
+                            const uploaded = await uploadsApi.upload('video', video.file, { bookId, type: 'sequence', pageNumber });
                             uploadedVideoSequence.push({
-                                url: res.data.url,
+                                url: uploaded.url,
                                 filename: video.filename,
                                 order: video.order,
-                                audioUrl: res.data.backgroundAudioUrl, // Auto-extracted audio for iOS layering
+                                audioUrl: uploaded.backgroundAudioUrl, // Auto-extracted audio for iOS layering
                             });
-                            if (res.data.backgroundAudioUrl) {
-                                console.log(`🎬 Auto-extracted audio for video ${video.order}:`, res.data.backgroundAudioUrl);
+                            if (uploaded.backgroundAudioUrl) {
+                                console.log(`🎬 Auto-extracted audio for video ${video.order}:`, uploaded.backgroundAudioUrl);
                             }
                         } catch (uploadErr) {
                             console.error('Failed to upload video sequence item:', uploadErr);
@@ -922,7 +1410,7 @@ const PageEditor: React.FC = () => {
                             url: video.url,
                             filename: video.filename,
                             order: video.order,
-                            audioUrl: (video as any).audioUrl, // Preserve existing audio URL
+                            audioUrl: video.audioUrl, // Preserve existing audio URL
                         });
                     }
                 }
@@ -934,16 +1422,10 @@ const PageEditor: React.FC = () => {
                 for (const img of imageSequence.sort((a, b) => a.order - b.order)) {
                     if (img.file) {
                         // Upload new image file
-                        const formData = new FormData();
-                        formData.append('file', img.file);
                         try {
-                            const res = await apiClient.post(
-                                `/api/upload/image?bookId=${bookId}&type=image-sequence&pageNumber=${pageNumber}`,
-                                formData,
-                                { headers: { 'Content-Type': 'multipart/form-data' } }
-                            );
+                            const uploaded = await uploadsApi.upload('image', img.file, { bookId, type: 'image-sequence', pageNumber });
                             uploadedImageSequence.push({
-                                url: res.data.url,
+                                url: uploaded.url,
                                 filename: img.filename,
                                 order: img.order,
                             });
@@ -962,7 +1444,7 @@ const PageEditor: React.FC = () => {
                 }
             }
 
-            const payload = {
+            const payload = toPagePayload({
                 bookId,
                 pageNumber,
                 backgroundUrl,
@@ -970,109 +1452,58 @@ const PageEditor: React.FC = () => {
                 backgroundAudioUrl, // Auto-extracted from video for iOS audio layering
                 scrollUrl,
                 scrollHeight,
-                // scrollHeight is the main/default height shown in app (what was used when positioning text)
-                // scrollMaxHeight = the selected height (default state in app)
-                // scrollMidHeight = smaller height for when user swipes down
-                scrollMidHeight: Math.max(30, scrollHeight - 30), // Mid is 30% less than max, minimum 30%
-                scrollMaxHeight: scrollHeight, // Max is the selected height (default in app)
-                scrollOffsetY, // Vertical offset for scroll position
-                scrollOffsetX, // Horizontal offset from center
-                scrollWidth, // Width as percentage (100 = full width)
+                scrollOffsetY,
+                scrollOffsetX,
+                scrollWidth,
                 soundEffectUrl, // Sound effect bubble audio
-                textBoxes: textBoxes.map(({ id, ...rest }) => rest), // Remove ID before sending
+                textBoxes,
                 isColoringPage,
-                coloringEndModalOnly: isColoringPage ? coloringEndModalOnly : false, // Only relevant if it's a coloring page
-                // Web View page settings
+                coloringEndModalOnly,
                 isWebViewPage,
-                webView: isWebViewPage ? {
+                webView: {
                     url: webViewSource === 'url' ? webViewUrl : undefined,
                     gameId: webViewSource === 'game' ? webViewGameId : undefined,
                     title: webViewTitle || undefined,
                     showNavigationButton: webViewShowNavButton,
-                } : undefined,
-                // Video sequence settings
-                useVideoSequence: useVideoSequence && uploadedVideoSequence.length > 0,
+                },
+                useVideoSequence,
                 videoSequence: uploadedVideoSequence,
-                // Image sequence settings
-                useImageSequence: useImageSequence && uploadedImageSequence.length > 0,
+                useImageSequence,
                 imageSequence: uploadedImageSequence,
                 imageSequenceDuration,
                 imageSequenceAnimation,
-            };
+            });
 
             console.log('📤 Sending payload:', JSON.stringify(payload, null, 2));
             console.log('📝 TextBoxes being saved:', textBoxes.map(b => ({ id: b.id, x: b.x, y: b.y, text: b.text.substring(0, 20) })));
 
             // Use PUT to update existing page, POST to create new
             if (editingPageId) {
-                await apiClient.put(`/api/pages/${editingPageId}`, payload);
+                await pagesApi.update(editingPageId, payload);
+                await removeDraft(pageNumber);
                 // Refresh pages list
-                const res = await apiClient.get(`/api/pages/book/${bookId}`);
-                setExistingPages(res.data);
+                const pages = await pagesApi.listByBook(bookId);
+                setExistingPages(pages);
 
                 // Reload the updated page into the editor to keep state in sync
-                const updatedPage = res.data.find((p: any) => p._id === editingPageId);
+                const updatedPage = pages.find((p) => p._id === editingPageId);
                 console.log('📥 Page returned from server after save:', {
-                    textBoxes: updatedPage?.textBoxes?.map((b: any) => ({ x: b.x, y: b.y, text: b.text?.substring(0, 20) })),
-                    contentTextBoxes: updatedPage?.content?.textBoxes?.map((b: any) => ({ x: b.x, y: b.y, text: b.text?.substring(0, 20) })),
+                    textBoxes: updatedPage?.textBoxes.map((b) => ({ x: b.x, y: b.y, text: b.text.substring(0, 20) })),
                 });
                 if (updatedPage) {
                     loadPage(updatedPage);
                 }
                 
-                // If applyLayoutToAllPages is checked, update all other pages with the same layout
-                if (applyLayoutToAllPages && pageNumber === 1) {
-                    const otherPages = existingPages.filter(p => p.pageNumber !== 1);
-                    let updatedCount = 0;
-                    
-                    for (const otherPage of otherPages) {
-                        try {
-                            // Create layout payload (only scroll and textbox layout, not background)
-                            const layoutPayload = {
-                                scrollUrl,
-                                scrollHeight,
-                                scrollMidHeight: Math.max(30, scrollHeight - 30),
-                                scrollMaxHeight: scrollHeight,
-                                scrollOffsetY,
-                                scrollOffsetX,
-                                scrollWidth,
-                                // Copy text boxes but update the text content from existing page
-                                textBoxes: textBoxes.map(({ id, ...rest }) => ({
-                                    ...rest,
-                                    text: '' // Empty text - user fills in for each page
-                                })),
-                            };
-                            
-                            await apiClient.put(`/api/pages/${otherPage._id}`, layoutPayload);
-                            updatedCount++;
-                        } catch (err) {
-                            console.error(`Failed to update page ${otherPage.pageNumber}:`, err);
-                        }
-                    }
-                    
-                    alert(`Page updated and layout applied to ${updatedCount} other pages!`);
-                    setApplyLayoutToAllPages(false); // Reset checkbox
-                    
-                    // Refresh pages list
-                    const refreshRes = await apiClient.get(`/api/pages/book/${bookId}`);
-                    setExistingPages(refreshRes.data);
-                } else {
-                    alert('Page updated successfully!');
-                }
+                alert('Page updated successfully!');
             } else {
-                await apiClient.post('/api/pages', payload);
+                await pagesApi.create(payload);
+                await removeDraft(pageNumber);
 
                 // Refresh pages list
-                const res = await apiClient.get(`/api/pages/book/${bookId}`);
-                setExistingPages(res.data);
+                setExistingPages(await pagesApi.listByBook(bookId));
 
-                // If this is page 1 and no template exists, ask if user wants to create one
-                if (pageNumber === 1 && !pageTemplate && (scrollUrl || textBoxes.length > 0)) {
-                    setShowTemplateDialog(true);
-                } else {
-                    // Reset for new page
-                    createNewPage();
-                }
+                // Reset for new page
+                createNewPage();
             }
         } catch (err: any) {
             console.error('Error saving page:', err);
@@ -1090,23 +1521,24 @@ const PageEditor: React.FC = () => {
 
     // Delete a page
     const handleDeletePage = async (pageId: string, pageNum: number) => {
-        if (!confirm(`Are you sure you want to delete page ${pageNum}? This cannot be undone.`)) {
+        if (readOnly || !bookId) return;
+        if (!confirm(`Move page ${pageNum} to the Trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`)) {
             return;
         }
         
         try {
-            await apiClient.delete(`/api/pages/${pageId}`);
+            await pagesApi.remove(pageId);
+            await removeDraft(pageNum);
             
             // Refresh pages list
-            const res = await apiClient.get(`/api/pages/book/${bookId}`);
-            setExistingPages(res.data);
+            setExistingPages(await pagesApi.listByBook(bookId));
             
             // If we were editing the deleted page, reset to new page
             if (editingPageId === pageId) {
                 createNewPage();
             }
             
-            alert('Page deleted successfully!');
+            alert(`Page ${pageNum} moved to the Trash.`);
         } catch (error) {
             console.error('Failed to delete page:', error);
             alert('Failed to delete page. Please try again.');
@@ -1115,6 +1547,33 @@ const PageEditor: React.FC = () => {
 
     const selectedBox = textBoxes.find(b => b.id === selectedBoxId);
 
+    // Fit on every device and text contrast, for the text the reader would show in this language
+    const textBoxIssues = useTextBoxChecks({
+        boxes: textBoxes.map(box => {
+            const text = readerText(box, locale, baseLocale);
+            return { ...box, text, spans: text === box.text ? box.spans : undefined };
+        }),
+        page: { scrollUrl: scrollPreview || undefined, scrollHeight, scrollOffsetY, scrollOffsetX, scrollWidth },
+        backgroundUrl: (() => {
+            // Videos aren't sampled; a sequence is checked against the image it opens on
+            if (useVideoSequence && videoSequence.length > 0) return null;
+            if (useImageSequence && imageSequence.length > 0) {
+                const firstImage = [...imageSequence].sort((a, b) => a.order - b.order)[0];
+                return firstImage.preview || resolveUrl(firstImage.url);
+            }
+            if (!backgroundPreview) return undefined;
+            return backgroundType === 'image' ? backgroundPreview : null;
+        })(),
+        size: { width: canvasWidth, height: canvasHeight },
+        characterVoices,
+    });
+    const fontFamilies = fontChoices(registeredFonts ?? []);
+    const boxIssues = (box: TextBox): TextBoxIssue[] => {
+        const font = registeredFonts && fontProblem(box.fontFamily, registeredFonts);
+        return [...(font ? [{ severity: 'warning' as const, message: font }] : []), ...(textBoxIssues[box.id] ?? [])];
+    };
+    const selectedBoxIssues = selectedBox ? boxIssues(selectedBox) : [];
+
     return (
         <div className="flex h-screen bg-gray-100 overflow-hidden" onMouseMove={handleGlobalMouseMove} onMouseUp={handleMouseUp}>
             {/* Left Sidebar - Controls */}
@@ -1150,22 +1609,35 @@ const PageEditor: React.FC = () => {
                             />
                         </div>
                         
-                        {/* Copy layout to other pages - only show for page 1 */}
-                        {pageNumber === 1 && existingPages.length > 1 && (scrollPreview || textBoxes.length > 0) && (
-                            <label className="flex items-center gap-2 cursor-pointer bg-amber-50 p-2 rounded-lg border border-amber-200">
-                                <input
-                                    type="checkbox"
-                                    checked={applyLayoutToAllPages}
-                                    onChange={(e) => setApplyLayoutToAllPages(e.target.checked)}
-                                    className="w-4 h-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
-                                />
-                                <div>
-                                    <span className="text-sm text-gray-700 font-medium">Apply layout to all pages</span>
-                                    <p className="text-xs text-amber-600">
-                                        Copy scroll & text box positions to {existingPages.length - 1} other page{existingPages.length > 2 ? 's' : ''}
-                                    </p>
-                                </div>
-                            </label>
+                        <button
+                            onClick={() => setShowTemplateLibrary(true)}
+                            className="w-full py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm text-gray-700 hover:bg-gray-50 flex items-center justify-center gap-2 transition"
+                        >
+                            <LayoutTemplate className="w-4 h-4" />
+                            Layout Templates
+                        </button>
+                        {editingPageId && (
+                            <button
+                                onClick={() => setShowRevisions(true)}
+                                className="w-full py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm text-gray-700 hover:bg-gray-50 flex items-center justify-center gap-2 transition"
+                            >
+                                <History className="w-4 h-4" />
+                                Saved Versions
+                            </button>
+                        )}
+                        {editingPageId && (
+                            <button
+                                onClick={() => setShowReview(true)}
+                                className="w-full py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm text-gray-700 hover:bg-gray-50 flex items-center justify-center gap-2 transition"
+                            >
+                                <MessageSquare className="w-4 h-4" />
+                                Review Comments
+                            </button>
+                        )}
+                        {defaultTemplate && (
+                            <p className="text-xs text-gray-500">
+                                New pages start from <span className="font-medium">{defaultTemplate.name}</span>
+                            </p>
                         )}
                     </div>
 
@@ -1657,8 +2129,8 @@ const PageEditor: React.FC = () => {
                             // Get unique scroll URLs from existing pages (excluding blob: URLs)
                             const existingScrolls = [...new Set(
                                 existingPages
-                                    .map(p => p.scrollUrl || p.files?.scroll?.url)
-                                    .filter(url => url && url.startsWith('https://') && !url.includes('blob:'))
+                                    .map(p => p.scrollUrl)
+                                    .filter((url): url is string => !!url && url.startsWith('https://') && !url.includes('blob:'))
                             )];
                             
                             if (existingScrolls.length > 0) {
@@ -2118,19 +2590,77 @@ const PageEditor: React.FC = () => {
                         </button>
                     </div>
 
+                    {/* Arrange: alignment, distribution and snapping for the selection */}
+                    {selectedBoxIds.length > 0 && (
+                        <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+                            <div className="flex justify-between items-center">
+                                <span className="text-xs font-bold text-gray-700 uppercase">
+                                    {selectedBoxIds.length > 1 ? `${selectedBoxIds.length} Text Boxes Selected` : 'Arrange'}
+                                </span>
+                                {selectedBoxIds.length > 1 && (
+                                    <button onClick={() => selectOnly(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                                        Clear
+                                    </button>
+                                )}
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {ALIGN_TOOLS.map(({ edge, label, icon: Icon }) => (
+                                    <button
+                                        key={edge}
+                                        onClick={() => arrangeSelection(rects => alignBoxes(rects, edge))}
+                                        className="p-1.5 rounded border border-gray-300 bg-white text-gray-700 hover:bg-indigo-50 hover:text-indigo-700"
+                                        title={selectedBoxIds.length > 1 ? label : `${label} to canvas`}
+                                    >
+                                        <Icon className="w-4 h-4" />
+                                    </button>
+                                ))}
+                                {DISTRIBUTE_TOOLS.map(({ axis, label, icon: Icon }) => (
+                                    <button
+                                        key={axis}
+                                        onClick={() => arrangeSelection(rects => distributeBoxes(rects, axis))}
+                                        disabled={selectedBoxIds.length < 3}
+                                        className="p-1.5 rounded border border-gray-300 bg-white text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 disabled:opacity-40 disabled:hover:bg-white disabled:hover:text-gray-700"
+                                        title={selectedBoxIds.length < 3 ? `${label} (select 3 or more)` : label}
+                                    >
+                                        <Icon className="w-4 h-4" />
+                                    </button>
+                                ))}
+                            </div>
+                            <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={snapEnabled}
+                                    onChange={e => setSnapEnabled(e.target.checked)}
+                                    className="rounded"
+                                />
+                                Snap to canvas, scroll and other boxes (hold Alt to drag freely)
+                            </label>
+                            <p className="text-xs text-gray-400">
+                                Shift-click or drag on empty canvas to select several boxes. Arrow keys nudge, Shift+arrow moves further.
+                            </p>
+                        </div>
+                    )}
+
                     {/* Selected Item Properties */}
                     {selectedBox && (
                         <div className="p-3 bg-indigo-50 rounded-lg border border-indigo-100 space-y-3 animate-in fade-in slide-in-from-left-4">
                             <div className="flex justify-between items-center">
-                                <span className="text-xs font-bold text-indigo-800 uppercase">Edit Text</span>
+                                <span className="text-xs font-bold text-indigo-800 uppercase">
+                                    Edit Text{translating && ` · ${languageLabel(locale)}`}
+                                </span>
                                 <button onClick={() => deleteTextBox(selectedBox.id)} className="text-red-500 hover:text-red-700">
                                     <Trash2 className="w-4 h-4" />
                                 </button>
                             </div>
+                            {translating && (
+                                <p className="text-xs text-gray-600 bg-white border border-indigo-100 rounded p-2 whitespace-pre-line">
+                                    <span className="font-semibold">{languageLabel(baseLocale)}:</span> {selectedBox.text || <em>No text</em>}
+                                </p>
+                            )}
                             <div className="relative">
                                 <textarea
                                     ref={textareaRef}
-                                    value={selectedBox.text}
+                                    value={boxText(selectedBox)}
                                     onChange={e => handleTextChange(selectedBox.id, e.target.value)}
                                     onKeyDown={e => {
                                         // Handle arrow keys and enter for suggestion selection
@@ -2149,7 +2679,7 @@ const PageEditor: React.FC = () => {
                                     }}
                                     className="w-full text-sm p-2 border rounded focus:ring-2 focus:ring-indigo-300 outline-none"
                                     rows={3}
-                                    placeholder={characterVoices.length > 0 ? 'Type @ to insert character voice...' : 'Enter text...'}
+                                    placeholder={translating ? `${languageLabel(locale)} translation...` : characterVoices.length > 0 ? 'Type @ to insert character voice...' : 'Enter text...'}
                                 />
                                 
                                 {/* Character voice autocomplete dropdown */}
@@ -2184,6 +2714,62 @@ const PageEditor: React.FC = () => {
                                 )}
                             </div>
                             
+                            {/* Inline styles for the selected words (the whole box when nothing is selected) */}
+                            {!translating && (
+                                <div className="flex items-center gap-1 bg-white p-1 rounded border border-gray-200">
+                                    <button
+                                        onClick={() => toggleSelectionStyle(selectedBox, 'bold')}
+                                        className="p-1 rounded text-gray-700 hover:bg-gray-100"
+                                        title="Bold"
+                                    >
+                                        <Bold className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => toggleSelectionStyle(selectedBox, 'italic')}
+                                        className="p-1 rounded text-gray-700 hover:bg-gray-100"
+                                        title="Italic"
+                                    >
+                                        <Italic className="w-4 h-4" />
+                                    </button>
+                                    <input
+                                        type="color"
+                                        value={selectedBox.color}
+                                        onChange={e => styleSelection(selectedBox, () => ({ color: e.target.value, character: undefined }))}
+                                        className="w-7 h-7 p-0.5 rounded cursor-pointer"
+                                        title="Color"
+                                    />
+                                    <select
+                                        value=""
+                                        onChange={e => {
+                                            const scale = Number(e.target.value);
+                                            styleSelection(selectedBox, () => ({ fontSize: scale === 100 ? undefined : Math.round(selectedBox.fontSize * scale / 100) }));
+                                        }}
+                                        className="text-xs border border-gray-200 rounded px-1 py-1 bg-white"
+                                        title="Size, relative to the box"
+                                    >
+                                        <option value="" disabled>Size</option>
+                                        {[75, 100, 125, 150, 200].map(scale => (
+                                            <option key={scale} value={scale}>{scale === 100 ? 'Normal' : `${scale}%`}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        onClick={() => updateTextBox(selectedBox.id, { spans: characterSpans(selectedBox.text, selectedBox.spans, characterVoices) })}
+                                        disabled={characterVoices.length === 0}
+                                        className="p-1 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-40"
+                                        title="Colour each @Character's lines with their voice color (set in the book's Character Voices)"
+                                    >
+                                        <Drama className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => styleSelection(selectedBox, () => ({ bold: undefined, italic: undefined, color: undefined, fontSize: undefined, character: undefined }))}
+                                        className="p-1 rounded text-gray-700 hover:bg-gray-100 ml-auto"
+                                        title="Clear styles"
+                                    >
+                                        <RemoveFormatting className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            )}
+
                             {/* Enhance Buttons */}
                             <div className="flex gap-2">
                                 {/* Emotion Enhance Button */}
@@ -2223,6 +2809,38 @@ const PageEditor: React.FC = () => {
                             <p className="text-xs text-gray-500 text-center">
                                 Emotion: [laughs], [whispers] • SFX: [birds chirping], [thunder]
                             </p>
+
+                            {/* Narration preview */}
+                            <button
+                                onClick={() => handlePlayNarration(selectedBox)}
+                                className={`w-full flex items-center justify-center gap-1 py-2 px-2 text-xs font-semibold rounded-lg transition ${narration.preview?.boxId === selectedBox.id ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-white text-indigo-700 border border-indigo-200 hover:bg-indigo-100'}`}
+                                title="Generate this box's narration with its narrator and character voices and follow along on the canvas"
+                            >
+                                {narration.preview?.boxId !== selectedBox.id ? (
+                                    <><Play className="w-3 h-3" /> Play narration</>
+                                ) : narration.preview.state === 'loading' ? (
+                                    <><Loader2 className="w-3 h-3 animate-spin" /> Generating... (click to cancel)</>
+                                ) : (
+                                    <><Square className="w-3 h-3" /> Stop</>
+                                )}
+                            </button>
+                            {narration.preview?.boxId === selectedBox.id && narration.preview.state === 'playing' && narration.preview.estimated && (
+                                <p className="text-xs text-gray-500 text-center">Word timing is estimated; the server returned no timestamps.</p>
+                            )}
+
+                            {selectedBoxIssues.length > 0 && (
+                                <div className="space-y-1">
+                                    {selectedBoxIssues.map(issue => (
+                                        <div
+                                            key={issue.message}
+                                            className={`flex items-start gap-1 text-xs p-2 rounded border ${issue.severity === 'error' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'}`}
+                                        >
+                                            <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                                            <span>{issue.message}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                             
                             <div className="flex gap-1 bg-white p-1 rounded border border-gray-200">
                                 <button
@@ -2317,16 +2935,13 @@ const PageEditor: React.FC = () => {
                                     onChange={e => updateTextBox(selectedBox.id, { fontFamily: e.target.value })}
                                     className="w-full text-sm p-2 border rounded focus:ring-2 focus:ring-indigo-300 outline-none"
                                 >
-                                    <option value="Comic Sans MS">Comic Sans MS</option>
-                                    <option value="Bubblegum Sans">Bubblegum Sans</option>
-                                    <option value="Fredoka One">Fredoka One</option>
-                                    <option value="Baloo 2">Baloo 2</option>
-                                    <option value="Chewy">Chewy</option>
-                                    <option value="Luckiest Guy">Luckiest Guy</option>
-                                    <option value="Bangers">Bangers</option>
-                                    <option value="Pacifico">Pacifico</option>
-                                    <option value="Caveat">Caveat</option>
-                                    <option value="Patrick Hand">Patrick Hand</option>
+                                    {fontFamilies.map(family => (
+                                        <option key={family} value={family}>{family}</option>
+                                    ))}
+                                    {/* Keep a font the page already uses selectable, even if it isn't offered */}
+                                    {!fontFamilies.includes(selectedBox.fontFamily) && (
+                                        <option value={selectedBox.fontFamily}>{selectedBox.fontFamily} (not available)</option>
+                                    )}
                                 </select>
                             </div>
 
@@ -2475,11 +3090,18 @@ const PageEditor: React.FC = () => {
                 <div className="p-4 border-t border-gray-200 bg-gray-50 space-y-2">
                     <button
                         onClick={handleSubmit}
-                        disabled={loading}
+                        disabled={loading || readOnly}
+                        title={readOnly ? 'You have read-only access to books' : undefined}
                         className="w-full py-3 bg-indigo-600 text-white rounded-lg font-semibold shadow-md hover:bg-indigo-700 transition flex items-center justify-center gap-2 disabled:opacity-50"
                     >
                         {loading ? 'Saving...' : <><Save className="w-5 h-5" /> {editingPageId ? 'Update Page' : 'Save Page'}</>}
                     </button>
+                    {(hasUnsavedChanges || hasPendingUploads) && (
+                        <p className="text-xs text-center text-amber-700">
+                            Unsaved changes
+                            {draftSavedAt && ` · draft kept locally at ${new Date(draftSavedAt).toLocaleTimeString()}`}
+                        </p>
+                    )}
                     
                     {/* Clear TTS Cache Button */}
                     <button
@@ -2504,9 +3126,77 @@ const PageEditor: React.FC = () => {
 
             {/* Main Canvas Area */}
             <div className="flex-1 bg-gray-200 flex items-center justify-center p-8 overflow-auto relative">
+                {/* Language the text boxes are edited in */}
+                {bookLocales(bookSettings).length > 1 && (
+                    <label className="absolute top-3 left-3 z-20 flex items-center gap-2 bg-white rounded-lg shadow-md border border-gray-200 px-2 py-1.5 text-sm text-gray-700">
+                        <Languages className="w-4 h-4" />
+                        <select
+                            value={locale}
+                            onChange={e => {
+                                narration.stop();
+                                setEditorLocale(e.target.value);
+                            }}
+                            className="bg-transparent outline-none"
+                        >
+                            {bookLocales(bookSettings).map(code => (
+                                <option key={code} value={code}>{languageLabel(code)}{code === baseLocale ? ' (book)' : ''}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+
+                {/* Undo / Redo / History */}
+                <div className="absolute top-3 right-3 z-20 flex flex-col items-end gap-2">
+                    <div className="flex bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+                        <button
+                            onClick={canvasHistory.undo}
+                            disabled={!canvasHistory.canUndo}
+                            className="p-2 text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+                            title="Undo (Ctrl+Z)"
+                        >
+                            <Undo2 className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={canvasHistory.redo}
+                            disabled={!canvasHistory.canRedo}
+                            className="p-2 text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent border-l border-gray-200"
+                            title="Redo (Ctrl+Shift+Z)"
+                        >
+                            <Redo2 className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setShowHistory(!showHistory)}
+                            className={`p-2 border-l border-gray-200 ${showHistory ? 'bg-indigo-50 text-indigo-600' : 'text-gray-700 hover:bg-gray-100'}`}
+                            title="History"
+                        >
+                            <History className="w-4 h-4" />
+                        </button>
+                        {canReview('comment') && (
+                            <button
+                                onClick={() => setPlacingComment(!placingComment)}
+                                disabled={!editingPageId}
+                                className={`p-2 border-l border-gray-200 disabled:opacity-40 ${placingComment ? 'bg-amber-50 text-amber-600' : 'text-gray-700 hover:bg-gray-100'}`}
+                                title={editingPageId ? 'Pin a comment on the page' : 'Save the page before commenting on it'}
+                            >
+                                <MessageSquarePlus className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                    {showHistory && (
+                        <HistoryPanel
+                            past={canvasHistory.past}
+                            future={canvasHistory.future}
+                            onTravel={canvasHistory.travel}
+                            onClose={() => setShowHistory(false)}
+                            originLabel={editingPageId ? `Opened page ${pageNumber}` : 'New page'}
+                        />
+                    )}
+                </div>
+
                 {/* Canvas Container */}
                 <div
                     ref={canvasRef}
+                    onMouseDown={handleCanvasMouseDown}
                     className="relative bg-white shadow-2xl overflow-hidden transition-all duration-300 ease-in-out"
                     style={{
                         width: `${canvasWidth}px`,
@@ -2610,6 +3300,8 @@ const PageEditor: React.FC = () => {
                                 bottom: `${scrollOffsetY}%` // Apply vertical offset
                             }}
                             onMouseDown={(e) => {
+                                // Shift-drag on the scroll draws a selection marquee instead
+                                if (e.shiftKey) return;
                                 e.stopPropagation();
                                 setIsDraggingScroll(true);
                                 setScrollDragStart({ 
@@ -2617,7 +3309,7 @@ const PageEditor: React.FC = () => {
                                     y: e.clientY 
                                 });
                             }}
-                            title="Drag to reposition scroll"
+                            title="Drag to reposition scroll (Shift-drag to select text boxes)"
                         >
                             <img 
                                 src={scrollPreview} 
@@ -2649,8 +3341,9 @@ const PageEditor: React.FC = () => {
                         return (
                         <div
                             key={box.id}
+                            data-box-id={box.id}
                             onMouseDown={(e) => handleMouseDown(e, box.id)}
-                            className={`absolute cursor-move p-2 z-20 group ${selectedBoxId === box.id ? 'ring-2 ring-indigo-500' : 'hover:ring-1 hover:ring-indigo-300'
+                            className={`absolute cursor-move p-2 z-20 group ${selectedBoxIds.includes(box.id) ? 'ring-2 ring-indigo-500' : 'hover:ring-1 hover:ring-indigo-300'
                                 }`}
                             style={{
                                 left: `${box.x}%`,
@@ -2677,10 +3370,24 @@ const PageEditor: React.FC = () => {
                             }}
                         >
                             {/* Drag Handle Icon (visible on hover or select) */}
-                            <div className={`absolute -top-6 left-0 bg-indigo-600 text-white p-1 rounded-full ${selectedBoxId === box.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
+                            <div className={`absolute -top-6 left-0 bg-indigo-600 text-white p-1 rounded-full ${selectedBoxIds.includes(box.id) ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
                                 <Move className="w-3 h-3" />
                             </div>
 
+                            {/* Fit and readability warnings */}
+                            {(() => {
+                                const issues = boxIssues(box);
+                                if (!issues.length) return null;
+                                return (
+                                    <div
+                                        className={`absolute -top-6 right-0 text-white p-1 rounded-full ${issues.some(issue => issue.severity === 'error') ? 'bg-red-600' : 'bg-amber-500'}`}
+                                        title={issues.map(issue => issue.message).join('\n')}
+                                    >
+                                        <AlertTriangle className="w-3 h-3" />
+                                    </div>
+                                );
+                            })()}
+
                             {/* Resize Handle (Right Edge) */}
                             {selectedBoxId === box.id && (
                                 <div
@@ -2694,11 +3401,45 @@ const PageEditor: React.FC = () => {
                                 </div>
                             )}
 
-                            {box.text}
+                            {/* The word being narrated is highlighted; untranslated boxes show the base text faded */}
+                            {(() => {
+                                const text = boxText(box);
+                                if (!text) return <span className="opacity-40" title={`Not translated to ${languageLabel(locale)} yet`}>{box.text}</span>;
+                                return (
+                                    <RichText
+                                        text={text}
+                                        spans={translating ? undefined : box.spans}
+                                        baseFontSize={box.fontSize}
+                                        characterVoices={characterVoices}
+                                        highlight={narration.preview?.boxId === box.id && narration.preview.text === text ? narration.preview.word : null}
+                                    />
+                                );
+                            })()}
                         </div>
                         );
                     })}
 
+                    {/* Snap guides while dragging */}
+                    {snapLines.x.map(x => (
+                        <div key={`snap-x-${x}`} className="absolute top-0 h-full w-px bg-pink-500 z-30 pointer-events-none" style={{ left: `${x}%` }} />
+                    ))}
+                    {snapLines.y.map(y => (
+                        <div key={`snap-y-${y}`} className="absolute left-0 w-full h-px bg-pink-500 z-30 pointer-events-none" style={{ top: `${y}%` }} />
+                    ))}
+
+                    {/* Marquee selection */}
+                    {marquee && (
+                        <div
+                            className="absolute border border-indigo-500 bg-indigo-500/10 z-40 pointer-events-none"
+                            style={{
+                                left: `${Math.min(marquee.startX, marquee.x)}%`,
+                                top: `${Math.min(marquee.startY, marquee.y)}%`,
+                                width: `${Math.abs(marquee.x - marquee.startX)}%`,
+                                height: `${Math.abs(marquee.y - marquee.startY)}%`,
+                            }}
+                        />
+                    )}
+
                     {/* Sound Effect Bubble Preview */}
                     {soundEffectPreview && (
                         <div
@@ -2728,6 +3469,15 @@ const PageEditor: React.FC = () => {
                             </div>
                         </div>
                     )}
+
+                    <PageCommentLayer
+                        key={editingPageId ?? 'new'}
+                        comments={pageComments}
+                        page={editingPageId ? { _id: editingPageId, pageNumber } : null}
+                        placing={placingComment}
+                        onPlaced={() => setPlacingComment(false)}
+                        canComment={canReview('comment')}
+                    />
                 </div>
 
                 <div className="absolute bottom-4 right-4 text-gray-500 text-xs bg-white/80 px-2 py-1 rounded">
@@ -2749,7 +3499,7 @@ const PageEditor: React.FC = () => {
                 <div className="p-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
                     <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wider">Pages ({existingPages.length})</h3>
                     <button
-                        onClick={createNewPage}
+                        onClick={openNewPage}
                         className="bg-indigo-600 text-white px-3 py-1 rounded text-xs font-semibold hover:bg-indigo-700 transition flex items-center gap-1"
                         title="Add New Page"
                     >
@@ -2770,14 +3520,13 @@ const PageEditor: React.FC = () => {
                                     ? 'border-indigo-600 ring-2 ring-indigo-300'
                                     : 'border-gray-200 hover:border-indigo-400'
                                     }`}
-                                onClick={() => loadPage(page)}
+                                onClick={() => openPage(page)}
                             >
                                 <div className="aspect-[4/3] bg-gray-100 relative overflow-hidden">
-                                    {/* Check all possible background URL locations */}
-                                    {(page.backgroundUrl || page.files?.background?.url) ? (
-                                        (page.backgroundType || page.files?.background?.type) === 'video' ? (
+                                    {page.backgroundUrl ? (
+                                        page.backgroundType === 'video' ? (
                                             <video
-                                                src={resolveUrl(page.backgroundUrl || page.files?.background?.url)}
+                                                src={resolveUrl(page.backgroundUrl)}
                                                 className="w-full h-full object-cover"
                                                 muted
                                                 autoPlay
@@ -2786,7 +3535,7 @@ const PageEditor: React.FC = () => {
                                             />
                                         ) : (
                                             <img
-                                                src={resolveUrl(page.backgroundUrl || page.files?.background?.url)}
+                                                src={resolveUrl(page.backgroundUrl)}
                                                 alt={`Page ${page.pageNumber}`}
                                                 className="w-full h-full object-cover"
                                             />
@@ -2801,6 +3550,16 @@ const PageEditor: React.FC = () => {
                                     <div className="absolute top-2 left-2 bg-indigo-600 text-white text-xs font-bold px-2 py-1 rounded">
                                         #{page.pageNumber}
                                     </div>
+
+                                    {pageComments.unresolvedCount(page._id) > 0 && (
+                                        <div
+                                            className="absolute bottom-2 right-2 bg-amber-500 text-white text-xs font-bold px-2 py-0.5 rounded-full flex items-center gap-1"
+                                            title="Unresolved comments"
+                                        >
+                                            <MessageSquare className="w-3 h-3" />
+                                            {pageComments.unresolvedCount(page._id)}
+                                        </div>
+                                    )}
                                     
                                     {/* Delete button - visible on hover */}
                                     <button
@@ -2817,7 +3576,7 @@ const PageEditor: React.FC = () => {
 
                                 <div className="p-2 bg-white group-hover:bg-indigo-50 transition">
                                     <p className="text-xs text-gray-600 truncate">
-                                        {(page.content?.textBoxes?.length || page.textBoxes?.length || 0)} text box{(page.content?.textBoxes?.length || page.textBoxes?.length || 0) !== 1 ? 'es' : ''}
+                                        {page.textBoxes.length} text box{page.textBoxes.length !== 1 ? 'es' : ''}
                                     </p>
                                 </div>
                             </div>
@@ -2826,46 +3585,94 @@ const PageEditor: React.FC = () => {
                 </div>
             </div>
 
-            {/* Template Dialog */}
-            {showTemplateDialog && (
+            <UnsavedChangesGuard
+                when={hasUnsavedChanges || hasPendingUploads}
+                detail={hasPendingUploads
+                    ? 'Files you picked but haven\'t saved will need to be picked again. Other edits are kept as a local draft.'
+                    : 'Your edits are kept as a local draft and can be restored next time you open this page.'}
+                onLeave={flushDraft}
+            />
+
+            {/* Restore Draft Dialog */}
+            {showDraftPrompt && pendingDraft && (
                 <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
                     <div className="bg-white rounded-lg p-6 max-w-md mx-4 shadow-2xl">
-                        <h3 className="text-lg font-bold text-gray-800 mb-2">Save as Template?</h3>
+                        <h3 className="text-lg font-bold text-gray-800 mb-2">Restore Unsaved Draft?</h3>
                         <p className="text-gray-600 mb-6">
-                            Would you like to reuse the scroll image and text box layout for all future pages in this book?
-                            This will save you time when creating new pages!
+                            Page {pendingDraft.pageNumber} has edits from {new Date(pendingDraft.savedAt).toLocaleString()} that
+                            were never saved. Restore them, or discard the draft and keep the page as it is?
                         </p>
                         <div className="flex gap-3">
                             <button
-                                onClick={() => {
-                                    // Save template to localStorage
-                                    const template = {
-                                        scrollUrl: scrollPreview || '',
-                                        scrollHeight,
-                                        textBoxes: textBoxes.map(({ id, ...rest }) => rest)
-                                    };
-                                    localStorage.setItem(`pageTemplate_${bookId}`, JSON.stringify(template));
-                                    setPageTemplate(template);
-                                    setShowTemplateDialog(false);
-                                    createNewPage();
-                                }}
+                                onClick={restoreDraft}
                                 className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-700 transition"
                             >
-                                Yes, Reuse Layout
+                                Restore Draft
                             </button>
                             <button
-                                onClick={() => {
-                                    setShowTemplateDialog(false);
-                                    createNewPage();
-                                }}
+                                onClick={discardDraft}
                                 className="flex-1 bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-semibold hover:bg-gray-300 transition"
                             >
-                                No, Thanks
+                                Discard
                             </button>
                         </div>
                     </div>
                 </div>
             )}
+
+            {showTemplateLibrary && bookId && (
+                <PageTemplateLibrary
+                    bookId={bookId}
+                    bookTitle={bookTitle}
+                    pages={existingPages}
+                    currentLayout={currentLayout}
+                    readOnly={readOnly}
+                    defaultTemplateId={defaultTemplate?._id ?? null}
+                    onSetDefault={handleSetDefaultTemplate}
+                    onApplyToEditor={applyLayoutToEditor}
+                    onPagesUpdated={handleTemplatePagesUpdated}
+                    onClose={() => setShowTemplateLibrary(false)}
+                />
+            )}
+
+            {showRevisions && editingPageId && (
+                <RevisionHistory
+                    type="page"
+                    documentId={editingPageId}
+                    title={`Page ${pageNumber}`}
+                    readOnly={readOnly}
+                    hasUnsavedChanges={hasUnsavedChanges}
+                    onRolledBack={() => handleTemplatePagesUpdated([editingPageId])}
+                    onClose={() => setShowRevisions(false)}
+                />
+            )}
+
+            {/* Review comments live on the book; this opens them filtered to the current page */}
+            {showReview && bookId && editingPageId && (
+                <ReviewPanel
+                    type="book"
+                    documentId={bookId}
+                    title={bookTitle || 'Book'}
+                    status={bookStatus}
+                    anchors={existingPages.map((page) => ({
+                        label: `Page ${page.pageNumber}`,
+                        anchor: { pageId: page._id, pageNumber: page.pageNumber },
+                    }))}
+                    initialAnchor={{ pageId: editingPageId, pageNumber }}
+                    hasUnsavedChanges={hasUnsavedChanges}
+                    onBeforeTransition={async (action) => {
+                        if (action !== 'publish') return true;
+                        const { errors } = countIssues(validateBook(await booksApi.get(bookId), existingPages));
+                        if (errors) alert(`Publishing blocked: ${errors} validation error${errors === 1 ? '' : 's'}. Use Validate on the book's edit page to see them.`);
+                        return errors === 0;
+                    }}
+                    onStatusChange={setBookStatus}
+                    onClose={() => {
+                        setShowReview(false);
+                        pageComments.reload();
+                    }}
+                />
+            )}
         </div>
     );
 };
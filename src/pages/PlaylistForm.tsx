@@ -1,28 +1,18 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import { ArrowLeft, Upload, Plus, Trash2, GripVertical, Music, Save, X, Lock, Unlock, Star } from 'lucide-react';
-import apiClient from '../services/apiClient';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Upload, Plus, Trash2, GripVertical, Music, Save, X, Lock, Unlock, Star, History, ClipboardCheck } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { categoriesApi, playlistsApi, uploadsApi } from '../services/api';
+import { type Category, type PlaylistItem, type ReviewStatus } from '../types';
 import ContentAnalytics from '../components/ContentAnalytics';
+import ReviewPanel from '../components/ReviewPanel';
+import RevisionHistory from '../components/RevisionHistory';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
 
-interface AudioItem {
-    _id?: string;
-    title: string;
-    author: string;
-    description?: string;
-    coverImage?: string;
-    audioUrl: string;
-    duration?: number;
-    order: number;
-    isMembersOnly?: boolean; // Whether this specific song/episode requires membership
-    isFeatured?: boolean; // Whether this episode is featured on the app home page
-    featuredOrder?: number; // Order in featured section
-}
+// Items added in the form have no _id until the playlist is saved
+type AudioItem = Omit<PlaylistItem, '_id'> & { _id?: string };
 
-interface Category {
-    _id: string;
-    name: string;
-    type: 'book' | 'audio';
-}
 
 interface PlaylistFormData {
     title: string;
@@ -33,7 +23,7 @@ interface PlaylistFormData {
     categories?: string[]; // Multiple categories
     type: 'Song' | 'Audiobook';
     items: AudioItem[];
-    status: 'draft' | 'published';
+    status: ReviewStatus;
     isMembersOnly?: boolean;
     minAge?: number;
     level?: string;
@@ -60,6 +50,12 @@ const PlaylistForm: React.FC = () => {
         level: '',
     });
     const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [searchParams] = useSearchParams();
+    // The review queue links here with ?review=1
+    const [showReview, setShowReview] = useState(searchParams.get('review') === '1');
+    const { canEdit, canReview } = useAuth();
+    const readOnly = !canEdit('content');
 
     useEffect(() => {
         fetchCategories();
@@ -71,11 +67,7 @@ const PlaylistForm: React.FC = () => {
     const fetchCategories = async () => {
         try {
             // Only fetch audio categories
-            const response = await apiClient.get('/api/categories?type=audio');
-            // Handle paginated response or direct array
-            const categoriesData = Array.isArray(response.data) 
-                ? response.data 
-                : (response.data.data || response.data.categories || []);
+            const categoriesData = await categoriesApi.list('audio');
             setCategories(categoriesData);
             if (categoriesData.length > 0 && !formData.category) {
                 setFormData(prev => ({ ...prev, category: categoriesData[0].name }));
@@ -86,23 +78,29 @@ const PlaylistForm: React.FC = () => {
     };
 
     const fetchPlaylist = async () => {
+        if (!id) return;
         try {
-            const response = await apiClient.get(`/api/playlists/${id}`);
-            setFormData(response.data);
+            const playlist = await playlistsApi.get(id);
+            setFormData({
+                ...playlist,
+                description: playlist.description || '',
+                coverImage: playlist.coverImage || '',
+            });
             // Initialize selectedCategories from the playlist data
-            if (response.data.categories && Array.isArray(response.data.categories)) {
-                setSelectedCategories(response.data.categories);
-            } else if (response.data.category) {
-                setSelectedCategories([response.data.category]);
+            if (playlist.categories && Array.isArray(playlist.categories)) {
+                setSelectedCategories(playlist.categories);
+            } else if (playlist.category) {
+                setSelectedCategories([playlist.category]);
             }
         } catch (error) {
             console.error('Error fetching playlist:', error);
-            alert('Failed to load playlist');
+            alert(getApiErrorMessage(error, 'Failed to load playlist'));
         }
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (readOnly) return;
         
         // Validate that all items have required fields
         const missingFields = formData.items.some(item => 
@@ -129,9 +127,9 @@ const PlaylistForm: React.FC = () => {
             };
             
             if (id) {
-                await apiClient.put(`/api/playlists/${id}`, payload);
+                await playlistsApi.update(id, payload);
             } else {
-                await apiClient.post('/api/playlists', payload);
+                await playlistsApi.create(payload);
             }
             navigate('/playlists');
         } catch (error: any) {
@@ -145,44 +143,33 @@ const PlaylistForm: React.FC = () => {
     };
 
     const handleFileUpload = async (file: File, type: 'cover' | 'audio' | 'itemCover', itemIndex?: number) => {
+        if (readOnly) return;
         setUploading(true);
-        const formDataUpload = new FormData();
-        formDataUpload.append('file', file);
-
         try {
-            let endpoint: string;
-            let queryParams = '';
+            let uploaded: { url: string };
 
             if (type === 'cover') {
                 // Playlist cover image - always use playlists folder
-                endpoint = '/api/upload/image';
-                queryParams = `?bookId=playlists&type=cover`;
+                uploaded = await uploadsApi.upload('image', file, { bookId: 'playlists', type: 'cover' });
             } else if (type === 'itemCover' && itemIndex !== undefined) {
                 // Song/episode cover image - always use playlists folder
-                endpoint = '/api/upload/image';
-                queryParams = `?bookId=playlists&type=cover`;
+                uploaded = await uploadsApi.upload('image', file, { bookId: 'playlists', type: 'cover' });
             } else if (type === 'audio' && itemIndex !== undefined) {
                 // Audio file (MP3) - always use playlists folder
-                endpoint = '/api/upload/audio';
-                queryParams = `?bookId=playlists&type=audio`;
+                uploaded = await uploadsApi.upload('audio', file, { bookId: 'playlists', type: 'audio' });
             } else {
                 throw new Error('Invalid upload type or missing parameters');
             }
-            
-            const response = await apiClient.post(`${endpoint}${queryParams}`, formDataUpload, {
-                headers: { 'Content-Type': 'multipart/form-data' },
-                timeout: 120000, // 2 minutes for large audio files
-            });
 
             if (type === 'cover') {
-                setFormData({ ...formData, coverImage: response.data.url });
+                setFormData({ ...formData, coverImage: uploaded.url });
             } else if (type === 'itemCover' && itemIndex !== undefined) {
                 const newItems = [...formData.items];
-                newItems[itemIndex].coverImage = response.data.url;
+                newItems[itemIndex].coverImage = uploaded.url;
                 setFormData({ ...formData, items: newItems });
             } else if (type === 'audio' && itemIndex !== undefined) {
                 const newItems = [...formData.items];
-                newItems[itemIndex].audioUrl = response.data.url;
+                newItems[itemIndex].audioUrl = uploaded.url;
                 setFormData({ ...formData, items: newItems });
             }
         } catch (error: any) {
@@ -237,8 +224,28 @@ const PlaylistForm: React.FC = () => {
                 <h1 className="text-3xl font-bold text-gray-800">
                     {id ? 'Edit Playlist' : 'Create Playlist'}
                 </h1>
+                {id && (
+                    <div className="ml-auto flex gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setShowReview(true)}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            <ClipboardCheck className="w-4 h-4" /> Review
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setShowRevisions(true)}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            <History className="w-4 h-4" /> History
+                        </button>
+                    </div>
+                )}
             </div>
 
+            {readOnly && <ReadOnlyBanner subject="playlist" />}
+
             {/* Analytics Section - Only show when editing */}
             {id && (
                 <div className="mb-6">
@@ -436,6 +443,7 @@ const PlaylistForm: React.FC = () => {
                                     type="file"
                                     accept="image/*"
                                     onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0], 'cover', undefined)}
+                                    disabled={readOnly}
                                     className="hidden"
                                 />
                             </label>
@@ -449,14 +457,16 @@ const PlaylistForm: React.FC = () => {
                         <h2 className="text-xl font-semibold text-gray-800">
                             {formData.type === 'Song' ? 'Songs' : 'Episodes'}
                         </h2>
-                        <button
-                            type="button"
-                            onClick={addItem}
-                            className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
-                        >
-                            <Plus className="w-4 h-4" />
-                            Add {formData.type === 'Song' ? 'Song' : 'Episode'}
-                        </button>
+                        {!readOnly && (
+                            <button
+                                type="button"
+                                onClick={addItem}
+                                className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
+                            >
+                                <Plus className="w-4 h-4" />
+                                Add {formData.type === 'Song' ? 'Song' : 'Episode'}
+                            </button>
+                        )}
                     </div>
 
                     {formData.items.length === 0 ? (
@@ -526,6 +536,7 @@ const PlaylistForm: React.FC = () => {
                                                             type="file"
                                                             accept="image/*"
                                                             onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0], 'itemCover', index)}
+                                                            disabled={readOnly}
                                                             className="hidden"
                                                         />
                                                     </label>
@@ -550,6 +561,7 @@ const PlaylistForm: React.FC = () => {
                                                         <input
                                                             type="file"
                                                             accept="audio/mpeg,audio/mp3,.mp3"
+                                                            disabled={readOnly}
                                                             onChange={(e) => {
                                                                 const file = e.target.files?.[0];
                                                                 if (file) {
@@ -632,7 +644,8 @@ const PlaylistForm: React.FC = () => {
                                         <button
                                             type="button"
                                             onClick={() => removeItem(index)}
-                                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                            disabled={readOnly}
+                                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                                         >
                                             <Trash2 className="w-5 h-5" />
                                         </button>
@@ -652,28 +665,72 @@ const PlaylistForm: React.FC = () => {
                     >
                         Cancel
                     </button>
-                    <div className="flex gap-3">
-                        <button
-                            type="submit"
-                            onClick={() => setFormData({ ...formData, status: 'draft' })}
-                            disabled={loading || uploading}
-                            className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 flex items-center gap-2"
-                        >
-                            <Save className="w-4 h-4" />
-                            Save as Draft
-                        </button>
+                    {/* Only approvers publish from here; others save and submit through the Review panel */}
+                    {canReview('publish') ? (
+                        <div className="flex gap-3">
+                            <button
+                                type="submit"
+                                onClick={() => setFormData({ ...formData, status: 'draft' })}
+                                disabled={loading || uploading || readOnly}
+                                className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+                            >
+                                <Save className="w-4 h-4" />
+                                Save as Draft
+                            </button>
+                            <button
+                                type="submit"
+                                onClick={() => setFormData({ ...formData, status: 'published' })}
+                                disabled={loading || uploading || readOnly}
+                                className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+                            >
+                                <Save className="w-4 h-4" />
+                                {loading ? 'Saving...' : 'Save & Publish'}
+                            </button>
+                        </div>
+                    ) : (
                         <button
                             type="submit"
-                            onClick={() => setFormData({ ...formData, status: 'published' })}
-                            disabled={loading || uploading}
+                            disabled={loading || uploading || readOnly}
                             className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center gap-2"
                         >
                             <Save className="w-4 h-4" />
-                            {loading ? 'Saving...' : 'Save & Publish'}
+                            {loading ? 'Saving...' : 'Save'}
                         </button>
-                    </div>
+                    )}
                 </div>
             </form>
+
+            {showRevisions && id && (
+                <RevisionHistory
+                    type="playlist"
+                    documentId={id}
+                    title={formData.title || 'Playlist'}
+                    readOnly={readOnly}
+                    onRolledBack={fetchPlaylist}
+                    onClose={() => setShowRevisions(false)}
+                />
+            )}
+
+            {showReview && id && (
+                <ReviewPanel
+                    type="playlist"
+                    documentId={id}
+                    title={formData.title || 'Playlist'}
+                    status={formData.status}
+                    anchors={[
+                        { label: 'Title', anchor: { field: 'title' } },
+                        { label: 'Description', anchor: { field: 'description' } },
+                        { label: 'Cover image', anchor: { field: 'coverImage' } },
+                        { label: 'Categories', anchor: { field: 'categories' } },
+                        ...formData.items.map((item, idx) => ({
+                            label: `${formData.type === 'Song' ? 'Song' : 'Episode'} ${idx + 1}: ${item.title || 'Untitled'}`,
+                            anchor: { field: `items.${idx}` },
+                        })),
+                    ]}
+                    onStatusChange={(status) => setFormData(prev => ({ ...prev, status }))}
+                    onClose={() => setShowReview(false)}
+                />
+            )}
         </div>
     );
 };
@@ -1,54 +1,47 @@
 import React, { useEffect, useState } from 'react';
-import { Plus, Edit, Trash2, Music, BookOpen, Eye, EyeOff, List, BarChart3 } from 'lucide-react';
+import { Plus, Edit, Trash2, Music, BookOpen, Eye, EyeOff, List, BarChart3, Send } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import apiClient from '../services/apiClient';
+import { TRASH_RETENTION_DAYS, categoriesApi, playlistsApi, reviewsApi } from '../services/api';
+import { type Category, type Playlist, type ReviewStatus, STATUS_LABELS } from '../types';
+import BulkActionBar from '../components/BulkActionBar';
+import BulkProgressDialog from '../components/BulkProgressDialog';
 import PlaylistsAnalytics from '../components/PlaylistsAnalytics';
-
-interface AudioItem {
-    _id?: string;
-    title: string;
-    author: string;
-    coverImage?: string;
-    audioUrl: string;
-    duration?: number;
-    order: number;
-}
-
-interface Playlist {
-    _id: string;
-    title: string;
-    author: string;
-    description?: string;
-    coverImage?: string;
-    category: 'Music' | 'Stories' | 'Devotionals' | 'Other';
-    type: 'Song' | 'Audiobook';
-    items: AudioItem[];
-    status: 'draft' | 'published';
-    playCount: number;
-    createdAt: string;
-    updatedAt: string;
-}
+import StatusBadge from '../components/StatusBadge';
+import { useAuth } from '../contexts/AuthContext';
+import { useBulkAction } from '../hooks/useBulkAction';
+import { useSelection } from '../hooks/useSelection';
 
 type TabView = 'list' | 'analytics';
 
 const Playlists: React.FC = () => {
     const [playlists, setPlaylists] = useState<Playlist[]>([]);
     const [loading, setLoading] = useState(true);
-    const [filter, setFilter] = useState<'all' | 'draft' | 'published'>('all');
+    const [filter, setFilter] = useState<'all' | ReviewStatus>('all');
     const [activeTab, setActiveTab] = useState<TabView>('list');
+    const { canEdit, canReview } = useAuth();
+    const readOnly = !canEdit('content');
+    const canPublish = canReview('publish');
     const navigate = useNavigate();
+    const [categories, setCategories] = useState<Category[]>([]);
+    const selection = useSelection<Playlist>();
+    const bulk = useBulkAction();
 
     useEffect(() => {
         fetchPlaylists();
+        fetchCategories();
     }, []);
 
+    const fetchCategories = async () => {
+        try {
+            setCategories(await categoriesApi.list('audio'));
+        } catch (error) {
+            console.error('Error fetching categories:', error);
+        }
+    };
+
     const fetchPlaylists = async () => {
         try {
-            const response = await apiClient.get('/api/playlists?status=all');
-            // Handle paginated response { data: [...], pagination: {...} } or direct array
-            const playlistsData = Array.isArray(response.data) 
-                ? response.data 
-                : (response.data.data || response.data.playlists || []);
+            const playlistsData = await playlistsApi.list({ status: 'all' });
             setPlaylists(playlistsData);
         } catch (error) {
             console.error('Error fetching playlists:', error);
@@ -58,11 +51,12 @@ const Playlists: React.FC = () => {
     };
 
     const handleDelete = async (id: string) => {
-        if (!confirm('Are you sure you want to delete this playlist?')) return;
+        if (!confirm(`Move this playlist to the Trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`)) return;
 
         try {
-            await apiClient.delete(`/api/playlists/${id}`);
+            await playlistsApi.remove(id);
             setPlaylists(playlists.filter(p => p._id !== id));
+            selection.deselect([id]);
         } catch (error) {
             console.error('Error deleting playlist:', error);
             alert('Failed to delete playlist');
@@ -72,17 +66,39 @@ const Playlists: React.FC = () => {
     const handleToggleStatus = async (playlist: Playlist) => {
         const newStatus = playlist.status === 'published' ? 'draft' : 'published';
         try {
-            const response = await apiClient.put(`/api/playlists/${playlist._id}`, {
+            const updated = await playlistsApi.update(playlist._id, {
                 ...playlist,
                 status: newStatus,
             });
-            setPlaylists(playlists.map(p => p._id === playlist._id ? response.data : p));
+            setPlaylists(playlists.map(p => p._id === playlist._id ? updated : p));
         } catch (error) {
             console.error('Error updating playlist status:', error);
             alert('Failed to update playlist status');
         }
     };
 
+    const bulkUpdate = (title: string, patch: (playlist: Playlist) => Partial<Playlist>) => {
+        bulk.start(title, selection.items, async (playlist) => {
+            const updated = await playlistsApi.update(playlist._id, patch(playlist));
+            setPlaylists(prev => prev.map(p => p._id === updated._id ? updated : p));
+        }, selection.deselect);
+    };
+
+    const handleBulkSubmit = () => {
+        bulk.start('Submitting playlists for review', selection.items, async (playlist) => {
+            const status = await reviewsApi.transition('playlist', playlist._id, 'submit');
+            setPlaylists(prev => prev.map(p => p._id === playlist._id ? { ...p, status } : p));
+        }, selection.deselect);
+    };
+
+    const handleBulkDelete = () => {
+        if (!confirm(`Move ${selection.count} playlist(s) to the Trash? They can be restored for ${TRASH_RETENTION_DAYS} days.`)) return;
+        bulk.start('Moving playlists to the Trash', selection.items, async (playlist) => {
+            await playlistsApi.remove(playlist._id);
+            setPlaylists(prev => prev.filter(p => p._id !== playlist._id));
+        }, selection.deselect);
+    };
+
     const filteredPlaylists = playlists.filter(p => {
         if (filter === 'all') return true;
         return p.status === filter;
@@ -134,8 +150,8 @@ const Playlists: React.FC = () => {
             ) : (
                 <>
                     {/* Filter Tabs */}
-                    <div className="flex gap-2 mb-6">
-                        {(['all', 'draft', 'published'] as const).map((status) => (
+                    <div className="flex items-center gap-2 mb-6">
+                        {(['all', 'draft', 'in_review', 'approved', 'published'] as const).map((status) => (
                             <button
                                 key={status}
                                 onClick={() => setFilter(status)}
@@ -144,14 +160,61 @@ const Playlists: React.FC = () => {
                                         : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                                     }`}
                             >
-                                {status.charAt(0).toUpperCase() + status.slice(1)}
+                                {status === 'all' ? 'All' : STATUS_LABELS[status]}
                                 <span className="ml-2 text-sm opacity-75">
                                     ({status === 'all' ? playlists.length : playlists.filter(p => p.status === status).length})
                                 </span>
                             </button>
                         ))}
+                        {!readOnly && filteredPlaylists.length > 0 && (
+                            <label className="ml-auto flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={selection.allSelected(filteredPlaylists)}
+                                    onChange={() => selection.toggleAll(filteredPlaylists)}
+                                    className="rounded"
+                                />
+                                Select all
+                            </label>
+                        )}
                     </div>
 
+                    {selection.count > 0 && !readOnly && (
+                        <BulkActionBar
+                            count={selection.count}
+                            noun={selection.count === 1 ? 'playlist' : 'playlists'}
+                            disabled={bulk.run?.running}
+                            onClear={selection.clear}
+                            actions={[
+                                // Only approvers publish; everyone else sends playlists through review
+                                canPublish
+                                    ? { label: 'Publish', icon: Eye, onClick: () => bulkUpdate('Publishing playlists', () => ({ status: 'published' })) }
+                                    : { label: 'Submit for review', icon: Send, onClick: handleBulkSubmit },
+                                { label: 'Unpublish', icon: EyeOff, onClick: () => bulkUpdate('Unpublishing playlists', () => ({ status: 'draft' })) },
+                                // No Archive: unlike books and lessons, playlists have no archived status
+                                { label: 'Delete', icon: Trash2, onClick: handleBulkDelete, danger: true },
+                            ]}
+                            choices={[
+                                {
+                                    label: 'Add to category',
+                                    options: categories.map((cat) => ({ value: cat.name, label: cat.name })),
+                                    onChoose: (name) => bulkUpdate(`Adding playlists to ${name}`, (playlist) => ({
+                                        category: playlist.category || name,
+                                        categories: Array.from(new Set([...(playlist.categories ?? []), name])),
+                                    })),
+                                },
+                                {
+                                    label: 'Set access',
+                                    options: [{ value: 'members', label: 'Members only' }, { value: 'free', label: 'Free for everyone' }],
+                                    onChoose: (value) => bulkUpdate(
+                                        value === 'members' ? 'Making playlists members-only' : 'Making playlists free',
+                                        () => ({ isMembersOnly: value === 'members' })
+                                    ),
+                                },
+                            ]}
+                        />
+                    )}
+
                     {loading ? (
                         <div className="flex justify-center items-center h-64">
                             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
@@ -172,7 +235,7 @@ const Playlists: React.FC = () => {
                     ) : (
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                             {filteredPlaylists.map((playlist) => (
-                                <div key={playlist._id} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow">
+                                <div key={playlist._id} className={`bg-white rounded-lg shadow-sm border overflow-hidden hover:shadow-md transition-shadow ${selection.isSelected(playlist._id) ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200'}`}>
                                     {/* Cover Image */}
                                     <div className="aspect-square bg-gradient-to-br from-indigo-500 to-purple-600 relative">
                                         {playlist.coverImage ? (
@@ -186,13 +249,17 @@ const Playlists: React.FC = () => {
                                                 )}
                                             </div>
                                         )}
+                                        {!readOnly && (
+                                            <input
+                                                type="checkbox"
+                                                checked={selection.isSelected(playlist._id)}
+                                                onChange={() => selection.toggle(playlist)}
+                                                className="absolute top-3 left-3 w-5 h-5 rounded cursor-pointer"
+                                                title="Select"
+                                            />
+                                        )}
                                         <div className="absolute top-2 right-2 flex gap-2">
-                                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${playlist.status === 'published'
-                                                    ? 'bg-green-500 text-white'
-                                                    : 'bg-yellow-500 text-white'
-                                                }`}>
-                                                {playlist.status}
-                                            </span>
+                                            <StatusBadge status={playlist.status} />
                                             <span className="px-2 py-1 rounded-full text-xs font-medium bg-black/50 text-white backdrop-blur-sm">
                                                 {playlist.type}
                                             </span>
@@ -221,11 +288,12 @@ const Playlists: React.FC = () => {
                                             </button>
                                             <button
                                                 onClick={() => handleToggleStatus(playlist)}
-                                                className={`px-3 py-2 rounded-lg transition-colors flex items-center justify-center ${playlist.status === 'published'
+                                                disabled={readOnly || (playlist.status !== 'published' && !canPublish)}
+                                                className={`px-3 py-2 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed ${playlist.status === 'published'
                                                         ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200'
                                                         : 'bg-green-100 text-green-700 hover:bg-green-200'
                                                     }`}
-                                                title={playlist.status === 'published' ? 'Unpublish' : 'Publish'}
+                                                title={playlist.status === 'published' ? 'Unpublish' : canPublish ? 'Publish' : 'Only approvers can publish'}
                                             >
                                                 {playlist.status === 'published' ? (
                                                     <EyeOff className="w-4 h-4" />
@@ -235,7 +303,8 @@ const Playlists: React.FC = () => {
                                             </button>
                                             <button
                                                 onClick={() => handleDelete(playlist._id)}
-                                                className="px-3 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors flex items-center justify-center"
+                                                disabled={readOnly}
+                                                className="px-3 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
                                                 title="Delete"
                                             >
                                                 <Trash2 className="w-4 h-4" />
@@ -248,6 +317,8 @@ const Playlists: React.FC = () => {
                     )}
                 </>
             )}
+
+            {bulk.run && <BulkProgressDialog run={bulk.run} onRetry={bulk.retryFailed} onClose={bulk.dismiss} />}
         </div>
     );
 };
@@ -1,43 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Radio as RadioIcon, Users, Music, Settings, Play, Pause, Mic2, RefreshCw, AlertCircle, CheckCircle, Clock, ListMusic } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
-
-interface RadioStats {
-    stationName: string;
-    isLive: boolean;
-    hostsCount: number;
-    playlistsCount: number;
-    segmentsCount: number;
-    pendingSegments: number;
-    readySegments: number;
-}
-
-interface RadioStation {
-    _id: string;
-    name: string;
-    tagline: string;
-    hosts: any[];
-    playlists: any[];
-    hostBreakDuration: number;
-    hostBreakFrequency: number;
-    devotionalFrequency: number;
-    devotionalDuration: number;
-    enableDuoDiscussions: boolean;
-    customIntroScript?: string;
-    isLive: boolean;
-    coverImageUrl?: string;
-    settings: {
-        shuffleSongs: boolean;
-        rotateHosts: boolean;
-        introJingleUrl?: string;
-        outroJingleUrl?: string;
-    };
-}
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
+import { useAuth } from '../contexts/AuthContext';
+import { getApiErrorMessage } from '../services/apiClient';
+import { radioApi } from '../services/api';
+import { type RadioStation, type RadioStats } from '../types';
 
 const Radio: React.FC = () => {
+    const { canEdit } = useAuth();
+    const readOnly = !canEdit('radio');
     const [stats, setStats] = useState<RadioStats | null>(null);
     const [station, setStation] = useState<RadioStation | null>(null);
     const [loading, setLoading] = useState(true);
@@ -63,39 +35,40 @@ const Radio: React.FC = () => {
     const fetchData = async () => {
         try {
             setLoading(true);
-            const [statsRes, stationRes] = await Promise.all([
-                axios.get(`${API_URL}/radio/stats`),
-                axios.get(`${API_URL}/radio/station`),
+            const [statsData, stationData] = await Promise.all([
+                radioApi.getStats(),
+                radioApi.getStation(),
             ]);
             
-            setStats(statsRes.data);
-            setStation(stationRes.data);
+            setStats(statsData);
+            setStation(stationData);
             
             // Initialize edit fields
-            if (stationRes.data) {
-                setEditName(stationRes.data.name || 'Praise Station Radio');
-                setEditTagline(stationRes.data.tagline || '');
-                setEditCustomIntro(stationRes.data.customIntroScript || '');
-                setEditBreakDuration(stationRes.data.hostBreakDuration || 10);
-                setEditBreakFrequency(stationRes.data.hostBreakFrequency || 3);
-                setEditDevotionalFrequency(stationRes.data.devotionalFrequency || 10);
-                setEditDevotionalDuration(stationRes.data.devotionalDuration || 60);
-                setEditEnableDuo(stationRes.data.enableDuoDiscussions ?? true);
-                setEditShuffleSongs(stationRes.data.settings?.shuffleSongs ?? true);
-                setEditRotateHosts(stationRes.data.settings?.rotateHosts ?? true);
+            if (stationData) {
+                setEditName(stationData.name || 'Praise Station Radio');
+                setEditTagline(stationData.tagline || '');
+                setEditCustomIntro(stationData.customIntroScript || '');
+                setEditBreakDuration(stationData.hostBreakDuration || 10);
+                setEditBreakFrequency(stationData.hostBreakFrequency || 3);
+                setEditDevotionalFrequency(stationData.devotionalFrequency || 10);
+                setEditDevotionalDuration(stationData.devotionalDuration || 60);
+                setEditEnableDuo(stationData.enableDuoDiscussions ?? true);
+                setEditShuffleSongs(stationData.settings?.shuffleSongs ?? true);
+                setEditRotateHosts(stationData.settings?.rotateHosts ?? true);
             }
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error fetching radio data:', err);
-            setError(err.response?.data?.message || 'Failed to load radio data');
+            setError(getApiErrorMessage(err, 'Failed to load radio data'));
         } finally {
             setLoading(false);
         }
     };
 
     const handleSaveStation = async () => {
+        if (readOnly) return;
         try {
             setSaving(true);
-            await axios.put(`${API_URL}/radio/station`, {
+            await radioApi.updateStation({
                 name: editName,
                 tagline: editTagline,
                 customIntroScript: editCustomIntro,
@@ -110,24 +83,25 @@ const Radio: React.FC = () => {
                 },
             });
             await fetchData();
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error saving station:', err);
-            setError(err.response?.data?.message || 'Failed to save station');
+            setError(getApiErrorMessage(err, 'Failed to save station'));
         } finally {
             setSaving(false);
         }
     };
 
     const toggleLive = async () => {
+        if (readOnly) return;
         try {
             setSaving(true);
-            await axios.put(`${API_URL}/radio/station`, {
+            await radioApi.updateStation({
                 isLive: !station?.isLive,
             });
             await fetchData();
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error toggling live status:', err);
-            setError(err.response?.data?.message || 'Failed to update live status');
+            setError(getApiErrorMessage(err, 'Failed to update live status'));
         } finally {
             setSaving(false);
         }
@@ -156,8 +130,8 @@ const Radio: React.FC = () => {
                 </div>
                 <button
                     onClick={toggleLive}
-                    disabled={saving}
-                    className={`flex items-center gap-2 px-6 py-3 rounded-xl font-bold text-white transition-all shadow-lg ${
+                    disabled={saving || readOnly}
+                    className={`flex items-center gap-2 px-6 py-3 rounded-xl font-bold text-white transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed ${
                         station?.isLive 
                             ? 'bg-red-500 hover:bg-red-600' 
                             : 'bg-green-500 hover:bg-green-600'
@@ -177,6 +151,8 @@ const Radio: React.FC = () => {
                 </button>
             </div>
 
+            {readOnly && <ReadOnlyBanner subject="station" />}
+
             {error && (
                 <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center gap-2">
                     <AlertCircle className="w-5 h-5" />
@@ -475,7 +451,7 @@ Amy: [upbeat] Let's have some fun!`}
                 <div className="mt-6 flex justify-end">
                     <button
                         onClick={handleSaveStation}
-                        disabled={saving}
+                        disabled={saving || readOnly}
                         className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center gap-2"
                     >
                         {saving ? (
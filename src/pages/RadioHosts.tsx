@@ -1,36 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { ArrowLeft, Plus, Edit2, Trash2, Play, Pause, Volume2, RefreshCw, Save, X, Mic2, User } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
-
-interface GoogleVoice {
-    name: string;
-    gender: string;
-    description: string;
-    languageCode: string;
-    tier?: string;
-}
-
-interface RadioHost {
-    _id: string;
-    name: string;
-    personality: string;
-    googleVoice: {
-        name: string;
-        languageCode: string;
-        pitch: number;
-        speakingRate: number;
-    };
-    samplePhrases: string[];
-    avatarUrl?: string;
-    gender: 'male' | 'female';
-    enabled: boolean;
-    order: number;
-}
+import { getApiErrorMessage } from '../services/apiClient';
+import { radioApi } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
+import { type GoogleVoice, type RadioHost } from '../types';
 
 const RadioHosts: React.FC = () => {
+    const { canEdit } = useAuth();
+    const readOnly = !canEdit('radio');
     const [hosts, setHosts] = useState<RadioHost[]>([]);
     const [availableVoices, setAvailableVoices] = useState<GoogleVoice[]>([]);
     const [loading, setLoading] = useState(true);
@@ -66,15 +45,15 @@ const RadioHosts: React.FC = () => {
     const fetchData = async () => {
         try {
             setLoading(true);
-            const [hostsRes, voicesRes] = await Promise.all([
-                axios.get(`${API_URL}/radio/hosts`),
-                axios.get(`${API_URL}/google-tts/voices`),
+            const [hostsData, voicesData] = await Promise.all([
+                radioApi.listHosts(),
+                radioApi.listGoogleVoices(),
             ]);
-            setHosts(hostsRes.data);
-            setAvailableVoices(voicesRes.data.voices || []);
-        } catch (err: any) {
+            setHosts(hostsData);
+            setAvailableVoices(voicesData);
+        } catch (err) {
             console.error('Error fetching data:', err);
-            setError(err.response?.data?.message || 'Failed to load data');
+            setError(getApiErrorMessage(err, 'Failed to load data'));
         } finally {
             setLoading(false);
         }
@@ -111,6 +90,7 @@ const RadioHosts: React.FC = () => {
     };
 
     const handleSave = async () => {
+        if (readOnly) return;
         if (!formName.trim()) {
             setError('Host name is required');
             return;
@@ -132,30 +112,31 @@ const RadioHosts: React.FC = () => {
             };
 
             if (editingHost) {
-                await axios.put(`${API_URL}/radio/hosts/${editingHost._id}`, payload);
+                await radioApi.updateHost(editingHost._id, payload);
             } else {
-                await axios.post(`${API_URL}/radio/hosts`, payload);
+                await radioApi.createHost(payload);
             }
 
             await fetchData();
             closeModal();
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error saving host:', err);
-            setError(err.response?.data?.message || 'Failed to save host');
+            setError(getApiErrorMessage(err, 'Failed to save host'));
         } finally {
             setSaving(false);
         }
     };
 
     const handleDelete = async (host: RadioHost) => {
+        if (readOnly) return;
         if (!confirm(`Are you sure you want to delete "${host.name}"?`)) return;
 
         try {
-            await axios.delete(`${API_URL}/radio/hosts/${host._id}`);
+            await radioApi.deleteHost(host._id);
             await fetchData();
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error deleting host:', err);
-            setError(err.response?.data?.message || 'Failed to delete host');
+            setError(getApiErrorMessage(err, 'Failed to delete host'));
         }
     };
 
@@ -166,16 +147,15 @@ const RadioHosts: React.FC = () => {
 
             const testText = `Hello! I'm ${formName || 'your radio host'}. Welcome to Praise Station Radio, where we lift up your spirit with uplifting music and encouraging words. God bless you today!`;
 
-            const response = await axios.post(`${API_URL}/google-tts/preview`, {
-                text: testText,
+            const audioBase64 = await radioApi.previewVoice(testText, {
                 voiceName: formVoiceName,
                 languageCode: 'en-US',
                 pitch: formPitch,
                 speakingRate: formSpeakingRate,
             });
 
-            if (response.data.audioBase64) {
-                const audio = new Audio(`data:audio/mpeg;base64,${response.data.audioBase64}`);
+            if (audioBase64) {
+                const audio = new Audio(`data:audio/mpeg;base64,${audioBase64}`);
                 audioRef.current = audio;
                 
                 audio.onplay = () => setPreviewPlaying(true);
@@ -184,9 +164,9 @@ const RadioHosts: React.FC = () => {
                 
                 await audio.play();
             }
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error previewing voice:', err);
-            setError(err.response?.data?.message || 'Failed to preview voice. Make sure GOOGLE_TTS_API_KEY is set.');
+            setError(getApiErrorMessage(err, 'Failed to preview voice. Make sure GOOGLE_TTS_API_KEY is set.'));
         } finally {
             setPreviewLoading(false);
         }
@@ -208,7 +188,7 @@ const RadioHosts: React.FC = () => {
             stopPreview();
 
             // Generate a host break with sample song info
-            const response = await axios.post(`${API_URL}/radio/host-break/generate`, {
+            const hostBreak = await radioApi.generateHostBreak({
                 nextSongTitle: 'Amazing Grace',
                 nextSongArtist: 'Chris Tomlin',
                 previousSongTitle: 'How Great Is Our God',
@@ -218,8 +198,8 @@ const RadioHosts: React.FC = () => {
                 hostId: editingHost?._id, // Use selected host if editing
             });
 
-            if (response.data.success && response.data.hostBreak) {
-                const { script, audioUrl } = response.data.hostBreak;
+            if (hostBreak) {
+                const { script, audioUrl } = hostBreak;
                 setHostBreakScript(script);
                 
                 if (audioUrl) {
@@ -233,9 +213,9 @@ const RadioHosts: React.FC = () => {
                     await audio.play();
                 }
             }
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error testing host break:', err);
-            setError(err.response?.data?.message || 'Failed to generate host break. Check TTS credentials.');
+            setError(getApiErrorMessage(err, 'Failed to generate host break. Check TTS credentials.'));
         } finally {
             setHostBreakLoading(false);
         }
@@ -269,15 +249,19 @@ const RadioHosts: React.FC = () => {
                         <p className="text-gray-500">Configure AI voices for your radio hosts</p>
                     </div>
                 </div>
-                <button
-                    onClick={openCreateModal}
-                    className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
-                >
-                    <Plus className="w-5 h-5" />
-                    Add Host
-                </button>
+                {!readOnly && (
+                    <button
+                        onClick={openCreateModal}
+                        className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                    >
+                        <Plus className="w-5 h-5" />
+                        Add Host
+                    </button>
+                )}
             </div>
 
+            {readOnly && <ReadOnlyBanner subject="radio hosts" />}
+
             {error && (
                 <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center gap-2">
                     {error}
@@ -291,12 +275,14 @@ const RadioHosts: React.FC = () => {
                     <Mic2 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                     <h3 className="text-xl font-bold text-gray-600 mb-2">No Hosts Yet</h3>
                     <p className="text-gray-500 mb-6">Create your first radio host to get started</p>
-                    <button
-                        onClick={openCreateModal}
-                        className="px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
-                    >
-                        Create First Host
-                    </button>
+                    {!readOnly && (
+                        <button
+                            onClick={openCreateModal}
+                            className="px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                        >
+                            Create First Host
+                        </button>
+                    )}
                 </div>
             ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -347,7 +333,8 @@ const RadioHosts: React.FC = () => {
                                     </button>
                                     <button
                                         onClick={() => handleDelete(host)}
-                                        className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                                        disabled={readOnly}
+                                        className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                                     >
                                         <Trash2 className="w-4 h-4" />
                                     </button>
@@ -595,7 +582,7 @@ const RadioHosts: React.FC = () => {
                             </button>
                             <button
                                 onClick={handleSave}
-                                disabled={saving || !formName.trim()}
+                                disabled={saving || readOnly || !formName.trim()}
                                 className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
                             >
                                 {saving ? (
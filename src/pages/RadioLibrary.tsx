@@ -1,47 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { ArrowLeft, Plus, Trash2, Play, Pause, Music, Filter, Search, ToggleLeft, ToggleRight, FolderPlus, RefreshCw } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
-
-interface RadioTrack {
-    _id: string;
-    title: string;
-    artist?: string;
-    audioUrl: string;
-    coverImage?: string;
-    duration?: number;
-    category: string;
-    rotation: string;
-    enabled: boolean;
-    playCount: number;
-    sourcePlaylistId?: string;
-    createdAt: string;
-    description?: string; // For context-aware hosting
-}
-
-interface Playlist {
-    _id: string;
-    title: string;
-    coverImage?: string;
-    items?: Array<{
-        title: string;
-        audioUrl: string;
-        coverImage?: string;
-        duration?: number;
-        author?: string;
-    }>;
-}
-
-interface LibraryStats {
-    totalTracks: number;
-    enabledTracks: number;
-    disabledTracks: number;
-    byCategory: Record<string, number>;
-    byRotation: Record<string, number>;
-    totalDurationFormatted: string;
-}
+import { getApiErrorMessage } from '../services/apiClient';
+import { playlistsApi, radioApi } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
+import { type LibraryStats, type Playlist, type RadioTrack } from '../types';
 
 const CATEGORIES = [
     { value: 'worship', label: 'Worship', color: 'bg-purple-500' },
@@ -58,6 +22,8 @@ const ROTATIONS = [
 ];
 
 const RadioLibrary: React.FC = () => {
+    const { canEdit } = useAuth();
+    const readOnly = !canEdit('radio');
     const [tracks, setTracks] = useState<RadioTrack[]>([]);
     const [playlists, setPlaylists] = useState<Playlist[]>([]);
     const [stats, setStats] = useState<LibraryStats | null>(null);
@@ -108,58 +74,60 @@ const RadioLibrary: React.FC = () => {
     const fetchData = async () => {
         try {
             setLoading(true);
-            const [tracksRes, playlistsRes, statsRes] = await Promise.all([
-                axios.get(`${API_URL}/radio/library`),
-                axios.get(`${API_URL}/playlists?status=all&limit=100`),
-                axios.get(`${API_URL}/radio/library/stats`),
+            const [tracksData, playlistsData, statsData] = await Promise.all([
+                radioApi.listTracks(),
+                playlistsApi.list({ status: 'all' }),
+                radioApi.getLibraryStats(),
             ]);
             
-            setTracks(tracksRes.data.tracks || []);
-            // Handle playlists API response format
-            const playlistsData = playlistsRes.data?.data || playlistsRes.data || [];
-            setPlaylists(Array.isArray(playlistsData) ? playlistsData : []);
-            setStats(statsRes.data);
-        } catch (err: any) {
+            setTracks(tracksData);
+            setPlaylists(playlistsData);
+            setStats(statsData);
+        } catch (err) {
             console.error('Error fetching data:', err);
-            setError(err.response?.data?.message || 'Failed to load data');
+            setError(getApiErrorMessage(err, 'Failed to load data'));
         } finally {
             setLoading(false);
         }
     };
 
     const handleToggleTrack = async (track: RadioTrack) => {
+        if (readOnly) return;
         try {
-            await axios.post(`${API_URL}/radio/library/${track._id}/toggle`);
+            await radioApi.toggleTrack(track._id);
             await fetchData();
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error toggling track:', err);
-            setError(err.response?.data?.message || 'Failed to toggle track');
+            setError(getApiErrorMessage(err, 'Failed to toggle track'));
         }
     };
 
     const handleDeleteTrack = async (track: RadioTrack) => {
+        if (readOnly) return;
         if (!confirm(`Remove "${track.title}" from the radio library?`)) return;
         
         try {
-            await axios.delete(`${API_URL}/radio/library/${track._id}`);
+            await radioApi.deleteTrack(track._id);
             await fetchData();
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error deleting track:', err);
-            setError(err.response?.data?.message || 'Failed to delete track');
+            setError(getApiErrorMessage(err, 'Failed to delete track'));
         }
     };
 
     const handleUpdateTrack = async (trackId: string, field: string, value: string) => {
+        if (readOnly) return;
         try {
-            await axios.put(`${API_URL}/radio/library/${trackId}`, { [field]: value });
+            await radioApi.updateTrack(trackId, { [field]: value });
             await fetchData();
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error updating track:', err);
-            setError(err.response?.data?.message || 'Failed to update track');
+            setError(getApiErrorMessage(err, 'Failed to update track'));
         }
     };
 
     const handleBulkAdd = async () => {
+        if (readOnly) return;
         if (!selectedPlaylist) {
             setError('Please select a playlist');
             return;
@@ -167,24 +135,25 @@ const RadioLibrary: React.FC = () => {
         
         try {
             setAddingBulk(true);
-            const response = await axios.post(`${API_URL}/radio/library/bulk`, {
+            const message = await radioApi.addPlaylistTracks({
                 playlistId: selectedPlaylist,
                 category: bulkCategory,
                 rotation: bulkRotation
             });
             
-            alert(response.data.message);
+            alert(message);
             setShowAddModal(false);
             await fetchData();
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error bulk adding:', err);
-            setError(err.response?.data?.message || 'Failed to add tracks');
+            setError(getApiErrorMessage(err, 'Failed to add tracks'));
         } finally {
             setAddingBulk(false);
         }
     };
 
     const handleSingleAdd = async () => {
+        if (readOnly) return;
         if (!singleTrack.title || !singleTrack.audioUrl) {
             setError('Title and Audio URL are required');
             return;
@@ -192,7 +161,7 @@ const RadioLibrary: React.FC = () => {
         
         try {
             setAddingSingle(true);
-            await axios.post(`${API_URL}/radio/library`, {
+            await radioApi.addTrack({
                 title: singleTrack.title,
                 artist: singleTrack.artist,
                 audioUrl: singleTrack.audioUrl,
@@ -217,9 +186,9 @@ const RadioLibrary: React.FC = () => {
             });
             setShowSingleAddModal(false);
             await fetchData();
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error adding track:', err);
-            setError(err.response?.data?.message || 'Failed to add track');
+            setError(getApiErrorMessage(err, 'Failed to add track'));
         } finally {
             setAddingSingle(false);
         }
@@ -291,24 +260,28 @@ const RadioLibrary: React.FC = () => {
                         <p className="text-gray-600">Manage individual songs for your radio station</p>
                     </div>
                 </div>
-                <div className="flex gap-2">
-                    <button
-                        onClick={() => setShowSingleAddModal(true)}
-                        className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
-                    >
-                        <Plus className="w-5 h-5" />
-                        Add Song
-                    </button>
-                    <button
-                        onClick={() => setShowAddModal(true)}
-                        className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 flex items-center gap-2"
-                    >
-                        <FolderPlus className="w-5 h-5" />
-                        Add from Playlist
-                    </button>
-                </div>
+                {!readOnly && (
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => setShowSingleAddModal(true)}
+                            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
+                        >
+                            <Plus className="w-5 h-5" />
+                            Add Song
+                        </button>
+                        <button
+                            onClick={() => setShowAddModal(true)}
+                            className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 flex items-center gap-2"
+                        >
+                            <FolderPlus className="w-5 h-5" />
+                            Add from Playlist
+                        </button>
+                    </div>
+                )}
             </div>
 
+            {readOnly && <ReadOnlyBanner subject="radio library" />}
+
             {error && (
                 <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
                     {error}
@@ -452,6 +425,7 @@ const RadioLibrary: React.FC = () => {
                                         <select
                                             value={track.category}
                                             onChange={(e) => handleUpdateTrack(track._id, 'category', e.target.value)}
+                                            disabled={readOnly}
                                             className="text-sm border rounded px-2 py-1"
                                         >
                                             {CATEGORIES.map(cat => (
@@ -463,6 +437,7 @@ const RadioLibrary: React.FC = () => {
                                         <select
                                             value={track.rotation}
                                             onChange={(e) => handleUpdateTrack(track._id, 'rotation', e.target.value)}
+                                            disabled={readOnly}
                                             className="text-sm border rounded px-2 py-1"
                                         >
                                             {ROTATIONS.map(rot => (
@@ -475,6 +450,7 @@ const RadioLibrary: React.FC = () => {
                                             type="text"
                                             defaultValue={track.description || ''}
                                             placeholder="Add description..."
+                                            disabled={readOnly}
                                             onBlur={(e) => {
                                                 if (e.target.value !== (track.description || '')) {
                                                     handleUpdateTrack(track._id, 'description', e.target.value);
@@ -490,7 +466,8 @@ const RadioLibrary: React.FC = () => {
                                     <td className="p-4 text-center">
                                         <button
                                             onClick={() => handleToggleTrack(track)}
-                                            className={`p-1 rounded ${track.enabled ? 'text-green-600' : 'text-gray-400'}`}
+                                            disabled={readOnly}
+                                            className={`p-1 rounded disabled:cursor-not-allowed ${track.enabled ? 'text-green-600' : 'text-gray-400'}`}
                                         >
                                             {track.enabled ? (
                                                 <ToggleRight className="w-8 h-8" />
@@ -502,7 +479,8 @@ const RadioLibrary: React.FC = () => {
                                     <td className="p-4 text-right">
                                         <button
                                             onClick={() => handleDeleteTrack(track)}
-                                            className="text-red-500 hover:text-red-700 p-2"
+                                            disabled={readOnly}
+                                            className="text-red-500 hover:text-red-700 p-2 disabled:opacity-50 disabled:cursor-not-allowed"
                                             title="Remove from library"
                                         >
                                             <Trash2 className="w-5 h-5" />
@@ -1,55 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { ArrowLeft, Play, Pause, RefreshCw, Trash2, Music, Mic2, Sparkles, Volume2, AlertCircle, Edit2, Save } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
-
-interface Playlist {
-    _id: string;
-    title: string;
-    coverImage?: string;
-    type: string;
-    items: any[];
-}
-
-interface RadioHost {
-    _id: string;
-    name: string;
-    avatarUrl?: string;
-}
-
-interface RadioSegment {
-    _id: string;
-    type: 'host_break' | 'song';
-    order: number;
-    hostId?: {
-        _id: string;
-        name: string;
-        avatarUrl?: string;
-    };
-    scriptText?: string;
-    audioUrl?: string;
-    duration?: number;
-    songInfo?: {
-        title: string;
-        artist: string;
-        coverImage?: string;
-        audioUrl: string;
-        duration: number;
-    };
-    nextTrack?: {
-        title: string;
-        artist: string;
-    };
-    previousTrack?: {
-        title: string;
-        artist: string;
-    };
-    status: 'pending' | 'generating' | 'ready' | 'error';
-}
+import { getApiErrorMessage } from '../services/apiClient';
+import { playlistsApi, radioApi } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import ReadOnlyBanner from '../components/ReadOnlyBanner';
+import { type Playlist, type RadioHost, type RadioSegment } from '../types';
 
 const RadioShowBuilder: React.FC = () => {
+    const { canEdit } = useAuth();
+    const readOnly = !canEdit('radio');
     const [playlists, setPlaylists] = useState<Playlist[]>([]);
     const [hosts, setHosts] = useState<RadioHost[]>([]);
     const [segments, setSegments] = useState<RadioSegment[]>([]);
@@ -75,25 +35,23 @@ const RadioShowBuilder: React.FC = () => {
     const fetchData = async () => {
         try {
             setLoading(true);
-            const [playlistsRes, hostsRes, segmentsRes] = await Promise.all([
-                axios.get(`${API_URL}/playlists`),
-                axios.get(`${API_URL}/radio/hosts`),
-                axios.get(`${API_URL}/radio/segments`),
+            const [playlistsData, hostsData, segmentsData] = await Promise.all([
+                playlistsApi.list(),
+                radioApi.listHosts(),
+                radioApi.listSegments(),
             ]);
             
             // Filter to only published playlists with items
-            // Note: playlists API returns { data: [...], pagination: {...} }
-            const playlistsData = playlistsRes.data?.data || playlistsRes.data || [];
-            const publishedPlaylists = (Array.isArray(playlistsData) ? playlistsData : []).filter(
+            const publishedPlaylists = playlistsData.filter(
                 (p: Playlist) => p.items && p.items.length > 0
             );
             
             setPlaylists(publishedPlaylists);
-            setHosts(hostsRes.data || []);
-            setSegments(segmentsRes.data || []);
-        } catch (err: any) {
+            setHosts(hostsData);
+            setSegments(segmentsData);
+        } catch (err) {
             console.error('Error fetching data:', err);
-            setError(err.response?.data?.message || 'Failed to load data');
+            setError(getApiErrorMessage(err, 'Failed to load data'));
         } finally {
             setLoading(false);
         }
@@ -108,6 +66,7 @@ const RadioShowBuilder: React.FC = () => {
     };
 
     const generateSegments = async () => {
+        if (readOnly) return;
         if (selectedPlaylists.length === 0) {
             setError('Please select at least one playlist');
             return;
@@ -122,23 +81,24 @@ const RadioShowBuilder: React.FC = () => {
             setGenerating(true);
             setError(null);
             
-            const response = await axios.post(`${API_URL}/radio/segments/generate`, {
+            const result = await radioApi.generateSegments({
                 playlistIds: selectedPlaylists,
                 hostIds: hosts.map(h => h._id),
                 clearExisting: true,
             });
             
-            setSegments(response.data.segments || []);
-            console.log(`Generated ${response.data.totalSegments} segments`);
-        } catch (err: any) {
+            setSegments(result.segments);
+            console.log(`Generated ${result.totalSegments} segments`);
+        } catch (err) {
             console.error('Error generating segments:', err);
-            setError(err.response?.data?.message || 'Failed to generate segments');
+            setError(getApiErrorMessage(err, 'Failed to generate segments'));
         } finally {
             setGenerating(false);
         }
     };
 
     const generateScriptsForSegments = async () => {
+        if (readOnly) return;
         const pendingSegments = segments.filter(s => s.type === 'host_break' && s.status === 'pending');
         
         if (pendingSegments.length === 0) {
@@ -157,7 +117,7 @@ const RadioShowBuilder: React.FC = () => {
                 
                 try {
                     // Generate script
-                    const scriptRes = await axios.post(`${API_URL}/ai/radio-script`, {
+                    const script = await radioApi.writeScript({
                         hostName: host?.name || 'Radio Host',
                         nextSongTitle: segment.nextTrack?.title,
                         nextSongArtist: segment.nextTrack?.artist,
@@ -167,22 +127,21 @@ const RadioShowBuilder: React.FC = () => {
                     });
 
                     // Generate TTS audio
-                    const ttsRes = await axios.post(`${API_URL}/google-tts/generate`, {
-                        text: scriptRes.data.script,
+                    const audioUrl = await radioApi.synthesize(script, {
                         voiceName: 'en-US-Studio-O', // Could get from host config
                     });
 
                     // Update segment with script and audio
-                    await axios.put(`${API_URL}/radio/segments/${segment._id}`, {
-                        scriptText: scriptRes.data.script,
-                        audioUrl: ttsRes.data.audioUrl,
+                    await radioApi.updateSegment(segment._id, {
+                        scriptText: script,
+                        audioUrl,
                         status: 'ready',
                     });
 
                     // Update local state
                     setSegments(prev => prev.map(s => 
                         s._id === segment._id
-                            ? { ...s, scriptText: scriptRes.data.script, audioUrl: ttsRes.data.audioUrl, status: 'ready' }
+                            ? { ...s, scriptText: script, audioUrl, status: 'ready' }
                             : s
                     ));
 
@@ -190,7 +149,7 @@ const RadioShowBuilder: React.FC = () => {
                 } catch (err) {
                     console.error(`Error generating script for segment ${segment._id}:`, err);
                     // Mark as error
-                    await axios.put(`${API_URL}/radio/segments/${segment._id}`, { status: 'error' });
+                    await radioApi.updateSegment(segment._id, { status: 'error' });
                     setSegments(prev => prev.map(s => 
                         s._id === segment._id ? { ...s, status: 'error' } : s
                     ));
@@ -198,23 +157,24 @@ const RadioShowBuilder: React.FC = () => {
             }
 
             await fetchData(); // Refresh to get updated data
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error generating scripts:', err);
-            setError(err.response?.data?.message || 'Failed to generate scripts');
+            setError(getApiErrorMessage(err, 'Failed to generate scripts'));
         } finally {
             setGeneratingScripts(false);
         }
     };
 
     const clearSegments = async () => {
+        if (readOnly) return;
         if (!confirm('Are you sure you want to clear all segments?')) return;
 
         try {
-            await axios.delete(`${API_URL}/radio/segments`);
+            await radioApi.clearSegments();
             setSegments([]);
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error clearing segments:', err);
-            setError(err.response?.data?.message || 'Failed to clear segments');
+            setError(getApiErrorMessage(err, 'Failed to clear segments'));
         }
     };
 
@@ -224,8 +184,9 @@ const RadioShowBuilder: React.FC = () => {
     };
 
     const saveScript = async (segmentId: string) => {
+        if (readOnly) return;
         try {
-            await axios.put(`${API_URL}/radio/segments/${segmentId}`, {
+            await radioApi.updateSegment(segmentId, {
                 scriptText: editingScript,
                 status: 'pending', // Mark as pending so TTS can be regenerated
             });
@@ -238,37 +199,37 @@ const RadioShowBuilder: React.FC = () => {
             
             setEditingSegmentId(null);
             setEditingScript('');
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error saving script:', err);
-            setError(err.response?.data?.message || 'Failed to save script');
+            setError(getApiErrorMessage(err, 'Failed to save script'));
         }
     };
 
     const regenerateSegmentAudio = async (segment: RadioSegment) => {
+        if (readOnly) return;
         if (!segment.scriptText) {
             setError('No script to generate audio from');
             return;
         }
 
         try {
-            const ttsRes = await axios.post(`${API_URL}/google-tts/generate`, {
-                text: segment.scriptText,
+            const audioUrl = await radioApi.synthesize(segment.scriptText, {
                 voiceName: 'en-US-Studio-O', // TODO: Get from host config
             });
 
-            await axios.put(`${API_URL}/radio/segments/${segment._id}`, {
-                audioUrl: ttsRes.data.audioUrl,
+            await radioApi.updateSegment(segment._id, {
+                audioUrl,
                 status: 'ready',
             });
 
             setSegments(prev => prev.map(s => 
                 s._id === segment._id
-                    ? { ...s, audioUrl: ttsRes.data.audioUrl, status: 'ready' }
+                    ? { ...s, audioUrl, status: 'ready' }
                     : s
             ));
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error regenerating audio:', err);
-            setError(err.response?.data?.message || 'Failed to regenerate audio');
+            setError(getApiErrorMessage(err, 'Failed to regenerate audio'));
         }
     };
 
@@ -368,6 +329,8 @@ const RadioShowBuilder: React.FC = () => {
                 )}
             </div>
 
+            {readOnly && <ReadOnlyBanner subject="radio show" />}
+
             {error && (
                 <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center gap-2">
                     <AlertCircle className="w-5 h-5" />
@@ -420,7 +383,7 @@ const RadioShowBuilder: React.FC = () => {
                         <div className="mt-4 space-y-2">
                             <button
                                 onClick={generateSegments}
-                                disabled={generating || selectedPlaylists.length === 0}
+                                disabled={generating || readOnly || selectedPlaylists.length === 0}
                                 className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
                             >
                                 {generating ? (
@@ -431,7 +394,7 @@ const RadioShowBuilder: React.FC = () => {
                                 {generating ? 'Generating...' : 'Generate Show'}
                             </button>
 
-                            {segments.length > 0 && (
+                            {segments.length > 0 && !readOnly && (
                                 <button
                                     onClick={clearSegments}
                                     className="w-full flex items-center justify-center gap-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -475,7 +438,7 @@ const RadioShowBuilder: React.FC = () => {
                                 </div>
                             </div>
 
-                            {pendingBreaks.length > 0 && (
+                            {pendingBreaks.length > 0 && !readOnly && (
                                 <button
                                     onClick={generateScriptsForSegments}
                                     disabled={generatingScripts}
@@ -596,24 +559,26 @@ const RadioShowBuilder: React.FC = () => {
                                                                         Introducing: {segment.nextTrack?.title}
                                                                     </p>
                                                                 )}
-                                                                <div className="flex gap-2 mt-2">
-                                                                    <button
-                                                                        onClick={() => startEditing(segment)}
-                                                                        className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
-                                                                    >
-                                                                        <Edit2 className="w-3 h-3" />
-                                                                        Edit
-                                                                    </button>
-                                                                    {segment.scriptText && !segment.audioUrl && (
+                                                                {!readOnly && (
+                                                                    <div className="flex gap-2 mt-2">
                                                                         <button
-                                                                            onClick={() => regenerateSegmentAudio(segment)}
-                                                                            className="flex items-center gap-1 px-2 py-1 text-xs text-indigo-600 hover:bg-indigo-50 rounded"
+                                                                            onClick={() => startEditing(segment)}
+                                                                            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
                                                                         >
-                                                                            <Volume2 className="w-3 h-3" />
-                                                                            Generate Audio
+                                                                            <Edit2 className="w-3 h-3" />
+                                                                            Edit
                                                                         </button>
-                                                                    )}
-                                                                </div>
+                                                                        {segment.scriptText && !segment.audioUrl && (
+                                                                            <button
+                                                                                onClick={() => regenerateSegmentAudio(segment)}
+                                                                                className="flex items-center gap-1 px-2 py-1 text-xs text-indigo-600 hover:bg-indigo-50 rounded"
+                                                                            >
+                                                                                <Volume2 className="w-3 h-3" />
+                                                                                Generate Audio
+                                                                            </button>
+                                                                        )}
+                                                                    </div>
+                                                                )}
                                                             </>
                                                         )}
                                                     </div>
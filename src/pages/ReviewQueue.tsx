@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Book, ClipboardCheck, MessageSquare, Music, Video } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { reviewsApi } from '../services/api';
+import { type ReviewDocumentType, type ReviewQueueItem } from '../types';
+import StatusBadge from '../components/StatusBadge';
+import { useAuth } from '../contexts/AuthContext';
+
+type QueueTab = 'in_review' | 'approved';
+
+const TABS: Array<{ status: QueueTab; label: string }> = [
+    { status: 'in_review', label: 'Waiting for review' },
+    { status: 'approved', label: 'Ready to publish' },
+];
+
+const TYPE_ICONS: Record<ReviewDocumentType, typeof Book> = {
+    book: Book,
+    playlist: Music,
+    lesson: Video,
+};
+
+const EDIT_PATHS: Record<ReviewDocumentType, (id: string) => string> = {
+    book: (id) => `/books/edit/${id}`,
+    playlist: (id) => `/playlists/edit/${id}`,
+    lesson: (id) => `/lessons/edit/${id}`,
+};
+
+const ReviewQueue: React.FC = () => {
+    const [items, setItems] = useState<ReviewQueueItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [tab, setTab] = useState<QueueTab>('in_review');
+    const { canReview } = useAuth();
+
+    useEffect(() => {
+        const fetchQueue = async () => {
+            try {
+                setItems(await reviewsApi.queue());
+            } catch (error) {
+                console.error('Error fetching review queue:', error);
+                alert(getApiErrorMessage(error, 'Failed to load the review queue'));
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchQueue();
+    }, []);
+
+    const visibleItems = items.filter((item) => item.status === tab);
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <h1 className="text-3xl font-bold text-gray-800">Review Queue</h1>
+            </div>
+            <p className="text-gray-500 mb-6">
+                Books, playlists and lessons submitted for review. Open one to comment, approve or request changes.
+                {canReview('publish') ? ' As an approver you can publish approved items.' : ''}
+            </p>
+
+            <div className="flex gap-2 mb-6">
+                {TABS.map((t) => (
+                    <button
+                        key={t.status}
+                        onClick={() => setTab(t.status)}
+                        className={`px-4 py-2 rounded-lg font-medium transition-colors ${tab === t.status
+                            ? 'bg-indigo-600 text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                    >
+                        {t.label}
+                        <span className="ml-2 text-sm opacity-75">
+                            ({items.filter((item) => item.status === t.status).length})
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            {loading ? (
+                <p>Loading review queue...</p>
+            ) : visibleItems.length === 0 ? (
+                <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 text-center">
+                    <ClipboardCheck className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">Nothing is waiting here.</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                    <table className="w-full">
+                        <thead className="bg-gray-50 border-b">
+                            <tr>
+                                <th className="text-left p-4 font-medium text-gray-600">Item</th>
+                                <th className="text-left p-4 font-medium text-gray-600">Status</th>
+                                <th className="text-left p-4 font-medium text-gray-600">{tab === 'approved' ? 'Approved' : 'Submitted'}</th>
+                                <th className="text-left p-4 font-medium text-gray-600">Open comments</th>
+                                <th className="text-right p-4 font-medium text-gray-600">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleItems.map((item) => {
+                                const Icon = TYPE_ICONS[item.documentType];
+                                const at = tab === 'approved' ? item.approvedAt : item.submittedAt;
+                                const by = tab === 'approved' ? item.approvedBy : item.submittedBy;
+                                return (
+                                    <tr key={`${item.documentType}-${item._id}`} className="border-b hover:bg-gray-50">
+                                        <td className="p-4">
+                                            <div className="flex items-center gap-3">
+                                                <Icon className="w-5 h-5 text-gray-400 shrink-0" />
+                                                <div>
+                                                    <div className="font-medium text-gray-900">{item.title || 'Untitled'}</div>
+                                                    <div className="text-xs text-gray-500 capitalize">{item.documentType}</div>
+                                                </div>
+                                            </div>
+                                        </td>
+                                        <td className="p-4"><StatusBadge status={item.status} /></td>
+                                        <td className="p-4 text-sm text-gray-600">
+                                            {at ? new Date(at).toLocaleString() : '—'}
+                                            {by && <div className="text-xs text-gray-400">by {by}</div>}
+                                        </td>
+                                        <td className="p-4 text-sm text-gray-600">
+                                            <span className="inline-flex items-center gap-1">
+                                                <MessageSquare className="w-4 h-4" /> {item.openComments}
+                                            </span>
+                                        </td>
+                                        <td className="p-4 text-right">
+                                            <Link
+                                                to={`${EDIT_PATHS[item.documentType](item._id)}?review=1`}
+                                                className="inline-flex items-center gap-1 bg-indigo-600 text-white px-3 py-1 rounded text-sm hover:bg-indigo-700 transition"
+                                            >
+                                                <ClipboardCheck className="w-4 h-4" />
+                                                Review
+                                            </Link>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReviewQueue;
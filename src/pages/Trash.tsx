@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, RotateCcw, Book, FileText, Music, Video, Library, AlertTriangle } from 'lucide-react';
+import { getApiErrorMessage } from '../services/apiClient';
+import { TRASH_RETENTION_DAYS, trashApi } from '../services/api';
+import { type TrashItem, type TrashItemType } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+
+const TYPE_TABS: Array<{ type: TrashItemType | 'all'; label: string }> = [
+    { type: 'all', label: 'All' },
+    { type: 'book', label: 'Books' },
+    { type: 'page', label: 'Pages' },
+    { type: 'playlist', label: 'Playlists' },
+    { type: 'lesson', label: 'Lessons' },
+    { type: 'series', label: 'Series' },
+];
+
+const TYPE_ICONS: Record<TrashItemType, typeof Book> = {
+    book: Book,
+    page: FileText,
+    playlist: Music,
+    lesson: Video,
+    series: Library,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days left before the backend purges the item
+const daysLeft = (item: TrashItem) => {
+    const purgeAt = item.purgeAt
+        ? new Date(item.purgeAt).getTime()
+        : new Date(item.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+};
+
+const describe = (item: TrashItem) => {
+    if (item.type === 'page') {
+        return `Page ${item.pageNumber ?? '?'}${item.bookTitle ? ` of ${item.bookTitle}` : ''}`;
+    }
+    return item.title || 'Untitled';
+};
+
+const Trash: React.FC = () => {
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [typeFilter, setTypeFilter] = useState<TrashItemType | 'all'>('all');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const { canEdit, roles } = useAuth();
+    const readOnly = !canEdit('content');
+    // Restoring is an everyday editor task; purging can't be undone, so it stays with admins
+    const canPurge = roles.includes('admin');
+
+    useEffect(() => {
+        const fetchTrash = async () => {
+            try {
+                setItems(await trashApi.list());
+            } catch (error) {
+                console.error('Error fetching trash:', error);
+                alert(getApiErrorMessage(error, 'Failed to load the trash'));
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchTrash();
+    }, []);
+
+    const visibleItems = typeFilter === 'all' ? items : items.filter((item) => item.type === typeFilter);
+
+    const handleRestore = async (item: TrashItem) => {
+        setBusyId(item._id);
+        try {
+            await trashApi.restore(item.type, item._id);
+            setItems((prev) => prev.filter((i) => i._id !== item._id));
+        } catch (error) {
+            console.error('Error restoring item:', error);
+            alert(getApiErrorMessage(error, `Failed to restore "${describe(item)}"`));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handlePurge = async (item: TrashItem) => {
+        const extra = item.type === 'book' ? ' Its pages and uploaded media are deleted too.' : '';
+        if (!window.confirm(`Permanently delete "${describe(item)}"?${extra} This cannot be undone.`)) return;
+
+        setBusyId(item._id);
+        try {
+            await trashApi.purge(item.type, item._id);
+            setItems((prev) => prev.filter((i) => i._id !== item._id));
+        } catch (error) {
+            console.error('Error purging item:', error);
+            alert(getApiErrorMessage(error, `Failed to delete "${describe(item)}"`));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <h1 className="text-3xl font-bold text-gray-800">Trash</h1>
+            </div>
+            <p className="text-gray-500 mb-6">
+                Deleted content is kept for {TRASH_RETENTION_DAYS} days and can be restored until then.
+                {canPurge ? ' As an admin you can also delete items permanently.' : ''}
+            </p>
+
+            <div className="flex gap-2 mb-6">
+                {TYPE_TABS.map((tab) => (
+                    <button
+                        key={tab.type}
+                        onClick={() => setTypeFilter(tab.type)}
+                        className={`px-4 py-2 rounded-lg font-medium transition-colors ${typeFilter === tab.type
+                            ? 'bg-indigo-600 text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                    >
+                        {tab.label}
+                        <span className="ml-2 text-sm opacity-75">
+                            ({tab.type === 'all' ? items.length : items.filter((item) => item.type === tab.type).length})
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            {loading ? (
+                <p>Loading trash...</p>
+            ) : visibleItems.length === 0 ? (
+                <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 text-center">
+                    <Trash2 className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">The trash is empty.</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                    <table className="w-full">
+                        <thead className="bg-gray-50 border-b">
+                            <tr>
+                                <th className="text-left p-4 font-medium text-gray-600">Item</th>
+                                <th className="text-left p-4 font-medium text-gray-600">Deleted</th>
+                                <th className="text-left p-4 font-medium text-gray-600">Kept for</th>
+                                <th className="text-right p-4 font-medium text-gray-600">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleItems.map((item) => {
+                                const Icon = TYPE_ICONS[item.type];
+                                const remaining = daysLeft(item);
+                                return (
+                                    <tr key={`${item.type}-${item._id}`} className="border-b hover:bg-gray-50">
+                                        <td className="p-4">
+                                            <div className="flex items-center gap-3">
+                                                <Icon className="w-5 h-5 text-gray-400 shrink-0" />
+                                                <div>
+                                                    <div className="font-medium text-gray-900">{describe(item)}</div>
+                                                    {item.type === 'book' && item.pageCount !== undefined && (
+                                                        <div className="text-xs text-gray-500">
+                                                            {item.pageCount} page{item.pageCount === 1 ? '' : 's'}
+                                                            {item.mediaCount !== undefined && `, ${item.mediaCount} media file${item.mediaCount === 1 ? '' : 's'}`}
+                                                            {' '}restored with it
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        </td>
+                                        <td className="p-4 text-sm text-gray-600">
+                                            {new Date(item.deletedAt).toLocaleString()}
+                                            {item.deletedBy && <div className="text-xs text-gray-400">by {item.deletedBy}</div>}
+                                        </td>
+                                        <td className={`p-4 text-sm ${remaining <= 3 ? 'text-red-600' : 'text-gray-600'}`}>
+                                            <span className="inline-flex items-center gap-1">
+                                                {remaining <= 3 && <AlertTriangle className="w-4 h-4" />}
+                                                {remaining} more day{remaining === 1 ? '' : 's'}
+                                            </span>
+                                        </td>
+                                        <td className="p-4">
+                                            <div className="flex justify-end gap-2 text-sm">
+                                                <button
+                                                    onClick={() => handleRestore(item)}
+                                                    disabled={readOnly || busyId === item._id}
+                                                    className="inline-flex items-center gap-1 bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                                                >
+                                                    <RotateCcw className="w-4 h-4" />
+                                                    Restore
+                                                </button>
+                                                {canPurge && (
+                                                    <button
+                                                        onClick={() => handlePurge(item)}
+                                                        disabled={busyId === item._id}
+                                                        className="inline-flex items-center gap-1 bg-red-600 text-white px-3 py-1 rounded hover:bg-red-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                        Delete forever
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Trash;
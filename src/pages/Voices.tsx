@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { Volume2, Play, Pause, RefreshCw, XCircle, Image, Edit2, Save, X, Crown } from 'lucide-react';
-import { apiClient } from '../services/apiClient';
+import { getApiErrorMessage } from '../services/apiClient';
+import { ttsApi, uploadsApi, voicesApi } from '../services/api';
 
 interface Voice {
     _id?: string;
@@ -45,8 +46,8 @@ const Voices: React.FC = () => {
 
     const fetchVoices = async () => {
         try {
-            const response = await apiClient.get('/api/voices');
-            setVoices(response.data);
+            const voicesData = await voicesApi.list<Voice>();
+            setVoices(voicesData);
         } catch (error) {
             console.error('Error fetching voices:', error);
         } finally {
@@ -57,12 +58,12 @@ const Voices: React.FC = () => {
     const handleSync = async () => {
         setSyncing(true);
         try {
-            const response = await apiClient.get('/api/voices/sync');
-            alert(`Synced ${response.data.synced} voices (${response.data.created} new, ${response.data.updated} updated)`);
+            const result = await voicesApi.sync();
+            alert(`Synced ${result.synced} voices (${result.created} new, ${result.updated} updated)`);
             await fetchVoices();
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error syncing voices:', error);
-            alert(error.response?.data?.message || 'Failed to sync voices');
+            alert(getApiErrorMessage(error, 'Failed to sync voices'));
         } finally {
             setSyncing(false);
         }
@@ -70,27 +71,23 @@ const Voices: React.FC = () => {
 
     const handleToggleEnabled = async (voice: Voice) => {
         try {
-            const endpoint = voice.enabled 
-                ? `/api/voices/${voice.voiceId}/disable`
-                : `/api/voices/${voice.voiceId}/enable`;
-            
-            await apiClient.put(endpoint);
+            await voicesApi.setEnabled(voice.voiceId, !voice.enabled);
             await fetchVoices();
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error toggling voice:', error);
-            alert(error.response?.data?.message || 'Failed to update voice');
+            alert(getApiErrorMessage(error, 'Failed to update voice'));
         }
     };
 
     const handleToggleShowInApp = async (voice: Voice) => {
         try {
-            await apiClient.put(`/api/voices/${voice.voiceId}`, {
+            await voicesApi.update(voice.voiceId, {
                 showInApp: !voice.showInApp
             });
             await fetchVoices();
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error toggling showInApp:', error);
-            alert(error.response?.data?.message || 'Failed to update voice');
+            alert(getApiErrorMessage(error, 'Failed to update voice'));
         }
     };
 
@@ -107,15 +104,15 @@ const Voices: React.FC = () => {
             }
 
             const disablePromises = enabledVoices.map(voice =>
-                apiClient.put(`/api/voices/${voice.voiceId}/disable`)
+                voicesApi.setEnabled(voice.voiceId, false)
             );
 
             await Promise.all(disablePromises);
             await fetchVoices();
             alert(`Disabled ${enabledVoices.length} voice(s)`);
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error deselecting all voices:', error);
-            alert(error.response?.data?.message || 'Failed to disable all voices');
+            alert(getApiErrorMessage(error, 'Failed to disable all voices'));
         }
     };
 
@@ -136,13 +133,10 @@ const Voices: React.FC = () => {
             
             setPlayingPreview(voice.voiceId);
             
-            const response = await apiClient.post('/api/tts/generate', {
-                text: sampleText,
-                voiceId: voice.voiceId
-            });
+            const { audioUrl } = await ttsApi.generate(sampleText, voice.voiceId);
 
-            if (response.data && response.data.audioUrl) {
-                const audio = new Audio(response.data.audioUrl);
+            if (audioUrl) {
+                const audio = new Audio(audioUrl);
                 
                 audio.onended = () => {
                     setPlayingPreview(null);
@@ -198,7 +192,7 @@ const Voices: React.FC = () => {
 
     const handleSaveEdit = async (voiceId: string) => {
         try {
-            await apiClient.put(`/api/voices/${voiceId}`, {
+            await voicesApi.update(voiceId, {
                 customName: editForm.customName || undefined,
                 characterImage: editForm.characterImage || undefined,
                 isPremium: editForm.isPremium
@@ -206,9 +200,9 @@ const Voices: React.FC = () => {
             await fetchVoices();
             setEditingVoice(null);
             setEditForm({ customName: '', characterImage: '', isPremium: false });
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error saving voice:', error);
-            alert(error.response?.data?.message || 'Failed to save voice');
+            alert(getApiErrorMessage(error, 'Failed to save voice'));
         }
     };
 
@@ -217,25 +211,18 @@ const Voices: React.FC = () => {
         if (!file) return;
 
         setUploadingImage(true);
-        const formData = new FormData();
-        formData.append('file', file);
-
         try {
             // Use the correct image upload endpoint with type=voices for organized storage
-            const response = await apiClient.post(
-                `/api/upload/image?type=voices&voiceId=${voiceId}`,
-                formData,
-                { headers: { 'Content-Type': 'multipart/form-data' } }
-            );
+            const { url } = await uploadsApi.upload('image', file, { type: 'voices', voiceId });
 
-            if (response.data?.url) {
-                setEditForm(prev => ({ ...prev, characterImage: response.data.url }));
+            if (url) {
+                setEditForm(prev => ({ ...prev, characterImage: url }));
             } else {
                 alert('Failed to upload image: No URL returned');
             }
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error uploading image:', error);
-            alert(error.response?.data?.message || 'Failed to upload image');
+            alert(getApiErrorMessage(error, 'Failed to upload image'));
         } finally {
             setUploadingImage(false);
         }
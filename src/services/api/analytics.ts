@@ -0,0 +1,19 @@
+import apiClient from '../apiClient';
+
+// Analytics endpoints answer 200 with { success: false, message } when a report can't be built
+export interface AnalyticsResult {
+  success: boolean;
+  message?: string;
+}
+
+export const analyticsApi = {
+  getUsers: async <T extends AnalyticsResult>(timeRange: string): Promise<T> => {
+    const res = await apiClient.get<T>('/api/analytics/users', { params: { timeRange } });
+    return res.data;
+  },
+
+  getOnboarding: async <T extends AnalyticsResult>(days: number): Promise<T> => {
+    const res = await apiClient.get<T>('/api/analytics/onboarding', { params: { days } });
+    return res.data;
+  },
+};
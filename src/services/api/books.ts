@@ -0,0 +1,66 @@
+import apiClient, { fetchAllPages, getPagination, unwrapList } from '../apiClient';
+import { type Book, BookSchema, parseModel, parseModelList } from '../../types';
+
+export interface BookListParams {
+  status?: string; // 'all' includes drafts and archived books
+}
+
+export type BookSortField = 'title' | 'author' | 'status' | 'minAge' | 'readCount' | 'updatedAt';
+
+// One page of the catalog; search, filters and sorting all happen on the backend
+export interface BookQuery extends BookListParams {
+  page: number;
+  limit: number;
+  search?: string; // matches title or author
+  category?: string;
+  age?: number; // books suitable for this age (minAge at or below it)
+  isMembersOnly?: boolean;
+  orientation?: 'portrait' | 'landscape';
+  sort?: BookSortField;
+  order?: 'asc' | 'desc';
+}
+
+export interface BookResultPage {
+  books: Book[];
+  total: number;
+  hasMore: boolean;
+}
+
+export const booksApi = {
+  // Every book matching the filters, across all pages
+  list: async (params: BookListParams = {}): Promise<Book[]> => {
+    const books = await fetchAllPages<unknown>('/api/books', { ...params }, 'books');
+    return parseModelList(BookSchema, books, 'book');
+  },
+
+  search: async (query: BookQuery): Promise<BookResultPage> => {
+    const res = await apiClient.get('/api/books', { params: query });
+    const books = parseModelList(BookSchema, unwrapList<unknown>(res.data, 'books'), 'book');
+    const pagination = getPagination(res.data);
+    return {
+      books,
+      // Older backends only report hasMore; count what has been seen so far instead
+      total: pagination?.total ?? (query.page - 1) * query.limit + books.length,
+      hasMore: pagination?.hasMore ?? false,
+    };
+  },
+
+  get: async (bookId: string): Promise<Book> => {
+    const res = await apiClient.get(`/api/books/${bookId}`);
+    return parseModel(BookSchema, res.data, 'book');
+  },
+
+  create: async (payload: object): Promise<Book> => {
+    const res = await apiClient.post('/api/books', payload);
+    return parseModel(BookSchema, res.data, 'book');
+  },
+
+  update: async (bookId: string, payload: object): Promise<Book> => {
+    const res = await apiClient.put(`/api/books/${bookId}`, payload);
+    return parseModel(BookSchema, res.data, 'book');
+  },
+
+  remove: async (bookId: string): Promise<void> => {
+    await apiClient.delete(`/api/books/${bookId}`);
+  },
+};
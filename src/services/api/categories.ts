@@ -0,0 +1,24 @@
+import apiClient, { unwrapList } from '../apiClient';
+import { type Category, type CategoryPayload, CategorySchema, parseModel, parseModelList } from '../../types';
+
+export const categoriesApi = {
+  // Book or audio categories only when a type is given
+  list: async (type?: 'book' | 'audio'): Promise<Category[]> => {
+    const res = await apiClient.get('/api/categories', { params: type ? { type } : undefined });
+    return parseModelList(CategorySchema, unwrapList<unknown>(res.data, 'categories'), 'category');
+  },
+
+  create: async (payload: CategoryPayload): Promise<Category> => {
+    const res = await apiClient.post('/api/categories', payload);
+    return parseModel(CategorySchema, res.data, 'category');
+  },
+
+  update: async (categoryId: string, payload: Partial<CategoryPayload>): Promise<Category> => {
+    const res = await apiClient.put(`/api/categories/${categoryId}`, payload);
+    return parseModel(CategorySchema, res.data, 'category');
+  },
+
+  remove: async (categoryId: string): Promise<void> => {
+    await apiClient.delete(`/api/categories/${categoryId}`);
+  },
+};
@@ -0,0 +1,28 @@
+import apiClient, { unwrapList } from '../apiClient';
+import {
+  type FeaturedContentItem,
+  FeaturedContentItemSchema,
+  type WelcomeConfig,
+  WelcomeConfigSchema,
+  parseModel,
+  parseModelList,
+} from '../../types';
+
+export const featuredApi = {
+  // Null until the welcome screen has been set up
+  getWelcomeConfig: async (): Promise<WelcomeConfig | null> => {
+    const res = await apiClient.get('/api/featured/config/new-user-welcome');
+    if (!res.data?.success || !res.data.config) return null;
+    return parseModel(WelcomeConfigSchema, res.data.config, 'welcome screen');
+  },
+
+  saveWelcomeConfig: async (config: WelcomeConfig): Promise<void> => {
+    await apiClient.put('/api/featured/config/new-user-welcome', config);
+  },
+
+  // Published books, playlists and lessons that can be featured
+  availableContent: async (): Promise<FeaturedContentItem[]> => {
+    const res = await apiClient.get('/api/featured/available-content');
+    return parseModelList(FeaturedContentItemSchema, unwrapList<unknown>(res.data, 'content'), 'featured content');
+  },
+};
@@ -0,0 +1,24 @@
+import apiClient, { unwrapList } from '../apiClient';
+import { type Font, type FontPayload, FontSchema, parseModel, parseModelList } from '../../types';
+
+// Fonts registered for page text, shared by every book
+export const fontsApi = {
+  list: async (): Promise<Font[]> => {
+    const res = await apiClient.get('/api/fonts');
+    return parseModelList(FontSchema, unwrapList<unknown>(res.data, 'fonts'), 'font');
+  },
+
+  create: async (payload: FontPayload): Promise<Font> => {
+    const res = await apiClient.post('/api/fonts', payload);
+    return parseModel(FontSchema, res.data, 'font');
+  },
+
+  update: async (fontId: string, payload: Partial<FontPayload>): Promise<Font> => {
+    const res = await apiClient.put(`/api/fonts/${fontId}`, payload);
+    return parseModel(FontSchema, res.data, 'font');
+  },
+
+  remove: async (fontId: string): Promise<void> => {
+    await apiClient.delete(`/api/fonts/${fontId}`);
+  },
+};
@@ -0,0 +1,23 @@
+import apiClient from '../apiClient';
+
+// Games are addressed by their gameId slug, not the Mongo _id
+export const gamesApi = {
+  list: async <T>(): Promise<T[]> => {
+    const res = await apiClient.get<T[]>('/api/games');
+    return res.data;
+  },
+
+  create: async <T>(payload: object): Promise<T> => {
+    const res = await apiClient.post<T>('/api/games', payload);
+    return res.data;
+  },
+
+  update: async <T>(gameId: string, payload: object): Promise<T> => {
+    const res = await apiClient.put<T>(`/api/games/${gameId}`, payload);
+    return res.data;
+  },
+
+  toggle: async (gameId: string): Promise<void> => {
+    await apiClient.put(`/api/games/${gameId}/toggle`);
+  },
+};
@@ -0,0 +1,21 @@
+// Typed endpoint modules. Everything goes through apiClient, so base URL, auth and
+// token refresh are handled in one place; pages should not import axios or call fetch directly.
+export * from './analytics';
+export * from './books';
+export * from './categories';
+export * from './featured';
+export * from './fonts';
+export * from './games';
+export * from './lessons';
+export * from './notifications';
+export * from './pages';
+export * from './pageTemplates';
+export * from './playlists';
+export * from './radio';
+export * from './reviews';
+export * from './revisions';
+export * from './series';
+export * from './trash';
+export * from './tts';
+export * from './uploads';
+export * from './voices';
@@ -0,0 +1,62 @@
+import apiClient, { unwrapList } from '../apiClient';
+import { type Activity, ActivitySchema, type Lesson, LessonSchema, parseModel, parseModelList } from '../../types';
+
+export interface LessonListParams {
+  status?: string; // 'all' includes drafts and archived lessons
+}
+
+export interface LessonCalendarParams extends LessonListParams {
+  startDate: string; // ISO date
+  endDate: string; // ISO date
+}
+
+export interface GenerateActivityRequest {
+  devotionalContent: string;
+  activityType: string;
+}
+
+export const lessonsApi = {
+  list: async (params: LessonListParams = {}): Promise<Lesson[]> => {
+    const res = await apiClient.get('/api/lessons', { params });
+    return parseModelList(LessonSchema, unwrapList<unknown>(res.data, 'lessons'), 'lesson');
+  },
+
+  // Lessons scheduled between startDate and endDate
+  calendar: async (params: LessonCalendarParams): Promise<Lesson[]> => {
+    const res = await apiClient.get('/api/lessons/calendar', { params });
+    return parseModelList(LessonSchema, unwrapList<unknown>(res.data, 'lessons'), 'lesson');
+  },
+
+  get: async (lessonId: string): Promise<Lesson> => {
+    const res = await apiClient.get(`/api/lessons/${lessonId}`);
+    return parseModel(LessonSchema, res.data, 'lesson');
+  },
+
+  create: async (payload: object): Promise<Lesson> => {
+    const res = await apiClient.post('/api/lessons', payload);
+    return parseModel(LessonSchema, res.data, 'lesson');
+  },
+
+  update: async (lessonId: string, payload: object): Promise<Lesson> => {
+    const res = await apiClient.put(`/api/lessons/${lessonId}`, payload);
+    return parseModel(LessonSchema, res.data, 'lesson');
+  },
+
+  remove: async (lessonId: string): Promise<void> => {
+    await apiClient.delete(`/api/lessons/${lessonId}`);
+  },
+
+  // Pass a null date to unschedule
+  schedule: async (lessonId: string, date: Date | null): Promise<void> => {
+    await apiClient.put('/api/lessons/schedule', {
+      lessonId,
+      date: date ? date.toISOString() : null,
+    });
+  },
+
+  // AI-drafted activity; the model may leave out any field
+  generateActivity: async (payload: GenerateActivityRequest): Promise<Partial<Activity>> => {
+    const res = await apiClient.post('/api/lessons/generate-activity', payload);
+    return parseModel(ActivitySchema.partial(), res.data, 'generated activity');
+  },
+};
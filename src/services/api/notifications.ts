@@ -0,0 +1,28 @@
+import apiClient from '../apiClient';
+
+export interface NotificationPayload {
+  title: string;
+  message: string;
+  segments: string[];
+  url?: string;
+  imageUrl?: string;
+}
+
+export interface NotificationResult {
+  success: boolean;
+  message?: string;
+  recipients?: number;
+}
+
+export const notificationsApi = {
+  send: async (payload: NotificationPayload): Promise<NotificationResult> => {
+    const res = await apiClient.post<NotificationResult>('/api/notifications/send', payload);
+    return res.data;
+  },
+
+  // sendAt is an ISO timestamp
+  schedule: async (payload: NotificationPayload & { sendAt?: string }): Promise<NotificationResult> => {
+    const res = await apiClient.post<NotificationResult>('/api/notifications/schedule', payload);
+    return res.data;
+  },
+};
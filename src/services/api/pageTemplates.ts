@@ -0,0 +1,27 @@
+import apiClient, { unwrapList } from '../apiClient';
+import { type PageTemplate, type PageTemplatePayload, PageTemplateSchema, parseModel, parseModelList } from '../../types';
+
+// The book's default layout template for new pages is remembered per browser
+export const defaultPageTemplateKey = (bookId: string) => `defaultPageTemplate_${bookId}`;
+
+// Shared layout templates; every book sees the same library
+export const pageTemplatesApi = {
+  list: async (): Promise<PageTemplate[]> => {
+    const res = await apiClient.get('/api/page-templates');
+    return parseModelList(PageTemplateSchema, unwrapList<unknown>(res.data, 'templates'), 'page template');
+  },
+
+  create: async (payload: PageTemplatePayload): Promise<PageTemplate> => {
+    const res = await apiClient.post('/api/page-templates', payload);
+    return parseModel(PageTemplateSchema, res.data, 'page template');
+  },
+
+  update: async (templateId: string, payload: Partial<PageTemplatePayload>): Promise<PageTemplate> => {
+    const res = await apiClient.put(`/api/page-templates/${templateId}`, payload);
+    return parseModel(PageTemplateSchema, res.data, 'page template');
+  },
+
+  remove: async (templateId: string): Promise<void> => {
+    await apiClient.delete(`/api/page-templates/${templateId}`);
+  },
+};
@@ -0,0 +1,24 @@
+import apiClient from '../apiClient';
+import { type Page, PageDocumentSchema, normalizePage, parseModel, parseModelList } from '../../types';
+
+// Responses are normalized, so callers always get the current Page shape whatever was stored
+export const pagesApi = {
+  listByBook: async (bookId: string): Promise<Page[]> => {
+    const res = await apiClient.get(`/api/pages/book/${bookId}`);
+    return parseModelList(PageDocumentSchema, res.data, 'page').map(normalizePage);
+  },
+
+  create: async (payload: object): Promise<Page> => {
+    const res = await apiClient.post('/api/pages', payload);
+    return normalizePage(parseModel(PageDocumentSchema, res.data, 'page'));
+  },
+
+  update: async (pageId: string, payload: object): Promise<Page> => {
+    const res = await apiClient.put(`/api/pages/${pageId}`, payload);
+    return normalizePage(parseModel(PageDocumentSchema, res.data, 'page'));
+  },
+
+  remove: async (pageId: string): Promise<void> => {
+    await apiClient.delete(`/api/pages/${pageId}`);
+  },
+};
@@ -0,0 +1,42 @@
+import apiClient, { fetchAllPages } from '../apiClient';
+import { type Playlist, PlaylistSchema, parseModel, parseModelList } from '../../types';
+
+export interface PlaylistListParams {
+  status?: string; // 'all' includes drafts
+}
+
+export interface FeaturedState {
+  isFeatured: boolean;
+  featuredOrder: number;
+}
+
+export const playlistsApi = {
+  // Every playlist matching the filters, across all pages
+  list: async (params: PlaylistListParams = {}): Promise<Playlist[]> => {
+    const playlists = await fetchAllPages<unknown>('/api/playlists', { ...params }, 'playlists');
+    return parseModelList(PlaylistSchema, playlists, 'playlist');
+  },
+
+  get: async (playlistId: string): Promise<Playlist> => {
+    const res = await apiClient.get(`/api/playlists/${playlistId}`);
+    return parseModel(PlaylistSchema, res.data, 'playlist');
+  },
+
+  create: async (payload: object): Promise<Playlist> => {
+    const res = await apiClient.post('/api/playlists', payload);
+    return parseModel(PlaylistSchema, res.data, 'playlist');
+  },
+
+  update: async (playlistId: string, payload: object): Promise<Playlist> => {
+    const res = await apiClient.put(`/api/playlists/${playlistId}`, payload);
+    return parseModel(PlaylistSchema, res.data, 'playlist');
+  },
+
+  remove: async (playlistId: string): Promise<void> => {
+    await apiClient.delete(`/api/playlists/${playlistId}`);
+  },
+
+  setItemFeatured: async (playlistId: string, itemId: string, featured: FeaturedState): Promise<void> => {
+    await apiClient.put(`/api/playlists/${playlistId}/items/${itemId}/featured`, featured);
+  },
+};
@@ -0,0 +1,182 @@
+import apiClient from '../apiClient';
+import {
+  type GoogleVoice,
+  GoogleVoiceSchema,
+  type HostBreak,
+  HostBreakSchema,
+  type LibraryStats,
+  LibraryStatsSchema,
+  type RadioHost,
+  RadioHostSchema,
+  type RadioSegment,
+  RadioSegmentSchema,
+  type RadioStation,
+  RadioStationSchema,
+  type RadioStats,
+  RadioStatsSchema,
+  type RadioTrack,
+  RadioTrackSchema,
+  parseModel,
+  parseModelList,
+} from '../../types';
+
+export interface HostBreakRequest {
+  nextSongTitle?: string;
+  nextSongArtist?: string;
+  previousSongTitle?: string;
+  previousSongArtist?: string;
+  targetDuration: number; // seconds
+  hostId?: string; // omit to let the station pick a host
+  contentType?: string;
+  contentDescription?: string;
+  contentCategory?: string;
+  isDuo?: boolean;
+}
+
+export interface RadioScriptRequest {
+  hostName: string;
+  nextSongTitle?: string;
+  nextSongArtist?: string;
+  previousSongTitle?: string;
+  previousSongArtist?: string;
+  targetDuration: number; // seconds
+}
+
+export interface GoogleVoiceSettings {
+  voiceName: string;
+  languageCode?: string;
+  pitch?: number;
+  speakingRate?: number;
+}
+
+export interface BulkAddRequest {
+  playlistId: string;
+  category: string;
+  rotation: string;
+}
+
+export interface GenerateSegmentsRequest {
+  playlistIds: string[];
+  hostIds: string[];
+  clearExisting: boolean;
+}
+
+export const radioApi = {
+  // Station
+  // Null until the station has been set up
+  getStation: async (): Promise<RadioStation | null> => {
+    const res = await apiClient.get('/api/radio/station');
+    return parseModel(RadioStationSchema.nullable(), res.data, 'radio station');
+  },
+
+  updateStation: async (changes: object): Promise<void> => {
+    await apiClient.put('/api/radio/station', changes);
+  },
+
+  getStats: async (): Promise<RadioStats> => {
+    const res = await apiClient.get('/api/radio/stats');
+    return parseModel(RadioStatsSchema, res.data, 'radio stats');
+  },
+
+  // Hosts
+  listHosts: async (): Promise<RadioHost[]> => {
+    const res = await apiClient.get('/api/radio/hosts');
+    return parseModelList(RadioHostSchema, res.data || [], 'radio host');
+  },
+
+  createHost: async (payload: object): Promise<void> => {
+    await apiClient.post('/api/radio/hosts', payload);
+  },
+
+  updateHost: async (hostId: string, payload: object): Promise<void> => {
+    await apiClient.put(`/api/radio/hosts/${hostId}`, payload);
+  },
+
+  deleteHost: async (hostId: string): Promise<void> => {
+    await apiClient.delete(`/api/radio/hosts/${hostId}`);
+  },
+
+  // Writes a script for the break and voices it; resolves to undefined if nothing was generated
+  generateHostBreak: async (payload: HostBreakRequest): Promise<HostBreak | undefined> => {
+    const res = await apiClient.post<{ success?: boolean; hostBreak?: unknown }>('/api/radio/host-break/generate', payload);
+    return parseModel(HostBreakSchema.optional(), res.data.hostBreak, 'host break');
+  },
+
+  // Library
+  listTracks: async (params: { enabled?: boolean } = {}): Promise<RadioTrack[]> => {
+    const res = await apiClient.get<{ tracks?: unknown[] }>('/api/radio/library', { params });
+    return parseModelList(RadioTrackSchema, res.data.tracks || [], 'radio track');
+  },
+
+  getLibraryStats: async (): Promise<LibraryStats> => {
+    const res = await apiClient.get('/api/radio/library/stats');
+    return parseModel(LibraryStatsSchema, res.data, 'library stats');
+  },
+
+  addTrack: async (payload: object): Promise<void> => {
+    await apiClient.post('/api/radio/library', payload);
+  },
+
+  // Copies every item of a playlist into the library; resolves to the server's summary message
+  addPlaylistTracks: async (payload: BulkAddRequest): Promise<string> => {
+    const res = await apiClient.post<{ message: string }>('/api/radio/library/bulk', payload);
+    return res.data.message;
+  },
+
+  updateTrack: async (trackId: string, changes: object): Promise<void> => {
+    await apiClient.put(`/api/radio/library/${trackId}`, changes);
+  },
+
+  toggleTrack: async (trackId: string): Promise<void> => {
+    await apiClient.post(`/api/radio/library/${trackId}/toggle`);
+  },
+
+  deleteTrack: async (trackId: string): Promise<void> => {
+    await apiClient.delete(`/api/radio/library/${trackId}`);
+  },
+
+  // Show segments
+  listSegments: async (): Promise<RadioSegment[]> => {
+    const res = await apiClient.get('/api/radio/segments');
+    return parseModelList(RadioSegmentSchema, res.data || [], 'radio segment');
+  },
+
+  generateSegments: async (payload: GenerateSegmentsRequest): Promise<{ segments: RadioSegment[]; totalSegments?: number }> => {
+    const res = await apiClient.post<{ segments?: unknown[]; totalSegments?: number }>('/api/radio/segments/generate', payload);
+    return {
+      segments: parseModelList(RadioSegmentSchema, res.data.segments || [], 'radio segment'),
+      totalSegments: res.data.totalSegments,
+    };
+  },
+
+  updateSegment: async (segmentId: string, changes: object): Promise<void> => {
+    await apiClient.put(`/api/radio/segments/${segmentId}`, changes);
+  },
+
+  clearSegments: async (): Promise<void> => {
+    await apiClient.delete('/api/radio/segments');
+  },
+
+  writeScript: async (payload: RadioScriptRequest): Promise<string> => {
+    const res = await apiClient.post<{ script: string }>('/api/ai/radio-script', payload);
+    return res.data.script;
+  },
+
+  // Google TTS voices used by radio hosts
+  listGoogleVoices: async (): Promise<GoogleVoice[]> => {
+    const res = await apiClient.get<{ voices?: unknown[] }>('/api/google-tts/voices');
+    return parseModelList(GoogleVoiceSchema, res.data.voices || [], 'Google voice');
+  },
+
+  // Short sample, returned inline as base64 mp3
+  previewVoice: async (text: string, voice: GoogleVoiceSettings): Promise<string | undefined> => {
+    const res = await apiClient.post<{ audioBase64?: string }>('/api/google-tts/preview', { text, ...voice });
+    return res.data.audioBase64;
+  },
+
+  // Stored audio file for a script; resolves to its URL
+  synthesize: async (text: string, voice: GoogleVoiceSettings): Promise<string> => {
+    const res = await apiClient.post<{ audioUrl: string }>('/api/google-tts/generate', { text, ...voice });
+    return res.data.audioUrl;
+  },
+};
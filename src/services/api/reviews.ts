@@ -0,0 +1,51 @@
+import apiClient, { unwrapList } from '../apiClient';
+import {
+  type ReviewAnchor,
+  type ReviewComment,
+  type ReviewDocumentType,
+  type ReviewQueueItem,
+  type ReviewStatus,
+  ReviewCommentSchema,
+  ReviewQueueItemSchema,
+  ReviewStatusSchema,
+  parseModel,
+  parseModelList,
+} from '../../types';
+import { type ReviewAction } from '../permissions';
+
+const reviewUrl = (type: ReviewDocumentType, documentId: string) => `/api/reviews/${type}/${documentId}`;
+
+// Status changes that move a document through the workflow; comment is not one of them
+export type ReviewTransition = Exclude<ReviewAction, 'comment'>;
+
+// Editorial review of books, playlists and lessons. The backend checks the caller's role for
+// each transition and records who made it.
+export const reviewsApi = {
+  // Documents in review or approved and waiting to be published, oldest submission first
+  queue: async (status?: Extract<ReviewStatus, 'in_review' | 'approved'>): Promise<ReviewQueueItem[]> => {
+    const res = await apiClient.get('/api/reviews/queue', { params: { status } });
+    return parseModelList(ReviewQueueItemSchema, unwrapList<unknown>(res.data, 'items'), 'review queue item');
+  },
+
+  // Returns the document's new status; an optional note is added as a comment
+  transition: async (type: ReviewDocumentType, documentId: string, action: ReviewTransition, note?: string): Promise<ReviewStatus> => {
+    const res = await apiClient.post(`${reviewUrl(type, documentId)}/transitions`, { action, note });
+    return parseModel(ReviewStatusSchema, res.data?.status, 'review status');
+  },
+
+  // Oldest first
+  comments: async (type: ReviewDocumentType, documentId: string): Promise<ReviewComment[]> => {
+    const res = await apiClient.get(`${reviewUrl(type, documentId)}/comments`);
+    return parseModelList(ReviewCommentSchema, unwrapList<unknown>(res.data, 'comments'), 'review comment');
+  },
+
+  // A reply passes the id of the comment that started the thread and inherits its anchor
+  addComment: async (type: ReviewDocumentType, documentId: string, body: string, anchor: ReviewAnchor, parentId?: string): Promise<ReviewComment> => {
+    const res = await apiClient.post(`${reviewUrl(type, documentId)}/comments`, { body, anchor, parentId });
+    return parseModel(ReviewCommentSchema, res.data?.comment ?? res.data, 'review comment');
+  },
+
+  setResolved: async (type: ReviewDocumentType, documentId: string, commentId: string, resolved: boolean): Promise<void> => {
+    await apiClient.patch(`${reviewUrl(type, documentId)}/comments/${commentId}`, { resolved });
+  },
+};
@@ -0,0 +1,18 @@
+import apiClient, { unwrapList } from '../apiClient';
+import { type Revision, type RevisionDocumentType, RevisionSchema, parseModelList } from '../../types';
+
+const revisionsUrl = (type: RevisionDocumentType, documentId: string) => `/api/revisions/${type}/${documentId}`;
+
+// Saved versions of books, pages, playlists and lessons; the backend records one per save
+export const revisionsApi = {
+  // Newest first
+  list: async (type: RevisionDocumentType, documentId: string): Promise<Revision[]> => {
+    const res = await apiClient.get(revisionsUrl(type, documentId));
+    return parseModelList(RevisionSchema, unwrapList<unknown>(res.data, 'revisions'), 'revision');
+  },
+
+  // Saves the revision's snapshot as the current document, which itself becomes a new revision
+  rollback: async (type: RevisionDocumentType, documentId: string, revisionId: string): Promise<void> => {
+    await apiClient.post(`${revisionsUrl(type, documentId)}/${revisionId}/rollback`);
+  },
+};
@@ -0,0 +1,31 @@
+import apiClient, { unwrapList } from '../apiClient';
+import { type BookSeries, type BookSeriesPayload, BookSeriesSchema, parseModel, parseModelList } from '../../types';
+
+export const seriesApi = {
+  // Drafts included
+  list: async (): Promise<BookSeries[]> => {
+    const res = await apiClient.get('/api/book-series', { params: { status: 'all' } });
+    return parseModelList(BookSeriesSchema, unwrapList<unknown>(res.data, 'series'), 'book series');
+  },
+
+  // With its books and category populated
+  get: async (seriesId: string): Promise<BookSeries> => {
+    const res = await apiClient.get(`/api/book-series/${seriesId}`);
+    return parseModel(BookSeriesSchema, res.data, 'book series');
+  },
+
+  create: async (payload: BookSeriesPayload): Promise<BookSeries> => {
+    const res = await apiClient.post('/api/book-series', payload);
+    return parseModel(BookSeriesSchema, res.data, 'book series');
+  },
+
+  update: async (seriesId: string, payload: Partial<BookSeriesPayload>): Promise<BookSeries> => {
+    const res = await apiClient.put(`/api/book-series/${seriesId}`, payload);
+    return parseModel(BookSeriesSchema, res.data, 'book series');
+  },
+
+  // Moves the series to the Trash
+  remove: async (seriesId: string): Promise<void> => {
+    await apiClient.delete(`/api/book-series/${seriesId}`);
+  },
+};
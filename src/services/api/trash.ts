@@ -0,0 +1,22 @@
+import apiClient, { unwrapList } from '../apiClient';
+import { type TrashItem, type TrashItemType, TrashItemSchema, parseModelList } from '../../types';
+
+// How long the backend keeps deleted content before purging it; each item's purgeAt is authoritative
+export const TRASH_RETENTION_DAYS = 30;
+
+// Deletes on the content endpoints (books, pages, playlists, lessons, series) move documents here
+export const trashApi = {
+  list: async (type?: TrashItemType): Promise<TrashItem[]> => {
+    const res = await apiClient.get('/api/trash', { params: { type } });
+    return parseModelList(TrashItemSchema, unwrapList<unknown>(res.data, 'items'), 'trash item');
+  },
+
+  restore: async (type: TrashItemType, id: string): Promise<void> => {
+    await apiClient.post(`/api/trash/${type}/${id}/restore`);
+  },
+
+  // Admin only: removes the document and its media for good
+  purge: async (type: TrashItemType, id: string): Promise<void> => {
+    await apiClient.delete(`/api/trash/${type}/${id}`);
+  },
+};
@@ -0,0 +1,60 @@
+import apiClient from '../apiClient';
+
+export interface EnhancedText {
+  enhancedText?: string;
+}
+
+// ElevenLabs character alignment: one entry per character of the text sent, times in seconds
+export interface TtsAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+export interface TtsWordTimestamp {
+  word: string;
+  start: number; // seconds
+  end: number;
+}
+
+export interface TtsSpeech {
+  audioUrl?: string;
+  // Only with timestamps requested, and only from servers that support them
+  alignment?: TtsAlignment;
+  words?: TtsWordTimestamp[];
+}
+
+export interface ClearCacheResult {
+  success: boolean;
+  deletedCount?: number;
+  message?: string;
+}
+
+// Narration text-to-speech (ElevenLabs). Radio hosts use Google TTS - see radioApi.
+export const ttsApi = {
+  // Adds emotion prompts to narration text
+  enhance: async (text: string): Promise<EnhancedText> => {
+    const res = await apiClient.post<EnhancedText>('/api/tts/enhance', { text });
+    return res.data;
+  },
+
+  // Adds sound effect prompts to narration text
+  enhanceSfx: async (text: string): Promise<EnhancedText> => {
+    const res = await apiClient.post<EnhancedText>('/api/tts/enhance-sfx', { text });
+    return res.data;
+  },
+
+  generate: async (text: string, voiceId: string, options: { timestamps?: boolean } = {}): Promise<TtsSpeech> => {
+    const res = await apiClient.post<TtsSpeech>('/api/tts/generate', {
+      text,
+      voiceId,
+      ...(options.timestamps && { withTimestamps: true }),
+    });
+    return res.data;
+  },
+
+  clearBookCache: async (bookId: string): Promise<ClearCacheResult> => {
+    const res = await apiClient.delete<ClearCacheResult>('/api/tts/clear-cache', { data: { bookId } });
+    return res.data;
+  },
+};
@@ -0,0 +1,43 @@
+import type { AxiosProgressEvent } from 'axios';
+import apiClient from '../apiClient';
+
+export type UploadKind = 'image' | 'video' | 'audio' | 'sound-effect' | 'font';
+
+// Query params decide the storage path, e.g. { bookId, type: 'pages', pageNumber }
+export type UploadParams = Record<string, string | number | undefined>;
+
+export interface UploadResult {
+  url: string;
+  filename?: string;
+  backgroundAudioUrl?: string; // audio track extracted from uploaded videos (iOS layering)
+}
+
+export interface UploadOptions {
+  filename?: string; // needed when uploading a bare Blob
+  onUploadProgress?: (event: AxiosProgressEvent) => void;
+}
+
+export const uploadsApi = {
+  upload: async (kind: UploadKind, file: Blob, params: UploadParams = {}, options: UploadOptions = {}): Promise<UploadResult> => {
+    const formData = new FormData();
+    if (options.filename) {
+      formData.append('file', file, options.filename);
+    } else {
+      formData.append('file', file);
+    }
+    const res = await apiClient.post<UploadResult>(`/api/upload/${kind}`, formData, {
+      params,
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: options.onUploadProgress,
+    });
+    return res.data;
+  },
+
+  // Re-encode a book's background audio at a new volume
+  reprocessBookAudio: async (bookId: string, index: number, volume: number): Promise<UploadResult> => {
+    const res = await apiClient.post<UploadResult>('/api/upload/audio/reprocess', null, {
+      params: { bookId, index, volume },
+    });
+    return res.data;
+  },
+};
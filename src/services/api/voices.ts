@@ -0,0 +1,29 @@
+import apiClient from '../apiClient';
+
+export interface VoiceSyncResult {
+  synced: number;
+  created: number;
+  updated: number;
+}
+
+// ElevenLabs voices, addressed by their voiceId
+export const voicesApi = {
+  list: async <T>(): Promise<T[]> => {
+    const res = await apiClient.get<T[]>('/api/voices');
+    return res.data;
+  },
+
+  // Pull the latest voice list from ElevenLabs
+  sync: async (): Promise<VoiceSyncResult> => {
+    const res = await apiClient.get<VoiceSyncResult>('/api/voices/sync');
+    return res.data;
+  },
+
+  update: async (voiceId: string, payload: object): Promise<void> => {
+    await apiClient.put(`/api/voices/${voiceId}`, payload);
+  },
+
+  setEnabled: async (voiceId: string, enabled: boolean): Promise<void> => {
+    await apiClient.put(`/api/voices/${voiceId}/${enabled ? 'enable' : 'disable'}`);
+  },
+};
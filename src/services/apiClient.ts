@@ -1,7 +1,12 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { getAccessToken, refreshAccessToken } from './authSession';
+import { ApiShapeError } from '../types/validation';
 
-// Base URL for API requests - defaults to localhost for development
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001';
+// Base URL for API requests - defaults to localhost for development.
+// Endpoint paths already start with /api, so a trailing slash or /api on the env value is dropped.
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001')
+  .replace(/\/+$/, '')
+  .replace(/\/api$/, '');
 
 // Create axios instance with base URL
 export const apiClient = axios.create({
@@ -12,6 +17,89 @@ export const apiClient = axios.create({
   },
 });
 
+// Attach the current access token to every request
+apiClient.interceptors.request.use((config) => {
+  const token = getAccessToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// On 401, refresh the access token once and replay the request.
+// If refresh fails the session is cleared, which signs the user out via AuthContext.
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+    if (error.response?.status !== 401 || !original || original._retried) {
+      return Promise.reject(error);
+    }
+
+    original._retried = true;
+    const token = await refreshAccessToken();
+    if (!token) {
+      return Promise.reject(error);
+    }
+    original.headers.Authorization = `Bearer ${token}`;
+    return apiClient(original);
+  }
+);
+
+// Pull a readable message out of a failed request, preferring the server's own message
+export const getApiErrorMessage = (err: unknown, fallback: string): string => {
+  if (err instanceof ApiShapeError) return err.message;
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data;
+    if (data?.message) return data.message;
+    if (typeof data?.error === 'string') return data.error;
+    if (!err.response && err.request) return 'Could not reach the server';
+  }
+  return fallback;
+};
+
+// Collection endpoints answer with either a bare array or { data: [...], pagination }.
+// Some older ones use a named key instead of data (e.g. { books }, { lessons }, { tracks }).
+export interface Pagination {
+  page?: number;
+  limit?: number;
+  total?: number;
+  hasMore?: boolean;
+}
+
+export const unwrapList = <T>(payload: unknown, key?: string): T[] => {
+  if (Array.isArray(payload)) return payload as T[];
+  if (payload && typeof payload === 'object') {
+    const record = payload as Record<string, unknown>;
+    const list = record.data ?? (key ? record[key] : undefined);
+    if (Array.isArray(list)) return list as T[];
+  }
+  return [];
+};
+
+export const getPagination = (payload: unknown): Pagination | undefined => {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return undefined;
+  return (payload as { pagination?: Pagination }).pagination;
+};
+
+const PAGE_SIZE = 100; // backend cap is 100
+// 50,000 records; a backend that keeps reporting hasMore can't keep the loop going forever
+const MAX_PAGES = 500;
+
+// Walks every page of a paginated collection endpoint and concatenates the results.
+// Stops at an empty or short page too, whatever hasMore says.
+export const fetchAllPages = async <T>(url: string, params: Record<string, unknown> = {}, key?: string): Promise<T[]> => {
+  let results: T[] = [];
+  for (let page = 1; page <= MAX_PAGES; page += 1) {
+    const res = await apiClient.get(url, { params: { ...params, page, limit: PAGE_SIZE } });
+    const items = unwrapList<T>(res.data, key);
+    results = results.concat(items);
+    if (items.length < PAGE_SIZE || !getPagination(res.data)?.hasMore) return results;
+  }
+  console.warn(`⚠️ Stopped fetching ${url} after ${MAX_PAGES} pages`);
+  return results;
+};
+
 // Helper to get full URL for uploads (useful for form submissions)
 export const getApiUrl = (path: string): string => {
   // Ensure path starts with /
@@ -30,6 +118,12 @@ export const getUploadUrl = (endpoint: string, params?: Record<string, string>):
   return url.toString();
 };
 
+// Whether a URL is served by the backend or this site, so a request for it may carry the access token
+export const isOwnUrl = (url: string): boolean => {
+  const { origin } = new URL(url, API_BASE_URL);
+  return origin === new URL(API_BASE_URL).origin || origin === window.location.origin;
+};
+
 // Helper to transform stored URLs to full URLs (for displaying images/media)
 export const getMediaUrl = (url: string | undefined): string => {
   if (!url) return '';
@@ -0,0 +1,151 @@
+import axios from 'axios';
+
+// Auth endpoints live on the main backend by default. Point VITE_AUTH_BASE_URL at the
+// stand-in server (npm run dev:auth) to develop without a backend auth implementation.
+const AUTH_BASE_URL = import.meta.env.VITE_AUTH_BASE_URL || import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001';
+
+const SESSION_KEY = 'gk_portal_session';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+  avatarUrl?: string;
+  roles?: string[]; // raw role names from the backend - see services/permissions
+}
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt?: number; // epoch ms, informational only - the server's 401 is the source of truth
+  user: AuthUser;
+}
+
+interface TokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn?: number; // seconds
+  user: AuthUser;
+}
+
+type SessionListener = (session: AuthSession | null) => void;
+
+// Separate instance so refresh/login calls never go through the apiClient 401 interceptor
+const authClient = axios.create({
+  baseURL: AUTH_BASE_URL,
+  timeout: 15000,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+const listeners = new Set<SessionListener>();
+
+const readSession = (): AuthSession | null => {
+  const raw = localStorage.getItem(SESSION_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed?.accessToken && parsed?.refreshToken && parsed?.user) {
+      return parsed as AuthSession;
+    }
+  } catch {
+    // Corrupt entry - fall through and drop it
+  }
+  localStorage.removeItem(SESSION_KEY);
+  return null;
+};
+
+let currentSession: AuthSession | null = readSession();
+
+const setSession = (session: AuthSession | null) => {
+  currentSession = session;
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  listeners.forEach(listener => listener(session));
+};
+
+const toSession = (data: TokenResponse): AuthSession => ({
+  accessToken: data.accessToken,
+  refreshToken: data.refreshToken,
+  expiresAt: data.expiresIn ? Date.now() + data.expiresIn * 1000 : undefined,
+  user: data.user,
+});
+
+export const getSession = (): AuthSession | null => currentSession;
+
+export const getAccessToken = (): string | null => currentSession?.accessToken ?? null;
+
+// Notified whenever the session is created, refreshed or cleared (including forced logouts)
+export const subscribeToSession = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const loginWithPassword = async (email: string, password: string): Promise<AuthSession> => {
+  const res = await authClient.post<TokenResponse>('/api/auth/login', { email, password });
+  const session = toSession(res.data);
+  setSession(session);
+  return session;
+};
+
+// Concurrent 401s share one refresh request instead of racing each other
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token.
+ * Resolves to the new access token, or null (after clearing the session) when refresh is rejected.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (refreshInFlight) return refreshInFlight;
+
+  const refreshToken = currentSession?.refreshToken;
+  if (!refreshToken) return Promise.resolve(null);
+
+  refreshInFlight = authClient
+    .post<TokenResponse>('/api/auth/refresh', { refreshToken })
+    .then(res => {
+      const session = toSession(res.data);
+      setSession(session);
+      return session.accessToken;
+    })
+    .catch(err => {
+      console.warn('Session refresh failed, signing out:', err?.response?.status || err?.message);
+      setSession(null);
+      return null;
+    })
+    .finally(() => {
+      refreshInFlight = null;
+    });
+
+  return refreshInFlight;
+};
+
+export const logoutSession = async (): Promise<void> => {
+  const refreshToken = currentSession?.refreshToken;
+  setSession(null);
+  if (!refreshToken) return;
+  try {
+    await authClient.post('/api/auth/logout', { refreshToken });
+  } catch (err) {
+    // Local session is already gone; a failed revoke only leaves a token to expire server-side
+    console.warn('Failed to revoke refresh token:', err);
+  }
+};
+
+// Pull a readable message out of an auth error response
+export const getAuthErrorMessage = (err: unknown): string => {
+  if (axios.isAxiosError(err)) {
+    if (err.response) {
+      if (err.response.status === 401) return 'Invalid email or password';
+      return err.response.data?.message || err.response.data?.error || `Server error: ${err.response.status}`;
+    }
+    if (err.request) return 'Could not reach the auth server. Is it running?';
+  }
+  return err instanceof Error ? err.message : 'Sign in failed';
+};
@@ -0,0 +1,298 @@
+import { z } from 'zod';
+import apiClient, { getApiErrorMessage, getMediaUrl, isOwnUrl } from './apiClient';
+import { type UploadKind, type UploadParams, type UploadResult, booksApi, pagesApi, uploadsApi } from './api';
+import { type Book, type Page, BookSchema, PageDocumentSchema, looseModel, normalizePage, toPagePayload } from '../types';
+import { type ZipEntry, ZipError, createZip, readZip } from '../utils/zip';
+
+// A whole book as one zip, for moving it between environments or archiving it.
+// manifest.json holds the book and its pages; media/ holds every file they use. In the
+// manifest, media fields point into media/ instead of at storage. Import creates a draft
+// book, uploads the files through /api/upload/* for it, and writes the new URLs back.
+// Audio extracted from videos is not packaged: uploading a video extracts it again.
+
+const PACKAGE_FORMAT = 'gk-book-package';
+const PACKAGE_VERSION = 1;
+const MANIFEST = 'manifest.json';
+const MEDIA_DIR = 'media/';
+
+export class BookPackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BookPackageError';
+  }
+}
+
+const MediaFileSchema = looseModel({
+  filename: z.string(),
+  contentType: z.string().optional(),
+});
+
+const BookPackageManifestSchema = looseModel({
+  format: z.literal(PACKAGE_FORMAT),
+  version: z.number(),
+  exportedAt: z.string(),
+  book: BookSchema,
+  // Normalized pages, which read back as page documents
+  pages: z.array(PageDocumentSchema),
+  media: z.record(z.string(), MediaFileSchema),
+});
+
+type MediaFile = z.infer<typeof MediaFileSchema>;
+
+export interface PackageProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+export interface BookExport {
+  file: Blob;
+  filename: string;
+  // Files that couldn't be downloaded; the package keeps their original URLs
+  missing: string[];
+}
+
+export interface BookImport {
+  book: Book;
+  // Files that couldn't be uploaded; their fields are left empty
+  failed: string[];
+}
+
+// One media field of the book or a page, and how import uploads it
+interface MediaSlot {
+  url: string;
+  label: string;
+  kind: UploadKind;
+  params: UploadParams;
+  set: (url: string, uploaded?: UploadResult) => void;
+}
+
+// Slots write into the book and pages they were made from, so pass copies
+const mediaSlots = (book: Book, pages: Page[]): MediaSlot[] => {
+  const slots: MediaSlot[] = [];
+  const add = (url: string | undefined, label: string, kind: UploadKind, params: UploadParams, set: MediaSlot['set']) => {
+    if (url) slots.push({ url, label, kind, params, set });
+  };
+
+  add(book.coverImage, 'Cover image', 'image', { type: 'cover' }, (url) => { book.coverImage = url; });
+  const files = book.files;
+  add(files?.coverImage, 'Cover image', 'image', { type: 'cover' }, (url) => { if (files) files.coverImage = url; });
+  files?.audio?.forEach((file, idx) => {
+    add(file.url, `Background music ${file.filename || idx + 1}`, 'audio', { type: 'audio' }, (url) => { file.url = url; });
+  });
+  add(book.introVideoUrl, 'Intro video', 'video', { type: 'intro' }, (url) => { book.introVideoUrl = url; });
+  book.bookGames?.forEach((game) => {
+    add(game.coverImage, `Game "${game.title}" cover`, 'image', { type: 'game-cover' }, (url) => { game.coverImage = url; });
+  });
+  book.bookVideos?.forEach((video) => {
+    add(video.videoUrl, `Video "${video.title}"`, 'video', { type: 'video' }, (url) => { video.videoUrl = url; });
+    add(video.thumbnailUrl, `Video "${video.title}" thumbnail`, 'image', { type: 'cover' }, (url) => { video.thumbnailUrl = url; });
+  });
+
+  pages.forEach((page) => {
+    const { pageNumber } = page;
+    add(page.backgroundUrl, `Page ${pageNumber} background`, page.backgroundType, { type: 'pages', pageNumber }, (url, uploaded) => {
+      page.backgroundUrl = url;
+      if (uploaded) page.backgroundAudioUrl = uploaded.backgroundAudioUrl;
+    });
+    add(page.scrollUrl, `Page ${pageNumber} scroll`, 'image', { type: 'scroll' }, (url) => { page.scrollUrl = url; });
+    add(page.soundEffectUrl, `Page ${pageNumber} sound effect`, 'sound-effect', { pageNumber }, (url) => { page.soundEffectUrl = url; });
+    page.videoSequence.forEach((video, idx) => {
+      add(video.url, `Page ${pageNumber} sequence video ${idx + 1}`, 'video', { type: 'sequence', pageNumber }, (url, uploaded) => {
+        video.url = url;
+        if (uploaded) video.audioUrl = uploaded.backgroundAudioUrl;
+      });
+    });
+    page.imageSequence.forEach((image, idx) => {
+      add(image.url, `Page ${pageNumber} sequence image ${idx + 1}`, 'image', { type: 'image-sequence', pageNumber }, (url) => { image.url = url; });
+    });
+  });
+  return slots;
+};
+
+// Zip entries have no type, and the upload endpoints check it
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+};
+
+const fileNameOf = (url: string): string => {
+  const last = url.split(/[?#]/)[0].split('/').pop() || '';
+  let name = last;
+  try {
+    name = decodeURIComponent(last);
+  } catch {
+    // Keep it encoded
+  }
+  return name.replace(/[^\p{L}\p{N}._-]+/gu, '_').slice(-80) || 'file';
+};
+
+const packageFileName = (title: string) =>
+  `${title.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'book'}.zip`;
+
+// Counters, curation and ids belong to the environment the book lives in
+const bookPayload = (book: Book) => {
+  const payload: Partial<Book> & { __v?: unknown } = { ...book, status: 'draft' };
+  for (const key of [
+    '_id', '__v', 'createdAt', 'updatedAt', 'isFeatured', 'featuredOrder',
+    'viewCount', 'readCount', 'likeCount', 'favoriteCount', 'quizStartCount', 'quizCompletionCount',
+    'coloringSessionsCount', 'gameUnlockCount', 'gameOpenCount', 'averageCompletionRate',
+  ] as const) {
+    delete payload[key];
+  }
+  return payload;
+};
+
+// Uploads on the backend can need the access token, so they go through apiClient. Files on
+// other hosts (GCS and the like) are fetched without it, so the token never leaves the site.
+const downloadMedia = async (url: string): Promise<Blob> => {
+  const mediaUrl = getMediaUrl(url);
+  if (isOwnUrl(mediaUrl)) {
+    const res = await apiClient.get<Blob>(mediaUrl, { responseType: 'blob' });
+    return res.data;
+  }
+  const res = await fetch(mediaUrl);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.blob();
+};
+
+export const exportBookPackage = async (bookId: string, onProgress?: (progress: PackageProgress) => void): Promise<BookExport> => {
+  const [book, pages] = await Promise.all([booksApi.get(bookId), pagesApi.listByBook(bookId)]);
+  const manifestBook = structuredClone(book);
+  const manifestPages = structuredClone(pages);
+  const slots = mediaSlots(manifestBook, manifestPages);
+
+  const entries: ZipEntry[] = [];
+  const media: Record<string, MediaFile> = {};
+  // Pages often share files (the same scroll on every page); each is packaged once
+  const paths = new Map<string, string | null>();
+  const missing: string[] = [];
+
+  for (const [idx, slot] of slots.entries()) {
+    onProgress?.({ label: `Downloading: ${slot.label}`, done: idx, total: slots.length });
+    if (!paths.has(slot.url)) {
+      try {
+        const data = await downloadMedia(slot.url);
+        const filename = fileNameOf(slot.url);
+        const path = `${MEDIA_DIR}${String(entries.length + 1).padStart(4, '0')}-${filename}`;
+        entries.push({ name: path, data });
+        media[path] = { filename, contentType: data.type || undefined };
+        paths.set(slot.url, path);
+      } catch (err) {
+        console.error(`Failed to download ${slot.url}:`, err);
+        paths.set(slot.url, null);
+      }
+    }
+    const path = paths.get(slot.url);
+    if (path) slot.set(path);
+    else missing.push(`${slot.label}: ${slot.url}`);
+  }
+
+  onProgress?.({ label: 'Creating the zip', done: slots.length, total: slots.length });
+  const manifest = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    book: manifestBook,
+    pages: manifestPages,
+    media,
+  };
+  entries.unshift({ name: MANIFEST, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) });
+  return { file: await createZip(entries), filename: packageFileName(book.title), missing };
+};
+
+export const importBookPackage = async (file: Blob, onProgress?: (progress: PackageProgress) => void): Promise<BookImport> => {
+  let entries: Map<string, Blob>;
+  try {
+    entries = await readZip(file);
+  } catch (err) {
+    if (err instanceof ZipError) throw new BookPackageError(err.message);
+    throw err;
+  }
+
+  const manifestFile = entries.get(MANIFEST);
+  if (!manifestFile) throw new BookPackageError(`The zip has no ${MANIFEST}, so it is not a book package.`);
+  let data: unknown;
+  try {
+    data = JSON.parse(await manifestFile.text());
+  } catch {
+    throw new BookPackageError(`${MANIFEST} is not valid JSON.`);
+  }
+  const parsed = BookPackageManifestSchema.safeParse(data);
+  if (!parsed.success) throw new BookPackageError(`${MANIFEST} is not a book package manifest:\n${z.prettifyError(parsed.error)}`);
+  const manifest = parsed.data;
+  if (manifest.version > PACKAGE_VERSION) {
+    throw new BookPackageError('The package was made by a newer version of the portal. Update the portal and try again.');
+  }
+
+  const book = manifest.book;
+  const pages = manifest.pages.map(normalizePage);
+  const slots = mediaSlots(book, pages).filter((slot) => slot.url.startsWith(MEDIA_DIR));
+  const total = slots.length + pages.length + 1;
+
+  // Uploads are stored under the book's id, so the book comes first, without its media
+  onProgress?.({ label: 'Creating the book', done: 0, total });
+  const { _id: bookId } = await booksApi.create({
+    ...bookPayload(book),
+    coverImage: '',
+    introVideoUrl: '',
+    files: undefined,
+    bookGames: [],
+    bookVideos: [],
+  });
+
+  const uploads = new Map<string, Promise<UploadResult>>();
+  const failed: string[] = [];
+  for (const [idx, slot] of slots.entries()) {
+    onProgress?.({ label: `Uploading: ${slot.label}`, done: idx + 1, total });
+    const entry = entries.get(slot.url);
+    if (!entry) {
+      failed.push(`${slot.label}: ${slot.url} is not in the zip`);
+      slot.set('');
+      continue;
+    }
+    let upload = uploads.get(slot.url);
+    if (!upload) {
+      const info = manifest.media[slot.url];
+      const filename = info?.filename || fileNameOf(slot.url);
+      const type = info?.contentType || CONTENT_TYPES[filename.split('.').pop()?.toLowerCase() ?? ''] || '';
+      upload = uploadsApi.upload(slot.kind, new File([entry], filename, { type }), { bookId, ...slot.params });
+      uploads.set(slot.url, upload);
+    }
+    try {
+      const uploaded = await upload;
+      slot.set(uploaded.url, uploaded);
+    } catch (err) {
+      console.error(`Failed to upload ${slot.url}:`, err);
+      failed.push(`${slot.label}: ${getApiErrorMessage(err, 'the upload failed')}`);
+      slot.set('');
+    }
+  }
+
+  let imported: Book;
+  try {
+    imported = await booksApi.update(bookId, bookPayload(book));
+    for (const [idx, page] of pages.entries()) {
+      onProgress?.({ label: `Creating page ${page.pageNumber}`, done: slots.length + idx + 1, total });
+      await pagesApi.create(toPagePayload({ ...page, bookId }));
+    }
+  } catch (err) {
+    console.error('Book import stopped:', err);
+    throw new BookPackageError(
+      `Import stopped: ${getApiErrorMessage(err, 'a request failed')}. The draft book "${book.title}" keeps what was imported so far; finish it by hand or move it to the Trash.`
+    );
+  }
+  onProgress?.({ label: 'Done', done: total, total });
+  return { book: imported, failed };
+};
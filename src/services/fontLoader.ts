@@ -0,0 +1,42 @@
+import { type Font } from '../types';
+import { getMediaUrl } from './apiClient';
+
+// Loads registered fonts into the document so the portal can draw page text the way the app does.
+// Built-in fonts come from the stylesheet in index.html instead.
+
+const loads = new Map<string, Promise<void>>();
+
+const loadStylesheet = (href: string) =>
+  new Promise<void>((resolve, reject) => {
+    const link = document.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = href;
+    link.onload = () => resolve();
+    link.onerror = () => {
+      link.remove();
+      reject(new Error(`Could not load ${href}`));
+    };
+    document.head.appendChild(link);
+  });
+
+// Once per font and URL; resolves when the font is ready to draw and measure with
+export const loadFont = (font: Pick<Font, 'family' | 'source' | 'url'>): Promise<void> => {
+  const key = `${font.source}:${font.family}:${font.url}`;
+  let load = loads.get(key);
+  if (!load) {
+    load = (async () => {
+      if (font.source === 'upload') {
+        const face = new FontFace(font.family, `url(${JSON.stringify(getMediaUrl(font.url))})`);
+        document.fonts.add(await face.load());
+      } else {
+        await loadStylesheet(font.url);
+        // The stylesheet only declares the family; fetch it now rather than when text first uses it
+        await document.fonts.load(`16px ${JSON.stringify(font.family)}`);
+      }
+    })();
+    // A failed load is tried again next time
+    load.catch(() => loads.delete(key));
+    loads.set(key, load);
+  }
+  return load;
+};
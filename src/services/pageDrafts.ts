@@ -0,0 +1,101 @@
+import { type MediaType, type PageImage, type PageVideo, type TextBox } from '../types';
+
+// Local drafts of the page editor, kept in IndexedDB so a crash, a closed tab or an
+// expired session doesn't lose work. Drafts are keyed by book and page number and only
+// hold what can be restored: files that were picked but never uploaded are not stored.
+
+const DB_NAME = 'gk_portal';
+const DB_VERSION = 1;
+const STORE = 'pageDrafts';
+
+// Everything the editor can restore. URLs are already uploaded media only.
+export interface PageEditorState {
+  backgroundType: MediaType;
+  backgroundUrl?: string;
+  scrollUrl?: string;
+  scrollHeight: number;
+  scrollOffsetY: number;
+  scrollOffsetX: number;
+  scrollWidth: number;
+  soundEffectUrl?: string;
+  soundEffectFilename?: string;
+  textBoxes: TextBox[];
+  isColoringPage: boolean;
+  coloringEndModalOnly: boolean;
+  isWebViewPage: boolean;
+  webViewSource: 'url' | 'game';
+  webViewUrl: string;
+  webViewGameId: string;
+  webViewTitle: string;
+  webViewShowNavButton: boolean;
+  useVideoSequence: boolean;
+  videoSequence: PageVideo[];
+  useImageSequence: boolean;
+  imageSequence: PageImage[];
+  imageSequenceDuration: number;
+  imageSequenceAnimation: string;
+}
+
+export interface PageEditorDraft {
+  key: string;
+  bookId: string;
+  pageNumber: number;
+  pageId: string | null; // null while the page has never been saved
+  savedAt: number; // epoch ms
+  state: PageEditorState;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // let the next call try again
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves once it has committed
+const run = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = makeRequest(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const pageDraftKey = (bookId: string, pageNumber: number) => `${bookId}:${pageNumber}`;
+
+export const pageDrafts = {
+  get: async (bookId: string, pageNumber: number): Promise<PageEditorDraft | undefined> =>
+    run<PageEditorDraft | undefined>('readonly', (store) => store.get(pageDraftKey(bookId, pageNumber))),
+
+  save: async (bookId: string, pageNumber: number, pageId: string | null, state: PageEditorState): Promise<PageEditorDraft> => {
+    const draft: PageEditorDraft = {
+      key: pageDraftKey(bookId, pageNumber),
+      bookId,
+      pageNumber,
+      pageId,
+      savedAt: Date.now(),
+      state,
+    };
+    await run('readwrite', (store) => store.put(draft));
+    return draft;
+  },
+
+  remove: async (bookId: string, pageNumber: number): Promise<void> => {
+    await run('readwrite', (store) => store.delete(pageDraftKey(bookId, pageNumber)));
+  },
+};
@@ -0,0 +1,114 @@
+// Role-based access for portal sections.
+// Roles come from the signed-in user's profile; each role grants read or write access per section.
+// Write implies read. A user with several roles gets the highest access any of them grants.
+
+export type Role = 'admin' | 'editor' | 'reviewer' | 'approver' | 'radio-producer' | 'analyst' | 'viewer';
+
+export type Section =
+  | 'dashboard'
+  | 'analytics'
+  | 'content' // books, series, playlists, lessons, categories, fonts, featured, welcome flow
+  | 'voices'
+  | 'games'
+  | 'notifications'
+  | 'music'
+  | 'radio';
+
+export type AccessLevel = 'none' | 'read' | 'write';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  editor: 'Content Editor',
+  reviewer: 'Reviewer',
+  approver: 'Approver',
+  'radio-producer': 'Radio Producer',
+  analyst: 'Analyst',
+  viewer: 'Viewer',
+};
+
+const ROLE_ACCESS: Record<Role, Partial<Record<Section, AccessLevel>>> = {
+  admin: {
+    dashboard: 'write',
+    analytics: 'write',
+    content: 'write',
+    voices: 'write',
+    games: 'write',
+    notifications: 'write',
+    music: 'write',
+    radio: 'write',
+  },
+  editor: {
+    dashboard: 'read',
+    analytics: 'read',
+    content: 'write',
+    voices: 'write',
+    games: 'write',
+    music: 'write',
+    radio: 'read',
+  },
+  // Reviewers read content and comment on it through the review workflow, but don't edit it
+  reviewer: {
+    dashboard: 'read',
+    content: 'read',
+  },
+  approver: {
+    dashboard: 'read',
+    analytics: 'read',
+    content: 'write',
+  },
+  'radio-producer': {
+    dashboard: 'read',
+    content: 'read',
+    music: 'read',
+    radio: 'write',
+  },
+  analyst: {
+    dashboard: 'read',
+    analytics: 'read',
+    content: 'read',
+  },
+  viewer: {
+    dashboard: 'read',
+    content: 'read',
+    radio: 'read',
+  },
+};
+
+const LEVEL_RANK: Record<AccessLevel, number> = { none: 0, read: 1, write: 2 };
+
+const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && value in ROLE_ACCESS;
+
+// Unknown role names from the backend are ignored; a user with no known role is a viewer
+export const normalizeRoles = (roles: unknown): Role[] => {
+  const known = Array.isArray(roles) ? roles.filter(isRole) : [];
+  return known.length > 0 ? known : ['viewer'];
+};
+
+export const getAccessLevel = (roles: Role[], section: Section): AccessLevel => {
+  return roles.reduce<AccessLevel>((best, role) => {
+    const level = ROLE_ACCESS[role][section] ?? 'none';
+    return LEVEL_RANK[level] > LEVEL_RANK[best] ? level : best;
+  }, 'none');
+};
+
+export const canViewSection = (roles: Role[], section: Section): boolean =>
+  getAccessLevel(roles, section) !== 'none';
+
+export const canEditSection = (roles: Role[], section: Section): boolean =>
+  getAccessLevel(roles, section) === 'write';
+
+// Editorial review steps for books, playlists and lessons: editors submit, reviewers comment and
+// send work back, and only approvers approve and publish. The backend enforces the same table.
+export type ReviewAction = 'submit' | 'comment' | 'request_changes' | 'approve' | 'publish';
+
+const REVIEW_ROLES: Record<ReviewAction, Role[]> = {
+  submit: ['admin', 'editor', 'approver'],
+  comment: ['admin', 'editor', 'reviewer', 'approver'],
+  request_changes: ['admin', 'reviewer', 'approver'],
+  approve: ['admin', 'approver'],
+  publish: ['admin', 'approver'],
+};
+
+export const canPerformReview = (roles: Role[], action: ReviewAction): boolean =>
+  roles.some((role) => REVIEW_ROLES[action].includes(role));
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+export const BookAudioFileSchema = looseModel({
+  url: z.string(),
+  filename: z.string().default(''),
+  uploadedAt: z.string().optional(),
+});
+
+// Mini-games bundled with a single book (distinct from the shared games catalog)
+export const BookGameSchema = looseModel({
+  _id: z.string().optional(),
+  title: z.string(),
+  url: z.string(),
+  coverImage: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const BookVideoSchema = looseModel({
+  _id: z.string().optional(),
+  title: z.string(),
+  videoUrl: z.string(),
+  thumbnailUrl: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const CharacterVoiceSchema = looseModel({
+  characterName: z.string(),
+  voiceId: z.string(),
+  color: z.string().optional(),
+});
+
+// A translated edition of a book. Page text lives on each text box's translations;
+// unset voices fall back to the book's own.
+export const BookEditionSchema = looseModel({
+  locale: z.string(), // BCP 47 tag, e.g. es or pt-BR
+  title: z.string().optional(),
+  description: z.string().optional(),
+  narratorVoiceId: z.string().optional(),
+  characterVoices: z.array(CharacterVoiceSchema).optional(),
+});
+
+export const BookSchema = looseModel({
+  _id: z.string(),
+  title: z.string(),
+  author: z.string().default(''),
+  description: z.string().optional(),
+  status: z.string().default('draft'), // a ReviewStatus, or archived
+  coverImage: z.string().optional(),
+  files: looseModel({
+    coverImage: z.string().optional(), // older books keep the cover here instead of at the root
+    audio: z.array(BookAudioFileSchema).optional(),
+  }).optional(),
+  minAge: z.number().optional(),
+  maxAge: z.number().optional(),
+  category: z.string().optional(),
+  categories: z.array(z.string()).optional(),
+  orientation: z.enum(['portrait', 'landscape']).optional(),
+  isMembersOnly: z.boolean().optional(),
+  isFeatured: z.boolean().optional(),
+  featuredOrder: z.number().optional(),
+  games: z.array(z.string()).optional(), // ids from the shared games catalog
+  bookGames: z.array(BookGameSchema).optional(),
+  bookVideos: z.array(BookVideoSchema).optional(),
+  introVideoUrl: z.string().optional(),
+  defaultVoiceId: z.string().optional(),
+  rewardVoiceId: z.string().optional(),
+  defaultNarratorVoiceId: z.string().optional(),
+  characterVoices: z.array(CharacterVoiceSchema).optional(),
+  language: z.string().optional(), // locale of the book's own text; en when unset
+  editions: z.array(BookEditionSchema).optional(),
+  // Engagement counters, maintained by the app backend
+  viewCount: z.number().default(0),
+  readCount: z.number().default(0),
+  likeCount: z.number().default(0),
+  favoriteCount: z.number().default(0),
+  quizStartCount: z.number().default(0),
+  quizCompletionCount: z.number().default(0),
+  coloringSessionsCount: z.number().default(0),
+  gameUnlockCount: z.number().default(0),
+  gameOpenCount: z.number().default(0),
+  averageCompletionRate: z.number().default(0), // percent
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type BookAudioFile = z.infer<typeof BookAudioFileSchema>;
+export type BookGame = z.infer<typeof BookGameSchema>;
+export type BookVideo = z.infer<typeof BookVideoSchema>;
+export type CharacterVoice = z.infer<typeof CharacterVoiceSchema>;
+export type BookEdition = z.infer<typeof BookEditionSchema>;
+export type Book = z.infer<typeof BookSchema>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { BookSchema } from './book';
+import { looseModel } from './validation';
+
+// Series are published directly; they don't go through the review workflow
+export const BookSeriesStatusSchema = z.enum(['draft', 'published']);
+
+// A book's place in a series. The book is populated when the series is fetched, an id otherwise.
+export const BookSeriesEntrySchema = looseModel({
+  book: z.union([z.string(), BookSchema]),
+  order: z.number().default(0),
+});
+
+export const BookSeriesSchema = looseModel({
+  _id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  coverImage: z.string().default(''),
+  books: z.array(BookSeriesEntrySchema).default([]),
+  minAge: z.number().default(0),
+  maxAge: z.number().default(12),
+  level: z.string().default('all'),
+  // Populated on fetch, an id otherwise
+  category: z.union([z.string(), looseModel({ _id: z.string(), name: z.string() })]).optional(),
+  status: BookSeriesStatusSchema.default('draft'),
+  isMembersOnly: z.boolean().default(false),
+  isFeatured: z.boolean().default(false),
+  displayOrder: z.number().default(0),
+  author: z.string().optional(),
+  viewCount: z.number().default(0),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type BookSeriesStatus = z.infer<typeof BookSeriesStatusSchema>;
+export type BookSeriesEntry = z.infer<typeof BookSeriesEntrySchema>;
+export type BookSeries = z.infer<typeof BookSeriesSchema>;
+
+// Books are sent as ids, in series order
+export type BookSeriesPayload = Omit<BookSeries, '_id' | 'books' | 'category' | 'viewCount' | 'createdAt' | 'updatedAt'> & {
+  books: string[];
+  category: string; // category id
+};
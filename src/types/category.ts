@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+// Which catalog a category files: books, or playlists and other audio
+export const CategoryContentTypeSchema = z.enum(['Book', 'Audio']);
+
+// A catalog category from /api/categories. Books and playlists refer to categories by name.
+export const CategorySchema = looseModel({
+  _id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  color: z.string().default('#6366f1'),
+  icon: z.string().optional(),
+  contentType: CategoryContentTypeSchema.default('Book'),
+});
+
+export type CategoryContentType = z.infer<typeof CategoryContentTypeSchema>;
+export type Category = z.infer<typeof CategorySchema>;
+
+export type CategoryPayload = Pick<Category, 'name' | 'description' | 'color' | 'icon' | 'contentType'>;
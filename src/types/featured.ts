@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+export const FeaturedContentTypeSchema = z.enum(['book', 'playlist', 'lesson']);
+
+// A book, playlist or lesson as the featured screens list it
+export const FeaturedContentItemSchema = looseModel({
+  _id: z.string(),
+  title: z.string(),
+  subtitle: z.string().optional(),
+  imageUrl: z.string().optional(),
+  type: FeaturedContentTypeSchema,
+  order: z.number().optional(),
+});
+
+// The screen new app users see before the home page, offering a first story to start on.
+// Unset fields fall back to the app's built-in text.
+export const WelcomeConfigSchema = looseModel({
+  section: z.string().default('new-user-welcome'),
+  title: z.string().optional(),
+  subtitle: z.string().optional(),
+  maxItems: z.number().optional(),
+  skipButtonText: z.string().optional(),
+  showSkipButton: z.boolean().optional(),
+  items: z.array(FeaturedContentItemSchema).default([]),
+});
+
+export type FeaturedContentType = z.infer<typeof FeaturedContentTypeSchema>;
+export type FeaturedContentItem = z.infer<typeof FeaturedContentItemSchema>;
+export type WelcomeConfig = z.infer<typeof WelcomeConfigSchema>;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+// Uploaded fonts point at the font file; web fonts at a stylesheet that declares the family,
+// such as a Google Fonts css2 link
+export const FontSourceSchema = z.enum(['upload', 'web']);
+
+// A font registered for page text, from /api/fonts. Only available fonts are offered in the
+// page editor; the rest stay on the Fonts page until they're ready.
+export const FontSchema = looseModel({
+  _id: z.string(),
+  family: z.string(), // the name text boxes store in fontFamily
+  source: FontSourceSchema,
+  url: z.string(),
+  filename: z.string().optional(), // of the uploaded file
+  available: z.boolean().default(false),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type FontSource = z.infer<typeof FontSourceSchema>;
+export type Font = z.infer<typeof FontSchema>;
+
+export type FontPayload = Pick<Font, 'family' | 'source' | 'url' | 'filename' | 'available'>;
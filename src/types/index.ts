@@ -0,0 +1,17 @@
+// Canonical models for the backend's documents. Each model has a zod schema that the
+// endpoint modules in services/api use to check responses, and a type inferred from it.
+export * from './book';
+export * from './bookSeries';
+export * from './category';
+export * from './featured';
+export * from './font';
+export * from './lesson';
+export * from './page';
+export * from './pageAdapter';
+export * from './pageTemplate';
+export * from './playlist';
+export * from './radio';
+export * from './review';
+export * from './revision';
+export * from './trash';
+export * from './validation';
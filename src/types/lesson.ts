@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+export const LessonTypeSchema = z.enum([
+  'Bible Study',
+  'Science',
+  'Math',
+  'History',
+  'English',
+  'Reading',
+  'Arts & Crafts',
+  'Music',
+  'Physical Education',
+  'Life Skills',
+  'Technology',
+  'Social Studies',
+  'Nature',
+]);
+
+export const AgeGroupSchema = z.enum(['4-6', '6-8', '8-10', '10-12', 'all']);
+
+// in_review and approved are the editorial review steps, see ./review
+export const LessonStatusSchema = z.enum(['draft', 'in_review', 'approved', 'scheduled', 'published', 'archived']);
+
+export const EpisodeSchema = looseModel({
+  episodeNumber: z.number(),
+  title: z.string().optional(),
+  url: z.string(),
+  thumbnail: z.string().optional(),
+  duration: z.number().optional(),
+});
+
+export const DevotionalSchema = looseModel({
+  title: z.string().optional(),
+  content: z.string().optional(),
+  verse: z.string().optional(),
+  verseText: z.string().optional(),
+});
+
+const AnswerOptionSchema = looseModel({
+  text: z.string(),
+  isCorrect: z.boolean(),
+});
+
+export const QuizQuestionSchema = looseModel({
+  question: z.string(),
+  options: z.array(AnswerOptionSchema),
+});
+
+export const ActivitySchema = looseModel({
+  type: z.enum(['quiz', 'reflection']),
+  title: z.string().optional(),
+  content: z.string().optional(), // legacy: single question
+  options: z.array(AnswerOptionSchema).optional(), // legacy: options for the single question
+  questions: z.array(QuizQuestionSchema).optional(),
+  reflectionPrompt: z.string().optional(),
+});
+
+export const LessonSchema = looseModel({
+  _id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  type: LessonTypeSchema.optional(),
+  ageGroup: AgeGroupSchema.optional(),
+  status: LessonStatusSchema.default('draft'),
+  video: looseModel({
+    url: z.string().optional(),
+    thumbnail: z.string().optional(),
+    duration: z.number().optional(),
+  }).optional(),
+  episodes: z.array(EpisodeSchema).optional(),
+  devotional: DevotionalSchema.optional(),
+  activity: ActivitySchema.optional(),
+  scheduledDate: z.string().optional(), // ISO date
+  coinReward: z.number().optional(),
+  order: z.number().optional(),
+});
+
+export type LessonType = z.infer<typeof LessonTypeSchema>;
+export type AgeGroup = z.infer<typeof AgeGroupSchema>;
+export type LessonStatus = z.infer<typeof LessonStatusSchema>;
+export type Episode = z.infer<typeof EpisodeSchema>;
+export type Devotional = z.infer<typeof DevotionalSchema>;
+export type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
+export type Activity = z.infer<typeof ActivitySchema>;
+export type Lesson = z.infer<typeof LessonSchema>;
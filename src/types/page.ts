@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+export const TextAlignmentSchema = z.enum(['left', 'center', 'right']);
+
+// Inline styling over part of a text box's text; unset fields keep the box's own style.
+// Spans never overlap, and the box's text stays plain, so narration reads it as it is.
+export const TextSpanSchema = looseModel({
+  start: z.number(), // offset into text
+  end: z.number(), // exclusive
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  color: z.string().optional(),
+  fontSize: z.number().optional(), // same units as the box's fontSize
+  character: z.string().optional(), // coloured with this character's voice color from the book
+});
+
+// A text box as stored on a page. Layout and style fields were added over time,
+// so older pages may omit any of them; readers fall back to defaults.
+export const StoredTextBoxSchema = looseModel({
+  text: z.string(),
+  x: z.number(), // percentage (0-100)
+  y: z.number(), // percentage (0-100)
+  width: z.number().optional(), // percentage (0-100)
+  height: z.number().optional(), // percentage (0-100) - auto if not set
+  alignment: TextAlignmentSchema.optional(),
+  fontFamily: z.string().optional(),
+  fontSize: z.number().optional(),
+  color: z.string().optional(),
+  showBackground: z.boolean().optional(),
+  backgroundColor: z.string().optional(),
+  shadowColor: z.string().optional(),
+  spans: z.array(TextSpanSchema).optional(), // styles the base text only, not translations
+  translations: z.record(z.string(), z.string()).optional(), // locale -> text, for the book's editions
+});
+
+export const PageVideoSchema = looseModel({
+  url: z.string(),
+  audioUrl: z.string().optional(), // audio track extracted on upload, layered separately on iOS
+  filename: z.string().optional(),
+  order: z.number(),
+});
+
+export const PageImageSchema = looseModel({
+  url: z.string(),
+  filename: z.string().optional(),
+  order: z.number(),
+});
+
+const MediaTypeSchema = z.enum(['image', 'video']);
+
+// Page document as stored by /api/pages. Media URLs have lived in three places over
+// the life of the backend (root fields, files.*, content.*), so every location is modelled.
+// Pages should work with the normalized Page from pageAdapter rather than this raw shape.
+export const PageDocumentSchema = looseModel({
+  _id: z.string(),
+  bookId: z.string().optional(),
+  pageNumber: z.number(),
+  imageUrl: z.string().optional(), // oldest background field
+  backgroundUrl: z.string().optional(),
+  backgroundType: MediaTypeSchema.optional(),
+  backgroundAudioUrl: z.string().optional(), // extracted from a video background for iOS audio layering
+  scrollUrl: z.string().optional(),
+  scrollHeight: z.number().optional(), // percentage of page height
+  scrollMidHeight: z.number().optional(),
+  scrollMaxHeight: z.number().optional(), // same as scrollHeight on current saves
+  scrollOffsetY: z.number().optional(),
+  scrollWidth: z.number().optional(),
+  scrollOffsetX: z.number().optional(),
+  soundEffectUrl: z.string().optional(),
+  textBoxes: z.array(StoredTextBoxSchema).optional(),
+  content: looseModel({
+    backgroundUrl: z.string().optional(),
+    backgroundType: MediaTypeSchema.optional(),
+    scrollUrl: z.string().optional(),
+    textBoxes: z.array(StoredTextBoxSchema).optional(),
+  }).optional(),
+  files: looseModel({
+    background: looseModel({
+      url: z.string().optional(),
+      type: MediaTypeSchema.optional(),
+    }).optional(),
+    scroll: looseModel({
+      url: z.string().optional(),
+      height: z.number().optional(),
+    }).optional(),
+    soundEffect: looseModel({
+      url: z.string().optional(),
+      filename: z.string().optional(),
+    }).optional(),
+  }).optional(),
+  isColoringPage: z.boolean().optional(),
+  coloringEndModalOnly: z.boolean().optional(),
+  isWebViewPage: z.boolean().optional(),
+  webView: looseModel({
+    url: z.string().optional(),
+    // Populated to the game document on some endpoints
+    gameId: z.union([z.string(), looseModel({ _id: z.string() })]).optional(),
+    title: z.string().optional(),
+    showNavigationButton: z.boolean().optional(),
+  }).optional(),
+  useVideoSequence: z.boolean().optional(),
+  videoSequence: z.array(PageVideoSchema).optional(),
+  useImageSequence: z.boolean().optional(),
+  imageSequence: z.array(PageImageSchema).optional(),
+  imageSequenceDuration: z.number().optional(), // seconds per image
+  imageSequenceAnimation: z.string().optional(),
+});
+
+export type MediaType = z.infer<typeof MediaTypeSchema>;
+export type TextAlignment = z.infer<typeof TextAlignmentSchema>;
+export type TextSpan = z.infer<typeof TextSpanSchema>;
+export type StoredTextBox = z.infer<typeof StoredTextBoxSchema>;
+export type PageVideo = z.infer<typeof PageVideoSchema>;
+export type PageImage = z.infer<typeof PageImageSchema>;
+export type PageDocument = z.infer<typeof PageDocumentSchema>;
+
+// A text box with every layout field resolved
+export interface PageTextBox extends StoredTextBox {
+  width: number;
+  alignment: TextAlignment;
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+}
+
+// A text box as the page editor works with it, plus a client-side id
+export interface TextBox extends PageTextBox {
+  id: string;
+}
+
+export interface PageWebView {
+  url?: string;
+  gameId?: string;
+  title?: string;
+  showNavigationButton: boolean;
+}
+
+// One page, whichever historical shape it was stored in. Built by normalizePage;
+// sequences are sorted by their order field.
+export interface Page {
+  _id: string;
+  bookId?: string;
+  pageNumber: number;
+  backgroundUrl?: string;
+  backgroundType: MediaType;
+  backgroundAudioUrl?: string;
+  scrollUrl?: string;
+  scrollHeight: number; // percentage of page height with the scroll fully open
+  scrollMidHeight?: number; // swiped-down height; derived from scrollHeight on save
+  scrollOffsetY: number;
+  scrollOffsetX: number;
+  scrollWidth: number;
+  soundEffectUrl?: string;
+  soundEffectFilename?: string;
+  textBoxes: PageTextBox[];
+  isColoringPage: boolean;
+  coloringEndModalOnly: boolean;
+  isWebViewPage: boolean;
+  webView?: PageWebView;
+  useVideoSequence: boolean;
+  videoSequence: PageVideo[];
+  useImageSequence: boolean;
+  imageSequence: PageImage[];
+  imageSequenceDuration: number; // seconds per image
+  imageSequenceAnimation?: string;
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { type PageDocument } from './page';
+import { PAGE_DEFAULTS, TEXT_BOX_DEFAULTS, normalizePage, toPagePayload } from './pageAdapter';
+
+const doc = (fields: Partial<PageDocument> = {}): PageDocument => ({ _id: 'page-1', pageNumber: 1, ...fields });
+
+describe('normalizePage', () => {
+  describe('background', () => {
+    it('prefers the root fields', () => {
+      const page = normalizePage(doc({
+        backgroundUrl: '/uploads/root.jpg',
+        backgroundType: 'video',
+        files: { background: { url: '/uploads/files.jpg', type: 'image' } },
+        content: { backgroundUrl: '/uploads/content.jpg', backgroundType: 'image' },
+        imageUrl: '/uploads/image.jpg',
+      }));
+      expect(page.backgroundUrl).toBe('/uploads/root.jpg');
+      expect(page.backgroundType).toBe('video');
+    });
+
+    it('falls back to files.background', () => {
+      const page = normalizePage(doc({
+        files: { background: { url: '/uploads/files.mp4', type: 'video' } },
+        content: { backgroundUrl: '/uploads/content.jpg', backgroundType: 'image' },
+        imageUrl: '/uploads/image.jpg',
+      }));
+      expect(page.backgroundUrl).toBe('/uploads/files.mp4');
+      expect(page.backgroundType).toBe('video');
+    });
+
+    it('falls back to content', () => {
+      const page = normalizePage(doc({
+        content: { backgroundUrl: '/uploads/content.mp4', backgroundType: 'video' },
+        imageUrl: '/uploads/image.jpg',
+      }));
+      expect(page.backgroundUrl).toBe('/uploads/content.mp4');
+      expect(page.backgroundType).toBe('video');
+    });
+
+    it('falls back to imageUrl as an image', () => {
+      const page = normalizePage(doc({ imageUrl: '/uploads/image.jpg' }));
+      expect(page.backgroundUrl).toBe('/uploads/image.jpg');
+      expect(page.backgroundType).toBe('image');
+    });
+
+    it('resolves the scroll and sound effect from files', () => {
+      const page = normalizePage(doc({
+        files: {
+          scroll: { url: '/uploads/scroll.png' },
+          soundEffect: { url: '/uploads/splash.mp3', filename: 'splash.mp3' },
+        },
+      }));
+      expect(page.scrollUrl).toBe('/uploads/scroll.png');
+      expect(page.soundEffectUrl).toBe('/uploads/splash.mp3');
+      expect(page.soundEffectFilename).toBe('splash.mp3');
+    });
+  });
+
+  describe('text boxes', () => {
+    it('uses content.textBoxes when the root list is missing or empty', () => {
+      const legacy = [{ text: 'Once upon a time', x: 10, y: 20 }];
+      expect(normalizePage(doc({ content: { textBoxes: legacy } })).textBoxes[0].text).toBe('Once upon a time');
+      expect(normalizePage(doc({ textBoxes: [], content: { textBoxes: legacy } })).textBoxes).toHaveLength(1);
+    });
+
+    it('prefers the root list', () => {
+      const page = normalizePage(doc({
+        textBoxes: [{ text: 'Root', x: 0, y: 0 }],
+        content: { textBoxes: [{ text: 'Content', x: 0, y: 0 }] },
+      }));
+      expect(page.textBoxes.map((box) => box.text)).toEqual(['Root']);
+    });
+
+    it('fills in missing layout fields', () => {
+      const [box] = normalizePage(doc({ textBoxes: [{ text: 'Hi', x: 5, y: 6 }] })).textBoxes;
+      expect(box).toEqual({ text: 'Hi', x: 5, y: 6, ...TEXT_BOX_DEFAULTS });
+    });
+  });
+
+  describe('scroll height', () => {
+    it.each([
+      ['scrollHeight', { scrollHeight: 40, scrollMaxHeight: 45, scrollMidHeight: 35, files: { scroll: { height: 50 } } }, 40],
+      ['scrollMaxHeight', { scrollMaxHeight: 45, scrollMidHeight: 35, files: { scroll: { height: 50 } } }, 45],
+      ['scrollMidHeight', { scrollMidHeight: 35, files: { scroll: { height: 50 } } }, 35],
+      ['files.scroll.height', { files: { scroll: { height: 50 } } }, 50],
+      ['the default', {}, PAGE_DEFAULTS.scrollHeight],
+    ] as const)('comes from %s', (_, fields, expected) => {
+      expect(normalizePage(doc(fields)).scrollHeight).toBe(expected);
+    });
+  });
+
+  describe('web view', () => {
+    it('keeps a game id', () => {
+      const page = normalizePage(doc({ isWebViewPage: true, webView: { gameId: 'game-1' } }));
+      expect(page.webView).toEqual({ url: undefined, gameId: 'game-1', title: undefined, showNavigationButton: true });
+    });
+
+    it('takes the id of a populated game', () => {
+      const page = normalizePage(doc({
+        isWebViewPage: true,
+        webView: { gameId: { _id: 'game-2' }, title: 'Maze', showNavigationButton: false },
+      }));
+      expect(page.webView).toEqual({ url: undefined, gameId: 'game-2', title: 'Maze', showNavigationButton: false });
+    });
+  });
+
+  it('sorts sequences by order', () => {
+    const page = normalizePage(doc({
+      videoSequence: [{ url: 'b.mp4', order: 2 }, { url: 'a.mp4', order: 1 }],
+      imageSequence: [{ url: 'c.jpg', order: 3 }, { url: 'a.jpg', order: 0 }, { url: 'b.jpg', order: 1 }],
+    }));
+    expect(page.videoSequence.map((video) => video.url)).toEqual(['a.mp4', 'b.mp4']);
+    expect(page.imageSequence.map((image) => image.url)).toEqual(['a.jpg', 'b.jpg', 'c.jpg']);
+  });
+});
+
+describe('toPagePayload', () => {
+  const legacyDoc = doc({
+    bookId: 'book-1',
+    pageNumber: 3,
+    files: {
+      background: { url: '/uploads/bg.mp4', type: 'video' },
+      scroll: { url: '/uploads/scroll.png', height: 60 },
+      soundEffect: { url: '/uploads/splash.mp3', filename: 'splash.mp3' },
+    },
+    content: { textBoxes: [{ text: 'Hello', x: 10, y: 20, spans: [{ start: 0, end: 5, bold: true }] }] },
+    isWebViewPage: true,
+    webView: { gameId: { _id: 'game-1' } },
+    useImageSequence: true,
+    imageSequence: [{ url: 'b.jpg', order: 1 }, { url: 'a.jpg', order: 0 }],
+  });
+
+  it('writes every field at the root', () => {
+    const payload = toPagePayload(normalizePage(legacyDoc));
+    expect(payload).toMatchObject({
+      bookId: 'book-1',
+      pageNumber: 3,
+      backgroundUrl: '/uploads/bg.mp4',
+      backgroundType: 'video',
+      scrollUrl: '/uploads/scroll.png',
+      scrollHeight: 60,
+      scrollMaxHeight: 60,
+      scrollMidHeight: 30,
+      soundEffectUrl: '/uploads/splash.mp3',
+      webView: { gameId: 'game-1', showNavigationButton: true },
+      imageSequence: [{ url: 'a.jpg', order: 0 }, { url: 'b.jpg', order: 1 }],
+    });
+    expect(payload.textBoxes).toEqual([{ text: 'Hello', x: 10, y: 20, spans: [{ start: 0, end: 5, bold: true }], ...TEXT_BOX_DEFAULTS }]);
+  });
+
+  it('reads back as the same page', () => {
+    const page = normalizePage(legacyDoc);
+    const saved = normalizePage({ _id: page._id, ...toPagePayload(page) });
+    // Saves write empty strings for unset URLs, derive the mid height and only keep
+    // coloringEndModalOnly on coloring pages; the sound effect's filename stays in files
+    expect(saved).toEqual({
+      ...page,
+      backgroundAudioUrl: '',
+      scrollMidHeight: 30,
+      soundEffectFilename: undefined,
+      coloringEndModalOnly: false,
+    });
+  });
+
+  it('drops editor ids and turns off empty sequences', () => {
+    const page = normalizePage(doc({ textBoxes: [{ text: 'Hi', x: 0, y: 0 }], useVideoSequence: true, videoSequence: [] }));
+    const payload = toPagePayload({ ...page, textBoxes: page.textBoxes.map((box) => ({ ...box, id: 'box-1' })) });
+    expect(payload.textBoxes[0]).not.toHaveProperty('id');
+    expect(payload.useVideoSequence).toBe(false);
+  });
+
+  it('leaves out the web view unless the page is one', () => {
+    const page = normalizePage(doc({ isWebViewPage: false, webView: { gameId: 'game-1' } }));
+    expect(toPagePayload(page).webView).toBeUndefined();
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  type Page,
+  type PageDocument,
+  type PageImage,
+  type PageTextBox,
+  type PageVideo,
+  type PageWebView,
+  type StoredTextBox,
+} from './page';
+import { type PageLayout } from './pageTemplate';
+
+// Converts between stored page documents and the normalized Page model.
+// Every legacy location is resolved here, so the editor and reader never probe
+// page.files / page.content themselves. Saves always write the root fields.
+
+export const TEXT_BOX_DEFAULTS = {
+  width: 30,
+  alignment: 'left',
+  fontFamily: 'Comic Sans MS',
+  fontSize: 24,
+  color: '#4a3b2a',
+} as const;
+
+export const PAGE_DEFAULTS = {
+  scrollHeight: 33,
+  scrollWidth: 100,
+  imageSequenceDuration: 3,
+} as const;
+
+// The swiped-down height saves derive from the full one
+const deriveScrollMidHeight = (scrollHeight: number) => Math.max(30, scrollHeight - 30);
+
+// Scroll heights for the app's three swipe states, as percentages of the page height
+export const scrollStateHeights = (page: Pick<Page, 'scrollHeight' | 'scrollMidHeight'>) => ({
+  hidden: 0,
+  mid: Math.min(page.scrollHeight, page.scrollMidHeight ?? deriveScrollMidHeight(page.scrollHeight)),
+  max: page.scrollHeight,
+});
+
+export const normalizeTextBox = (box: StoredTextBox): PageTextBox => ({
+  ...box,
+  width: box.width || TEXT_BOX_DEFAULTS.width,
+  alignment: box.alignment || TEXT_BOX_DEFAULTS.alignment,
+  fontFamily: box.fontFamily || TEXT_BOX_DEFAULTS.fontFamily,
+  fontSize: box.fontSize || TEXT_BOX_DEFAULTS.fontSize,
+  color: box.color || TEXT_BOX_DEFAULTS.color,
+});
+
+const byOrder = <T extends { order: number }>(items: T[] = []): T[] =>
+  [...items].sort((a, b) => a.order - b.order);
+
+const normalizeWebView = (webView: PageDocument['webView']): PageWebView | undefined => {
+  if (!webView) return undefined;
+  const { gameId } = webView;
+  return {
+    url: webView.url,
+    gameId: typeof gameId === 'string' ? gameId : gameId?._id,
+    title: webView.title,
+    showNavigationButton: webView.showNavigationButton !== false,
+  };
+};
+
+export const normalizePage = (doc: PageDocument): Page => {
+  // Root textBoxes is where saves go; content.textBoxes is the pre-migration copy
+  const textBoxes = doc.textBoxes?.length ? doc.textBoxes : doc.content?.textBoxes ?? [];
+
+  return {
+    _id: doc._id,
+    bookId: doc.bookId,
+    pageNumber: doc.pageNumber,
+    backgroundUrl: doc.backgroundUrl || doc.files?.background?.url || doc.content?.backgroundUrl || doc.imageUrl,
+    backgroundType: doc.backgroundType || doc.files?.background?.type || doc.content?.backgroundType || 'image',
+    backgroundAudioUrl: doc.backgroundAudioUrl,
+    scrollUrl: doc.scrollUrl || doc.files?.scroll?.url || doc.content?.scrollUrl,
+    scrollHeight: doc.scrollHeight || doc.scrollMaxHeight || doc.scrollMidHeight || doc.files?.scroll?.height || PAGE_DEFAULTS.scrollHeight,
+    scrollMidHeight: doc.scrollMidHeight,
+    scrollOffsetY: doc.scrollOffsetY || 0,
+    scrollOffsetX: doc.scrollOffsetX || 0,
+    scrollWidth: doc.scrollWidth || PAGE_DEFAULTS.scrollWidth,
+    soundEffectUrl: doc.soundEffectUrl || doc.files?.soundEffect?.url,
+    soundEffectFilename: doc.files?.soundEffect?.filename,
+    textBoxes: textBoxes.map(normalizeTextBox),
+    isColoringPage: doc.isColoringPage || false,
+    coloringEndModalOnly: doc.coloringEndModalOnly !== false,
+    isWebViewPage: doc.isWebViewPage || false,
+    webView: normalizeWebView(doc.webView),
+    useVideoSequence: doc.useVideoSequence || false,
+    videoSequence: byOrder(doc.videoSequence),
+    useImageSequence: doc.useImageSequence || false,
+    imageSequence: byOrder(doc.imageSequence),
+    imageSequenceDuration: doc.imageSequenceDuration || PAGE_DEFAULTS.imageSequenceDuration,
+    imageSequenceAnimation: doc.imageSequenceAnimation,
+  };
+};
+
+// Everything needed to save a page; _id travels in the URL, mid height is derived
+export type PageDraft = Omit<Page, '_id' | 'scrollMidHeight' | 'soundEffectFilename'> & {
+  textBoxes: (PageTextBox & { id?: string })[];
+};
+
+export interface PagePayload {
+  bookId?: string;
+  pageNumber: number;
+  backgroundUrl: string;
+  backgroundType: Page['backgroundType'];
+  backgroundAudioUrl: string;
+  scrollUrl: string;
+  scrollHeight: number;
+  scrollMidHeight: number;
+  scrollMaxHeight: number;
+  scrollOffsetY: number;
+  scrollOffsetX: number;
+  scrollWidth: number;
+  soundEffectUrl: string;
+  textBoxes: PageTextBox[];
+  isColoringPage: boolean;
+  coloringEndModalOnly: boolean;
+  isWebViewPage: boolean;
+  webView?: PageWebView;
+  useVideoSequence: boolean;
+  videoSequence: PageVideo[];
+  useImageSequence: boolean;
+  imageSequence: PageImage[];
+  imageSequenceDuration: number;
+  imageSequenceAnimation?: string;
+}
+
+// Editor ids are client-side only
+export const toStoredTextBox = (box: PageTextBox & { id?: string }): PageTextBox => {
+  const stored = { ...box };
+  delete stored.id;
+  return stored;
+};
+
+// A box's position and styling as a layout template stores it: no words, inline styles or translations
+export const toLayoutTextBox = (box: PageTextBox & { id?: string }): PageTextBox => {
+  const stored = toStoredTextBox(box);
+  delete stored.spans;
+  delete stored.translations;
+  return { ...stored, text: '' };
+};
+
+export const toPagePayload = (page: PageDraft): PagePayload => ({
+  bookId: page.bookId,
+  pageNumber: page.pageNumber,
+  backgroundUrl: page.backgroundUrl || '',
+  backgroundType: page.backgroundType,
+  backgroundAudioUrl: page.backgroundAudioUrl || '',
+  scrollUrl: page.scrollUrl || '',
+  // The app opens the scroll at scrollHeight (max); swiping down shrinks it to the mid height
+  scrollHeight: page.scrollHeight,
+  scrollMidHeight: deriveScrollMidHeight(page.scrollHeight),
+  scrollMaxHeight: page.scrollHeight,
+  scrollOffsetY: page.scrollOffsetY,
+  scrollOffsetX: page.scrollOffsetX,
+  scrollWidth: page.scrollWidth,
+  soundEffectUrl: page.soundEffectUrl || '',
+  textBoxes: page.textBoxes.map(toStoredTextBox),
+  isColoringPage: page.isColoringPage,
+  coloringEndModalOnly: page.isColoringPage ? page.coloringEndModalOnly : false,
+  isWebViewPage: page.isWebViewPage,
+  webView: page.isWebViewPage ? page.webView : undefined,
+  useVideoSequence: page.useVideoSequence && page.videoSequence.length > 0,
+  videoSequence: byOrder(page.videoSequence),
+  useImageSequence: page.useImageSequence && page.imageSequence.length > 0,
+  imageSequence: byOrder(page.imageSequence),
+  imageSequenceDuration: page.imageSequenceDuration,
+  imageSequenceAnimation: page.imageSequenceAnimation,
+});
+
+// Saves a template's scroll and text box layout onto an existing page. With preserveText the
+// page keeps its words, with their inline styles and translations: they fill the template's
+// boxes in order, and boxes beyond the template's count stay as they are. Otherwise the boxes
+// take the template's text, which is empty unless the template was saved before text was left out.
+export const applyLayoutToPage = (page: Page, layout: PageLayout, preserveText: boolean): PagePayload => {
+  const templateBoxes = layout.textBoxes.map(normalizeTextBox);
+  const textBoxes = preserveText
+    ? [
+        ...templateBoxes.map((box, idx) => {
+          const kept = page.textBoxes[idx];
+          return { ...box, text: kept?.text ?? '', spans: kept?.spans, translations: kept?.translations };
+        }),
+        ...page.textBoxes.slice(templateBoxes.length),
+      ]
+    : templateBoxes;
+
+  return toPagePayload({
+    ...page,
+    scrollUrl: layout.scrollUrl || undefined,
+    scrollHeight: layout.scrollHeight,
+    scrollOffsetY: layout.scrollOffsetY,
+    scrollOffsetX: layout.scrollOffsetX,
+    scrollWidth: layout.scrollWidth,
+    textBoxes,
+  });
+};
+
+// Blank text box where the editor's "Add Text Box" would put one
+const DEFAULT_TEXT_BOX: PageTextBox = {
+  ...TEXT_BOX_DEFAULTS,
+  text: '',
+  x: 50,
+  y: 50,
+  alignment: 'center',
+  fontFamily: 'Patrick Hand',
+};
+
+// Builds a new page around a background and its script text. The text goes into the layout's
+// first text box, replacing any inline styles and translations there (the rest keep whatever
+// the template holds); without a layout it gets a default box.
+export const newPageFromLayout = (
+  page: Pick<PageDraft, 'bookId' | 'pageNumber' | 'backgroundUrl' | 'backgroundType' | 'backgroundAudioUrl'>,
+  layout: PageLayout | null,
+  text: string
+): PagePayload => {
+  const layoutBoxes = (layout?.textBoxes ?? []).map(normalizeTextBox);
+  const [first = DEFAULT_TEXT_BOX, ...rest] = layoutBoxes;
+  const textBoxes = text || layoutBoxes.length ? [{ ...first, text, spans: undefined, translations: undefined }, ...rest] : [];
+
+  return toPagePayload({
+    ...page,
+    scrollUrl: layout?.scrollUrl || undefined,
+    scrollHeight: layout?.scrollHeight ?? PAGE_DEFAULTS.scrollHeight,
+    scrollOffsetY: layout?.scrollOffsetY ?? 0,
+    scrollOffsetX: layout?.scrollOffsetX ?? 0,
+    scrollWidth: layout?.scrollWidth ?? PAGE_DEFAULTS.scrollWidth,
+    textBoxes,
+    isColoringPage: false,
+    coloringEndModalOnly: true,
+    isWebViewPage: false,
+    useVideoSequence: false,
+    videoSequence: [],
+    useImageSequence: false,
+    imageSequence: [],
+    imageSequenceDuration: PAGE_DEFAULTS.imageSequenceDuration,
+  });
+};
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { StoredTextBoxSchema } from './page';
+import { looseModel } from './validation';
+
+// A named scroll + text box layout from /api/page-templates.
+// Templates aren't tied to a book: any book's pages can use any template.
+export const PageTemplateSchema = looseModel({
+  _id: z.string(),
+  name: z.string(),
+  sourceBookId: z.string().optional(), // book the layout was saved from
+  sourceBookTitle: z.string().optional(),
+  thumbnailUrl: z.string().optional(), // background of the page it was saved from
+  scrollUrl: z.string().default(''),
+  scrollHeight: z.number().default(33),
+  scrollOffsetY: z.number().default(0),
+  scrollOffsetX: z.number().default(0),
+  scrollWidth: z.number().default(100),
+  textBoxes: z.array(StoredTextBoxSchema).default([]),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type PageTemplate = z.infer<typeof PageTemplateSchema>;
+
+// The part of a page a template carries
+export type PageLayout = Pick<
+  PageTemplate,
+  'scrollUrl' | 'scrollHeight' | 'scrollOffsetY' | 'scrollOffsetX' | 'scrollWidth' | 'textBoxes'
+>;
+
+export type PageTemplatePayload = PageLayout &
+  Pick<PageTemplate, 'name' | 'sourceBookId' | 'sourceBookTitle' | 'thumbnailUrl'>;
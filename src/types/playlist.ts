@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { ReviewStatusSchema } from './review';
+import { looseModel } from './validation';
+
+// A song or audiobook episode inside a playlist
+export const PlaylistItemSchema = looseModel({
+  _id: z.string(),
+  title: z.string(),
+  author: z.string().optional(),
+  artist: z.string().optional(),
+  description: z.string().optional(),
+  coverImage: z.string().optional(),
+  audioUrl: z.string().default(''),
+  duration: z.number().optional(), // seconds
+  order: z.number().default(0),
+  isMembersOnly: z.boolean().optional(),
+  isFeatured: z.boolean().optional(), // shown on the app home page
+  featuredOrder: z.number().optional(),
+});
+
+export const PlaylistSchema = looseModel({
+  _id: z.string(),
+  title: z.string(),
+  author: z.string().default(''),
+  description: z.string().optional(),
+  coverImage: z.string().optional(),
+  category: z.string().default(''), // category name, kept alongside categories for older app builds
+  categories: z.array(z.string()).optional(),
+  type: z.enum(['Song', 'Audiobook']),
+  items: z.array(PlaylistItemSchema).default([]),
+  status: ReviewStatusSchema.default('draft'), // never archived; unpublish or delete a playlist instead
+  isMembersOnly: z.boolean().optional(),
+  isFeatured: z.boolean().optional(),
+  featuredOrder: z.number().optional(),
+  minAge: z.number().optional(),
+  level: z.string().optional(),
+  // Engagement counters, maintained by the app backend
+  viewCount: z.number().default(0),
+  playCount: z.number().default(0),
+  likeCount: z.number().default(0),
+  favoriteCount: z.number().default(0),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type PlaylistItem = z.infer<typeof PlaylistItemSchema>;
+export type Playlist = z.infer<typeof PlaylistSchema>;
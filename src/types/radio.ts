@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+export const RadioStationSchema = looseModel({
+  _id: z.string().optional(),
+  name: z.string().default(''),
+  tagline: z.string().default(''),
+  coverImageUrl: z.string().optional(),
+  isLive: z.boolean().default(false),
+  hosts: z.array(z.unknown()).optional(),
+  playlists: z.array(z.unknown()).optional(),
+  hostBreakDuration: z.number().optional(), // seconds
+  hostBreakFrequency: z.number().optional(), // songs between breaks
+  devotionalFrequency: z.number().optional(),
+  devotionalDuration: z.number().optional(), // seconds
+  enableDuoDiscussions: z.boolean().optional(),
+  customIntroScript: z.string().optional(),
+  settings: looseModel({
+    shuffleSongs: z.boolean().optional(),
+    rotateHosts: z.boolean().optional(),
+    introJingleUrl: z.string().optional(),
+    outroJingleUrl: z.string().optional(),
+  }).optional(),
+});
+
+export const RadioStatsSchema = looseModel({
+  stationName: z.string().default(''),
+  isLive: z.boolean().default(false),
+  hostsCount: z.number().default(0),
+  playlistsCount: z.number().default(0),
+  segmentsCount: z.number().default(0),
+  pendingSegments: z.number().default(0),
+  readySegments: z.number().default(0),
+});
+
+export const GoogleVoiceSchema = looseModel({
+  name: z.string(),
+  gender: z.string().default(''),
+  description: z.string().default(''),
+  languageCode: z.string(),
+  tier: z.string().optional(),
+});
+
+export const RadioHostSchema = looseModel({
+  _id: z.string(),
+  name: z.string(),
+  personality: z.string().default(''),
+  avatarUrl: z.string().optional(),
+  googleVoice: looseModel({
+    name: z.string(),
+    languageCode: z.string(),
+    pitch: z.number().default(0),
+    speakingRate: z.number().default(1),
+  }),
+  samplePhrases: z.array(z.string()).default([]),
+  gender: z.enum(['male', 'female']),
+  enabled: z.boolean().default(true),
+  order: z.number().default(0),
+});
+
+// A library track the station can rotate through
+export const RadioTrackSchema = looseModel({
+  _id: z.string(),
+  title: z.string(),
+  artist: z.string().optional(),
+  description: z.string().optional(), // gives hosts context to talk about
+  audioUrl: z.string(),
+  coverImage: z.string().optional(),
+  duration: z.number().optional(), // seconds
+  category: z.string(),
+  rotation: z.string(),
+  enabled: z.boolean().default(true),
+  playCount: z.number().default(0),
+  sourcePlaylistId: z.string().optional(),
+  createdAt: z.string().optional(),
+});
+
+export const LibraryStatsSchema = looseModel({
+  totalTracks: z.number().default(0),
+  enabledTracks: z.number().default(0),
+  disabledTracks: z.number().default(0),
+  byCategory: z.record(z.string(), z.number()).default({}),
+  byRotation: z.record(z.string(), z.number()).default({}),
+  totalDurationFormatted: z.string().default(''),
+});
+
+// A generated, voiced host segment played between songs
+export const HostBreakSchema = looseModel({
+  hostId: z.string().optional(),
+  hostName: z.string().optional(),
+  hostAvatar: z.string().optional(),
+  script: z.string(),
+  audioUrl: z.string().optional(), // missing when voicing failed
+  duration: z.number().default(0), // seconds
+});
+
+const TrackRefSchema = looseModel({
+  title: z.string(),
+  artist: z.string().default(''),
+});
+
+export const RadioSegmentSchema = looseModel({
+  _id: z.string(),
+  type: z.enum(['host_break', 'song']),
+  order: z.number(),
+  status: z.enum(['pending', 'generating', 'ready', 'error']),
+  hostId: looseModel({
+    _id: z.string(),
+    name: z.string(),
+    avatarUrl: z.string().optional(),
+  }).optional(),
+  scriptText: z.string().optional(),
+  audioUrl: z.string().optional(),
+  duration: z.number().optional(),
+  songInfo: looseModel({
+    title: z.string(),
+    artist: z.string().default(''),
+    coverImage: z.string().optional(),
+    audioUrl: z.string(),
+    duration: z.number().default(0),
+  }).optional(),
+  nextTrack: TrackRefSchema.optional(),
+  previousTrack: TrackRefSchema.optional(),
+});
+
+export type RadioStation = z.infer<typeof RadioStationSchema>;
+export type RadioStats = z.infer<typeof RadioStatsSchema>;
+export type GoogleVoice = z.infer<typeof GoogleVoiceSchema>;
+export type RadioHost = z.infer<typeof RadioHostSchema>;
+export type RadioTrack = z.infer<typeof RadioTrackSchema>;
+export type LibraryStats = z.infer<typeof LibraryStatsSchema>;
+export type HostBreak = z.infer<typeof HostBreakSchema>;
+export type RadioSegment = z.infer<typeof RadioSegmentSchema>;
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+// Editorial workflow statuses shared by books, playlists and lessons. Work moves
+// draft → in_review → approved → published; a reviewer can send it back to draft.
+// Lessons also use scheduled, and books and lessons archived, outside the workflow.
+export const ReviewStatusSchema = z.enum(['draft', 'in_review', 'approved', 'published']);
+
+export const ReviewDocumentTypeSchema = z.enum(['book', 'playlist', 'lesson']);
+
+export const STATUS_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+// Statuses only the review actions set; status fields in the editors show them but can't pick them
+export const WORKFLOW_ONLY_STATUSES = ['in_review', 'approved'];
+
+// What a review comment points at. Neither set means the document as a whole.
+export const ReviewAnchorSchema = looseModel({
+  pageId: z.string().optional(),
+  pageNumber: z.number().optional(),
+  field: z.string().optional(), // form field name, e.g. "title" or "coverImage"
+  // Pinned comments: where on the page, in percent of its width and height
+  x: z.number().optional(),
+  y: z.number().optional(),
+});
+
+export const ReviewCommentSchema = looseModel({
+  _id: z.string(),
+  documentType: ReviewDocumentTypeSchema,
+  documentId: z.string(),
+  anchor: ReviewAnchorSchema.default({}),
+  body: z.string(),
+  author: looseModel({
+    _id: z.string().optional(),
+    name: z.string().optional(),
+    email: z.string().optional(),
+  }).optional(),
+  createdAt: z.string(),
+  resolved: z.boolean().default(false), // replies follow their thread's first comment
+  parentId: z.string().optional(), // set on replies
+});
+
+// A document waiting on a reviewer or approver, as listed by /api/reviews/queue
+export const ReviewQueueItemSchema = looseModel({
+  _id: z.string(), // id of the book, playlist or lesson
+  documentType: ReviewDocumentTypeSchema,
+  title: z.string().default(''),
+  status: ReviewStatusSchema,
+  submittedAt: z.string().optional(),
+  submittedBy: z.string().optional(), // name or email
+  approvedAt: z.string().optional(),
+  approvedBy: z.string().optional(),
+  openComments: z.number().default(0),
+});
+
+export type ReviewStatus = z.infer<typeof ReviewStatusSchema>;
+export type ReviewDocumentType = z.infer<typeof ReviewDocumentTypeSchema>;
+export type ReviewAnchor = z.infer<typeof ReviewAnchorSchema>;
+export type ReviewComment = z.infer<typeof ReviewCommentSchema>;
+export type ReviewQueueItem = z.infer<typeof ReviewQueueItemSchema>;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+export const RevisionDocumentTypeSchema = z.enum(['book', 'page', 'playlist', 'lesson']);
+
+// One save of a book, page, playlist or lesson, recorded by the backend on every create/update.
+// The snapshot is the whole document as it was stored after that save.
+export const RevisionSchema = looseModel({
+  _id: z.string(),
+  documentType: RevisionDocumentTypeSchema,
+  documentId: z.string(),
+  version: z.number(),
+  createdAt: z.string(),
+  author: looseModel({
+    _id: z.string().optional(),
+    name: z.string().optional(),
+    email: z.string().optional(),
+  }).optional(),
+  snapshot: z.record(z.string(), z.unknown()),
+  restoredFromVersion: z.number().optional(), // set when the save was a rollback
+});
+
+export type RevisionDocumentType = z.infer<typeof RevisionDocumentTypeSchema>;
+export type Revision = z.infer<typeof RevisionSchema>;
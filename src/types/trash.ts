@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { looseModel } from './validation';
+
+export const TrashItemTypeSchema = z.enum(['book', 'page', 'playlist', 'lesson', 'series']);
+
+// A soft-deleted document as listed by /api/trash. The original stays on the backend until it
+// is restored or purged; a book's pages and media references go to the trash with it.
+export const TrashItemSchema = looseModel({
+  _id: z.string(), // id of the deleted document, which restore keeps
+  type: TrashItemTypeSchema,
+  title: z.string().default(''),
+  deletedAt: z.string(),
+  deletedBy: z.string().optional(), // name or email of whoever deleted it
+  purgeAt: z.string().optional(), // when the retention window ends and it is removed for good
+  // Books: what comes back with them on restore
+  pageCount: z.number().optional(),
+  mediaCount: z.number().optional(),
+  // Pages: the book they belong to
+  bookId: z.string().optional(),
+  bookTitle: z.string().optional(),
+  pageNumber: z.number().optional(),
+});
+
+export type TrashItemType = z.infer<typeof TrashItemTypeSchema>;
+export type TrashItem = z.infer<typeof TrashItemSchema>;
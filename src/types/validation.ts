@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+// Thrown when an API response doesn't match the model the portal expects.
+// The message names the endpoint's model and each offending field, so it can be shown as-is.
+export class ApiShapeError extends Error {
+  readonly model: string;
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(model: string, error: z.ZodError) {
+    super(`The server sent ${model} data in an unexpected shape:\n${z.prettifyError(error)}`);
+    this.name = 'ApiShapeError';
+    this.model = model;
+    this.issues = error.issues;
+  }
+}
+
+// Object schema that lets fields the portal doesn't model pass through untouched,
+// so a fetched record can be edited and saved back without losing data.
+// The static type only exposes the modelled fields, which keeps typos a compile error.
+export const looseModel = <Shape extends z.ZodRawShape>(shape: Shape) =>
+  z.looseObject(shape) as unknown as z.ZodObject<Shape>;
+
+// Mongo documents use null for "not set"; the models use optional fields instead
+const dropNulls = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(dropNulls);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== null)
+        .map(([k, v]) => [k, dropNulls(v)])
+    );
+  }
+  return value;
+};
+
+// Validate an API payload against a model schema, throwing ApiShapeError on mismatch
+export const parseModel = <S extends z.ZodType>(schema: S, data: unknown, model: string): z.output<S> => {
+  const result = schema.safeParse(dropNulls(data));
+  if (!result.success) {
+    console.error(`❌ Unexpected ${model} response:`, result.error.issues, data);
+    throw new ApiShapeError(model, result.error);
+  }
+  return result.data;
+};
+
+// Validate a list one record at a time. Records that don't match are logged and left out,
+// so one bad document, such as one with a status the portal doesn't know, can't blank the list.
+export const parseModelList = <S extends z.ZodType>(schema: S, data: unknown, model: string): z.output<S>[] => {
+  if (!Array.isArray(data)) return parseModel(z.array(schema), data, model);
+  const items: z.output<S>[] = [];
+  data.forEach((item, idx) => {
+    const result = schema.safeParse(dropNulls(item));
+    if (result.success) {
+      items.push(result.data);
+    } else {
+      console.error(`❌ Skipped ${model} ${idx + 1} of ${data.length}, unexpected shape:`, result.error.issues, item);
+    }
+  });
+  return items;
+};
@@ -0,0 +1,137 @@
+import { type Book, type Page } from '../types';
+import { CHARACTER_TAG } from './narration';
+
+// Pre-publish checks for a book and its pages. Errors block publishing; warnings are things
+// the app copes with but a reader would likely notice.
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  message: string;
+  // Unset for issues with the book itself
+  pageId?: string;
+  pageNumber?: number;
+}
+
+// The book fields the checks read; BookEdit passes its form state in this shape
+export type ValidatedBook = Pick<
+  Partial<Book>,
+  'coverImage' | 'files' | 'description' | 'introVideoUrl' | 'bookGames' | 'bookVideos' | 'characterVoices'
+>;
+
+// Why a stored media URL won't load in the app, if it won't
+const urlProblem = (url: string): { severity: ValidationSeverity; reason: string } | null => {
+  const trimmed = url.trim();
+  if (!trimmed || trimmed === 'undefined' || trimmed === 'null') return { severity: 'error', reason: 'is empty' };
+  if (trimmed.startsWith('blob:')) return { severity: 'error', reason: 'is a local upload preview (blob:) that has expired' };
+  if (trimmed.startsWith('data:')) return { severity: 'warning', reason: 'is embedded as a data: URL instead of uploaded' };
+  if (trimmed.startsWith('http://')) return { severity: 'warning', reason: 'uses http://, which the iOS app blocks' };
+  return null;
+};
+
+export const extractCharacterTags = (text: string): string[] =>
+  Array.from(text.matchAll(CHARACTER_TAG), (match) => match[1]);
+
+export const validateBook = (book: ValidatedBook, pages: Page[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const bookIssue = (severity: ValidationSeverity, message: string) => issues.push({ severity, message });
+
+  const checkUrl = (url: string | undefined, what: string, page?: Page) => {
+    if (url === undefined) return;
+    const problem = urlProblem(url);
+    if (problem) {
+      issues.push({ severity: problem.severity, message: `${what} ${problem.reason}`, pageId: page?._id, pageNumber: page?.pageNumber });
+    }
+  };
+
+  // Book
+  const cover = book.coverImage || book.files?.coverImage;
+  if (!cover) bookIssue('error', 'No cover image');
+  else checkUrl(cover, 'Cover image');
+  if (!book.description?.trim()) bookIssue('warning', 'No description');
+  if (book.introVideoUrl) checkUrl(book.introVideoUrl, 'Intro video');
+  book.files?.audio?.forEach((file, idx) => checkUrl(file.url, `Background music ${file.filename || idx + 1}`));
+  book.bookGames?.forEach((game) => checkUrl(game.url, `Game "${game.title}"`));
+  book.bookVideos?.forEach((video) => checkUrl(video.videoUrl, `Video "${video.title}"`));
+  book.characterVoices?.forEach((voice) => {
+    if (!voice.voiceId) bookIssue('warning', `Character @${voice.characterName} has no voice selected`);
+  });
+
+  // Page order
+  if (pages.length === 0) {
+    bookIssue('error', 'The book has no pages');
+    return issues;
+  }
+  const numbers = pages.map((page) => page.pageNumber);
+  if (numbers.some((n, idx) => idx > 0 && n < numbers[idx - 1])) {
+    bookIssue('warning', 'Pages are stored out of order');
+  }
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const duplicates = new Set(sorted.filter((n, idx) => idx > 0 && n === sorted[idx - 1]));
+  duplicates.forEach((n) => bookIssue('error', `Page number ${n} is used more than once`));
+  if (sorted[0] !== 1) bookIssue('warning', `The first page is page ${sorted[0]}, not page 1`);
+  const unique = Array.from(new Set(sorted));
+  unique.forEach((n, idx) => {
+    const next = unique[idx + 1];
+    if (next !== undefined && next > n + 1) {
+      bookIssue('warning', next === n + 2 ? `Page ${n + 1} is missing` : `Pages ${n + 1}–${next - 1} are missing`);
+    }
+  });
+
+  // Pages
+  const knownCharacters = new Set((book.characterVoices ?? []).map((voice) => voice.characterName.toLowerCase()));
+  const bookUsesScrolls = pages.some((page) => page.scrollUrl);
+
+  pages.forEach((page) => {
+    const pageIssue = (severity: ValidationSeverity, message: string) =>
+      issues.push({ severity, message, pageId: page._id, pageNumber: page.pageNumber });
+
+    if (page.isWebViewPage) {
+      if (!page.webView?.url && !page.webView?.gameId) pageIssue('error', 'Web view page has no URL or game');
+      else checkUrl(page.webView?.url, 'Web view URL', page);
+    }
+
+    if (page.useVideoSequence) {
+      if (page.videoSequence.length === 0) pageIssue('error', 'Video sequence is on but has no videos');
+      page.videoSequence.forEach((video, idx) => {
+        checkUrl(video.url, `Sequence video ${idx + 1}`, page);
+        if (!video.audioUrl) pageIssue('error', `Sequence video ${idx + 1} has no audioUrl, so it plays silently on iOS`);
+        else checkUrl(video.audioUrl, `Sequence video ${idx + 1} audio`, page);
+      });
+    }
+    if (page.useImageSequence) {
+      if (page.imageSequence.length === 0) pageIssue('error', 'Image sequence is on but has no images');
+      page.imageSequence.forEach((image, idx) => checkUrl(image.url, `Sequence image ${idx + 1}`, page));
+    }
+
+    const hasSequence = (page.useVideoSequence && page.videoSequence.length > 0) || (page.useImageSequence && page.imageSequence.length > 0);
+    if (!page.backgroundUrl && !hasSequence && !page.isWebViewPage) {
+      pageIssue('error', 'No background image or video');
+    }
+    checkUrl(page.backgroundUrl, 'Background', page);
+    if (page.backgroundType === 'video' && page.backgroundUrl && !page.backgroundAudioUrl && !hasSequence) {
+      pageIssue('warning', 'Background video has no extracted audio, so it plays silently on iOS');
+    }
+    checkUrl(page.soundEffectUrl, 'Sound effect', page);
+
+    if (page.scrollUrl) checkUrl(page.scrollUrl, 'Scroll image', page);
+    else if (bookUsesScrolls && page.textBoxes.length > 0) pageIssue('error', 'Missing scroll image behind the text');
+
+    const unknownTags = new Set<string>();
+    page.textBoxes.forEach((box, idx) => {
+      if (!box.text.trim()) pageIssue('error', `Text box ${idx + 1} is empty`);
+      extractCharacterTags(box.text).forEach((name) => {
+        if (!knownCharacters.has(name.toLowerCase())) unknownTags.add(name);
+      });
+    });
+    unknownTags.forEach((name) => pageIssue('error', `@${name} has no character voice mapping`));
+  });
+
+  return issues;
+};
+
+export const countIssues = (issues: ValidationIssue[]) => ({
+  errors: issues.filter((issue) => issue.severity === 'error').length,
+  warnings: issues.filter((issue) => issue.severity === 'warning').length,
+});
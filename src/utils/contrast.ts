@@ -0,0 +1,55 @@
+// WCAG contrast between text and what is behind it, for the page editor's readability checks
+
+export interface Rgba {
+  r: number; // 0-255
+  g: number;
+  b: number;
+  a: number; // 0-1
+}
+
+// Hex (#rgb, #rrggbb, #rrggbbaa) and rgb()/rgba(); null for anything else, like named colors
+export const parseColor = (value: string): Rgba | null => {
+  const color = value.trim().toLowerCase();
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+  }
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]), a: alpha };
+  }
+  if (color === 'white') return { r: 255, g: 255, b: 255, a: 1 };
+  if (color === 'black') return { r: 0, g: 0, b: 0, a: 1 };
+  return null;
+};
+
+// A translucent color drawn over an opaque one
+export const blend = (top: Rgba, bottom: Rgba, alpha = top.a): Rgba => ({
+  r: top.r * alpha + bottom.r * (1 - alpha),
+  g: top.g * alpha + bottom.g * (1 - alpha),
+  b: top.b * alpha + bottom.b * (1 - alpha),
+  a: 1,
+});
+
+const luminance = ({ r, g, b }: Rgba) => {
+  const linear = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+// From 1 (none) to 21 (black on white)
+export const contrastRatio = (a: Rgba, b: Rgba) => {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// WCAG AA: 3:1 is enough for large text (24px, or about 19px bold), 4.5:1 otherwise
+export const requiredContrast = (fontSize: number, bold = false) => (fontSize >= 24 || (bold && fontSize >= 18.66) ? 3 : 4.5);
+
+export const toHex = ({ r, g, b }: Rgba) =>
+  `#${[r, g, b].map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
@@ -0,0 +1,109 @@
+import { type Book, type BookEdition, type Page, type StoredTextBox } from '../types';
+import { extractCharacterTags } from './bookValidation';
+import { type NarrationVoices } from './narration';
+
+// Translated editions of a book. The book's own fields are its base language; each edition
+// adds a title, description and voices, and every text box keeps its translations by locale.
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'pl', label: 'Polish' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'uk', label: 'Ukrainian' },
+  { code: 'tr', label: 'Turkish' },
+  { code: 'ar', label: 'Arabic' },
+  { code: 'he', label: 'Hebrew' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' },
+];
+
+export const languageLabel = (code: string) => LANGUAGES.find((language) => language.code === code)?.label ?? code;
+
+export type LocalizedBook = Pick<Partial<Book>, 'language' | 'editions'>;
+
+export const bookLanguage = (book: LocalizedBook) => book.language || DEFAULT_LANGUAGE;
+
+// The base language first, then each edition
+export const bookLocales = (book: LocalizedBook): string[] => {
+  const base = bookLanguage(book);
+  return [base, ...(book.editions ?? []).map((edition) => edition.locale).filter((locale) => locale !== base)];
+};
+
+export const editionOf = (book: LocalizedBook, locale: string): BookEdition | undefined =>
+  locale === bookLanguage(book) ? undefined : book.editions?.find((edition) => edition.locale === locale);
+
+type TranslatableBox = Pick<StoredTextBox, 'text' | 'translations'>;
+
+// A box's text in a locale; empty while it hasn't been translated
+export const localizedText = (box: TranslatableBox, locale: string, baseLocale: string) =>
+  locale === baseLocale ? box.text : box.translations?.[locale] ?? '';
+
+// What a reader of the edition sees: boxes not translated yet show the base text
+export const readerText = (box: TranslatableBox, locale: string, baseLocale: string) =>
+  localizedText(box, locale, baseLocale) || box.text;
+
+export const withLocalizedText = <T extends TranslatableBox>(box: T, locale: string, baseLocale: string, text: string): T => {
+  if (locale === baseLocale) return { ...box, text };
+  const translations = { ...box.translations };
+  if (text) translations[locale] = text;
+  else delete translations[locale];
+  return { ...box, translations };
+};
+
+// Narration for an edition: its own narrator and character voices, then the book's for the rest
+export const editionVoices = (book: NarrationVoices & LocalizedBook, locale: string): NarrationVoices => {
+  const edition = editionOf(book, locale);
+  if (!edition) return book;
+  return {
+    defaultNarratorVoiceId: edition.narratorVoiceId || book.defaultNarratorVoiceId,
+    defaultVoiceId: book.defaultVoiceId,
+    // narrationSegments takes the first match, so the edition's own voices win
+    characterVoices: [...(edition.characterVoices ?? []).filter((voice) => voice.voiceId), ...(book.characterVoices ?? [])],
+  };
+};
+
+export interface MissingTranslation {
+  locale: string;
+  message: string;
+  // Unset for the edition's title and description
+  pageNumber?: number;
+}
+
+// What each edition still lacks compared with the base text. BookEdit passes its form state.
+export const missingTranslations = (book: LocalizedBook & Pick<Partial<Book>, 'description'>, pages: Page[]): MissingTranslation[] => {
+  const missing: MissingTranslation[] = [];
+  const base = bookLanguage(book);
+
+  (book.editions ?? []).filter((edition) => edition.locale !== base).forEach(({ locale, title, description }) => {
+    if (!title?.trim()) missing.push({ locale, message: 'No title' });
+    if (book.description?.trim() && !description?.trim()) missing.push({ locale, message: 'No description' });
+
+    pages.forEach((page) => {
+      page.textBoxes.forEach((box, idx) => {
+        if (!box.text.trim()) return;
+        const translated = box.translations?.[locale]?.trim();
+        if (!translated) {
+          missing.push({ locale, message: `Text box ${idx + 1} is not translated`, pageNumber: page.pageNumber });
+          return;
+        }
+        // Tags pick the narration voice, so a translation has to keep them
+        const tags = new Set(extractCharacterTags(translated).map((name) => name.toLowerCase()));
+        extractCharacterTags(box.text)
+          .filter((name, i, names) => !tags.has(name.toLowerCase()) && names.indexOf(name) === i)
+          .forEach((name) => missing.push({ locale, message: `Text box ${idx + 1} is missing @${name}`, pageNumber: page.pageNumber }));
+      });
+    });
+  });
+  return missing;
+};
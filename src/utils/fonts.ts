@@ -0,0 +1,40 @@
+import { type Font } from '../types';
+
+// Fonts the portal's index.html loads and the app bundles. They're always registered.
+export const BUILT_IN_FONTS = [
+  'Comic Sans MS',
+  'Bubblegum Sans',
+  'Fredoka One',
+  'Baloo 2',
+  'Chewy',
+  'Luckiest Guy',
+  'Bangers',
+  'Pacifico',
+  'Caveat',
+  'Patrick Hand',
+];
+
+const sameFamily = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// What the page editor offers: built-in fonts, then registered fonts marked available
+export const fontChoices = (fonts: Font[]) => {
+  const choices = [...BUILT_IN_FONTS];
+  for (const font of fonts) {
+    if (font.available && !choices.some((family) => sameFamily(family, font.family))) choices.push(font.family);
+  }
+  return choices;
+};
+
+// Why text in this font may not show as designed, or null if the font is fine to use
+export const fontProblem = (family: string, fonts: Font[]): string | null => {
+  if (BUILT_IN_FONTS.some((builtIn) => sameFamily(builtIn, family))) return null;
+  const registered = fonts.filter((font) => sameFamily(font.family, family));
+  if (registered.some((font) => font.available)) return null;
+  return registered.length
+    ? `${family} isn't marked available on the Fonts page`
+    : `${family} isn't a registered font, so the app shows a fallback font`;
+};
+
+// A family name from a font file's name, e.g. "Happy-Monkey.woff2" -> "Happy Monkey"
+export const familyFromFilename = (filename: string) =>
+  filename.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
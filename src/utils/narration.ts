@@ -0,0 +1,49 @@
+import { type Book } from '../types';
+
+// How the app narrates a text box: text before any tag is read by the book's narrator, and
+// an @Name tag hands the rest of the box (up to the next tag) to that character's voice.
+
+// @Name at the start of a text box or after whitespace
+export const CHARACTER_TAG = /(?:^|\s)@([\p{L}\p{N}_-]+)/gu;
+
+export interface NarrationSegment {
+  text: string;
+  // Unset when the book has no narrator voice; the app then uses the reader's own voice
+  voiceId?: string;
+  character?: string;
+}
+
+export type NarrationVoices = Pick<Book, 'defaultNarratorVoiceId' | 'defaultVoiceId' | 'characterVoices'>;
+
+export const narratorVoiceId = (book: NarrationVoices): string | undefined =>
+  book.defaultNarratorVoiceId || book.defaultVoiceId || undefined;
+
+export const narrationSegments = (text: string, book: NarrationVoices): NarrationSegment[] => {
+  const narrator = narratorVoiceId(book);
+  const voiceOf = (name: string) =>
+    book.characterVoices?.find((voice) => voice.characterName.toLowerCase() === name.toLowerCase())?.voiceId;
+
+  const segments: NarrationSegment[] = [];
+  const push = (segment: NarrationSegment) => {
+    const trimmed = segment.text.trim();
+    if (trimmed) segments.push({ ...segment, text: trimmed });
+  };
+
+  let start = 0;
+  let current: NarrationSegment = { text: '', voiceId: narrator };
+  for (const match of text.matchAll(CHARACTER_TAG)) {
+    push({ ...current, text: text.slice(start, match.index) });
+    const character = match[1];
+    const voiceId = voiceOf(character);
+    if (voiceId) {
+      current = { text: '', voiceId, character };
+      start = match.index + match[0].length;
+    } else {
+      // Unmapped tags are read out by the narrator as written; validation flags them
+      current = { text: '', voiceId: narrator };
+      start = match.index;
+    }
+  }
+  push({ ...current, text: text.slice(start) });
+  return segments;
+};
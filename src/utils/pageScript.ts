@@ -0,0 +1,114 @@
+// Splits a book script into one block of text per page for bulk page import.
+// Text is kept exactly as written, so @Character voice tags reach the text boxes untouched.
+//
+//   .json  ["page one", "page two"], [{ "page": 1, "text": "..." }], or { "pages": [...] }
+//   .csv   a "text" column (and optional "page" column to order by); without a header, the first column
+//   other  plain text, pages separated by lines of --- or, when there are none, by blank lines
+
+export class ScriptParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScriptParseError';
+  }
+}
+
+interface NumberedBlock {
+  page?: number;
+  text: string;
+}
+
+const byPageNumber = (blocks: NumberedBlock[]): string[] =>
+  blocks
+    .map((block, idx) => ({ ...block, idx }))
+    .sort((a, b) => (a.page ?? a.idx + 1) - (b.page ?? b.idx + 1))
+    .map((block) => block.text.trim());
+
+const parseJsonScript = (content: string): string[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new ScriptParseError(`The script is not valid JSON: ${(err as Error).message}`);
+  }
+  const list = Array.isArray(data) ? data : (data as { pages?: unknown })?.pages;
+  if (!Array.isArray(list)) {
+    throw new ScriptParseError('A JSON script must be an array of pages, or an object with a "pages" array.');
+  }
+  return byPageNumber(list.map((item, idx) => {
+    if (typeof item === 'string') return { text: item };
+    if (item && typeof item === 'object' && typeof (item as { text?: unknown }).text === 'string') {
+      const { text, page } = item as { text: string; page?: unknown };
+      return { text, page: typeof page === 'number' ? page : undefined };
+    }
+    throw new ScriptParseError(`Page ${idx + 1} in the JSON script has no "text".`);
+  }));
+};
+
+// RFC 4180 style: quoted fields may hold commas, newlines and doubled quotes
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new ScriptParseError('The CSV script has an unclosed quote.');
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+};
+
+const parseCsvScript = (content: string): string[] => {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const textCol = header.indexOf('text');
+  if (textCol === -1) return rows.map((r) => r[0].trim());
+
+  const pageCol = header.indexOf('page');
+  return byPageNumber(rows.slice(1).map((r) => {
+    const page = pageCol === -1 ? NaN : Number(r[pageCol]);
+    return { text: r[textCol] ?? '', page: Number.isFinite(page) ? page : undefined };
+  }));
+};
+
+const parseTextScript = (content: string): string[] => {
+  const normalized = content.replace(/\r\n?/g, '\n');
+  const separator = /^\s*---+\s*$/m.test(normalized) ? /\n\s*---+\s*(?:\n|$)/ : /\n\s*\n/;
+  return normalized.split(separator).map((block) => block.trim()).filter(Boolean);
+};
+
+export const parsePageScript = (filename: string, content: string): string[] => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'json') return parseJsonScript(content);
+  if (extension === 'csv') return parseCsvScript(content);
+  return parseTextScript(content);
+};
@@ -0,0 +1,72 @@
+import { type CSSProperties } from 'react';
+import { type Page, type PageTextBox, scrollStateHeights } from '../types';
+
+// How the app lays out a page's text, shared by the book preview (which draws it) and the
+// page editor's fit checks (which measure it on every device).
+
+export type DeviceProfileId = 'tablet-p' | 'tablet-l' | 'phone-p' | 'phone-l';
+
+export interface DeviceProfile {
+  id: DeviceProfileId;
+  label: string;
+  width: number; // px, including the preview's frame
+  height: number;
+  radius: number;
+}
+
+export const DEVICE_PROFILES: DeviceProfile[] = [
+  { id: 'tablet-p', label: 'Tablet (P)', width: 768, height: 1024, radius: 24 }, // iPad Miniish
+  { id: 'tablet-l', label: 'Tablet (L)', width: 1024, height: 768, radius: 24 },
+  { id: 'phone-p', label: 'Phone (P)', width: 390, height: 844, radius: 40 }, // iPhone 13ish
+  { id: 'phone-l', label: 'Phone (L)', width: 844, height: 390, radius: 40 },
+];
+
+// The preview's device frame (border-8) sits inside the device size
+export const DEVICE_FRAME_PX = 8;
+
+// The app's scroll swipes between these; it opens at max
+export type ScrollState = 'hidden' | 'mid' | 'max';
+export const SCROLL_STATES: ScrollState[] = ['hidden', 'mid', 'max'];
+
+export type ScrollGeometry = Pick<Page, 'scrollUrl' | 'scrollHeight' | 'scrollMidHeight' | 'scrollOffsetY' | 'scrollOffsetX' | 'scrollWidth'>;
+
+// Text is laid out against the fully open scroll and rides down with its top at mid
+export const textShift = (page: ScrollGeometry, scrollState: ScrollState) => {
+  const heights = scrollStateHeights(page);
+  return page.scrollUrl && scrollState === 'mid' ? heights.max - heights.mid : 0;
+};
+
+// Where the scroll image sits, in percent of the page
+export const scrollRect = (page: ScrollGeometry, scrollState: ScrollState) => {
+  const heights = scrollStateHeights(page);
+  const height = scrollState === 'mid' ? heights.mid : heights.max;
+  const left = 50 + page.scrollOffsetX - page.scrollWidth / 2;
+  return { left, right: left + page.scrollWidth, top: 100 - page.scrollOffsetY - height, height };
+};
+
+// Position, size and font of a text box on the page, before the shift for the scroll state
+export const readerTextBoxLayout = (box: PageTextBox, page: ScrollGeometry, scrollState: ScrollState): CSSProperties => {
+  const shift = textShift(page, scrollState);
+  // Top of the fully open scroll (all values are percentages)
+  const scrollTopVal = `calc(100% - ${scrollStateHeights(page).max}% - ${page.scrollOffsetY}%)`;
+  return {
+    left: `${box.x}%`,
+    // If scroll exists, ensure top is at least the scroll start position
+    top: page.scrollUrl ? `max(${box.y}%, ${scrollTopVal})` : `${box.y}%`,
+    width: `${box.width}%`,
+    textAlign: box.alignment,
+    // Match app: use Patrick Hand (Google Font) with fallbacks
+    fontFamily: box.fontFamily === 'Comic Sans MS'
+      ? "'Patrick Hand', 'Comic Sans MS', 'Bubblegum Sans', cursive"
+      : box.fontFamily,
+    // Match app: scale up 20% when using Patrick Hand (renders smaller than Comic Sans)
+    fontSize: box.fontFamily === 'Comic Sans MS'
+      ? `${Math.round(box.fontSize * 1.2)}px`
+      : `${box.fontSize}px`,
+    // Calculate max height based on the effective top position
+    maxHeight: page.scrollUrl
+      ? `calc(100% - max(${box.y}%, ${scrollTopVal}) - ${shift}% - 40px)`
+      : `calc(100% - ${box.y}% - 40px)`,
+    padding: box.showBackground ? '12px 16px' : '8px',
+  };
+};
@@ -0,0 +1,101 @@
+// Field-level diff between two saved versions of a document, for the revision history panel.
+// Nested objects are walked; arrays of objects (text boxes, videos, episodes, ...) are compared
+// item by item, so a moved text box shows up as its x/y changing rather than a whole new list.
+
+export type FieldChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  path: string;
+  label: string;
+  kind: FieldChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Bookkeeping and counters the app backend maintains; a save never changes them on purpose
+const IGNORED_KEYS = new Set([
+  '_id', '__v', 'createdAt', 'updatedAt', 'viewCount', 'readCount', 'playCount', 'likeCount', 'favoriteCount',
+  'quizStartCount', 'quizCompletionCount', 'coloringSessionsCount', 'gameUnlockCount', 'gameOpenCount',
+  'averageCompletionRate',
+]);
+
+// What one item of a list is called in labels
+const ITEM_NAMES: Record<string, string> = {
+  textBoxes: 'Text box',
+  videoSequence: 'Video',
+  imageSequence: 'Image',
+  bookGames: 'Game',
+  bookVideos: 'Video',
+  characterVoices: 'Character voice',
+  audio: 'Audio',
+  items: 'Item',
+  episodes: 'Episode',
+  questions: 'Question',
+  options: 'Option',
+};
+
+const humanize = (key: string) => {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const same = (a: unknown, b: unknown) => (isEmpty(a) && isEmpty(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+const walk = (before: unknown, after: unknown, path: string, labels: string[], changes: FieldChange[]) => {
+  if (same(before, after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach((key) => {
+      if (IGNORED_KEYS.has(key)) return;
+      walk(before[key], after[key], path ? `${path}.${key}` : key, [...labels, humanize(key)], changes);
+    });
+    return;
+  }
+
+  const listKey = path.split('.').pop() ?? '';
+  const objectList = (value: unknown) => Array.isArray(value) && value.some(isPlainObject);
+  if ((objectList(before) || objectList(after)) && (Array.isArray(before) || isEmpty(before)) && (Array.isArray(after) || isEmpty(after))) {
+    const a = (before as unknown[] | undefined) ?? [];
+    const b = (after as unknown[] | undefined) ?? [];
+    const itemName = ITEM_NAMES[listKey] ?? 'Item';
+    const listLabels = labels.slice(0, -1);
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      walk(a[i], b[i], `${path}[${i}]`, [...listLabels, `${itemName} ${i + 1}`], changes);
+    }
+    return;
+  }
+
+  changes.push({
+    path,
+    label: labels.join(' · '),
+    kind: isEmpty(before) ? 'added' : isEmpty(after) ? 'removed' : 'changed',
+    before,
+    after,
+  });
+};
+
+export const diffDocuments = (before: unknown, after: unknown): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  walk(before, after, '', [], changes);
+  return changes;
+};
+
+// Short display form of a changed value
+export const formatDiffValue = (value: unknown): string => {
+  if (isEmpty(value)) return '(empty)';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value) && !value.some((v) => typeof v === 'object')) return value.join(', ');
+  if (isPlainObject(value) && typeof value.text === 'string') return value.text;
+  if (isPlainObject(value) && typeof value.title === 'string') return value.title;
+  if (isPlainObject(value) && typeof value.url === 'string') return value.url;
+  return JSON.stringify(value);
+};
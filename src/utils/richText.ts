@@ -0,0 +1,98 @@
+import { type CharacterVoice, type TextSpan } from '../types';
+import { CHARACTER_TAG } from './narration';
+
+// Inline styles of a text box, kept as non-overlapping spans over its plain text. Edits go
+// through runs: the text cut at every span boundary, each piece with the style covering it.
+
+export type SpanStyle = Omit<TextSpan, 'start' | 'end'>;
+
+export interface StyledRun {
+  start: number;
+  end: number;
+  style: SpanStyle;
+}
+
+const STYLE_KEYS = ['bold', 'italic', 'color', 'fontSize', 'character'] as const;
+
+const cleanStyle = (style: Partial<SpanStyle>): SpanStyle => {
+  const clean: SpanStyle = {};
+  for (const key of STYLE_KEYS) {
+    if (style[key] !== undefined && style[key] !== false) Object.assign(clean, { [key]: style[key] });
+  }
+  return clean;
+};
+
+const sameStyle = (a: SpanStyle, b: SpanStyle) => STYLE_KEYS.every((key) => a[key] === b[key]);
+
+const isPlain = (style: SpanStyle) => STYLE_KEYS.every((key) => style[key] === undefined);
+
+// The whole text as runs, cut at span boundaries and at any extra cuts asked for
+export const styledRuns = (text: string, spans: TextSpan[] = [], cuts: number[] = []): StyledRun[] => {
+  const clamp = (n: number) => Math.max(0, Math.min(text.length, n));
+  const bounds = Array.from(new Set([0, text.length, ...cuts.map(clamp), ...spans.flatMap((span) => [clamp(span.start), clamp(span.end)])]))
+    .sort((a, b) => a - b);
+  const runs: StyledRun[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const [start, end] = [bounds[i], bounds[i + 1]];
+    const covering = spans.filter((span) => span.start <= start && span.end >= end);
+    runs.push({ start, end, style: cleanStyle(Object.assign({}, ...covering.map(cleanStyle))) });
+  }
+  return runs;
+};
+
+const toSpans = (runs: StyledRun[]): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  for (const run of runs) {
+    if (isPlain(run.style)) continue;
+    const last = spans[spans.length - 1];
+    if (last && last.end === run.start && sameStyle(cleanStyle(last), run.style)) last.end = run.end;
+    else spans.push({ start: run.start, end: run.end, ...run.style });
+  }
+  return spans;
+};
+
+// Sets style fields over [start, end); undefined or false clears a field
+export const applySpanStyle = (text: string, spans: TextSpan[] | undefined, start: number, end: number, patch: Partial<SpanStyle>): TextSpan[] =>
+  toSpans(styledRuns(text, spans, [start, end]).map((run) => (run.start >= start && run.end <= end
+    ? { ...run, style: cleanStyle({ ...run.style, ...patch }) }
+    : run)));
+
+// Whether all of [start, end) has the field set, for toggling bold and italic
+export const rangeHasStyle = (text: string, spans: TextSpan[] | undefined, start: number, end: number, key: 'bold' | 'italic') =>
+  styledRuns(text, spans, [start, end])
+    .filter((run) => run.start >= start && run.end <= end && run.end > run.start)
+    .every((run) => run.style[key]);
+
+// Moves spans along with an edit of the text. Only the changed middle is treated as edited,
+// so typing at the end of a span extends it and typing right before one doesn't.
+export const remapSpans = (spans: TextSpan[] | undefined, before: string, after: string): TextSpan[] | undefined => {
+  if (!spans?.length || before === after) return spans;
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix
+    && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+  const editedEnd = before.length - suffix;
+  const insertedEnd = after.length - suffix;
+  const move = (pos: number) => (pos < prefix ? pos : pos >= editedEnd ? pos + after.length - before.length : insertedEnd);
+  return spans.map((span) => ({ ...span, start: move(span.start), end: move(span.end) })).filter((span) => span.end > span.start);
+};
+
+// Colours each @Character's part of the text, up to the next tag, with that character's voice color
+export const characterSpans = (text: string, spans: TextSpan[] | undefined, characterVoices: CharacterVoice[] = []): TextSpan[] => {
+  const tags = Array.from(text.matchAll(CHARACTER_TAG), (match) => ({
+    name: characterVoices.find((voice) => voice.characterName.toLowerCase() === match[1].toLowerCase())?.characterName,
+    start: match.index + match[0].length - match[1].length - 1, // the @, without the whitespace before it
+  }));
+  return tags.reduce((result, tag, idx) => {
+    if (!tag.name) return result;
+    const end = idx + 1 < tags.length ? tags[idx + 1].start : text.length;
+    const trimmedEnd = tag.start + text.slice(tag.start, end).trimEnd().length;
+    return applySpanStyle(text, result, tag.start, trimmedEnd, { character: tag.name });
+  }, applySpanStyle(text, spans, 0, text.length, { character: undefined }));
+};
+
+export const characterColor = (characterVoices: CharacterVoice[] | undefined, name: string) =>
+  characterVoices?.find((voice) => voice.characterName.toLowerCase() === name.toLowerCase())?.color;
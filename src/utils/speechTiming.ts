@@ -0,0 +1,68 @@
+import { type TtsSpeech } from '../services/api';
+
+// When each word of a narration clip is spoken, for highlighting it as it plays. Timings come
+// from the TTS response when the server returns them, or are estimated from the clip's length.
+
+// Offsets into the text, end exclusive
+export interface SpokenWord {
+  from: number;
+  to: number;
+}
+
+export interface TimedWord extends SpokenWord {
+  start: number; // seconds
+  end: number;
+}
+
+// Emotion and sound effect prompts from /api/tts/enhance, like [laughs], are performed, not read
+const TOKEN = /\[[^\]]*\]|\S+/g;
+
+export const spokenWords = (text: string): SpokenWord[] =>
+  Array.from(text.matchAll(TOKEN))
+    .filter((match) => !match[0].startsWith('['))
+    .map((match) => ({ from: match.index, to: match.index + match[0].length }));
+
+// Null when the response has no timings that line up with the text
+export const returnedTimings = (text: string, speech: TtsSpeech): TimedWord[] | null => {
+  const words = spokenWords(text);
+  const { alignment } = speech;
+  if (alignment && alignment.characters.length === text.length) {
+    return words.map((word) => ({
+      ...word,
+      start: alignment.character_start_times_seconds[word.from],
+      end: alignment.character_end_times_seconds[word.to - 1],
+    }));
+  }
+  const timestamps = speech.words?.filter((timestamp) => !timestamp.word.startsWith('['));
+  if (timestamps && timestamps.length === words.length) {
+    return words.map((word, idx) => ({ ...word, start: timestamps[idx].start, end: timestamps[idx].end }));
+  }
+  return null;
+};
+
+// Spreads the clip over the words by length, with a pause after the end of a clause or sentence
+export const estimatedTimings = (text: string, duration: number): TimedWord[] => {
+  const words = spokenWords(text);
+  const weights = words.map(({ from, to }) => {
+    const word = text.slice(from, to);
+    const pause = /[.!?…]["”')]*$/.test(word) ? 4 : /[,;:—]["”')]*$/.test(word) ? 2 : 0;
+    return word.length + 1 + pause;
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let time = 0;
+  return words.map((word, idx) => {
+    const start = time;
+    time += (duration * weights[idx]) / total;
+    return { ...word, start, end: time };
+  });
+};
+
+// The word being spoken, or the last one started while between words
+export const wordAt = (words: TimedWord[], time: number): TimedWord | undefined => {
+  let current: TimedWord | undefined;
+  for (const word of words) {
+    if (word.start > time) break;
+    current = word;
+  }
+  return current;
+};
@@ -0,0 +1,130 @@
+// Layout math for arranging text boxes on the page canvas.
+// Everything is in canvas percent (0-100), with x/y at the box's top-left corner like TextBox.
+
+export interface BoxRect {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Candidate snap lines: x values are vertical guides, y values horizontal ones
+export interface SnapGuides {
+  x: number[];
+  y: number[];
+}
+
+export type BoxPositions = Record<string, { x: number; y: number }>;
+
+const CANVAS: Omit<BoxRect, 'id'> = { x: 0, y: 0, width: 100, height: 100 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const boundsOf = (rects: BoxRect[]): Omit<BoxRect, 'id'> => {
+  const left = Math.min(...rects.map((r) => r.x));
+  const top = Math.min(...rects.map((r) => r.y));
+  const right = Math.max(...rects.map((r) => r.x + r.width));
+  const bottom = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Aligns boxes to the selection's bounds, or to the canvas when only one box is given
+export const alignBoxes = (rects: BoxRect[], edge: AlignEdge): BoxPositions => {
+  const bounds = rects.length > 1 ? boundsOf(rects) : CANVAS;
+  return Object.fromEntries(rects.map((r) => {
+    switch (edge) {
+      case 'left':
+        return [r.id, { x: bounds.x, y: r.y }];
+      case 'center':
+        return [r.id, { x: bounds.x + (bounds.width - r.width) / 2, y: r.y }];
+      case 'right':
+        return [r.id, { x: bounds.x + bounds.width - r.width, y: r.y }];
+      case 'top':
+        return [r.id, { x: r.x, y: bounds.y }];
+      case 'bottom':
+        return [r.id, { x: r.x, y: bounds.y + bounds.height - r.height }];
+    }
+  }));
+};
+
+// Spaces boxes so the gaps between neighbours are equal; the outermost two stay put.
+// Needs at least three boxes to change anything.
+export const distributeBoxes = (rects: BoxRect[], axis: DistributeAxis): BoxPositions => {
+  const pos = axis === 'horizontal' ? 'x' : 'y';
+  const size = axis === 'horizontal' ? 'width' : 'height';
+  const sorted = [...rects].sort((a, b) => a[pos] - b[pos]);
+  if (sorted.length < 3) {
+    return Object.fromEntries(rects.map((r) => [r.id, { x: r.x, y: r.y }]));
+  }
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const span = last[pos] + last[size] - first[pos];
+  const gap = (span - sorted.reduce((sum, r) => sum + r[size], 0)) / (sorted.length - 1);
+
+  let cursor = first[pos];
+  return Object.fromEntries(sorted.map((r) => {
+    const at = cursor;
+    cursor += r[size] + gap;
+    return [r.id, axis === 'horizontal' ? { x: at, y: r.y } : { x: r.x, y: at }];
+  }));
+};
+
+// Moves every box by the same delta, shrinking the delta so the group stays on the canvas
+export const moveBoxes = (origins: BoxPositions, dx: number, dy: number): BoxPositions => {
+  const points = Object.values(origins);
+  const safeDx = clamp(dx, -Math.min(...points.map((p) => p.x)), 100 - Math.max(...points.map((p) => p.x)));
+  const safeDy = clamp(dy, -Math.min(...points.map((p) => p.y)), 100 - Math.max(...points.map((p) => p.y)));
+  return Object.fromEntries(
+    Object.entries(origins).map(([id, p]) => [id, { x: p.x + safeDx, y: p.y + safeDy }])
+  );
+};
+
+// Guides from the canvas edges and centre, plus the edges and centre of each given rect
+export const buildSnapGuides = (rects: Omit<BoxRect, 'id'>[]): SnapGuides => {
+  const all = [CANVAS, ...rects];
+  return {
+    x: all.flatMap((r) => [r.x, r.x + r.width / 2, r.x + r.width]),
+    y: all.flatMap((r) => [r.y, r.y + r.height / 2, r.y + r.height]),
+  };
+};
+
+const nearestSnap = (edges: number[], guides: number[], threshold: number) => {
+  let best: { offset: number; line: number } | null = null;
+  for (const edge of edges) {
+    for (const line of guides) {
+      const offset = line - edge;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, line };
+      }
+    }
+  }
+  return best;
+};
+
+// Adjusts a drag delta so the moving bounds' nearest edge or centre lands on a guide.
+// Returns the adjusted delta and the guide lines that were hit, for drawing.
+export const snapDelta = (
+  bounds: Omit<BoxRect, 'id'>,
+  dx: number,
+  dy: number,
+  guides: SnapGuides,
+  threshold = 1
+) => {
+  const left = bounds.x + dx;
+  const top = bounds.y + dy;
+  const snapX = nearestSnap([left, left + bounds.width / 2, left + bounds.width], guides.x, threshold);
+  const snapY = nearestSnap([top, top + bounds.height / 2, top + bounds.height], guides.y, threshold);
+  return {
+    dx: dx + (snapX?.offset ?? 0),
+    dy: dy + (snapY?.offset ?? 0),
+    lines: {
+      x: snapX ? [snapX.line] : [],
+      y: snapY ? [snapY.line] : [],
+    } as SnapGuides,
+  };
+};
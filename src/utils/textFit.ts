@@ -0,0 +1,179 @@
+import { type CharacterVoice, type PageTextBox } from '../types';
+import { type Rgba, blend, contrastRatio, parseColor, requiredContrast, toHex } from './contrast';
+import { type ScrollGeometry, type ScrollState, readerTextBoxLayout, scrollRect } from './readerLayout';
+import { characterColor, styledRuns } from './richText';
+
+// Measures text boxes the way the app lays them out on a device, and samples what is drawn
+// behind them. Runs in the browser: boxes are built off screen and read back from the DOM.
+
+export interface BoxFit {
+  // Text taller than the room below the box, so the reader has to scroll it
+  cutOff: boolean;
+  cutOffAtMid: boolean;
+  // A word wider than the box
+  tooWide: boolean;
+  // Percent of the page, with the scroll fully open
+  top: number;
+  bottom: number;
+}
+
+const DEFAULT_BOX_BACKGROUND = 'rgba(255,255,255,0.85)';
+
+const fillText = (el: HTMLElement, box: PageTextBox, characterVoices?: CharacterVoice[]) => {
+  for (const { start, end, style } of styledRuns(box.text, box.spans)) {
+    const span = document.createElement('span');
+    span.textContent = box.text.slice(start, end);
+    if (style.bold) span.style.fontWeight = 'bold';
+    if (style.italic) span.style.fontStyle = 'italic';
+    if (style.fontSize) span.style.fontSize = `${style.fontSize / box.fontSize}em`;
+    const color = (style.character && characterColor(characterVoices, style.character)) || style.color;
+    if (color) span.style.color = color;
+    el.appendChild(span);
+  }
+};
+
+// Wait for document.fonts.ready first, or text is measured in fallback fonts
+export const measureTextFit = (
+  boxes: PageTextBox[],
+  page: ScrollGeometry,
+  size: { width: number; height: number },
+  characterVoices?: CharacterVoice[],
+): BoxFit[] => {
+  const stage = document.createElement('div');
+  Object.assign(stage.style, {
+    position: 'fixed',
+    left: '-100000px',
+    top: '0',
+    width: `${size.width}px`,
+    height: `${size.height}px`,
+    visibility: 'hidden',
+    pointerEvents: 'none',
+  });
+  document.body.appendChild(stage);
+
+  const place = (box: PageTextBox, scrollState: ScrollState) => {
+    const el = document.createElement('div');
+    Object.assign(el.style, readerTextBoxLayout(box, page, scrollState), { position: 'absolute', overflowY: 'auto' });
+    fillText(el, box, characterVoices);
+    stage.appendChild(el);
+    return el;
+  };
+  const overflows = (el: HTMLElement) => el.scrollHeight > el.clientHeight + 1;
+
+  try {
+    return boxes.map((box) => {
+      const open = place(box, 'max');
+      const mid = page.scrollUrl ? place(box, 'mid') : null;
+      return {
+        cutOff: overflows(open),
+        cutOffAtMid: mid ? overflows(mid) : false,
+        tooWide: open.scrollWidth > open.clientWidth + 1,
+        top: (open.offsetTop / size.height) * 100,
+        bottom: ((open.offsetTop + open.offsetHeight) / size.height) * 100,
+      };
+    });
+  } finally {
+    stage.remove();
+  }
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    // Without CORS the canvas can't be read back
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Could not load ${url}`));
+    img.src = url;
+  });
+
+// The page's backdrop as the editor shows it: the background cover-fitted, the scroll stretched
+// over it, black where the app shows no background. Null when an image can't be read, such as
+// media served without CORS headers.
+export const drawBackdrop = async (
+  size: { width: number; height: number },
+  page: ScrollGeometry,
+  backgroundUrl?: string,
+  scrollImageUrl?: string,
+): Promise<CanvasRenderingContext2D | null> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, size.width, size.height);
+  try {
+    if (backgroundUrl) {
+      const img = await loadImage(backgroundUrl);
+      const scale = Math.max(size.width / img.naturalWidth, size.height / img.naturalHeight);
+      const [w, h] = [img.naturalWidth * scale, img.naturalHeight * scale];
+      ctx.drawImage(img, (size.width - w) / 2, (size.height - h) / 2, w, h);
+    }
+    if (scrollImageUrl) {
+      const img = await loadImage(scrollImageUrl);
+      const rect = scrollRect(page, 'max');
+      ctx.drawImage(img, (rect.left / 100) * size.width, (rect.top / 100) * size.height, (page.scrollWidth / 100) * size.width, (rect.height / 100) * size.height);
+    }
+    ctx.getImageData(0, 0, 1, 1); // throws if a cross-origin image got through
+    return ctx;
+  } catch (err) {
+    console.warn('Could not sample the page background for contrast checks:', err);
+    return null;
+  }
+};
+
+// Average color of a region given in percent of the page
+export const averageColor = (ctx: CanvasRenderingContext2D, rect: { left: number; top: number; right: number; bottom: number }): Rgba | null => {
+  const { width, height } = ctx.canvas;
+  const x = Math.max(0, Math.floor((rect.left / 100) * width));
+  const y = Math.max(0, Math.floor((rect.top / 100) * height));
+  const w = Math.min(width - x, Math.ceil(((rect.right - rect.left) / 100) * width));
+  const h = Math.min(height - y, Math.ceil(((rect.bottom - rect.top) / 100) * height));
+  if (w <= 0 || h <= 0) return null;
+  const { data } = ctx.getImageData(x, y, w, h);
+  const sum = { r: 0, g: 0, b: 0 };
+  for (let i = 0; i < data.length; i += 4) {
+    sum.r += data[i];
+    sum.g += data[i + 1];
+    sum.b += data[i + 2];
+  }
+  const count = data.length / 4;
+  return { r: sum.r / count, g: sum.g / count, b: sum.b / count, a: 1 };
+};
+
+export interface ContrastProblem {
+  color: string;
+  ratio: number;
+  required: number;
+}
+
+// Text colors that don't stand out from what is behind the box. Without a box background the
+// text's glow is counted as half covering the backdrop, and nothing is checked if it's unknown.
+export const contrastProblems = (box: PageTextBox, backdrop: Rgba | null, characterVoices?: CharacterVoice[]): ContrastProblem[] => {
+  let behind: Rgba | null;
+  if (box.showBackground) {
+    const fill = parseColor(box.backgroundColor || DEFAULT_BOX_BACKGROUND);
+    behind = fill && (fill.a < 1 ? blend(fill, backdrop ?? { r: 255, g: 255, b: 255, a: 1 }) : fill);
+  } else {
+    behind = backdrop && blend(box.shadowColor === 'black' ? { r: 0, g: 0, b: 0, a: 1 } : { r: 255, g: 255, b: 255, a: 1 }, backdrop, 0.5);
+  }
+  if (!behind) return [];
+
+  const colors = new Map<string, boolean>(); // color, whether any text in it is bold
+  for (const { start, end, style } of styledRuns(box.text, box.spans)) {
+    if (!box.text.slice(start, end).trim()) continue;
+    const color = (style.character && characterColor(characterVoices, style.character)) || style.color || box.color;
+    colors.set(color, Boolean(colors.get(color) || style.bold));
+  }
+
+  const problems: ContrastProblem[] = [];
+  for (const [color, bold] of colors) {
+    const parsed = parseColor(color);
+    if (!parsed) continue;
+    const ratio = contrastRatio(parsed.a < 1 ? blend(parsed, behind) : parsed, behind);
+    const required = requiredContrast(box.fontSize, bold);
+    if (ratio < required) problems.push({ color: parsed.a < 1 ? color : toHex(parsed), ratio, required });
+  }
+  return problems;
+};
@@ -0,0 +1,153 @@
+// Minimal zip archives for book packages. Entries are written uncompressed (stored): the
+// packages are almost all images, video and audio, which don't shrink any further. Reading
+// accepts stored and deflated entries, so a package that was unzipped and re-zipped still
+// imports. Zip64 (archives over 4 GB) is not supported.
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const MAX_32 = 0xffffffff;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as zip headers store them
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()));
+    const size = entry.data.size;
+    if (offset + 30 + name.length + size > MAX_32) throw new ZipError('The package is larger than 4 GB.');
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, UTF8_NAMES, true);
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_NAMES, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, entry.data);
+    central.push(header);
+    offset += local.length + size;
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};
+
+// Entries by name; directories are left out
+export const readZip = async (file: Blob): Promise<Map<string, Blob>> => {
+  // The end record sits in the last 22 bytes plus up to 64 KB of archive comment
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+  let endAt = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endAt = i;
+      break;
+    }
+  }
+  if (endAt < 0) throw new ZipError('The file is not a zip archive.');
+
+  const count = tail.getUint16(endAt + 10, true);
+  const centralSize = tail.getUint32(endAt + 12, true);
+  const centralOffset = tail.getUint32(endAt + 16, true);
+  if (centralOffset === MAX_32 || count === 0xffff) throw new ZipError('Zip64 archives are not supported.');
+
+  const directory = new DataView(await file.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Blob>();
+  let at = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(at, true) !== CENTRAL_HEADER) throw new ZipError('The zip archive is damaged.');
+    const method = directory.getUint16(at + 10, true);
+    const compressedSize = directory.getUint32(at + 20, true);
+    const nameLength = directory.getUint16(at + 28, true);
+    const extraLength = directory.getUint16(at + 30, true);
+    const commentLength = directory.getUint16(at + 32, true);
+    const localOffset = directory.getUint32(at + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, at + 46, nameLength));
+    at += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+    if (compressedSize === MAX_32 || localOffset === MAX_32) throw new ZipError('Zip64 archives are not supported.');
+
+    const local = new DataView(await file.slice(localOffset, localOffset + 30).arrayBuffer());
+    if (local.getUint32(0, true) !== LOCAL_HEADER) throw new ZipError('The zip archive is damaged.');
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const data = file.slice(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, await new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob());
+    } else {
+      throw new ZipError(`${name} uses a compression method the portal can't read.`);
+    }
+  }
+  return entries;
+};